@@ -0,0 +1,30 @@
+import {expect} from 'chai'
+
+import {replaceGlobalCrypto} from './spec-support'
+import {createSecureGenerator, NodeCryptoNumberGenerator, WebCryptoNumberGenerator} from './node'
+
+describe('node', () => {
+  it('exports NodeCryptoNumberGenerator', () => {
+    expect(new NodeCryptoNumberGenerator().nextUint32()).to.be.a('number')
+  })
+
+  it('exports everything from the main entry point', () => {
+    expect(WebCryptoNumberGenerator).to.be.a('function')
+  })
+
+  context('when the global Crypto module is not available', () => {
+    let restoreGlobalCrypto: () => void
+
+    beforeEach(() => {
+      restoreGlobalCrypto = replaceGlobalCrypto(undefined)
+    })
+
+    afterEach(() => {
+      restoreGlobalCrypto()
+    })
+
+    it('uses the crypto module of Node.js for secure random numbers', () => {
+      expect(createSecureGenerator().nextUint32()).to.be.a('number')
+    })
+  })
+})
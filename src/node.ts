@@ -0,0 +1,18 @@
+import {
+  NodeCryptoNumberGenerator,
+  toWebCrypto
+} from './numbers/secure-generation/node-crypto-number-generator'
+import {setFallbackCrypto} from './numbers/secure-generation/secure-source'
+
+export * from './index'
+export {NodeCryptoNumberGenerator} from './numbers/secure-generation/node-crypto-number-generator'
+export type {NodeCryptoNumberGeneratorOptions} from './numbers/secure-generation/node-crypto-number-generator'
+
+/*
+ * In versions of Node.js which do not provide JavaScript's native `Crypto`
+ * module as a global, such as Node.js 14, secure random numbers are instead
+ * generated using the `crypto` module of Node.js.
+ */
+if (NodeCryptoNumberGenerator.isAvailable()) {
+  setFallbackCrypto(toWebCrypto())
+}
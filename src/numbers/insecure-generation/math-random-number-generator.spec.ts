@@ -2,15 +2,19 @@ import {expect} from 'chai'
 import {SinonStub, stub} from 'sinon'
 
 import {
+  MAX_SAFE_FLOAT64_EXCLUSIVE,
+  MAX_SAFE_FLOAT64_INCLUSIVE,
   MAX_SAFE_FRACT32_EXCLUSIVE,
   MAX_SAFE_FRACT32_INCLUSIVE,
   MAX_SAFE_INT32_EXCLUSIVE,
   MAX_SAFE_INT32_INCLUSIVE,
   MAX_SAFE_UINT32_EXCLUSIVE,
   MAX_SAFE_UINT32_INCLUSIVE,
+  MIN_SAFE_FLOAT64_INCLUSIVE,
   MIN_SAFE_FRACT32_INCLUSIVE,
   MIN_SAFE_INT32_INCLUSIVE,
   MIN_SAFE_UINT32_INCLUSIVE,
+  ONE_BIT_AS_FLOAT64,
   ONE_BIT_AS_FRACT32,
   bitwiseFractToFract32,
   bitwiseUint32ToFract32
@@ -28,7 +32,180 @@ describe('numbers > insecure generation > MathRandomNumberGenerator', () => {
       random: stub<[], number>()
     }
 
-    gen = new MathRandomNumberGenerator({math})
+    gen = new MathRandomNumberGenerator({math, rangeStrategy: 'bitmask'})
+  })
+
+  describe('#fillBytes()', () => {
+    it('fills the array with the bytes of generated unsigned 32-bit integers', () => {
+      math.random.onFirstCall().returns(bitwiseUint32ToFract32(0x01020304))
+      math.random.onSecondCall().returns(bitwiseUint32ToFract32(0x05060708))
+      const array = gen.fillBytes(new Uint8Array(6))
+      expect(Array.from(array)).to.deep.equal([1, 2, 3, 4, 5, 6])
+    })
+  })
+
+  describe('#fillFloat32()', () => {
+    it('fills the array with 24-bit decimal fractions', () => {
+      math.random.returns(0.625)
+      const array = gen.fillFloat32(new Float32Array(2))
+      expect(Array.from(array)).to.deep.equal([0.625, 0.625])
+    })
+
+    it('fills the array with values within a given range', () => {
+      math.random.returns(0)
+      const array = gen.fillFloat32(new Float32Array(2), {min: 0.25, max: 0.5, inclusive: true})
+      expect(Array.from(array)).to.deep.equal([0.25, 0.25])
+    })
+  })
+
+  describe('#fillFloat64()', () => {
+    it('fills the array with 53-bit decimal fractions', () => {
+      math.random.returns(0.625)
+      const array = gen.fillFloat64(new Float64Array(2))
+      expect(Array.from(array)).to.deep.equal([0.625 + 0.625 * 2 ** -27, 0.625 + 0.625 * 2 ** -27])
+    })
+  })
+
+  describe('#fillInt32()', () => {
+    it('fills the array with signed 32-bit integers', () => {
+      math.random.returns(0.625)
+      const array = gen.fillInt32(new Int32Array(2))
+      expect(Array.from(array)).to.deep.equal([-1610612736, -1610612736])
+    })
+
+    it('fills the array with values within a given range', () => {
+      math.random.returns(bitwiseUint32ToFract32(6))
+      const array = gen.fillInt32(new Int32Array(2), {min: -3, max: 3, inclusive: true})
+      expect(Array.from(array)).to.deep.equal([3, 3])
+    })
+  })
+
+  describe('#fillUint32()', () => {
+    it('fills the array with unsigned 32-bit integers', () => {
+      math.random.returns(0.625)
+      const array = gen.fillUint32(new Uint32Array(2))
+      expect(Array.from(array)).to.deep.equal([2684354560, 2684354560])
+    })
+
+    it('fills the array with values within a given range', () => {
+      math.random.returns(bitwiseUint32ToFract32(5))
+      const array = gen.fillUint32(new Uint32Array(2), {min: 1, max: 6, inclusive: true})
+      expect(Array.from(array)).to.deep.equal([6, 6])
+    })
+  })
+
+  describe('#nextBigInt()', () => {
+    it('returns an integer no less than the given minimum', () => {
+      math.random.returns(0)
+      const value = gen.nextBigInt(-(2n ** 100n), 2n ** 100n)
+      expect(value).to.equal(-(2n ** 100n))
+    })
+
+    it('returns an integer less than the given maximum', () => {
+      math.random.returns(1 - 1 / Number.MAX_SAFE_INTEGER)
+      const value = gen.nextBigInt(-(2n ** 100n), 2n ** 100n)
+      expect(value).to.equal(2n ** 100n - 1n)
+    })
+
+    it('uses as many generated values as the range requires', () => {
+      math.random.returns(0)
+      gen.nextBigInt(-(2n ** 100n), 2n ** 100n)
+      expect(math.random.callCount).to.equal(4)
+    })
+  })
+
+  describe('#nextBoolean()', () => {
+    it('returns true when the generated fraction is less than 0.5 by default', () => {
+      math.random.returns(bitwiseUint32ToFract32(0x7fffffff))
+      expect(gen.nextBoolean()).to.equal(true)
+    })
+
+    it('returns false when the generated fraction is at least the given probability', () => {
+      math.random.returns(bitwiseUint32ToFract32(0x40000000))
+      expect(gen.nextBoolean(0.25)).to.equal(false)
+    })
+
+    it('accepts a rational probability', () => {
+      math.random.returns(bitwiseUint32ToFract32(0x55555556))
+      expect(gen.nextBoolean(1, 3)).to.equal(false)
+      math.random.returns(bitwiseUint32ToFract32(0x55555554))
+      expect(gen.nextBoolean(1, 3)).to.equal(true)
+    })
+  })
+
+  describe('#nextBytes()', () => {
+    it('returns the bytes of generated unsigned 32-bit integers', () => {
+      math.random.onFirstCall().returns(bitwiseUint32ToFract32(0x01020304))
+      math.random.onSecondCall().returns(bitwiseUint32ToFract32(0x05060708))
+      expect(Array.from(gen.nextBytes(6))).to.deep.equal([1, 2, 3, 4, 5, 6])
+    })
+  })
+
+  describe('#nextFloat()', () => {
+    it('returns a number scaled to the given range', () => {
+      math.random.onFirstCall().returns(0.625)
+      math.random.onSecondCall().returns(0)
+      expect(gen.nextFloat(-5.5, 12.25)).to.equal(5.59375)
+    })
+
+    it('returns a value no less than the given minimum', () => {
+      math.random.returns(0)
+      expect(gen.nextFloat(-5.5, 12.25)).to.equal(-5.5)
+    })
+
+    it('returns a value less than the given maximum', () => {
+      math.random.returns(1 - 1 / Number.MAX_SAFE_INTEGER)
+      expect(gen.nextFloat(-5.5, 12.25)).to.be.lessThan(12.25)
+    })
+  })
+
+  describe('#nextFloatInclusive()', () => {
+    it('returns a value no less than the given minimum', () => {
+      math.random.returns(0)
+      expect(gen.nextFloatInclusive(1, 6)).to.equal(1)
+    })
+
+    it('can return the given maximum', () => {
+      math.random.returns(1 - 1 / Number.MAX_SAFE_INTEGER)
+      expect(gen.nextFloatInclusive(1, 6)).to.equal(6)
+    })
+  })
+
+  describe('#nextFloat64()', () => {
+    it('returns a decimal fraction', () => {
+      math.random.returns(0.625)
+      expect(gen.nextFloat64()).to.equal(0.625 + 0.625 / 2 ** 27)
+    })
+
+    it('uses two generated values for each decimal fraction', () => {
+      math.random.returns(0.625)
+      gen.nextFloat64()
+      expect(math.random.callCount).to.equal(2)
+    })
+
+    it(`returns a value no less than ${MIN_SAFE_FLOAT64_INCLUSIVE}`, () => {
+      math.random.returns(0)
+      const value = gen.nextFloat64()
+      expect(value).to.equal(MIN_SAFE_FLOAT64_INCLUSIVE)
+    })
+
+    it(`returns a value less than ${MAX_SAFE_FLOAT64_EXCLUSIVE}`, () => {
+      math.random.returns(1 - 1 / Number.MAX_SAFE_INTEGER)
+      const value = gen.nextFloat64()
+      expect(value).to.equal(MAX_SAFE_FLOAT64_INCLUSIVE)
+    })
+
+    it('returns a value no less than an optional minimum', () => {
+      math.random.returns(0)
+      const value = gen.nextFloat64(0.375, undefined)
+      expect(value).to.equal(0.375)
+    })
+
+    it('returns a value less than an optional maximum', () => {
+      math.random.returns(1 - 1 / Number.MAX_SAFE_INTEGER)
+      const value = gen.nextFloat64(undefined, 0.5)
+      expect(value).to.equal(0.5 - ONE_BIT_AS_FLOAT64)
+    })
   })
 
   describe('#nextFract32()', () => {
@@ -121,6 +298,12 @@ describe('numbers > insecure generation > MathRandomNumberGenerator', () => {
       expect(value).to.equal(-1)
     })
 
+    it('returns a value no greater than an inclusive maximum', () => {
+      math.random.returns(bitwiseUint32ToFract32(6))
+      const value = gen.nextInt32({min: -3, max: 3, inclusive: true})
+      expect(value).to.equal(3)
+    })
+
     it('returns a value without bias', () => {
       /*
        * minimum:  8192 = 0b0010000000000000
@@ -143,6 +326,45 @@ describe('numbers > insecure generation > MathRandomNumberGenerator', () => {
     })
   })
 
+  describe('#nextInt64()', () => {
+    it('returns a signed 64-bit integer', () => {
+      math.random.returns(0.625)
+      expect(gen.nextInt64()).to.equal(-6917529024956727296n)
+    })
+
+    it('returns a value no less than an optional minimum', () => {
+      math.random.returns(0)
+      const value = gen.nextInt64(-123n, undefined)
+      expect(value).to.equal(-123n)
+    })
+
+    it('returns a value less than an optional maximum', () => {
+      math.random.returns(1 - 1 / Number.MAX_SAFE_INTEGER)
+      const value = gen.nextInt64(undefined, 0n)
+      expect(value).to.equal(-1n)
+    })
+  })
+
+  describe('#nextSafeInteger()', () => {
+    it(`returns a value no less than ${Number.MIN_SAFE_INTEGER}`, () => {
+      math.random.returns(0)
+      const value = gen.nextSafeInteger()
+      expect(value).to.equal(Number.MIN_SAFE_INTEGER)
+    })
+
+    it('returns a value no less than an optional minimum', () => {
+      math.random.returns(0)
+      const value = gen.nextSafeInteger(-10_000_000_000, undefined)
+      expect(value).to.equal(-10_000_000_000)
+    })
+
+    it('returns a value less than an optional maximum', () => {
+      math.random.returns(1 - 1 / Number.MAX_SAFE_INTEGER)
+      const value = gen.nextSafeInteger(0, 2 ** 40)
+      expect(value).to.equal(2 ** 40 - 1)
+    })
+  })
+
   describe('#nextUint32()', () => {
     it('returns an unsigned 32-bit integer', () => {
       math.random.returns(0.625)
@@ -173,6 +395,24 @@ describe('numbers > insecure generation > MathRandomNumberGenerator', () => {
       expect(value).to.equal(255)
     })
 
+    it('returns a value no greater than an inclusive maximum', () => {
+      math.random.returns(bitwiseUint32ToFract32(5))
+      const value = gen.nextUint32({min: 1, max: 6, inclusive: true})
+      expect(value).to.equal(6)
+    })
+
+    it(`returns a value up to ${MAX_SAFE_UINT32_INCLUSIVE} with an inclusive maximum`, () => {
+      math.random.returns(bitwiseUint32ToFract32(MAX_SAFE_UINT32_INCLUSIVE - 1))
+      const value = gen.nextUint32({min: 1, max: MAX_SAFE_UINT32_INCLUSIVE, inclusive: true})
+      expect(value).to.equal(MAX_SAFE_UINT32_INCLUSIVE)
+    })
+
+    it('rejects a maximum given together with range options', () => {
+      expect(() => gen.nextUint32({min: 1}, 7)).to.throw(
+        'Maximum value must be given within the range options.'
+      )
+    })
+
     it('returns a value without bias', () => {
       /*
        * minimum:  8192 = 0b0010000000000000
@@ -193,5 +433,43 @@ describe('numbers > insecure generation > MathRandomNumberGenerator', () => {
       math.random.onSecondCall().returns(bitwiseUint32ToFract32(2159233481))
       expect(gen.nextUint32(8192, 32768)).to.equal(27081)
     })
+
+    context('with the lemire range strategy', () => {
+      it('is not used by default', () => {
+        math.random.returns(bitwiseUint32ToFract32(0x80000001))
+        const gen = new MathRandomNumberGenerator({math})
+        expect(gen.nextUint32(10, 16)).to.equal(11)
+      })
+
+      it('can be given for each call', () => {
+        math.random.returns(bitwiseUint32ToFract32(0x80000001))
+        expect(gen.nextUint32({min: 10, max: 16, strategy: 'lemire'})).to.equal(13)
+      })
+
+      it('can be given to the generator', () => {
+        math.random.returns(bitwiseUint32ToFract32(0x80000001))
+        const gen = new MathRandomNumberGenerator({math, rangeStrategy: 'lemire'})
+        expect(gen.nextUint32(10, 16)).to.equal(13)
+      })
+    })
+  })
+
+  describe('#nextUint64()', () => {
+    it('returns an unsigned 64-bit integer', () => {
+      math.random.returns(0.625)
+      expect(gen.nextUint64()).to.equal(11529215048752824320n)
+    })
+
+    it('returns a value no less than an optional minimum', () => {
+      math.random.returns(0)
+      const value = gen.nextUint64(2n ** 40n, undefined)
+      expect(value).to.equal(2n ** 40n)
+    })
+
+    it('returns a value less than an optional maximum', () => {
+      math.random.returns(1 - 1 / Number.MAX_SAFE_INTEGER)
+      const value = gen.nextUint64(undefined, 2n ** 40n)
+      expect(value).to.equal(2n ** 40n - 1n)
+    })
   })
 })
@@ -4,11 +4,31 @@ import {
   bitwiseUint32ToFract32,
   bitwiseUint32ToInt32
 } from '../../shared'
-import {RandomNumberGenerator} from '../types'
-import {unbiasedRandomFract32, unbiasedRandomInt32, unbiasedRandomUint32} from '../unbiased-random'
+import {RandomNumberGenerator, RangeOptions, RangeStrategy} from '../types'
+import {
+  fillRandomBytes,
+  fillUnbiasedRandomFloat32,
+  fillUnbiasedRandomFloat64,
+  fillUnbiasedRandomInt32,
+  fillUnbiasedRandomUint32,
+  resolveRangeOptions,
+  unbiasedRandomBigInt,
+  unbiasedRandomBoolean,
+  unbiasedRandomBooleanRational,
+  unbiasedRandomFloat,
+  unbiasedRandomFloat64,
+  unbiasedRandomFloatInclusive,
+  unbiasedRandomFract32,
+  unbiasedRandomInt32,
+  unbiasedRandomInt64,
+  unbiasedRandomSafeInteger,
+  unbiasedRandomUint32,
+  unbiasedRandomUint64
+} from '../unbiased-random'
 
 export interface MathRandomNumberGeneratorOptions {
   math?: Math
+  rangeStrategy?: RangeStrategy
 }
 
 /**
@@ -22,6 +42,7 @@ export interface MathRandomNumberGeneratorOptions {
  */
 export class MathRandomNumberGenerator implements RandomNumberGenerator {
   private math: Math
+  private rangeStrategy: RangeStrategy
 
   /**
    * Creates an instance of MathRandomNumberGenerator.
@@ -30,25 +51,173 @@ export class MathRandomNumberGenerator implements RandomNumberGenerator {
    * function, returning a number between `0` (inclusive) and `1` (exclusive).
    * This is a subset of JavaScript's native `Math` module. This value defaults
    * to JavaScript's native `Math` module.
+   * @param {RangeStrategy} [options.rangeStrategy] An optional method used to
+   * reduce generated values to a given range, for methods which accept a number
+   * range. Range options given to a method can override this. This value
+   * defaults to `bitmask`.
    */
   constructor(options: MathRandomNumberGeneratorOptions = {}) {
     this.math = options.math || globalThis.Math
+    this.rangeStrategy = options.rangeStrategy ?? 'bitmask'
+  }
+
+  fillBytes(array: Uint8Array): Uint8Array {
+    return fillRandomBytes(array, () => this.internalNextUint32())
+  }
+
+  fillFloat32(
+    array: Float32Array,
+    minOrOptions?: number | RangeOptions,
+    maxExclusive?: number
+  ): Float32Array {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return fillUnbiasedRandomFloat32(
+      array,
+      min,
+      max,
+      () => this.internalNextUint32(),
+      inclusive,
+      strategy ?? this.rangeStrategy
+    )
+  }
+
+  fillFloat64(
+    array: Float64Array,
+    minOrOptions?: number | RangeOptions,
+    maxExclusive?: number
+  ): Float64Array {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return fillUnbiasedRandomFloat64(
+      array,
+      min,
+      max,
+      () => this.internalNextUint32(),
+      inclusive,
+      strategy ?? this.rangeStrategy
+    )
+  }
+
+  fillInt32(
+    array: Int32Array,
+    minOrOptions?: number | RangeOptions,
+    maxExclusive?: number
+  ): Int32Array {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return fillUnbiasedRandomInt32(
+      array,
+      min,
+      max,
+      () => bitwiseUint32ToInt32(this.internalNextUint32()),
+      inclusive,
+      strategy ?? this.rangeStrategy
+    )
+  }
+
+  fillUint32(
+    array: Uint32Array,
+    minOrOptions?: number | RangeOptions,
+    maxExclusive?: number
+  ): Uint32Array {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return fillUnbiasedRandomUint32(
+      array,
+      min,
+      max,
+      () => this.internalNextUint32(),
+      inclusive,
+      strategy ?? this.rangeStrategy
+    )
+  }
+
+  nextBigInt(minInclusive: bigint, maxExclusive: bigint): bigint {
+    return unbiasedRandomBigInt(minInclusive, maxExclusive, () => this.internalNextUint32())
+  }
+
+  nextBoolean(probabilityOrNumerator: number = 0.5, denominator?: number): boolean {
+    if (denominator == null) {
+      return unbiasedRandomBoolean(probabilityOrNumerator, () => this.internalNextUint32())
+    }
+
+    return unbiasedRandomBooleanRational(probabilityOrNumerator, denominator, () =>
+      this.internalNextUint32()
+    )
+  }
+
+  nextBytes(length: number): Uint8Array {
+    return this.fillBytes(new Uint8Array(length))
+  }
+
+  nextFloat(minInclusive: number, maxExclusive: number): number {
+    return unbiasedRandomFloat(minInclusive, maxExclusive, () => this.internalNextUint32())
+  }
+
+  nextFloatInclusive(minInclusive: number, maxInclusive: number): number {
+    return unbiasedRandomFloatInclusive(minInclusive, maxInclusive, () => this.internalNextUint32())
+  }
+
+  nextFloat64(minOrOptions?: number | RangeOptions, maxExclusive?: number): number {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomFloat64(
+      min,
+      max,
+      () => this.internalNextUint32(),
+      inclusive,
+      strategy ?? this.rangeStrategy
+    )
+  }
+
+  nextFract32(minOrOptions?: number | RangeOptions, maxExclusive?: number): number {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomFract32(
+      min,
+      max,
+      () => bitwiseUint32ToFract32(this.internalNextUint32()),
+      inclusive,
+      strategy ?? this.rangeStrategy
+    )
+  }
+
+  nextInt32(minOrOptions?: number | RangeOptions, maxExclusive?: number): number {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomInt32(
+      min,
+      max,
+      () => bitwiseUint32ToInt32(this.internalNextUint32()),
+      inclusive,
+      strategy ?? this.rangeStrategy
+    )
+  }
+
+  nextInt64(minOrOptions?: bigint | RangeOptions<bigint>, maxExclusive?: bigint): bigint {
+    const {min, max, inclusive} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomInt64(min, max, () => this.internalNextUint32(), inclusive)
   }
 
-  nextFract32(minInclusive?: number, maxExclusive?: number): number {
-    return unbiasedRandomFract32(minInclusive, maxExclusive, () =>
-      bitwiseUint32ToFract32(this.internalNextUint32())
+  nextSafeInteger(minOrOptions?: number | RangeOptions, maxExclusive?: number): number {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomSafeInteger(
+      min,
+      max,
+      () => this.internalNextUint32(),
+      inclusive,
+      strategy ?? this.rangeStrategy
     )
   }
 
-  nextInt32(minInclusive?: number, maxExclusive?: number): number {
-    return unbiasedRandomInt32(minInclusive, maxExclusive, () =>
-      bitwiseUint32ToInt32(this.internalNextUint32())
+  nextUint32(minOrOptions?: number | RangeOptions, maxExclusive?: number): number {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomUint32(
+      min,
+      max,
+      () => this.internalNextUint32(),
+      inclusive,
+      strategy ?? this.rangeStrategy
     )
   }
 
-  nextUint32(minInclusive?: number, maxExclusive?: number): number {
-    return unbiasedRandomUint32(minInclusive, maxExclusive, () => this.internalNextUint32())
+  nextUint64(minOrOptions?: bigint | RangeOptions<bigint>, maxExclusive?: bigint): bigint {
+    const {min, max, inclusive} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomUint64(min, max, () => this.internalNextUint32(), inclusive)
   }
 
   protected internalNextUint32(): number {
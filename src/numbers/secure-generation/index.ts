@@ -1 +1,2 @@
+export * from './secure-generator'
 export * from './web-crypto-number-generator'
@@ -0,0 +1,96 @@
+import {expect} from 'chai'
+import {randomFillSync} from 'crypto'
+import {spy} from 'sinon'
+
+import {MAX_SAFE_UINT32_EXCLUSIVE, MIN_SAFE_UINT32_INCLUSIVE, NodeCrypto} from '../../shared'
+import {iterateForMinAndMax, WebCryptoDouble} from '../../spec-support'
+import {NodeCryptoNumberGenerator} from './node-crypto-number-generator'
+
+describe('numbers > secure generation > NodeCryptoNumberGenerator', () => {
+  let webCrypto: WebCryptoDouble
+  let crypto: NodeCrypto
+
+  beforeEach(() => {
+    webCrypto = new WebCryptoDouble()
+    crypto = {
+      randomFillSync(buffer: Uint8Array): Uint8Array {
+        return webCrypto.getRandomValues(buffer)
+      }
+    }
+  })
+
+  it('requests random bytes using randomFillSync', () => {
+    const randomFillSync = spy(crypto, 'randomFillSync')
+    webCrypto.pushSequenceValues([0, 0, 0, 1])
+    webCrypto.pushSequenceValues([0, 0, 0, 2])
+    const gen = new NodeCryptoNumberGenerator({crypto})
+    expect([gen.nextUint32(), gen.nextUint32()]).to.deep.equal([1, 2])
+    expect(randomFillSync.callCount).to.equal(2)
+  })
+
+  it('requests random bytes using webcrypto when available', () => {
+    const randomFillSync = spy(crypto, 'randomFillSync')
+    webCrypto.pushSequenceValues([0, 0, 0, 3])
+    const gen = new NodeCryptoNumberGenerator({crypto: {...crypto, webcrypto: webCrypto}})
+    expect(gen.nextUint32()).to.equal(3)
+    expect(randomFillSync.callCount).to.equal(0)
+  })
+
+  it('requests random bytes in groups of the given buffer size', () => {
+    const randomFillSync = spy(crypto, 'randomFillSync')
+    webCrypto.pushSequenceValues([0, 0, 0, 1, 0, 0, 0, 2])
+    const gen = new NodeCryptoNumberGenerator({bufferSize: 8, crypto})
+    expect([gen.nextUint32(), gen.nextUint32()]).to.deep.equal([1, 2])
+    expect(randomFillSync.callCount).to.equal(1)
+  })
+
+  it('rejects a buffer size which is not a multiple of 4', () => {
+    expect(() => new NodeCryptoNumberGenerator({bufferSize: 6, crypto})).to.throw(
+      'Buffer size must be a multiple of 4.'
+    )
+  })
+
+  it('rejects a crypto module without randomFillSync', () => {
+    expect(() => new NodeCryptoNumberGenerator({crypto: {} as NodeCrypto})).to.throw(
+      'The crypto module of Node.js is not available.'
+    )
+  })
+
+  describe('.isAvailable()', () => {
+    it('returns true within Node.js', () => {
+      expect(NodeCryptoNumberGenerator.isAvailable()).to.be.true
+    })
+  })
+
+  context('with the real crypto module', () => {
+    /*
+     * These are smoke tests of the default `crypto` module of Node.js, which
+     * provides `webcrypto` in some versions and only `randomFillSync` in others.
+     */
+
+    it('returns 32-bit unsigned integers within the maximum range', () => {
+      const gen = new NodeCryptoNumberGenerator()
+      const {min, max} = iterateForMinAndMax(() => gen.nextUint32(), 100)
+      expect(min).to.be.greaterThanOrEqual(MIN_SAFE_UINT32_INCLUSIVE)
+      expect(max).to.be.lessThan(MAX_SAFE_UINT32_EXCLUSIVE)
+    })
+
+    it('returns different values with each call', () => {
+      const gen = new NodeCryptoNumberGenerator()
+      const values = new Set(Array.from({length: 100}, () => gen.nextUint32()))
+      expect(values.size).to.be.greaterThan(90)
+    })
+
+    it('fills a buffer larger than a single value', () => {
+      const gen = new NodeCryptoNumberGenerator({bufferSize: 1024})
+      const values = new Set(Array.from({length: 512}, () => gen.nextUint32()))
+      expect(values.size).to.be.greaterThan(500)
+    })
+
+    it('generates values using only randomFillSync', () => {
+      const gen = new NodeCryptoNumberGenerator({crypto: {randomFillSync}})
+      const values = new Set(Array.from({length: 100}, () => gen.nextUint32()))
+      expect(values.size).to.be.greaterThan(90)
+    })
+  })
+})
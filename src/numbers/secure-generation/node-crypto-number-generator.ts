@@ -0,0 +1,94 @@
+import * as crypto from 'crypto'
+
+import {NodeCrypto, WebCrypto} from '../../shared'
+import {
+  WebCryptoNumberGenerator,
+  WebCryptoNumberGeneratorOptions
+} from './web-crypto-number-generator'
+
+export interface NodeCryptoNumberGeneratorOptions
+  extends Omit<WebCryptoNumberGeneratorOptions, 'crypto'> {
+  crypto?: NodeCrypto
+}
+
+// `webcrypto` is only present in versions of Node.js from 15 onward.
+const {randomFillSync, webcrypto} = crypto
+const nodeCrypto: NodeCrypto = {
+  randomFillSync,
+  webcrypto: isWebCrypto(webcrypto) ? webcrypto : undefined
+}
+
+/**
+ * A class with methods to generate random numbers using the `crypto` module of
+ * Node.js. This allows for secure random numbers in versions of Node.js which
+ * do not provide JavaScript's native `Crypto` module as a global, such as
+ * Node.js 14. When constrained with optional minimums and/or maximums, numbers
+ * are generated without additional bias.
+ *
+ * @export
+ * @class NodeCryptoNumberGenerator
+ * @extends {WebCryptoNumberGenerator}
+ */
+export class NodeCryptoNumberGenerator extends WebCryptoNumberGenerator {
+  /**
+   * Returns whether the `crypto` module of Node.js is available within the
+   * current environment, such that this generator can be used without
+   * giving a substitute.
+   *
+   * @static
+   * @returns {boolean} Whether the `crypto` module of Node.js is available.
+   */
+  static isAvailable(): boolean {
+    return typeof nodeCrypto.randomFillSync === 'function'
+  }
+
+  /**
+   * Creates an instance of NodeCryptoNumberGenerator.
+   *
+   * Random bytes are requested from `crypto.webcrypto` when available, and
+   * from `crypto.randomFillSync` otherwise.
+   *
+   * @param {number} [options.bufferSize] An optional number of random bytes to
+   * request from the `crypto` module at once, as with
+   * `WebCryptoNumberGenerator`.
+   * @param {NodeCrypto} [options.crypto] An optional object which implements a
+   * `randomFillSync` function, populating a given `Uint8Array` with random
+   * bytes. This is a subset of the `crypto` module of Node.js, which this value
+   * defaults to.
+   * @param {RangeStrategy} [options.rangeStrategy] An optional method used to
+   * reduce generated values to a given range, for methods which accept a number
+   * range. Range options given to a method can override this. This value
+   * defaults to `bitmask`.
+   */
+  constructor(options: NodeCryptoNumberGeneratorOptions = {}) {
+    super({...options, crypto: toWebCrypto(options.crypto)})
+  }
+}
+
+export function toWebCrypto(source: NodeCrypto = nodeCrypto): WebCrypto {
+  if (source.webcrypto) {
+    return source.webcrypto
+  }
+
+  if (typeof source.randomFillSync !== 'function') {
+    throw new Error('The crypto module of Node.js is not available.')
+  }
+
+  return {
+    getRandomValues<T extends ArrayBufferView | null>(array: T): T {
+      if (array != null) {
+        source.randomFillSync(new Uint8Array(array.buffer, array.byteOffset, array.byteLength))
+      }
+
+      return array
+    }
+  }
+}
+
+/*
+ * The type declarations of Node.js omit `getRandomValues` from `webcrypto`,
+ * which it implements in the versions of Node.js where `webcrypto` exists.
+ */
+function isWebCrypto(value: unknown): value is WebCrypto {
+  return typeof (value as Partial<WebCrypto> | undefined)?.getRandomValues === 'function'
+}
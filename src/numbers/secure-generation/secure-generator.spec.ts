@@ -0,0 +1,79 @@
+import {expect} from 'chai'
+
+import {replaceFallbackCrypto, replaceGlobalCrypto, WebCryptoDouble} from '../../spec-support'
+import {createSecureGenerator} from './secure-generator'
+import {WebCryptoNumberGenerator} from './web-crypto-number-generator'
+
+describe('numbers > secure generation > secure generator', () => {
+  describe('.createSecureGenerator()', () => {
+    let fallbackCrypto: WebCryptoDouble
+    let restoreFallbackCrypto: () => void
+    let restoreGlobalCrypto: () => void
+
+    beforeEach(() => {
+      fallbackCrypto = new WebCryptoDouble()
+      restoreFallbackCrypto = replaceFallbackCrypto(fallbackCrypto)
+    })
+
+    afterEach(() => {
+      restoreFallbackCrypto()
+      restoreGlobalCrypto()
+    })
+
+    context('when the global Crypto module is available', () => {
+      let crypto: WebCryptoDouble
+
+      beforeEach(() => {
+        crypto = new WebCryptoDouble()
+        restoreGlobalCrypto = replaceGlobalCrypto(crypto)
+      })
+
+      it('returns a generator using the global Crypto module', () => {
+        crypto.pushSequenceValues([0, 0, 0, 5])
+        fallbackCrypto.pushSequenceValues([0, 0, 0, 9])
+        expect(createSecureGenerator().nextUint32()).to.equal(5)
+      })
+
+      it('applies the given options', () => {
+        crypto.pushSequenceValues([0, 0, 0, 1, 0, 0, 0, 2])
+        const gen = createSecureGenerator({bufferSize: 8})
+        expect([gen.nextUint32(), gen.nextUint32()]).to.deep.equal([1, 2])
+      })
+    })
+
+    context('when only the crypto module of Node.js is available', () => {
+      beforeEach(() => {
+        restoreGlobalCrypto = replaceGlobalCrypto(undefined)
+      })
+
+      it('returns a generator using the crypto module of Node.js', () => {
+        fallbackCrypto.pushSequenceValues([0, 0, 0, 9])
+        expect(createSecureGenerator().nextUint32()).to.equal(9)
+      })
+
+      it('applies the given options', () => {
+        expect(() => createSecureGenerator({bufferSize: 6})).to.throw(
+          'Buffer size must be a multiple of 4.'
+        )
+      })
+    })
+
+    context('when no secure source is available', () => {
+      beforeEach(() => {
+        restoreGlobalCrypto = replaceGlobalCrypto(undefined)
+        replaceFallbackCrypto(undefined)
+      })
+
+      it('throws rather than using an insecure source', () => {
+        expect(() => createSecureGenerator()).to.throw(
+          'No secure source of random numbers is available.'
+        )
+      })
+    })
+
+    it('returns instances of WebCryptoNumberGenerator', () => {
+      restoreGlobalCrypto = replaceGlobalCrypto(undefined)
+      expect(createSecureGenerator()).to.be.an.instanceOf(WebCryptoNumberGenerator)
+    })
+  })
+})
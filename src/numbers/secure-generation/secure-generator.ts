@@ -0,0 +1,27 @@
+import {
+  WebCryptoNumberGenerator,
+  WebCryptoNumberGeneratorOptions
+} from './web-crypto-number-generator'
+
+export type SecureGeneratorOptions = Omit<WebCryptoNumberGeneratorOptions, 'crypto'>
+
+/**
+ * A function which returns a generator of secure random numbers using the
+ * source available within the current environment. JavaScript's native
+ * `Crypto` module is used when available. Otherwise, the `crypto` module of
+ * Node.js is used when imported from the `node` entry point of this package.
+ *
+ * Unlike `randomSeed`, this never falls back to `Math.random`, which is not
+ * suitable for values which must be unpredictable.
+ *
+ * @export
+ * @param {SecureGeneratorOptions} [options] Optional `bufferSize` and
+ * `rangeStrategy` options for the generator.
+ * @returns {WebCryptoNumberGenerator} A generator of secure random numbers.
+ * @throws {Error} When no secure source of random numbers is available.
+ */
+export function createSecureGenerator(
+  options: SecureGeneratorOptions = {}
+): WebCryptoNumberGenerator {
+  return new WebCryptoNumberGenerator(options)
+}
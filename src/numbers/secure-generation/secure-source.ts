@@ -0,0 +1,19 @@
+import {WebCrypto} from '../../shared'
+
+let fallbackCrypto: WebCrypto | undefined
+
+/*
+ * Returns JavaScript's native `Crypto` module when available. Otherwise, this
+ * returns any substitute given by an entry point for a specific environment,
+ * such as the `crypto` module of Node.js given by the `node` entry point.
+ */
+export function getSecureCrypto(): WebCrypto | undefined {
+  return globalThis.crypto ?? fallbackCrypto
+}
+
+// Returns the previous substitute, so that it can be restored.
+export function setFallbackCrypto(crypto: WebCrypto | undefined): WebCrypto | undefined {
+  const previousCrypto = fallbackCrypto
+  fallbackCrypto = crypto
+  return previousCrypto
+}
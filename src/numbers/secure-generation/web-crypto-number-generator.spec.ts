@@ -1,21 +1,33 @@
 import {expect} from 'chai'
+import {spy} from 'sinon'
 
 import {
+  MAX_SAFE_FLOAT32_INCLUSIVE,
+  MAX_SAFE_FLOAT64_EXCLUSIVE,
+  MAX_SAFE_FLOAT64_INCLUSIVE,
   MAX_SAFE_FRACT32_EXCLUSIVE,
   MAX_SAFE_FRACT32_INCLUSIVE,
   MAX_SAFE_INT32_EXCLUSIVE,
   MAX_SAFE_INT32_INCLUSIVE,
   MAX_SAFE_UINT32_EXCLUSIVE,
   MAX_SAFE_UINT32_INCLUSIVE,
+  MIN_SAFE_FLOAT64_INCLUSIVE,
   MIN_SAFE_FRACT32_INCLUSIVE,
   MIN_SAFE_INT32_INCLUSIVE,
   MIN_SAFE_UINT32_INCLUSIVE,
+  ONE_BIT_AS_FLOAT64,
   ONE_BIT_AS_FRACT32,
   WebCrypto,
   bitwiseFractToFract32,
   bitwiseUint32ToFract32
 } from '../../shared'
-import {iterateForMinAndMax, WebCryptoDouble} from '../../spec-support'
+import {
+  iterateForMinAndMax,
+  loadRealCrypto,
+  replaceFallbackCrypto,
+  replaceGlobalCrypto,
+  WebCryptoDouble
+} from '../../spec-support'
 import {WebCryptoNumberGenerator} from './web-crypto-number-generator'
 
 describe('numbers > secure generation > WebCryptoNumberGenerator', () => {
@@ -25,6 +37,282 @@ describe('numbers > secure generation > WebCryptoNumberGenerator', () => {
     crypto = new WebCryptoDouble()
   })
 
+  it('requests random bytes for each value by default', () => {
+    const getRandomValues = spy(crypto, 'getRandomValues')
+    crypto.pushSequenceValues([0, 0, 0, 1])
+    crypto.pushSequenceValues([0, 0, 0, 2])
+    const gen = new WebCryptoNumberGenerator({crypto})
+    gen.nextUint32()
+    gen.nextUint32()
+    expect(getRandomValues.callCount).to.equal(2)
+  })
+
+  context('when the global Crypto module is not available', () => {
+    let restoreFallbackCrypto: () => void
+    let restoreGlobalCrypto: () => void
+
+    beforeEach(() => {
+      restoreFallbackCrypto = replaceFallbackCrypto(crypto)
+      restoreGlobalCrypto = replaceGlobalCrypto(undefined)
+    })
+
+    afterEach(() => {
+      restoreFallbackCrypto()
+      restoreGlobalCrypto()
+    })
+
+    it('uses the crypto module of Node.js when available', () => {
+      crypto.pushSequenceValues([0, 0, 0, 5])
+      expect(new WebCryptoNumberGenerator().nextUint32()).to.equal(5)
+    })
+
+    it('rejects instantiation when no secure source is available', () => {
+      replaceFallbackCrypto(undefined)
+      expect(() => new WebCryptoNumberGenerator()).to.throw(
+        'No secure source of random numbers is available.'
+      )
+    })
+  })
+
+  context('with a buffer size', () => {
+    it('requests random bytes in groups of the given size', () => {
+      const getRandomValues = spy(crypto, 'getRandomValues')
+      crypto.pushSequenceValues([0, 0, 0, 1, 0, 0, 0, 2])
+      const gen = new WebCryptoNumberGenerator({bufferSize: 8, crypto})
+      expect([gen.nextUint32(), gen.nextUint32()]).to.deep.equal([1, 2])
+      expect(getRandomValues.callCount).to.equal(1)
+    })
+
+    it('requests more random bytes once the buffered bytes are used', () => {
+      crypto.pushSequenceValues([0, 0, 0, 1, 0, 0, 0, 2])
+      crypto.pushSequenceValues([0, 0, 0, 3, 0, 0, 0, 4])
+      const gen = new WebCryptoNumberGenerator({bufferSize: 8, crypto})
+      gen.nextUint32()
+      gen.nextUint32()
+      expect(gen.nextUint32()).to.equal(3)
+    })
+
+    it('zeroes buffered bytes once used', () => {
+      const getRandomValues = spy(crypto, 'getRandomValues')
+      crypto.pushSequenceValues([1, 2, 3, 4, 5, 6, 7, 8])
+      const gen = new WebCryptoNumberGenerator({bufferSize: 8, crypto})
+      gen.nextUint32()
+      const buffer = getRandomValues.firstCall.args[0] as Uint8Array
+      expect(Array.from(buffer)).to.deep.equal([0, 0, 0, 0, 5, 6, 7, 8])
+    })
+
+    it('rejects a buffer size which is not a multiple of 4', () => {
+      expect(() => new WebCryptoNumberGenerator({bufferSize: 6, crypto})).to.throw(
+        'Buffer size must be a multiple of 4.'
+      )
+    })
+
+    it('rejects a buffer size less than 4', () => {
+      expect(() => new WebCryptoNumberGenerator({bufferSize: 0, crypto})).to.throw()
+    })
+
+    it('rejects a buffer size greater than 65536', () => {
+      expect(() => new WebCryptoNumberGenerator({bufferSize: 65540, crypto})).to.throw()
+    })
+  })
+
+  describe('#fillBytes()', () => {
+    it('fills the array with random bytes requested directly', () => {
+      const getRandomValues = spy(crypto, 'getRandomValues')
+      crypto.pushSequenceValues([1, 2, 3, 4, 5, 6])
+      const gen = new WebCryptoNumberGenerator({crypto})
+      const array = gen.fillBytes(new Uint8Array(6))
+      expect(Array.from(array)).to.deep.equal([1, 2, 3, 4, 5, 6])
+      expect(getRandomValues.callCount).to.equal(1)
+    })
+
+    it('requests no more than 65536 random bytes at once', () => {
+      const getRandomValues = spy(crypto, 'getRandomValues')
+      crypto.pushSequenceValues([1])
+      crypto.pushSequenceValues([2])
+      crypto.pushSequenceValues([3])
+      const gen = new WebCryptoNumberGenerator({crypto})
+      const array = gen.fillBytes(new Uint8Array(65536 * 2 + 4))
+      expect(getRandomValues.args.map(([bytes]) => bytes!.byteLength)).to.deep.equal([
+        65536, 65536, 4
+      ])
+      expect([array[0], array[65536], array[131072]]).to.deep.equal([1, 2, 3])
+    })
+
+    it('does not use buffered random bytes', () => {
+      crypto.pushSequenceValues([0, 0, 0, 1, 0, 0, 0, 2])
+      crypto.pushSequenceValues([5, 6, 7, 8])
+      const gen = new WebCryptoNumberGenerator({bufferSize: 8, crypto})
+      gen.nextUint32()
+      expect(Array.from(gen.fillBytes(new Uint8Array(4)))).to.deep.equal([5, 6, 7, 8])
+      expect(gen.nextUint32()).to.equal(2)
+    })
+  })
+
+  describe('#fillFloat32()', () => {
+    it('fills the array with 24-bit decimal fractions', () => {
+      crypto.pushSequenceValues([160, 0, 0, 0])
+      crypto.pushSequenceValues([255, 255, 255, 255])
+      const gen = new WebCryptoNumberGenerator({crypto})
+      const array = gen.fillFloat32(new Float32Array(2))
+      expect(Array.from(array)).to.deep.equal([0.625, MAX_SAFE_FLOAT32_INCLUSIVE])
+    })
+  })
+
+  describe('#fillFloat64()', () => {
+    it('fills the array with 53-bit decimal fractions', () => {
+      crypto.pushSequenceValues([160, 0, 0, 0])
+      crypto.pushSequenceValues([0, 0, 0, 0])
+      crypto.pushSequenceValues([0, 0, 0, 0])
+      crypto.pushSequenceValues([0, 0, 0, 0])
+      const gen = new WebCryptoNumberGenerator({crypto})
+      const array = gen.fillFloat64(new Float64Array(2))
+      expect(Array.from(array)).to.deep.equal([0.625, 0])
+    })
+  })
+
+  describe('#fillInt32()', () => {
+    it('fills the array with signed 32-bit integers from random bytes requested directly', () => {
+      const getRandomValues = spy(crypto, 'getRandomValues')
+      crypto.pushSequenceValues([255, 255, 255, 255, 0, 0, 0, 0])
+      const gen = new WebCryptoNumberGenerator({crypto})
+      const array = gen.fillInt32(new Int32Array(2))
+      expect(Array.from(array)).to.deep.equal([-1, 0])
+      expect(getRandomValues.callCount).to.equal(1)
+    })
+
+    it('fills the array with values within a given range', () => {
+      crypto.pushSequenceValues([0, 0, 0, 6])
+      crypto.pushSequenceValues([0, 0, 0, 0])
+      const gen = new WebCryptoNumberGenerator({crypto})
+      const array = gen.fillInt32(new Int32Array(2), {min: -3, max: 3, inclusive: true})
+      expect(Array.from(array)).to.deep.equal([3, -3])
+    })
+  })
+
+  describe('#fillUint32()', () => {
+    it('fills the array with unsigned 32-bit integers from random bytes requested directly', () => {
+      const getRandomValues = spy(crypto, 'getRandomValues')
+      crypto.pushSequenceValues([128, 128, 128, 128, 255, 255, 255, 255])
+      const gen = new WebCryptoNumberGenerator({crypto})
+      const array = gen.fillUint32(new Uint32Array(2))
+      expect(Array.from(array)).to.deep.equal([2155905152, MAX_SAFE_UINT32_INCLUSIVE])
+      expect(getRandomValues.callCount).to.equal(1)
+    })
+
+    it('fills the array with values within a given range', () => {
+      crypto.pushSequenceValues([0, 0, 0, 5])
+      crypto.pushSequenceValues([0, 0, 0, 0])
+      const gen = new WebCryptoNumberGenerator({crypto})
+      const array = gen.fillUint32(new Uint32Array(2), {min: 1, max: 6, inclusive: true})
+      expect(Array.from(array)).to.deep.equal([6, 1])
+    })
+  })
+
+  describe('#nextBigInt()', () => {
+    it('returns an integer composed from as many generated values as needed', () => {
+      crypto.pushSequenceValues([0, 0, 0, 1])
+      crypto.pushSequenceValues([0, 0, 0, 2])
+      crypto.pushSequenceValues([0, 0, 0, 3])
+      const gen = new WebCryptoNumberGenerator({crypto})
+      expect(gen.nextBigInt(0n, 2n ** 96n)).to.equal((1n << 64n) + (2n << 32n) + 3n)
+    })
+
+    it('returns an integer no less than the given minimum', () => {
+      crypto.pushSequenceValues([0, 0, 0, 0])
+      crypto.pushSequenceValues([0, 0, 0, 0])
+      const gen = new WebCryptoNumberGenerator({crypto})
+      expect(gen.nextBigInt(-(2n ** 40n), 2n ** 40n)).to.equal(-(2n ** 40n))
+    })
+  })
+
+  describe('#nextBoolean()', () => {
+    it('returns true when the generated fraction is less than 0.5 by default', () => {
+      crypto.pushSequenceValues([127, 255, 255, 255])
+      const gen = new WebCryptoNumberGenerator({crypto})
+      expect(gen.nextBoolean()).to.equal(true)
+    })
+
+    it('returns false when the generated fraction is at least the given probability', () => {
+      crypto.pushSequenceValues([64, 0, 0, 0])
+      const gen = new WebCryptoNumberGenerator({crypto})
+      expect(gen.nextBoolean(0.25)).to.equal(false)
+    })
+
+    it('accepts a rational probability', () => {
+      crypto.pushSequenceValues([0x55, 0x55, 0x55, 0x54])
+      const gen = new WebCryptoNumberGenerator({crypto})
+      expect(gen.nextBoolean(1, 3)).to.equal(true)
+    })
+  })
+
+  describe('#nextBytes()', () => {
+    it('returns random bytes requested directly', () => {
+      crypto.pushSequenceValues([1, 2, 3, 4, 5, 6])
+      const gen = new WebCryptoNumberGenerator({crypto})
+      expect(Array.from(gen.nextBytes(6))).to.deep.equal([1, 2, 3, 4, 5, 6])
+    })
+  })
+
+  describe('#nextFloat()', () => {
+    it('returns a number scaled to the given range', () => {
+      crypto.pushSequenceValues([160, 0, 0, 0])
+      crypto.pushSequenceValues([0, 0, 0, 0])
+      const gen = new WebCryptoNumberGenerator({crypto})
+      expect(gen.nextFloat(-5.5, 12.25)).to.equal(5.59375)
+    })
+  })
+
+  describe('#nextFloatInclusive()', () => {
+    it('can return the given maximum', () => {
+      crypto.pushSequenceValues([255, 255, 255, 255])
+      crypto.pushSequenceValues([255, 255, 255, 255])
+      const gen = new WebCryptoNumberGenerator({crypto})
+      expect(gen.nextFloatInclusive(1, 6)).to.equal(6)
+    })
+  })
+
+  describe('#nextFloat64()', () => {
+    it('returns a decimal fraction composed from two generated values', () => {
+      crypto.pushSequenceValues([160, 0, 0, 0])
+      crypto.pushSequenceValues([0, 0, 0, 192])
+      const gen = new WebCryptoNumberGenerator({crypto})
+      expect(gen.nextFloat64()).to.equal(0.625 + 3 * ONE_BIT_AS_FLOAT64)
+    })
+
+    it(`returns a value no less than ${MIN_SAFE_FLOAT64_INCLUSIVE}`, () => {
+      crypto.pushSequenceValues([0, 0, 0, 0])
+      crypto.pushSequenceValues([0, 0, 0, 0])
+      const gen = new WebCryptoNumberGenerator({crypto})
+      const value = gen.nextFloat64()
+      expect(value).to.equal(MIN_SAFE_FLOAT64_INCLUSIVE)
+    })
+
+    it(`returns a value less than ${MAX_SAFE_FLOAT64_EXCLUSIVE}`, () => {
+      crypto.pushSequenceValues([255, 255, 255, 255])
+      crypto.pushSequenceValues([255, 255, 255, 255])
+      const gen = new WebCryptoNumberGenerator({crypto})
+      const value = gen.nextFloat64()
+      expect(value).to.equal(MAX_SAFE_FLOAT64_INCLUSIVE)
+    })
+
+    it('returns a value no less than an optional minimum', () => {
+      crypto.pushSequenceValues([0, 0, 0, 0])
+      crypto.pushSequenceValues([0, 0, 0, 0])
+      const gen = new WebCryptoNumberGenerator({crypto})
+      const value = gen.nextFloat64(0.375, undefined)
+      expect(value).to.equal(0.375)
+    })
+
+    it('returns a value less than an optional maximum', () => {
+      crypto.pushSequenceValues([255, 255, 255, 255])
+      crypto.pushSequenceValues([255, 255, 255, 255])
+      const gen = new WebCryptoNumberGenerator({crypto})
+      const value = gen.nextFloat64(undefined, 0.5)
+      expect(value).to.equal(0.5 - ONE_BIT_AS_FLOAT64)
+    })
+  })
+
   describe('#nextFract32()', () => {
     it('returns a decimal fraction', () => {
       crypto.pushSequenceValues([96, 0, 0, 0])
@@ -127,6 +415,13 @@ describe('numbers > secure generation > WebCryptoNumberGenerator', () => {
       expect(value).to.equal(-1)
     })
 
+    it('returns a value no greater than an inclusive maximum', () => {
+      crypto.pushSequenceValues([0, 0, 0, 6])
+      const gen = new WebCryptoNumberGenerator({crypto})
+      const value = gen.nextInt32({min: -3, max: 3, inclusive: true})
+      expect(value).to.equal(3)
+    })
+
     it('returns a value without bias', () => {
       /*
        * minimum:  8192 = 0b0010000000000000
@@ -150,6 +445,38 @@ describe('numbers > secure generation > WebCryptoNumberGenerator', () => {
     })
   })
 
+  describe('#nextInt64()', () => {
+    it('returns a signed 64-bit integer', () => {
+      crypto.pushSequenceValues([160, 0, 0, 0])
+      crypto.pushSequenceValues([160, 0, 0, 0])
+      const gen = new WebCryptoNumberGenerator({crypto})
+      expect(gen.nextInt64()).to.equal(-6917529024956727296n)
+    })
+
+    it('returns a value no less than an optional minimum', () => {
+      crypto.pushSequenceValues([0, 0, 0, 0])
+      crypto.pushSequenceValues([0, 0, 0, 0])
+      const gen = new WebCryptoNumberGenerator({crypto})
+      expect(gen.nextInt64(-123n, undefined)).to.equal(-123n)
+    })
+  })
+
+  describe('#nextSafeInteger()', () => {
+    it('returns a safe integer composed from two generated values', () => {
+      crypto.pushSequenceValues([0, 0, 0, 1])
+      crypto.pushSequenceValues([0, 0, 0, 2])
+      const gen = new WebCryptoNumberGenerator({crypto})
+      expect(gen.nextSafeInteger(0, 2 ** 40)).to.equal(2 ** 32 + 2)
+    })
+
+    it('returns a value no less than an optional minimum', () => {
+      crypto.pushSequenceValues([0, 0, 0, 0])
+      crypto.pushSequenceValues([0, 0, 0, 0])
+      const gen = new WebCryptoNumberGenerator({crypto})
+      expect(gen.nextSafeInteger(-10_000_000_000, undefined)).to.equal(-10_000_000_000)
+    })
+  })
+
   describe('#nextUint32()', () => {
     it('returns an unsigned 32-bit integer', () => {
       crypto.pushSequenceValues([128, 128, 128, 128])
@@ -185,6 +512,20 @@ describe('numbers > secure generation > WebCryptoNumberGenerator', () => {
       expect(value).to.equal(255)
     })
 
+    it('returns a value no greater than an inclusive maximum', () => {
+      crypto.pushSequenceValues([0, 0, 0, 5])
+      const gen = new WebCryptoNumberGenerator({crypto})
+      const value = gen.nextUint32({min: 1, max: 6, inclusive: true})
+      expect(value).to.equal(6)
+    })
+
+    it(`returns a value up to ${MAX_SAFE_UINT32_INCLUSIVE} with an inclusive maximum`, () => {
+      crypto.pushSequenceValues([255, 255, 255, 254])
+      const gen = new WebCryptoNumberGenerator({crypto})
+      const value = gen.nextUint32({min: 1, max: MAX_SAFE_UINT32_INCLUSIVE, inclusive: true})
+      expect(value).to.equal(MAX_SAFE_UINT32_INCLUSIVE)
+    })
+
     it('returns a value without bias', () => {
       /*
        * minimum:  8192 = 0b0010000000000000
@@ -208,13 +549,48 @@ describe('numbers > secure generation > WebCryptoNumberGenerator', () => {
     })
   })
 
+  describe('#nextUint64()', () => {
+    it('returns an unsigned 64-bit integer', () => {
+      crypto.pushSequenceValues([160, 0, 0, 0])
+      crypto.pushSequenceValues([160, 0, 0, 0])
+      const gen = new WebCryptoNumberGenerator({crypto})
+      expect(gen.nextUint64()).to.equal(11529215048752824320n)
+    })
+
+    it('returns a value less than an optional maximum', () => {
+      crypto.pushSequenceValues([255, 255, 255, 255])
+      crypto.pushSequenceValues([255, 255, 255, 255])
+      const gen = new WebCryptoNumberGenerator({crypto})
+      expect(gen.nextUint64(undefined, 2n ** 40n)).to.equal(2n ** 40n - 1n)
+    })
+  })
+
+  describe('#wipeBuffer()', () => {
+    it('zeroes any buffered bytes', () => {
+      const getRandomValues = spy(crypto, 'getRandomValues')
+      crypto.pushSequenceValues([1, 2, 3, 4, 5, 6, 7, 8])
+      const gen = new WebCryptoNumberGenerator({bufferSize: 8, crypto})
+      gen.nextUint32()
+      gen.wipeBuffer()
+      const buffer = getRandomValues.firstCall.args[0] as Uint8Array
+      expect(Array.from(buffer)).to.deep.equal([0, 0, 0, 0, 0, 0, 0, 0])
+    })
+
+    it('causes the next value to use newly-requested random bytes', () => {
+      crypto.pushSequenceValues([0, 0, 0, 1, 0, 0, 0, 2])
+      crypto.pushSequenceValues([0, 0, 0, 3, 0, 0, 0, 4])
+      const gen = new WebCryptoNumberGenerator({bufferSize: 8, crypto})
+      gen.nextUint32()
+      gen.wipeBuffer()
+      expect(gen.nextUint32()).to.equal(3)
+    })
+  })
+
   context('with the real Crypto API', () => {
-    let crypto: WebCrypto = globalThis.crypto
+    let crypto: WebCrypto
 
-    before(async () => {
-      if (crypto == null) {
-        crypto = (await import('crypto')).webcrypto as unknown as WebCrypto
-      }
+    before(() => {
+      crypto = loadRealCrypto()
     })
 
     /*
@@ -226,6 +602,22 @@ describe('numbers > secure generation > WebCryptoNumberGenerator', () => {
      * object are required to guarantee the correct behavior.
      */
 
+    describe('#nextFloat64()', () => {
+      it('returns 53-bit decimal fractions within a given range', () => {
+        const gen = new WebCryptoNumberGenerator({crypto})
+        const {min, max} = iterateForMinAndMax(() => gen.nextFloat64(0.375, 0.6875), 100)
+        expect(min).to.be.greaterThanOrEqual(0.375)
+        expect(max).to.be.lessThan(0.6875)
+      })
+
+      it('returns 53-bit decimal fractions within the maximum range', () => {
+        const gen = new WebCryptoNumberGenerator({crypto})
+        const {min, max} = iterateForMinAndMax(() => gen.nextFloat64(), 100)
+        expect(min).to.be.greaterThanOrEqual(MIN_SAFE_FLOAT64_INCLUSIVE)
+        expect(max).to.be.lessThan(MAX_SAFE_FLOAT64_EXCLUSIVE)
+      })
+    })
+
     describe('#nextFract32()', () => {
       it('returns 32-bit decimal fractions within a given range', () => {
         const gen = new WebCryptoNumberGenerator({crypto})
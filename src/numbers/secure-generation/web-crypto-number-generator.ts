@@ -2,16 +2,41 @@ import {
   WebCrypto,
   bitwiseUint32ToFract32,
   bitwiseUint32ToInt32,
-  getRandomBytes,
   uint8ArrayToUint32
 } from '../../shared'
-import {RandomNumberGenerator} from '../types'
-import {unbiasedRandomFract32, unbiasedRandomInt32, unbiasedRandomUint32} from '../unbiased-random'
+import {RandomNumberGenerator, RangeOptions, RangeStrategy} from '../types'
+import {
+  fillUnbiasedRandomFloat32,
+  fillUnbiasedRandomFloat64,
+  fillUnbiasedRandomInt32,
+  fillUnbiasedRandomUint32,
+  resolveRangeOptions,
+  unbiasedRandomBigInt,
+  unbiasedRandomBoolean,
+  unbiasedRandomBooleanRational,
+  unbiasedRandomFloat,
+  unbiasedRandomFloat64,
+  unbiasedRandomFloatInclusive,
+  unbiasedRandomFract32,
+  unbiasedRandomInt32,
+  unbiasedRandomInt64,
+  unbiasedRandomSafeInteger,
+  unbiasedRandomUint32,
+  unbiasedRandomUint64
+} from '../unbiased-random'
+import {getSecureCrypto} from './secure-source'
 
 export interface WebCryptoNumberGeneratorOptions {
+  bufferSize?: number
   crypto?: WebCrypto
+  rangeStrategy?: RangeStrategy
 }
 
+/*
+ * `getRandomValues` throws when asked for more than 65536 bytes at once.
+ */
+const MAX_BUFFER_SIZE = 65536
+
 /**
  * A class with methods to generate random numbers using JavaScript's native
  * `Crypto` module. When constrained with optional minimums and/or maximums,
@@ -22,40 +47,263 @@ export interface WebCryptoNumberGeneratorOptions {
  * @implements {RandomNumberGenerator}
  */
 export class WebCryptoNumberGenerator implements RandomNumberGenerator {
+  private buffer: Uint8Array
+  private bufferOffset: number
   private crypto: WebCrypto
+  private rangeStrategy: RangeStrategy
 
   /**
    * Creates an instance of WebCryptoNumberGenerator.
    *
-   * This generator is not usable in an environment where Javascript's `Crypto`
-   * module is not available and a substititute is not given.
+   * An error is thrown in an environment where Javascript's `Crypto` module is
+   * not available and a substititute is not given. Importing the `node` entry
+   * point of this package provides the `crypto` module of Node.js as the
+   * substitute in versions of Node.js without the global `Crypto` module.
    *
+   * @param {number} [options.bufferSize] An optional number of random bytes to
+   * request from the `Crypto` module at once. Unused bytes are kept in an
+   * internal buffer until needed, which greatly reduces the number of requests
+   * when generating many values. This must be a multiple of `4`, no greater
+   * than `65536`. This value defaults to `4`, with every 32-bit value generated
+   * internally being requested separately, so that no unused random bytes are
+   * kept in memory unless requested. Filling an array without a range requests
+   * its bytes directly, regardless of this value.
    * @param {WebCrypto} [options.crypto] An optional object which implements a
    * `getRandomValues` function, populating a given `Uint8Array` with random
    * bytes. This is a subset of JavaScript's native `Crypto` module. This value
-   * defaults to JavaScript's native `Crypto` module, when available.
+   * defaults to JavaScript's native `Crypto` module, when available, and to the
+   * `crypto` module of Node.js otherwise, once the `node` entry point of this
+   * package is imported.
+   * @param {RangeStrategy} [options.rangeStrategy] An optional method used to
+   * reduce generated values to a given range, for methods which accept a number
+   * range. Range options given to a method can override this. This value
+   * defaults to `bitmask`.
    */
   constructor(options: WebCryptoNumberGeneratorOptions = {}) {
-    this.crypto = options.crypto || globalThis.crypto
+    const {bufferSize = 4} = options
+
+    if (!Number.isInteger(bufferSize) || bufferSize < 4 || bufferSize > MAX_BUFFER_SIZE) {
+      throw new Error(`Buffer size must be an integer between 4 and ${MAX_BUFFER_SIZE}.`)
+    }
+
+    if (bufferSize % 4 !== 0) {
+      throw new Error('Buffer size must be a multiple of 4.')
+    }
+
+    this.buffer = new Uint8Array(bufferSize)
+    this.bufferOffset = bufferSize
+    const crypto = options.crypto || getSecureCrypto()
+
+    if (crypto == null) {
+      throw new Error('No secure source of random numbers is available.')
+    }
+
+    this.crypto = crypto
+    this.rangeStrategy = options.rangeStrategy ?? 'bitmask'
+  }
+
+  fillBytes(array: Uint8Array): Uint8Array {
+    return this.fillRandomValues(array)
+  }
+
+  fillFloat32(
+    array: Float32Array,
+    minOrOptions?: number | RangeOptions,
+    maxExclusive?: number
+  ): Float32Array {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return fillUnbiasedRandomFloat32(
+      array,
+      min,
+      max,
+      () => this.internalNextUint32(),
+      inclusive,
+      strategy ?? this.rangeStrategy
+    )
+  }
+
+  fillFloat64(
+    array: Float64Array,
+    minOrOptions?: number | RangeOptions,
+    maxExclusive?: number
+  ): Float64Array {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return fillUnbiasedRandomFloat64(
+      array,
+      min,
+      max,
+      () => this.internalNextUint32(),
+      inclusive,
+      strategy ?? this.rangeStrategy
+    )
+  }
+
+  fillInt32(
+    array: Int32Array,
+    minOrOptions?: number | RangeOptions,
+    maxExclusive?: number
+  ): Int32Array {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+
+    if (min == null && max == null) {
+      return this.fillRandomValues(array)
+    }
+
+    return fillUnbiasedRandomInt32(
+      array,
+      min,
+      max,
+      () => bitwiseUint32ToInt32(this.internalNextUint32()),
+      inclusive,
+      strategy ?? this.rangeStrategy
+    )
+  }
+
+  fillUint32(
+    array: Uint32Array,
+    minOrOptions?: number | RangeOptions,
+    maxExclusive?: number
+  ): Uint32Array {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+
+    if (min == null && max == null) {
+      return this.fillRandomValues(array)
+    }
+
+    return fillUnbiasedRandomUint32(
+      array,
+      min,
+      max,
+      () => this.internalNextUint32(),
+      inclusive,
+      strategy ?? this.rangeStrategy
+    )
+  }
+
+  nextBigInt(minInclusive: bigint, maxExclusive: bigint): bigint {
+    return unbiasedRandomBigInt(minInclusive, maxExclusive, () => this.internalNextUint32())
+  }
+
+  nextBoolean(probabilityOrNumerator: number = 0.5, denominator?: number): boolean {
+    if (denominator == null) {
+      return unbiasedRandomBoolean(probabilityOrNumerator, () => this.internalNextUint32())
+    }
+
+    return unbiasedRandomBooleanRational(probabilityOrNumerator, denominator, () =>
+      this.internalNextUint32()
+    )
+  }
+
+  nextBytes(length: number): Uint8Array {
+    return this.fillBytes(new Uint8Array(length))
+  }
+
+  nextFloat(minInclusive: number, maxExclusive: number): number {
+    return unbiasedRandomFloat(minInclusive, maxExclusive, () => this.internalNextUint32())
+  }
+
+  nextFloatInclusive(minInclusive: number, maxInclusive: number): number {
+    return unbiasedRandomFloatInclusive(minInclusive, maxInclusive, () => this.internalNextUint32())
+  }
+
+  nextFloat64(minOrOptions?: number | RangeOptions, maxExclusive?: number): number {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomFloat64(
+      min,
+      max,
+      () => this.internalNextUint32(),
+      inclusive,
+      strategy ?? this.rangeStrategy
+    )
+  }
+
+  nextFract32(minOrOptions?: number | RangeOptions, maxExclusive?: number): number {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomFract32(
+      min,
+      max,
+      () => bitwiseUint32ToFract32(this.internalNextUint32()),
+      inclusive,
+      strategy ?? this.rangeStrategy
+    )
+  }
+
+  nextInt32(minOrOptions?: number | RangeOptions, maxExclusive?: number): number {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomInt32(
+      min,
+      max,
+      () => bitwiseUint32ToInt32(this.internalNextUint32()),
+      inclusive,
+      strategy ?? this.rangeStrategy
+    )
+  }
+
+  nextInt64(minOrOptions?: bigint | RangeOptions<bigint>, maxExclusive?: bigint): bigint {
+    const {min, max, inclusive} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomInt64(min, max, () => this.internalNextUint32(), inclusive)
   }
 
-  nextFract32(minInclusive?: number, maxExclusive?: number): number {
-    return unbiasedRandomFract32(minInclusive, maxExclusive, () =>
-      bitwiseUint32ToFract32(this.internalNextUint32())
+  nextSafeInteger(minOrOptions?: number | RangeOptions, maxExclusive?: number): number {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomSafeInteger(
+      min,
+      max,
+      () => this.internalNextUint32(),
+      inclusive,
+      strategy ?? this.rangeStrategy
     )
   }
 
-  nextInt32(minInclusive?: number, maxExclusive?: number): number {
-    return unbiasedRandomInt32(minInclusive, maxExclusive, () =>
-      bitwiseUint32ToInt32(this.internalNextUint32())
+  nextUint32(minOrOptions?: number | RangeOptions, maxExclusive?: number): number {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomUint32(
+      min,
+      max,
+      () => this.internalNextUint32(),
+      inclusive,
+      strategy ?? this.rangeStrategy
     )
   }
 
-  nextUint32(minInclusive?: number, maxExclusive?: number): number {
-    return unbiasedRandomUint32(minInclusive, maxExclusive, () => this.internalNextUint32())
+  nextUint64(minOrOptions?: bigint | RangeOptions<bigint>, maxExclusive?: bigint): bigint {
+    const {min, max, inclusive} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomUint64(min, max, () => this.internalNextUint32(), inclusive)
+  }
+
+  /**
+   * A method which zeroes any random bytes held in the internal buffer. The
+   * next value to be generated will request new random bytes from the `Crypto`
+   * module.
+   */
+  wipeBuffer(): void {
+    this.buffer.fill(0)
+    this.bufferOffset = this.buffer.length
   }
 
   protected internalNextUint32(): number {
-    return uint8ArrayToUint32(getRandomBytes(4, this.crypto))
+    if (this.bufferOffset === this.buffer.length) {
+      this.crypto.getRandomValues(this.buffer)
+      this.bufferOffset = 0
+    }
+
+    const bytes = this.buffer.subarray(this.bufferOffset, this.bufferOffset + 4)
+    const uint32 = uint8ArrayToUint32(bytes)
+
+    // Bytes are zeroed once used, so that only unused bytes remain buffered.
+    bytes.fill(0)
+    this.bufferOffset += 4
+
+    return uint32
+  }
+
+  private fillRandomValues<T extends Int32Array | Uint8Array | Uint32Array>(array: T): T {
+    const bytes = new Uint8Array(array.buffer, array.byteOffset, array.byteLength)
+
+    for (let offset = 0; offset < bytes.length; offset += MAX_BUFFER_SIZE) {
+      this.crypto.getRandomValues(bytes.subarray(offset, offset + MAX_BUFFER_SIZE))
+    }
+
+    return array
   }
 }
@@ -1,14 +1,17 @@
 import {expect} from 'chai'
 
 import {
+  MAX_SAFE_FLOAT64_EXCLUSIVE,
   MAX_SAFE_FRACT32_EXCLUSIVE,
   MAX_SAFE_INT32_INCLUSIVE,
   MAX_SAFE_UINT32_INCLUSIVE,
+  MIN_SAFE_FLOAT64_INCLUSIVE,
   MIN_SAFE_FRACT32_INCLUSIVE,
   MIN_SAFE_INT32_INCLUSIVE,
   MIN_SAFE_UINT32_INCLUSIVE,
   bitwiseFractToFract32,
-  bitwiseUint32ToFract32
+  bitwiseUint32ToFract32,
+  bitwiseUint53ToFloat64
 } from '../../shared'
 import {iterateForMinAndMax} from '../../spec-support'
 import {AleaNumberGenerator} from './alea'
@@ -34,12 +37,61 @@ describe('numbers > seeded generation > AleaNumberGenerator', () => {
     expect(gen1.nextInt32()).to.equal(16195758)
   })
 
+  it('can be instantiated with a seed hashed using MurmurHash3', () => {
+    const gen1 = new AleaNumberGenerator({seed: 'start', seedMode: 'murmur3'})
+    expect(gen1.nextUint32()).to.equal(1734294257)
+  })
+
+  it('can be instantiated with a seed hashed using SHA-256', () => {
+    const gen1 = new AleaNumberGenerator({seed: 'start', seedMode: 'sha256'})
+    expect(gen1.nextUint32()).to.equal(2400445905)
+  })
+
+  it('derives unrelated states for seeds with the same legacy hash when hashing seeds', () => {
+    const gen1 = new AleaNumberGenerator({seed: 'Aa', seedMode: 'murmur3'})
+    const gen2 = new AleaNumberGenerator({seed: 'BB', seedMode: 'murmur3'})
+    expect(gen1.nextUint32()).to.not.equal(gen2.nextUint32())
+  })
+
+  it('derives the state from hashed words of a byte array seed', () => {
+    const gen1 = new AleaNumberGenerator({seed: new Uint8Array([0x61, 0x62, 0x63])})
+    const gen2 = new AleaNumberGenerator({seed: 'abc', seedMode: 'murmur3'})
+    expect(gen1.getState()).to.deep.equal(gen2.getState())
+  })
+
   it('can be instantiated with a known state', () => {
     const gen1 = new AleaNumberGenerator({seed: 123})
     const gen2 = new AleaNumberGenerator({state: gen1.getState()})
     expect(gen2.nextInt32()).to.equal(gen1.nextInt32())
   })
 
+  it('rejects a state with a fraction which is out of range', () => {
+    const state = new AleaNumberGenerator({seed: 1}).getState()
+    expect(() => new AleaNumberGenerator({state: {...state, s1: 1}})).to.throw(
+      'State "s1" must be a number from 0 inclusive to 1 exclusive.'
+    )
+  })
+
+  it('rejects a state with a fraction which is not a number', () => {
+    const state = new AleaNumberGenerator({seed: 1}).getState()
+    expect(() => new AleaNumberGenerator({state: {...state, s0: NaN}})).to.throw(
+      'State "s0" must be a number from 0 inclusive to 1 exclusive.'
+    )
+  })
+
+  it('rejects a state with a carry which is out of range', () => {
+    const state = new AleaNumberGenerator({seed: 1}).getState()
+    expect(() => new AleaNumberGenerator({state: {...state, c: -1}})).to.throw(
+      'State "c" must be an integer from 0 to 2091639.'
+    )
+  })
+
+  it('rejects an all-zero state', () => {
+    expect(() => new AleaNumberGenerator({state: {c: 0, s0: 0, s1: 0, s2: 0}})).to.throw(
+      'State must not be all zeros.'
+    )
+  })
+
   it('can be instantiated without deterministic seeding', () => {
     const gen1 = new AleaNumberGenerator()
     expect(gen1.nextInt32())
@@ -47,6 +99,165 @@ describe('numbers > seeded generation > AleaNumberGenerator', () => {
       .and.greaterThanOrEqual(MIN_SAFE_INT32_INCLUSIVE)
   })
 
+  describe('#advance()', () => {
+    it('advances the generator as if generating the given number of values', () => {
+      const gen1 = new AleaNumberGenerator({seed: 1})
+      const gen2 = new AleaNumberGenerator({seed: 1})
+      gen1.advance(100)
+      Array.from({length: 100}, () => gen2.nextUint32())
+      expect(gen1.nextUint32()).to.equal(gen2.nextUint32())
+    })
+
+    it('accepts a bigint number of steps', () => {
+      const gen1 = new AleaNumberGenerator({seed: 1})
+      const gen2 = new AleaNumberGenerator({seed: 1})
+      gen1.advance(100n)
+      gen2.advance(100)
+      expect(gen1.nextUint32()).to.equal(gen2.nextUint32())
+    })
+
+    it('does not advance the generator for zero steps', () => {
+      const gen1 = new AleaNumberGenerator({seed: 1})
+      const gen2 = new AleaNumberGenerator({seed: 1})
+      gen1.advance(0)
+      expect(gen1.nextUint32()).to.equal(gen2.nextUint32())
+    })
+
+    it('rejects a negative number of steps', () => {
+      const gen = new AleaNumberGenerator({seed: 1})
+      expect(() => gen.advance(-1)).to.throw('Steps must be a non-negative safe integer or bigint.')
+    })
+  })
+
+  describe('#fillBytes()', () => {
+    it('fills the array with random bytes', () => {
+      const gen = new AleaNumberGenerator({seed: 1})
+      const array = gen.fillBytes(new Uint8Array(6))
+      expect(Array.from(array)).to.deep.equal([134, 171, 5, 192, 31, 101])
+    })
+  })
+
+  describe('#fillFloat32()', () => {
+    it('fills the array with 24-bit decimal fractions', () => {
+      const gen = new AleaNumberGenerator({seed: 1})
+      const array = gen.fillFloat32(new Float32Array(2))
+      expect(Array.from(array)).to.deep.equal([0.5260470509529114, 0.12264358997344971])
+    })
+
+    it('accepts range options with an inclusive maximum', () => {
+      const gen = new AleaNumberGenerator({seed: 1})
+      const array = gen.fillFloat32(new Float32Array(100), {min: 0.25, max: 0.5, inclusive: true})
+      expect(Math.min(...array)).to.be.greaterThanOrEqual(0.25)
+      expect(Math.max(...array)).to.be.lessThanOrEqual(0.5)
+    })
+  })
+
+  describe('#fillFloat64()', () => {
+    it('fills the array with values as from repeated calls to #nextFloat64()', () => {
+      const gen1 = new AleaNumberGenerator({seed: 1})
+      const gen2 = new AleaNumberGenerator({seed: 1})
+      const array = gen1.fillFloat64(new Float64Array(10), 0.25, 0.75)
+      const expected = Array.from({length: 10}, () => gen2.nextFloat64(0.25, 0.75))
+      expect(Array.from(array)).to.deep.equal(expected)
+    })
+
+    it('fills the array without a range as from repeated calls to #nextFloat64()', () => {
+      const gen1 = new AleaNumberGenerator({seed: 1})
+      const gen2 = new AleaNumberGenerator({seed: 1})
+      const array = gen1.fillFloat64(new Float64Array(10))
+      const expected = Array.from({length: 10}, () => gen2.nextFloat64())
+      expect(Array.from(array)).to.deep.equal(expected)
+    })
+  })
+
+  describe('#fillInt32()', () => {
+    it('fills the array with values as from repeated calls to #nextInt32()', () => {
+      const gen1 = new AleaNumberGenerator({seed: 1})
+      const gen2 = new AleaNumberGenerator({seed: 1})
+      const array = gen1.fillInt32(new Int32Array(10), -100, 100)
+      const expected = Array.from({length: 10}, () => gen2.nextInt32(-100, 100))
+      expect(Array.from(array)).to.deep.equal(expected)
+    })
+
+    it('fills the array without a range as from repeated calls to #nextInt32()', () => {
+      const gen1 = new AleaNumberGenerator({seed: 1})
+      const gen2 = new AleaNumberGenerator({seed: 1})
+      const array = gen1.fillInt32(new Int32Array(10))
+      const expected = Array.from({length: 10}, () => gen2.nextInt32())
+      expect(Array.from(array)).to.deep.equal(expected)
+    })
+  })
+
+  describe('#fillUint32()', () => {
+    it('fills the array with values as from repeated calls to #nextUint32()', () => {
+      const gen1 = new AleaNumberGenerator({seed: 1})
+      const gen2 = new AleaNumberGenerator({seed: 1})
+      const array = gen1.fillUint32(new Uint32Array(10))
+      const expected = Array.from({length: 10}, () => gen2.nextUint32())
+      expect(Array.from(array)).to.deep.equal(expected)
+    })
+
+    it('accepts range options with an inclusive maximum', () => {
+      const gen1 = new AleaNumberGenerator({seed: 1})
+      const gen2 = new AleaNumberGenerator({seed: 1})
+      const array = gen1.fillUint32(new Uint32Array(10), {min: 1, max: 6, inclusive: true})
+      const expected = Array.from({length: 10}, () =>
+        gen2.nextUint32({min: 1, max: 6, inclusive: true})
+      )
+      expect(Array.from(array)).to.deep.equal(expected)
+    })
+
+    it('leaves the generator in the same state as repeated calls to #nextUint32()', () => {
+      const gen1 = new AleaNumberGenerator({seed: 1})
+      const gen2 = new AleaNumberGenerator({seed: 1})
+      gen1.fillUint32(new Uint32Array(10))
+      Array.from({length: 10}, () => gen2.nextUint32())
+      expect(gen1.getState()).to.deep.equal(gen2.getState())
+    })
+  })
+
+  describe('#fork()', () => {
+    it('returns a generator of the same class', () => {
+      const gen = new AleaNumberGenerator({seed: 1})
+      expect(gen.fork('child')).to.be.an.instanceOf(AleaNumberGenerator)
+    })
+
+    it('does not advance the generator', () => {
+      const gen1 = new AleaNumberGenerator({seed: 1})
+      const gen2 = new AleaNumberGenerator({seed: 1})
+      gen1.fork('child')
+      expect(gen1.nextUint32()).to.equal(gen2.nextUint32())
+    })
+
+    it('derives the same generator for the same state and label', () => {
+      const child1 = new AleaNumberGenerator({seed: 1}).fork('child')
+      const child2 = new AleaNumberGenerator({seed: 1}).fork('child')
+      expect(child1.getState()).to.deep.equal(child2.getState())
+    })
+
+    it('derives different generators for different labels', () => {
+      const gen = new AleaNumberGenerator({seed: 1})
+      const child1 = gen.fork('first')
+      const child2 = gen.fork('second')
+      const values1 = Array.from({length: 4}, () => child1.nextUint32())
+      const values2 = Array.from({length: 4}, () => child2.nextUint32())
+      expect(values1).to.not.deep.equal(values2)
+    })
+
+    it('derives a generator from an empty label by default', () => {
+      const gen = new AleaNumberGenerator({seed: 1})
+      expect(gen.fork().getState()).to.deep.equal(gen.fork('').getState())
+    })
+
+    it('retains the range strategy of the generator', () => {
+      const child = new AleaNumberGenerator({rangeStrategy: 'lemire', seed: 1}).fork('child')
+      const copy = new AleaNumberGenerator({rangeStrategy: 'lemire', state: child.getState()})
+      const values1 = Array.from({length: 4}, () => child.nextUint32(0, 1000003))
+      const values2 = Array.from({length: 4}, () => copy.nextUint32(0, 1000003))
+      expect(values1).to.deep.equal(values2)
+    })
+  })
+
   describe('#getState()', () => {
     it('returns the current state of the generator', () => {
       const gen = new AleaNumberGenerator({seed: 1})
@@ -59,6 +270,118 @@ describe('numbers > seeded generation > AleaNumberGenerator', () => {
     })
   })
 
+  describe('#nextBigInt()', () => {
+    it('returns an integer within the given range', () => {
+      const gen = new AleaNumberGenerator({seed: 1})
+      expect(gen.nextBigInt(-(10n ** 30n), 10n ** 30n)).to.equal(-990283171831870456384983758856n)
+    })
+
+    it('rejects any maximum not greater than the given minimum', () => {
+      const gen = new AleaNumberGenerator({seed: 1})
+      expect(() => gen.nextBigInt(10n ** 30n, 10n ** 30n)).to.throw()
+    })
+  })
+
+  describe('#nextBoolean()', () => {
+    function countTrue(next: () => boolean): number {
+      let count = 0
+      for (let i = 0; i < 1000; i++) {
+        count += next() ? 1 : 0
+      }
+      return count
+    }
+
+    it('returns true with a probability of 0.5 by default', () => {
+      const gen = new AleaNumberGenerator({seed: 1})
+      expect(countTrue(() => gen.nextBoolean())).to.be.within(450, 550)
+    })
+
+    it('returns true with the given probability', () => {
+      const gen = new AleaNumberGenerator({seed: 1})
+      expect(countTrue(() => gen.nextBoolean(0.1))).to.be.within(70, 130)
+    })
+
+    it('returns true with the given rational probability', () => {
+      const gen = new AleaNumberGenerator({seed: 1})
+      expect(countTrue(() => gen.nextBoolean(2, 3))).to.be.within(617, 717)
+    })
+
+    it('does not advance the state for a probability of 0 or 1', () => {
+      const gen = new AleaNumberGenerator({seed: 1})
+      const state = gen.getState()
+      expect([gen.nextBoolean(0), gen.nextBoolean(1), gen.nextBoolean(3, 3)]).to.deep.equal([
+        false,
+        true,
+        true
+      ])
+      expect(gen.getState()).to.deep.equal(state)
+    })
+  })
+
+  describe('#nextBytes()', () => {
+    it('returns a new array of random bytes', () => {
+      const gen = new AleaNumberGenerator({seed: 1})
+      expect(Array.from(gen.nextBytes(6))).to.deep.equal([134, 171, 5, 192, 31, 101])
+    })
+
+    it('returns the same bytes as filling an array of the same length', () => {
+      const gen1 = new AleaNumberGenerator({seed: 1})
+      const gen2 = new AleaNumberGenerator({seed: 1})
+      expect(gen1.nextBytes(10)).to.deep.equal(gen2.fillBytes(new Uint8Array(10)))
+      expect(gen1.getState()).to.deep.equal(gen2.getState())
+    })
+
+    it('returns an empty array when the length is 0', () => {
+      const gen = new AleaNumberGenerator({seed: 1})
+      expect(gen.nextBytes(0)).to.have.length(0)
+    })
+  })
+
+  describe('#nextFloat()', () => {
+    it('returns a number within the given range', () => {
+      const gen = new AleaNumberGenerator({seed: 1})
+      expect(gen.nextFloat(-5.5, 12.25)).to.equal(3.837335964120358)
+    })
+
+    it('rejects any maximum not greater than the given minimum', () => {
+      const gen = new AleaNumberGenerator({seed: 1})
+      expect(() => gen.nextFloat(12.25, 12.25)).to.throw()
+    })
+  })
+
+  describe('#nextFloatInclusive()', () => {
+    it('returns a number within the given range', () => {
+      const gen = new AleaNumberGenerator({seed: 1})
+      expect(gen.nextFloatInclusive(1, 6)).to.equal(3.6302354828508054)
+    })
+
+    it('accepts a maximum equal to the given minimum', () => {
+      const gen = new AleaNumberGenerator({seed: 1})
+      expect(gen.nextFloatInclusive(12.25, 12.25)).to.equal(12.25)
+    })
+  })
+
+  describe('#nextFloat64()', () => {
+    it('returns a 53-bit decimal fraction', () => {
+      const gen = new AleaNumberGenerator({seed: 1})
+      expect(gen.nextFloat64()).to.equal(bitwiseUint53ToFloat64(4738211016185417))
+    })
+
+    it(`returns a value between ${MIN_SAFE_FLOAT64_INCLUSIVE} (inclusive) and ${MAX_SAFE_FLOAT64_EXCLUSIVE} (exclusive)`, () => {
+      const gen = new AleaNumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextFloat64(), 100)
+      expect(min).to.equal(bitwiseUint53ToFloat64(100212007409397))
+      expect(max).to.equal(bitwiseUint53ToFloat64(8939362125516434))
+    })
+
+    it('accepts an optional range', () => {
+      const gen = new AleaNumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextFloat64(0.375, 0.625), 100)
+      expect(min).to.equal(bitwiseUint53ToFloat64(3391223873195204))
+      expect(max).to.equal(bitwiseUint53ToFloat64(5627956797346278))
+    })
+  })
+
   describe('#nextFract32()', () => {
     it('returns a 32-bit decimal fraction', () => {
       const gen = new AleaNumberGenerator({seed: 1})
@@ -95,7 +418,7 @@ describe('numbers > seeded generation > AleaNumberGenerator', () => {
       expect(max).to.equal(bitwiseUint32ToFract32(2669053944))
     })
 
-    it('returns a value without bias', () => {
+    it('returns a value without bias using the bitmask strategy', () => {
       /*
        * minimum: 0.3750 = 0b01100000000000000000000000000000 (as uint32: 1610612736)
        * maximum: 0.6875 = 0b10100000000000000000000000000000 (as uint32: 2952790016)
@@ -111,7 +434,7 @@ describe('numbers > seeded generation > AleaNumberGenerator', () => {
        * Result: minimum (1610612736) + 1101624150 = 2712236886
        */
 
-      const gen = new AleaNumberGenerator({seed: 2})
+      const gen = new AleaNumberGenerator({rangeStrategy: 'bitmask', seed: 2})
       const expectedResult = bitwiseUint32ToFract32(2712236886) // 0.631491859909147
       expect(gen.nextFract32(0.375, 0.6875)).to.equal(expectedResult)
     })
@@ -151,7 +474,17 @@ describe('numbers > seeded generation > AleaNumberGenerator', () => {
       expect(max).to.equal(-32347237)
     })
 
-    it('returns a value without bias', () => {
+    it('accepts range options with an inclusive maximum', () => {
+      const gen = new AleaNumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(
+        () => gen.nextInt32({min: -3, max: 3, inclusive: true}),
+        100
+      )
+      expect(min).to.equal(-3)
+      expect(max).to.equal(3)
+    })
+
+    it('returns a value without bias using the bitmask strategy', () => {
       /*
        * minimum:  8192 = 0b0010000000000000
        * maximum: 32768 = 0b1000000000000000
@@ -167,11 +500,36 @@ describe('numbers > seeded generation > AleaNumberGenerator', () => {
        * Result: minimum (8192) + 14091 = 22283
        */
 
-      const gen = new AleaNumberGenerator({seed: 5})
+      const gen = new AleaNumberGenerator({rangeStrategy: 'bitmask', seed: 5})
       expect(gen.nextInt32(8192, 32768)).to.equal(22283)
     })
   })
 
+  describe('#nextInt64()', () => {
+    it('returns a signed 64-bit integer', () => {
+      const gen = new AleaNumberGenerator({seed: 1})
+      expect(gen.nextInt64()).to.equal(-8742887928891075994n)
+    })
+
+    it('accepts an optional range', () => {
+      const gen = new AleaNumberGenerator({seed: 1})
+      const value = gen.nextInt64(-(2n ** 40n), 2n ** 40n)
+      expect(value >= -(2n ** 40n) && value < 2n ** 40n).to.equal(true)
+    })
+  })
+
+  describe('#nextSafeInteger()', () => {
+    it('returns a safe integer', () => {
+      const gen = new AleaNumberGenerator({seed: 1})
+      expect(gen.nextSafeInteger()).to.equal(3102547462427239)
+    })
+
+    it('accepts an optional range exceeding 32 bits', () => {
+      const gen = new AleaNumberGenerator({seed: 1})
+      expect(gen.nextSafeInteger(0, 10_000_000_000)).to.equal(526750310)
+    })
+  })
+
   describe('#nextUint32()', () => {
     it('returns an unsigned 32-bit integer', () => {
       const gen = new AleaNumberGenerator({seed: 1})
@@ -206,7 +564,17 @@ describe('numbers > seeded generation > AleaNumberGenerator', () => {
       expect(max).to.equal(32527)
     })
 
-    it('returns a value without bias', () => {
+    it('accepts range options with an inclusive maximum', () => {
+      const gen = new AleaNumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(
+        () => gen.nextUint32({min: 1, max: 6, inclusive: true}),
+        100
+      )
+      expect(min).to.equal(1)
+      expect(max).to.equal(6)
+    })
+
+    it('returns a value without bias using the bitmask strategy', () => {
       /*
        * minimum:  8192 = 0b0010000000000000
        * maximum: 32768 = 0b1000000000000000
@@ -222,8 +590,57 @@ describe('numbers > seeded generation > AleaNumberGenerator', () => {
        * Result: minimum (8192) + 14091 = 22283
        */
 
-      const gen = new AleaNumberGenerator({seed: 5})
+      const gen = new AleaNumberGenerator({rangeStrategy: 'bitmask', seed: 5})
       expect(gen.nextUint32(8192, 32768)).to.equal(22283)
     })
+
+    it('accepts a range strategy for each call', () => {
+      const gen1 = new AleaNumberGenerator({rangeStrategy: 'lemire', seed: 1})
+      const gen2 = new AleaNumberGenerator({seed: 1})
+      const options = {min: 8192, max: 32768, strategy: 'lemire'} as const
+      expect(gen2.nextUint32(options)).to.equal(gen1.nextUint32(8192, 32768))
+    })
+  })
+
+  describe('#nextUint64()', () => {
+    it('returns an unsigned 64-bit integer', () => {
+      const gen = new AleaNumberGenerator({seed: 1})
+      expect(gen.nextUint64()).to.equal(9703856144818475622n)
+    })
+
+    it('accepts an optional range', () => {
+      const gen = new AleaNumberGenerator({seed: 1})
+      expect(gen.nextUint64(10n ** 12n, 10n ** 13n)).to.equal(7322718610022n)
+    })
+  })
+
+  describe('#split()', () => {
+    it('returns a generator of the same class', () => {
+      const gen = new AleaNumberGenerator({seed: 1})
+      expect(gen.split()).to.be.an.instanceOf(AleaNumberGenerator)
+    })
+
+    it('advances the generator by two values', () => {
+      const gen1 = new AleaNumberGenerator({seed: 1})
+      const gen2 = new AleaNumberGenerator({seed: 1})
+      gen1.split()
+      gen2.advance(2)
+      expect(gen1.nextUint32()).to.equal(gen2.nextUint32())
+    })
+
+    it('derives a different generator with each call', () => {
+      const gen = new AleaNumberGenerator({seed: 1})
+      const child1 = gen.split()
+      const child2 = gen.split()
+      const values1 = Array.from({length: 4}, () => child1.nextUint32())
+      const values2 = Array.from({length: 4}, () => child2.nextUint32())
+      expect(values1).to.not.deep.equal(values2)
+    })
+
+    it('derives the same generator for the same state', () => {
+      const child1 = new AleaNumberGenerator({seed: 1}).split()
+      const child2 = new AleaNumberGenerator({seed: 1}).split()
+      expect(child1.getState()).to.deep.equal(child2.getState())
+    })
   })
 })
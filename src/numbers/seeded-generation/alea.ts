@@ -32,10 +32,21 @@
  * https://github.com/davidbau/seedrandom/blob/4460ad325a0a15273a211e509f03ae0beb99511a/lib/alea.js
  */
 
-import {bitwiseFract32ToInt32, bitwiseFract32ToUint32} from '../../shared'
-import {unbiasedRandomFract32, unbiasedRandomInt32, unbiasedRandomUint32} from '../unbiased-random'
+import {bitwiseFract32ToInt32, bitwiseFract32ToUint32, bitwiseUint32ToFract32} from '../../shared'
+import {RangeOptions} from '../types'
+import {
+  resolveRangeOptions,
+  unbiasedRandomFract32,
+  unbiasedRandomInt32,
+  unbiasedRandomUint32
+} from '../unbiased-random'
 import {SeededNumberGenerator} from './seeded-generator'
-import {Seed} from './types'
+import {
+  assertStateBoundedInteger,
+  assertStateNotAllZero,
+  assertStateObject
+} from './state-validation'
+import {LegacySeed} from './types'
 
 export type AleaState = {
   c: number
@@ -44,6 +55,9 @@ export type AleaState = {
   s2: number
 }
 
+// The largest carry, which is the integer part of the multiplier.
+const MAX_CARRY = 2091639
+
 /**
  * A class with methods to generate pseudorandom numbers. This class implements
  * the Alea algorithm by Johannes Baagøe, which has a period of ~2^116.
@@ -56,22 +70,61 @@ export type AleaState = {
  * @extends {SeededNumberGenerator<AleaState>}
  */
 export class AleaNumberGenerator extends SeededNumberGenerator<AleaState> {
-  nextFract32(minInclusive?: number, maxExclusive?: number): number {
-    return unbiasedRandomFract32(minInclusive, maxExclusive, () => this.internalNextFract32())
+  static readonly seedWordCount = 3
+
+  nextFract32(minOrOptions?: number | RangeOptions, maxExclusive?: number): number {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomFract32(
+      min,
+      max,
+      () => this.internalNextFract32(),
+      inclusive,
+      strategy ?? this.rangeStrategy
+    )
   }
 
-  nextInt32(minInclusive?: number, maxExclusive?: number): number {
-    return unbiasedRandomInt32(minInclusive, maxExclusive, () =>
-      bitwiseFract32ToInt32(this.internalNextFract32())
+  nextInt32(minOrOptions?: number | RangeOptions, maxExclusive?: number): number {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomInt32(
+      min,
+      max,
+      () => bitwiseFract32ToInt32(this.internalNextFract32()),
+      inclusive,
+      strategy ?? this.rangeStrategy
     )
   }
 
-  nextUint32(minInclusive?: number, maxExclusive?: number): number {
-    return unbiasedRandomUint32(minInclusive, maxExclusive, () =>
-      bitwiseFract32ToUint32(this.internalNextFract32())
+  nextUint32(minOrOptions?: number | RangeOptions, maxExclusive?: number): number {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomUint32(
+      min,
+      max,
+      () => bitwiseFract32ToUint32(this.internalNextFract32()),
+      inclusive,
+      strategy ?? this.rangeStrategy
     )
   }
 
+  protected internalFillUint32(array: Uint32Array): void {
+    let {c, s0, s1, s2} = this.state
+
+    for (let i = 0; i < array.length; i++) {
+      const t = 2091639 * s0 + c * 2.3283064365386963e-10 // 2^-32
+
+      c = t | 0
+      s0 = s1
+      s1 = s2
+      s2 = t - c
+
+      array[i] = bitwiseFract32ToUint32(s2)
+    }
+
+    this.state.c = c
+    this.state.s0 = s0
+    this.state.s1 = s1
+    this.state.s2 = s2
+  }
+
   protected internalNextFract32(): number {
     const {state} = this
     const t = 2091639 * state.s0 + state.c * 2.3283064365386963e-10 // 2^-32
@@ -84,7 +137,11 @@ export class AleaNumberGenerator extends SeededNumberGenerator<AleaState> {
     return state.s2
   }
 
-  protected buildStateFromSeed(seed: Seed): void {
+  protected internalNextUint32(): number {
+    return bitwiseFract32ToUint32(this.internalNextFract32())
+  }
+
+  protected buildStateFromSeed(seed: LegacySeed): void {
     const mash = buildMash()
 
     this.state = {
@@ -114,9 +171,33 @@ export class AleaNumberGenerator extends SeededNumberGenerator<AleaState> {
     }
   }
 
+  protected buildStateFromSeedWords(nextSeedWord: () => number): void {
+    this.state = {
+      c: 1,
+      s0: bitwiseUint32ToFract32(nextSeedWord()),
+      s1: bitwiseUint32ToFract32(nextSeedWord()),
+      s2: bitwiseUint32ToFract32(nextSeedWord())
+    }
+  }
+
   protected cloneState(state: AleaState): AleaState {
     return {...state}
   }
+
+  protected validateState(state: AleaState): void {
+    assertStateObject(state)
+
+    for (const key of ['s0', 's1', 's2'] as const) {
+      const value = state[key]
+
+      if (typeof value !== 'number' || !(value >= 0 && value < 1)) {
+        throw new Error(`State "${key}" must be a number from 0 inclusive to 1 exclusive.`)
+      }
+    }
+
+    assertStateBoundedInteger(state, 'c', MAX_CARRY)
+    assertStateNotAllZero([state.c, state.s0, state.s1, state.s2], 'State')
+  }
 }
 
 function buildMash() {
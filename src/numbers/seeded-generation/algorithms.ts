@@ -0,0 +1,31 @@
+import {SeededNumberGenerator, SeededNumberGeneratorOptions} from './seeded-generator'
+
+export type SeededNumberGeneratorClass<State = unknown> = new (
+  options?: SeededNumberGeneratorOptions<State>
+) => SeededNumberGenerator<State>
+
+/*
+ * The registered algorithms, by name. This module only imports types, so that
+ * seeded generators can look up their own algorithm names without importing
+ * the registry, which imports each generator.
+ */
+export const algorithms = new Map<string, SeededNumberGeneratorClass>()
+
+/**
+ * A function which returns the registered algorithm name of the given
+ * generator, such as to store it together with the state of the generator.
+ *
+ * @export
+ * @param {SeededNumberGenerator} generator A generator of a registered
+ * algorithm.
+ * @returns {string} The name of the algorithm of the generator.
+ */
+export function getAlgorithmName<State>(generator: SeededNumberGenerator<State>): string {
+  for (const [name, generatorClass] of algorithms) {
+    if (generator.constructor === generatorClass) {
+      return name
+    }
+  }
+
+  throw new Error('Algorithm of the generator is not registered.')
+}
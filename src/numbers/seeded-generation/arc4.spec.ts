@@ -0,0 +1,679 @@
+import {expect} from 'chai'
+
+import {
+  MAX_SAFE_FLOAT64_EXCLUSIVE,
+  MAX_SAFE_FRACT32_EXCLUSIVE,
+  MAX_SAFE_INT32_INCLUSIVE,
+  MAX_SAFE_UINT32_INCLUSIVE,
+  MIN_SAFE_FLOAT64_INCLUSIVE,
+  MIN_SAFE_FRACT32_INCLUSIVE,
+  MIN_SAFE_INT32_INCLUSIVE,
+  MIN_SAFE_UINT32_INCLUSIVE,
+  bitwiseFractToFract32,
+  bitwiseUint32ToFract32,
+  bitwiseUint53ToFloat64
+} from '../../shared'
+import {iterateForMinAndMax} from '../../spec-support'
+import {Arc4NumberGenerator} from './arc4'
+import {deserializeGenerator} from './registry'
+
+describe('numbers > seeded generation > Arc4NumberGenerator', () => {
+  it('can be instantiated with a numerical seed', () => {
+    const gen1 = new Arc4NumberGenerator({seed: 123})
+    expect(gen1.nextInt32()).to.equal(202016168)
+  })
+
+  it('can be instantiated with a string seed', () => {
+    const gen1 = new Arc4NumberGenerator({seed: 'start'})
+    expect(gen1.nextInt32()).to.equal(509281202)
+  })
+
+  it('derives different states for a numerical seed and its string', () => {
+    const gen1 = new Arc4NumberGenerator({seed: 123})
+    const gen2 = new Arc4NumberGenerator({seed: '123'})
+    expect(gen1.getState()).to.not.deep.equal(gen2.getState())
+  })
+
+  it('can be instantiated with a function returning a numerical seed', () => {
+    const gen1 = new Arc4NumberGenerator({seedFn: () => 123})
+    expect(gen1.nextInt32()).to.equal(202016168)
+  })
+
+  it('can be instantiated with a function returning a string seed', () => {
+    const gen1 = new Arc4NumberGenerator({seedFn: () => 'start'})
+    expect(gen1.nextInt32()).to.equal(509281202)
+  })
+
+  it('can be instantiated with a seed hashed using MurmurHash3', () => {
+    const gen1 = new Arc4NumberGenerator({seed: 'start', seedMode: 'murmur3'})
+    expect(gen1.nextUint32()).to.equal(610585537)
+  })
+
+  it('can be instantiated with a seed hashed using SHA-256', () => {
+    const gen1 = new Arc4NumberGenerator({seed: 'start', seedMode: 'sha256'})
+    expect(gen1.nextUint32()).to.equal(3503987928)
+  })
+
+  it('derives unrelated states for seeds with the same legacy hash when hashing seeds', () => {
+    const gen1 = new Arc4NumberGenerator({seed: 'Aa', seedMode: 'murmur3'})
+    const gen2 = new Arc4NumberGenerator({seed: 'BB', seedMode: 'murmur3'})
+    expect(gen1.nextUint32()).to.not.equal(gen2.nextUint32())
+  })
+
+  it('derives the state from hashed words of a byte array seed', () => {
+    const gen1 = new Arc4NumberGenerator({seed: new Uint8Array([0x61, 0x62, 0x63])})
+    const gen2 = new Arc4NumberGenerator({seed: 'abc', seedMode: 'murmur3'})
+    expect(gen1.getState()).to.deep.equal(gen2.getState())
+  })
+
+  it('can be instantiated with a known state', () => {
+    const gen1 = new Arc4NumberGenerator({seed: 123})
+    const gen2 = new Arc4NumberGenerator({state: gen1.getState()})
+    expect(gen2.nextInt32()).to.equal(gen1.nextInt32())
+  })
+
+  it('rejects a state with an index which is out of range', () => {
+    const state = new Arc4NumberGenerator({seed: 1}).getState()
+    expect(() => new Arc4NumberGenerator({state: {...state, j: 256}})).to.throw(
+      'State "j" must be an integer from 0 to 255.'
+    )
+  })
+
+  it('rejects a state which is not a permutation of bytes', () => {
+    const state = new Arc4NumberGenerator({seed: 1}).getState()
+    const s = [...state.s]
+    s[0] = s[1]
+    expect(() => new Arc4NumberGenerator({state: {...state, s}})).to.throw(
+      'State "s" must be a permutation of the integers from 0 to 255.'
+    )
+  })
+
+  it('can be instantiated without deterministic seeding', () => {
+    const gen1 = new Arc4NumberGenerator()
+    expect(gen1.nextInt32())
+      .to.be.lessThanOrEqual(MAX_SAFE_INT32_INCLUSIVE)
+      .and.greaterThanOrEqual(MIN_SAFE_INT32_INCLUSIVE)
+  })
+
+  describe('#advance()', () => {
+    it('advances the generator as if generating the given number of values', () => {
+      const gen1 = new Arc4NumberGenerator({seed: 1})
+      const gen2 = new Arc4NumberGenerator({seed: 1})
+      gen1.advance(100)
+      Array.from({length: 100}, () => gen2.nextUint32())
+      expect(gen1.nextUint32()).to.equal(gen2.nextUint32())
+    })
+
+    it('accepts a bigint number of steps', () => {
+      const gen1 = new Arc4NumberGenerator({seed: 1})
+      const gen2 = new Arc4NumberGenerator({seed: 1})
+      gen1.advance(100n)
+      gen2.advance(100)
+      expect(gen1.nextUint32()).to.equal(gen2.nextUint32())
+    })
+
+    it('does not advance the generator for zero steps', () => {
+      const gen1 = new Arc4NumberGenerator({seed: 1})
+      const gen2 = new Arc4NumberGenerator({seed: 1})
+      gen1.advance(0)
+      expect(gen1.nextUint32()).to.equal(gen2.nextUint32())
+    })
+
+    it('rejects a negative number of steps', () => {
+      const gen = new Arc4NumberGenerator({seed: 1})
+      expect(() => gen.advance(-1)).to.throw('Steps must be a non-negative safe integer or bigint.')
+    })
+  })
+
+  describe('#fillBytes()', () => {
+    it('fills the array with random bytes', () => {
+      const gen = new Arc4NumberGenerator({seed: 1})
+      const array = gen.fillBytes(new Uint8Array(6))
+      expect(Array.from(array)).to.deep.equal([45, 121, 121, 140, 104, 61])
+    })
+  })
+
+  describe('#fillFloat32()', () => {
+    it('fills the array with 24-bit decimal fractions', () => {
+      const gen = new Arc4NumberGenerator({seed: 1})
+      const array = gen.fillFloat32(new Float32Array(2))
+      expect(Array.from(array)).to.deep.equal([0.17763477563858032, 0.40718644857406616])
+    })
+
+    it('accepts range options with an inclusive maximum', () => {
+      const gen = new Arc4NumberGenerator({seed: 1})
+      const array = gen.fillFloat32(new Float32Array(100), {min: 0.25, max: 0.5, inclusive: true})
+      expect(Math.min(...array)).to.be.greaterThanOrEqual(0.25)
+      expect(Math.max(...array)).to.be.lessThanOrEqual(0.5)
+    })
+  })
+
+  describe('#fillFloat64()', () => {
+    it('fills the array with values as from repeated calls to #nextFloat64()', () => {
+      const gen1 = new Arc4NumberGenerator({seed: 1})
+      const gen2 = new Arc4NumberGenerator({seed: 1})
+      const array = gen1.fillFloat64(new Float64Array(10), 0.25, 0.75)
+      const expected = Array.from({length: 10}, () => gen2.nextFloat64(0.25, 0.75))
+      expect(Array.from(array)).to.deep.equal(expected)
+    })
+
+    it('fills the array without a range as from repeated calls to #nextFloat64()', () => {
+      const gen1 = new Arc4NumberGenerator({seed: 1})
+      const gen2 = new Arc4NumberGenerator({seed: 1})
+      const array = gen1.fillFloat64(new Float64Array(10))
+      const expected = Array.from({length: 10}, () => gen2.nextFloat64())
+      expect(Array.from(array)).to.deep.equal(expected)
+    })
+  })
+
+  describe('#fillInt32()', () => {
+    it('fills the array with values as from repeated calls to #nextInt32()', () => {
+      const gen1 = new Arc4NumberGenerator({seed: 1})
+      const gen2 = new Arc4NumberGenerator({seed: 1})
+      const array = gen1.fillInt32(new Int32Array(10), -100, 100)
+      const expected = Array.from({length: 10}, () => gen2.nextInt32(-100, 100))
+      expect(Array.from(array)).to.deep.equal(expected)
+    })
+
+    it('fills the array without a range as from repeated calls to #nextInt32()', () => {
+      const gen1 = new Arc4NumberGenerator({seed: 1})
+      const gen2 = new Arc4NumberGenerator({seed: 1})
+      const array = gen1.fillInt32(new Int32Array(10))
+      const expected = Array.from({length: 10}, () => gen2.nextInt32())
+      expect(Array.from(array)).to.deep.equal(expected)
+    })
+  })
+
+  describe('#fillUint32()', () => {
+    it('fills the array with values as from repeated calls to #nextUint32()', () => {
+      const gen1 = new Arc4NumberGenerator({seed: 1})
+      const gen2 = new Arc4NumberGenerator({seed: 1})
+      const array = gen1.fillUint32(new Uint32Array(10))
+      const expected = Array.from({length: 10}, () => gen2.nextUint32())
+      expect(Array.from(array)).to.deep.equal(expected)
+    })
+
+    it('accepts range options with an inclusive maximum', () => {
+      const gen1 = new Arc4NumberGenerator({seed: 1})
+      const gen2 = new Arc4NumberGenerator({seed: 1})
+      const array = gen1.fillUint32(new Uint32Array(10), {min: 1, max: 6, inclusive: true})
+      const expected = Array.from({length: 10}, () =>
+        gen2.nextUint32({min: 1, max: 6, inclusive: true})
+      )
+      expect(Array.from(array)).to.deep.equal(expected)
+    })
+
+    it('leaves the generator in the same state as repeated calls to #nextUint32()', () => {
+      const gen1 = new Arc4NumberGenerator({seed: 1})
+      const gen2 = new Arc4NumberGenerator({seed: 1})
+      gen1.fillUint32(new Uint32Array(10))
+      Array.from({length: 10}, () => gen2.nextUint32())
+      expect(gen1.getState()).to.deep.equal(gen2.getState())
+    })
+  })
+
+  describe('#fork()', () => {
+    it('returns a generator of the same class', () => {
+      const gen = new Arc4NumberGenerator({seed: 1})
+      expect(gen.fork('child')).to.be.an.instanceOf(Arc4NumberGenerator)
+    })
+
+    it('does not advance the generator', () => {
+      const gen1 = new Arc4NumberGenerator({seed: 1})
+      const gen2 = new Arc4NumberGenerator({seed: 1})
+      gen1.fork('child')
+      expect(gen1.nextUint32()).to.equal(gen2.nextUint32())
+    })
+
+    it('derives the same generator for the same state and label', () => {
+      const child1 = new Arc4NumberGenerator({seed: 1}).fork('child')
+      const child2 = new Arc4NumberGenerator({seed: 1}).fork('child')
+      expect(child1.getState()).to.deep.equal(child2.getState())
+    })
+
+    it('derives different generators for different labels', () => {
+      const gen = new Arc4NumberGenerator({seed: 1})
+      const child1 = gen.fork('first')
+      const child2 = gen.fork('second')
+      const values1 = Array.from({length: 4}, () => child1.nextUint32())
+      const values2 = Array.from({length: 4}, () => child2.nextUint32())
+      expect(values1).to.not.deep.equal(values2)
+    })
+
+    it('derives a generator from an empty label by default', () => {
+      const gen = new Arc4NumberGenerator({seed: 1})
+      expect(gen.fork().getState()).to.deep.equal(gen.fork('').getState())
+    })
+
+    it('retains the range strategy of the generator', () => {
+      const child = new Arc4NumberGenerator({rangeStrategy: 'lemire', seed: 1}).fork('child')
+      const copy = new Arc4NumberGenerator({rangeStrategy: 'lemire', state: child.getState()})
+      const values1 = Array.from({length: 4}, () => child.nextUint32(0, 1000003))
+      const values2 = Array.from({length: 4}, () => copy.nextUint32(0, 1000003))
+      expect(values1).to.deep.equal(values2)
+    })
+  })
+
+  describe('#getState()', () => {
+    it('returns the current state of the generator', () => {
+      const gen = new Arc4NumberGenerator({seed: 1})
+      expect(gen.getState()).to.have.keys('i', 'j', 's')
+    })
+
+    it('returns a unique instance of the state', () => {
+      const gen = new Arc4NumberGenerator({seed: 1})
+      expect(gen.getState()).to.not.equal(gen.getState())
+    })
+  })
+
+  describe('#nextBigInt()', () => {
+    it('returns an integer within the given range', () => {
+      const gen = new Arc4NumberGenerator({seed: 1})
+      expect(gen.nextBigInt(-(10n ** 30n), 10n ** 30n)).to.equal(-17001414687238549500178495891n)
+    })
+
+    it('rejects any maximum not greater than the given minimum', () => {
+      const gen = new Arc4NumberGenerator({seed: 1})
+      expect(() => gen.nextBigInt(10n ** 30n, 10n ** 30n)).to.throw()
+    })
+  })
+
+  describe('#nextBoolean()', () => {
+    function countTrue(next: () => boolean): number {
+      let count = 0
+      for (let i = 0; i < 1000; i++) {
+        count += next() ? 1 : 0
+      }
+      return count
+    }
+
+    it('returns true with a probability of 0.5 by default', () => {
+      const gen = new Arc4NumberGenerator({seed: 1})
+      expect(countTrue(() => gen.nextBoolean())).to.be.within(450, 550)
+    })
+
+    it('returns true with the given probability', () => {
+      const gen = new Arc4NumberGenerator({seed: 1})
+      expect(countTrue(() => gen.nextBoolean(0.1))).to.be.within(70, 130)
+    })
+
+    it('returns true with the given rational probability', () => {
+      const gen = new Arc4NumberGenerator({seed: 1})
+      expect(countTrue(() => gen.nextBoolean(2, 3))).to.be.within(617, 717)
+    })
+
+    it('does not advance the state for a probability of 0 or 1', () => {
+      const gen = new Arc4NumberGenerator({seed: 1})
+      const state = gen.getState()
+      expect([gen.nextBoolean(0), gen.nextBoolean(1), gen.nextBoolean(3, 3)]).to.deep.equal([
+        false,
+        true,
+        true
+      ])
+      expect(gen.getState()).to.deep.equal(state)
+    })
+  })
+
+  describe('#nextBytes()', () => {
+    it('returns a new array of random bytes', () => {
+      const gen = new Arc4NumberGenerator({seed: 1})
+      expect(Array.from(gen.nextBytes(6))).to.deep.equal([45, 121, 121, 140, 104, 61])
+    })
+
+    it('returns the same bytes as filling an array of the same length', () => {
+      const gen1 = new Arc4NumberGenerator({seed: 1})
+      const gen2 = new Arc4NumberGenerator({seed: 1})
+      expect(gen1.nextBytes(10)).to.deep.equal(gen2.fillBytes(new Uint8Array(10)))
+      expect(gen1.getState()).to.deep.equal(gen2.getState())
+    })
+
+    it('returns an empty array when the length is 0', () => {
+      const gen = new Arc4NumberGenerator({seed: 1})
+      expect(gen.nextBytes(0)).to.have.length(0)
+    })
+  })
+
+  describe('#nextDouble()', () => {
+    it('returns the value of the default seedrandom generator', () => {
+      const gen = new Arc4NumberGenerator({seed: 'hello.'})
+      expect(gen.nextDouble()).to.equal(0.9282578795792454)
+    })
+
+    it('returns a value between 0 (inclusive) and 1 (exclusive)', () => {
+      const gen = new Arc4NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextDouble(), 100)
+      expect(min).to.be.greaterThanOrEqual(0)
+      expect(max).to.be.lessThan(1)
+    })
+  })
+
+  describe('#nextFloat()', () => {
+    it('returns a number within the given range', () => {
+      const gen = new Arc4NumberGenerator({seed: 1})
+      expect(gen.nextFloat(-5.5, 12.25)).to.equal(-2.3469821495744627)
+    })
+
+    it('rejects any maximum not greater than the given minimum', () => {
+      const gen = new Arc4NumberGenerator({seed: 1})
+      expect(() => gen.nextFloat(12.25, 12.25)).to.throw()
+    })
+  })
+
+  describe('#nextFloatInclusive()', () => {
+    it('returns a number within the given range', () => {
+      const gen = new Arc4NumberGenerator({seed: 1})
+      expect(gen.nextFloatInclusive(1, 6)).to.equal(1.8881740423733908)
+    })
+
+    it('accepts a maximum equal to the given minimum', () => {
+      const gen = new Arc4NumberGenerator({seed: 1})
+      expect(gen.nextFloatInclusive(12.25, 12.25)).to.equal(12.25)
+    })
+  })
+
+  describe('#nextFloat64()', () => {
+    it('returns a 53-bit decimal fraction', () => {
+      const gen = new Arc4NumberGenerator({seed: 1})
+      expect(gen.nextFloat64()).to.equal(bitwiseUint53ToFloat64(1599992114509180))
+    })
+
+    it(`returns a value between ${MIN_SAFE_FLOAT64_INCLUSIVE} (inclusive) and ${MAX_SAFE_FLOAT64_EXCLUSIVE} (exclusive)`, () => {
+      const gen = new Arc4NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextFloat64(), 100)
+      expect(min).to.equal(bitwiseUint53ToFloat64(123386168901352))
+      expect(max).to.equal(bitwiseUint53ToFloat64(8800901949946331))
+    })
+
+    it('accepts an optional range', () => {
+      const gen = new Arc4NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextFloat64(0.375, 0.625), 100)
+      expect(min).to.equal(bitwiseUint53ToFloat64(3396406385514545))
+      expect(max).to.equal(bitwiseUint53ToFloat64(5615847202150817))
+    })
+  })
+
+  describe('#nextFract32()', () => {
+    it('returns a 32-bit decimal fraction', () => {
+      const gen = new Arc4NumberGenerator({seed: 1})
+      const value = gen.nextFract32()
+      // Transforming the value through 32-bit integer representation maintains fidelity
+      expect(bitwiseFractToFract32(value)).to.equal(value)
+    })
+
+    it(`returns a value between ${MIN_SAFE_FRACT32_INCLUSIVE} (inclusive) and ${MAX_SAFE_FRACT32_EXCLUSIVE} (exclusive)`, () => {
+      const gen = new Arc4NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextFract32(), 100)
+      expect(min).to.equal(bitwiseUint32ToFract32(112202045))
+      expect(max).to.equal(bitwiseUint32ToFract32(4289761091))
+    })
+
+    it('accepts an optional range', () => {
+      const gen = new Arc4NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextFract32(0.375, 0.625), 100)
+      expect(min).to.equal(bitwiseUint32ToFract32(1619532790))
+      expect(max).to.equal(bitwiseUint32ToFract32(2679148355))
+    })
+
+    it('accepts an optional minimum', () => {
+      const gen = new Arc4NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextFract32(0.375, undefined), 100)
+      expect(min).to.equal(bitwiseUint32ToFract32(1669447866))
+      expect(max).to.equal(bitwiseUint32ToFract32(4175132107))
+    })
+
+    it('accepts an optional maximum', () => {
+      const gen = new Arc4NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextFract32(undefined, 0.625), 100)
+      expect(min).to.equal(bitwiseUint32ToFract32(58835130))
+      expect(max).to.equal(bitwiseUint32ToFract32(2564519371))
+    })
+
+    it('returns a value without bias using the bitmask strategy', () => {
+      /*
+       * minimum: 0.3750 = 0b01100000000000000000000000000000 (as uint32: 1610612736)
+       * maximum: 0.6875 = 0b10100000000000000000000000000000 (as uint32: 2952790016)
+       * range:   0.3125 = 0b01010000000000000000000000000000 (as uint32: 1342177280)
+       * mask:             0b01111111111111111111111111111111
+       *
+       * masked value 1:   0b01110011010110000010001100110000
+       * masked value 2:   0b01000010001001010000111110001110
+       *
+       * 1st generated value: 1935156016, masked to 1935156016, exceeds the range.
+       * 2nd generated value: 3257208718, masked to 1109725070, is within range.
+       *
+       * Result: minimum (1610612736) + 1109725070 = 2720337806
+       */
+
+      const gen = new Arc4NumberGenerator({rangeStrategy: 'bitmask', seed: 18})
+      const expectedResult = bitwiseUint32ToFract32(2720337806) // 0.6333780023269355
+      expect(gen.nextFract32(0.375, 0.6875)).to.equal(expectedResult)
+    })
+  })
+
+  describe('#nextInt32()', () => {
+    it('returns a signed 32-bit integer', () => {
+      const gen = new Arc4NumberGenerator({seed: 2})
+      expect(gen.nextInt32()).to.equal(1594224438)
+    })
+
+    it(`returns a value inclusively between ${MIN_SAFE_INT32_INCLUSIVE} and ${MAX_SAFE_INT32_INCLUSIVE}`, () => {
+      const gen = new Arc4NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextInt32(), 100)
+      expect(min).to.equal(-2138563594)
+      expect(max).to.equal(2090288083)
+    })
+
+    it('accepts an optional range', () => {
+      const gen = new Arc4NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextInt32(8192, 32768), 100)
+      expect(min).to.equal(9174)
+      expect(max).to.equal(32719)
+    })
+
+    it('accepts an optional minimum', () => {
+      const gen = new Arc4NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextInt32(8192, undefined), 100)
+      expect(min).to.equal(8928246)
+      expect(max).to.equal(2142285635)
+    })
+
+    it('accepts an optional maximum', () => {
+      const gen = new Arc4NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextInt32(undefined, 32768), 100)
+      expect(min).to.equal(-2138563594)
+      expect(max).to.equal(-5206205)
+    })
+
+    it('accepts range options with an inclusive maximum', () => {
+      const gen = new Arc4NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(
+        () => gen.nextInt32({min: -3, max: 3, inclusive: true}),
+        100
+      )
+      expect(min).to.equal(-3)
+      expect(max).to.equal(3)
+    })
+
+    it('returns a value without bias using the bitmask strategy', () => {
+      /*
+       * minimum:  8192 = 0b0010000000000000
+       * maximum: 32768 = 0b1000000000000000
+       * range:   24576 = 0b0110000000000000
+       * mask:            0b0111111111111111
+       *
+       * masked value 1:  0b0111100110001100
+       * masked value 2:  0b0101111100110111
+       *
+       * 1st generated value: 762935692, masked to 31116, exceeds the range.
+       * 2nd generated value: 1748852535, masked to 24375, is within range.
+       *
+       * Result: minimum (8192) + 24375 = 32567
+       */
+
+      const gen = new Arc4NumberGenerator({rangeStrategy: 'bitmask', seed: 1})
+      expect(gen.nextInt32(8192, 32768)).to.equal(32567)
+    })
+  })
+
+  describe('#nextInt64()', () => {
+    it('returns a signed 64-bit integer', () => {
+      const gen = new Arc4NumberGenerator({seed: 1})
+      expect(gen.nextInt64()).to.equal(3276783847839981367n)
+    })
+
+    it('accepts an optional range', () => {
+      const gen = new Arc4NumberGenerator({seed: 1})
+      const value = gen.nextInt64(-(2n ** 40n), 2n ** 40n)
+      expect(value >= -(2n ** 40n) && value < 2n ** 40n).to.equal(true)
+    })
+  })
+
+  describe('#nextSafeInteger()', () => {
+    it('returns a safe integer', () => {
+      const gen = new Arc4NumberGenerator({seed: 1})
+      expect(gen.nextSafeInteger()).to.equal(7170518369001272)
+    })
+
+    it('accepts an optional range exceeding 32 bits', () => {
+      const gen = new Arc4NumberGenerator({seed: 1})
+      expect(gen.nextSafeInteger(0, 10_000_000_000)).to.equal(1748852535)
+    })
+  })
+
+  describe('#nextUint32()', () => {
+    it('returns an unsigned 32-bit integer', () => {
+      const gen = new Arc4NumberGenerator({seed: 2})
+      expect(gen.nextUint32()).to.equal(1594224438)
+    })
+
+    it(`returns a value inclusively between ${MIN_SAFE_UINT32_INCLUSIVE} and ${MAX_SAFE_UINT32_INCLUSIVE}`, () => {
+      const gen = new Arc4NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextUint32(), 100)
+      expect(min).to.equal(112202045)
+      expect(max).to.equal(4289761091)
+    })
+
+    it('accepts an optional range', () => {
+      const gen = new Arc4NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextUint32(8192, 32768), 100)
+      expect(min).to.equal(9174)
+      expect(max).to.equal(32719)
+    })
+
+    it('accepts an optional minimum', () => {
+      const gen = new Arc4NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextUint32(8192, undefined), 100)
+      expect(min).to.equal(112210237)
+      expect(max).to.equal(4289769283)
+    })
+
+    it('accepts an optional maximum', () => {
+      const gen = new Arc4NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextUint32(undefined, 32768), 100)
+      expect(min).to.equal(1645)
+      expect(max).to.equal(32624)
+    })
+
+    it('accepts range options with an inclusive maximum', () => {
+      const gen = new Arc4NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(
+        () => gen.nextUint32({min: 1, max: 6, inclusive: true}),
+        100
+      )
+      expect(min).to.equal(1)
+      expect(max).to.equal(6)
+    })
+
+    it('returns a value without bias using the bitmask strategy', () => {
+      /*
+       * minimum:  8192 = 0b0010000000000000
+       * maximum: 32768 = 0b1000000000000000
+       * range:   24576 = 0b0110000000000000
+       * mask:            0b0111111111111111
+       *
+       * masked value 1:  0b0111100110001100
+       * masked value 2:  0b0101111100110111
+       *
+       * 1st generated value: 762935692, masked to 31116, exceeds the range.
+       * 2nd generated value: 1748852535, masked to 24375, is within range.
+       *
+       * Result: minimum (8192) + 24375 = 32567
+       */
+
+      const gen = new Arc4NumberGenerator({rangeStrategy: 'bitmask', seed: 1})
+      expect(gen.nextUint32(8192, 32768)).to.equal(32567)
+    })
+
+    it('accepts a range strategy for each call', () => {
+      const gen1 = new Arc4NumberGenerator({rangeStrategy: 'lemire', seed: 1})
+      const gen2 = new Arc4NumberGenerator({seed: 1})
+      const options = {min: 8192, max: 32768, strategy: 'lemire'} as const
+      expect(gen2.nextUint32(options)).to.equal(gen1.nextUint32(8192, 32768))
+    })
+  })
+
+  describe('#nextUint64()', () => {
+    it('returns an unsigned 64-bit integer', () => {
+      const gen = new Arc4NumberGenerator({seed: 1})
+      expect(gen.nextUint64()).to.equal(3276783847839981367n)
+    })
+
+    it('accepts an optional range', () => {
+      const gen = new Arc4NumberGenerator({seed: 1})
+      expect(gen.nextUint64(10n ** 12n, 10n ** 13n)).to.equal(1854289315616n)
+    })
+  })
+
+  describe('#serialize()', () => {
+    it('encodes the entries of the state as base64 bytes', () => {
+      const gen = new Arc4NumberGenerator({seed: 1})
+      const {state} = JSON.parse(gen.serialize())
+      expect(state.s).to.have.keys('uint8')
+      expect(state.s.uint8).to.be.a('string').with.lengthOf(344)
+    })
+
+    it('is shorter than the state as JSON', () => {
+      const gen = new Arc4NumberGenerator({seed: 1})
+      expect(gen.serialize().length).to.be.lessThan(JSON.stringify(gen.getState()).length)
+    })
+
+    it('can be restored with deserializeGenerator', () => {
+      const gen1 = new Arc4NumberGenerator({seed: 1})
+      gen1.nextUint32()
+      const gen2 = deserializeGenerator(gen1.serialize())
+      expect(gen2).to.be.an.instanceOf(Arc4NumberGenerator)
+      expect(gen2.getState()).to.deep.equal(gen1.getState())
+      expect(gen2.nextUint32()).to.equal(gen1.nextUint32())
+    })
+  })
+
+  describe('#split()', () => {
+    it('returns a generator of the same class', () => {
+      const gen = new Arc4NumberGenerator({seed: 1})
+      expect(gen.split()).to.be.an.instanceOf(Arc4NumberGenerator)
+    })
+
+    it('advances the generator by two values', () => {
+      const gen1 = new Arc4NumberGenerator({seed: 1})
+      const gen2 = new Arc4NumberGenerator({seed: 1})
+      gen1.split()
+      gen2.advance(2)
+      expect(gen1.nextUint32()).to.equal(gen2.nextUint32())
+    })
+
+    it('derives a different generator with each call', () => {
+      const gen = new Arc4NumberGenerator({seed: 1})
+      const child1 = gen.split()
+      const child2 = gen.split()
+      const values1 = Array.from({length: 4}, () => child1.nextUint32())
+      const values2 = Array.from({length: 4}, () => child2.nextUint32())
+      expect(values1).to.not.deep.equal(values2)
+    })
+
+    it('derives the same generator for the same state', () => {
+      const child1 = new Arc4NumberGenerator({seed: 1}).split()
+      const child2 = new Arc4NumberGenerator({seed: 1}).split()
+      expect(child1.getState()).to.deep.equal(child2.getState())
+    })
+  })
+})
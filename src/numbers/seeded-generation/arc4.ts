@@ -0,0 +1,231 @@
+/*
+ * A JavaScript implementation of the ARC4 stream cipher, as used by the
+ * default generator of the `seedrandom` library, including its seed mixing
+ * and the initial discarded batch of 256 bytes (RC4-drop[256]).
+ *
+ * ---
+ *
+ * Implementation modified from the `seedrandom` library:
+ * https://github.com/davidbau/seedrandom/blob/4460ad325a0a15273a211e509f03ae0beb99511a/seedrandom.js
+ */
+
+import {bitwiseUint32ToFract32, bitwiseUint32ToInt32} from '../../shared'
+import {RangeOptions} from '../types'
+import {
+  resolveRangeOptions,
+  unbiasedRandomFract32,
+  unbiasedRandomInt32,
+  unbiasedRandomUint32
+} from '../unbiased-random'
+import {SeededNumberGenerator} from './seeded-generator'
+import {assertStateBoundedInteger, assertStateUint32Array} from './state-validation'
+import {LegacySeed} from './types'
+
+export type Arc4State = {
+  i: number
+  j: number
+  s: number[]
+}
+
+const WIDTH = 256
+const MASK = WIDTH - 1
+
+// The bounds of the numerator of `nextDouble`, for 52 to 53 significant bits.
+const SIGNIFICANCE = 2 ** 52
+const OVERFLOW = 2 ** 53
+
+/**
+ * A class with methods to generate pseudorandom numbers. This class implements
+ * the ARC4 (RC4) stream cipher as seeded by the default generator of
+ * `seedrandom`, which has a state of 256 bytes.
+ *
+ * Each unsigned 32-bit integer joins the next 4 bytes of the cipher,
+ * most-significant first, so that `nextFract32` and `nextInt32` match the
+ * `quick` and `int32` functions of `seedrandom`, and `nextDouble` matches the
+ * function returned by `seedrandom` itself.
+ *
+ * When constrained with optional minimums and/or maximums, numbers are
+ * generated without additional bias.
+ *
+ * @export
+ * @class Arc4NumberGenerator
+ * @extends {SeededNumberGenerator<Arc4State>}
+ */
+export class Arc4NumberGenerator extends SeededNumberGenerator<Arc4State> {
+  static readonly seedWordCount = 64
+
+  /**
+   * Returns a decimal fraction from 0 inclusive to 1 exclusive, with
+   * randomness in each of its 52 significant bits, the same as calling the
+   * function returned by `seedrandom`. This reads at least 7 bytes of the
+   * cipher, and more when the leading bytes are zeros.
+   *
+   * @returns {number} A 52-bit decimal fraction.
+   */
+  nextDouble(): number {
+    let numerator = this.internalNextBytes(6)
+    let denominator = 2 ** 48
+    let extra = 0
+
+    // Fill all significant bits by shifting in further bytes.
+    while (numerator < SIGNIFICANCE) {
+      numerator = (numerator + extra) * WIDTH
+      denominator *= WIDTH
+      extra = this.internalNextBytes(1)
+    }
+
+    // Shift out excess bits before adding the last byte, to avoid rounding up.
+    while (numerator >= OVERFLOW) {
+      numerator /= 2
+      denominator /= 2
+      extra >>>= 1
+    }
+
+    return (numerator + extra) / denominator
+  }
+
+  nextFract32(minOrOptions?: number | RangeOptions, maxExclusive?: number): number {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomFract32(
+      min,
+      max,
+      () => bitwiseUint32ToFract32(this.internalNextUint32()),
+      inclusive,
+      strategy ?? this.rangeStrategy
+    )
+  }
+
+  nextInt32(minOrOptions?: number | RangeOptions, maxExclusive?: number): number {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomInt32(
+      min,
+      max,
+      () => bitwiseUint32ToInt32(this.internalNextUint32()),
+      inclusive,
+      strategy ?? this.rangeStrategy
+    )
+  }
+
+  nextUint32(minOrOptions?: number | RangeOptions, maxExclusive?: number): number {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomUint32(
+      min,
+      max,
+      () => this.internalNextUint32(),
+      inclusive,
+      strategy ?? this.rangeStrategy
+    )
+  }
+
+  protected internalFillUint32(array: Uint32Array): void {
+    const {s} = this.state
+    let {i, j} = this.state
+
+    for (let index = 0; index < array.length; index++) {
+      let result = 0
+
+      // As with `internalNextBytes`, joining 4 bytes for each value.
+      for (let byte = 0; byte < 4; byte++) {
+        i = (i + 1) & MASK
+        const t = s[i]
+        j = (j + t) & MASK
+        s[i] = s[j]
+        s[j] = t
+        result = result * WIDTH + s[(s[i] + t) & MASK]
+      }
+
+      array[index] = result
+    }
+
+    this.state.i = i
+    this.state.j = j
+  }
+
+  protected internalNextUint32(): number {
+    return this.internalNextBytes(4)
+  }
+
+  protected buildStateFromSeed(seed: LegacySeed): void {
+    /*
+     * As with `seedrandom`, a number is distinguished from its string with a
+     * trailing null character. Each character is then mixed into a key of up
+     * to 256 bytes.
+     */
+    const text = typeof seed === 'string' ? seed : `${seed}\0`
+    const key: number[] = []
+    let smear = 0
+
+    for (let index = 0; index < text.length; index++) {
+      smear ^= (key[index & MASK] ?? 0) * 19
+      key[index & MASK] = (smear + text.charCodeAt(index)) & MASK
+    }
+
+    this.scheduleKey(key)
+  }
+
+  protected buildStateFromSeedWords(nextSeedWord: () => number): void {
+    const key: number[] = []
+
+    for (let index = 0; index < WIDTH; index += 4) {
+      const word = nextSeedWord()
+      key.push(word >>> 24, (word >>> 16) & MASK, (word >>> 8) & MASK, word & MASK)
+    }
+
+    this.scheduleKey(key)
+  }
+
+  protected cloneState(state: Arc4State): Arc4State {
+    return {i: state.i, j: state.j, s: [...state.s]}
+  }
+
+  protected validateState(state: Arc4State): void {
+    assertStateBoundedInteger(state, 'i', MASK)
+    assertStateBoundedInteger(state, 'j', MASK)
+    assertStateUint32Array(state, 's', WIDTH)
+
+    if (new Set(state.s).size !== WIDTH || state.s.some(value => value > MASK)) {
+      throw new Error(`State "s" must be a permutation of the integers from 0 to ${MASK}.`)
+    }
+  }
+
+  private internalNextBytes(count: number): number {
+    const {s} = this.state
+    let {i, j} = this.state
+    let result = 0
+
+    for (let remaining = count; remaining > 0; remaining--) {
+      i = (i + 1) & MASK
+      const t = s[i]
+      j = (j + t) & MASK
+      s[i] = s[j]
+      s[j] = t
+      result = result * WIDTH + s[(s[i] + t) & MASK]
+    }
+
+    this.state.i = i
+    this.state.j = j
+
+    return result
+  }
+
+  private scheduleKey(key: number[]): void {
+    // The empty key is treated as a key of a single zero.
+    const keyBytes = key.length > 0 ? key : [0]
+    const s = Array.from({length: WIDTH}, (_, index) => index)
+    let j = 0
+
+    for (let i = 0; i < WIDTH; i++) {
+      const t = s[i]
+      j = (j + keyBytes[i % keyBytes.length] + t) & MASK
+      s[i] = s[j]
+      s[j] = t
+    }
+
+    this.state = {i: 0, j: 0, s}
+
+    // Discard an initial batch of bytes, which are correlated with the key.
+    for (let index = 0; index < WIDTH; index++) {
+      this.internalNextBytes(1)
+    }
+  }
+}
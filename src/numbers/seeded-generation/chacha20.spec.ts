@@ -0,0 +1,807 @@
+import {expect} from 'chai'
+import {
+  MAX_SAFE_FLOAT64_EXCLUSIVE,
+  MAX_SAFE_FRACT32_EXCLUSIVE,
+  MAX_SAFE_INT32_INCLUSIVE,
+  MAX_SAFE_UINT32_INCLUSIVE,
+  MIN_SAFE_FLOAT64_INCLUSIVE,
+  MIN_SAFE_FRACT32_INCLUSIVE,
+  MIN_SAFE_INT32_INCLUSIVE,
+  MIN_SAFE_UINT32_INCLUSIVE,
+  bitwiseFractToFract32,
+  bitwiseUint32ToFract32,
+  bitwiseUint53ToFloat64
+} from '../../shared'
+import {
+  iterateForMinAndMax,
+  loadRealCrypto,
+  replaceFallbackCrypto,
+  replaceGlobalCrypto
+} from '../../spec-support'
+import {ChaCha20NumberGenerator} from './chacha20'
+
+describe('numbers > seeded generation > ChaCha20NumberGenerator', () => {
+  it('can be instantiated with a numerical seed', () => {
+    const gen = new ChaCha20NumberGenerator({seed: 123})
+    expect(gen.nextInt32()).to.equal(-1706403047)
+  })
+
+  it('can be instantiated with a string seed', () => {
+    const gen = new ChaCha20NumberGenerator({seed: 'start'})
+    expect(gen.nextInt32()).to.equal(-1886571297)
+  })
+
+  it('can be instantiated with a function returning a numerical seed', () => {
+    const gen = new ChaCha20NumberGenerator({seedFn: () => 123})
+    expect(gen.nextInt32()).to.equal(-1706403047)
+  })
+
+  it('can be instantiated with a function returning a string seed', () => {
+    const gen = new ChaCha20NumberGenerator({seedFn: () => 'start'})
+    expect(gen.nextInt32()).to.equal(-1886571297)
+  })
+
+  it('can be instantiated with a seed hashed using MurmurHash3', () => {
+    const gen1 = new ChaCha20NumberGenerator({seed: 'start', seedMode: 'murmur3'})
+    expect(gen1.nextUint32()).to.equal(2261330612)
+  })
+
+  it('can be instantiated with a seed hashed using SHA-256', () => {
+    const gen1 = new ChaCha20NumberGenerator({seed: 'start', seedMode: 'sha256'})
+    expect(gen1.nextUint32()).to.equal(2508770275)
+  })
+
+  it('derives unrelated states for seeds with the same legacy hash when hashing seeds', () => {
+    const gen1 = new ChaCha20NumberGenerator({seed: 'Aa', seedMode: 'murmur3'})
+    const gen2 = new ChaCha20NumberGenerator({seed: 'BB', seedMode: 'murmur3'})
+    expect(gen1.nextUint32()).to.not.equal(gen2.nextUint32())
+  })
+
+  it('derives the state from hashed words of a byte array seed', () => {
+    const gen1 = new ChaCha20NumberGenerator({seed: new Uint8Array([0x61, 0x62, 0x63])})
+    const gen2 = new ChaCha20NumberGenerator({seed: 'abc', seedMode: 'murmur3'})
+    expect(gen1.getState()).to.deep.equal(gen2.getState())
+  })
+
+  it('can be instantiated with a known state', () => {
+    const gen1 = new ChaCha20NumberGenerator({seed: 123})
+    const gen2 = new ChaCha20NumberGenerator({state: gen1.getState()})
+    expect(gen2.nextInt32()).to.equal(gen1.nextInt32())
+  })
+
+  it('rejects a state with a key with the wrong number of words', () => {
+    const state = new ChaCha20NumberGenerator({seed: 1}).getState()
+    expect(
+      () => new ChaCha20NumberGenerator({state: {...state, key: state.key.slice(0, 7)}})
+    ).to.throw('State "key" must be an array of 8 unsigned 32-bit integers.')
+  })
+
+  it('rejects a state with an index beyond the block', () => {
+    const state = new ChaCha20NumberGenerator({seed: 1}).getState()
+    expect(() => new ChaCha20NumberGenerator({state: {...state, index: 16}})).to.throw(
+      'State "index" must be an integer from 0 to 15.'
+    )
+  })
+
+  it('rejects a state with a counter word which is out of range', () => {
+    const state = new ChaCha20NumberGenerator({seed: 1}).getState()
+    expect(() => new ChaCha20NumberGenerator({state: {...state, counterLow: -1}})).to.throw(
+      'State "counterLow" must be an unsigned 32-bit integer.'
+    )
+  })
+
+  it('can be instantiated without deterministic seeding', () => {
+    const gen = new ChaCha20NumberGenerator()
+    expect(gen.nextInt32())
+      .to.be.lessThanOrEqual(MAX_SAFE_INT32_INCLUSIVE)
+      .and.greaterThanOrEqual(MIN_SAFE_INT32_INCLUSIVE)
+  })
+
+  it('reproduces the keystream of the reference implementation', () => {
+    // The block of RFC 8439, section 2.3.2, for a key of the bytes 0 through 31.
+    const key = Uint8Array.from({length: 32}, (_, index) => index)
+    const {key: keyWords} = new ChaCha20NumberGenerator({key}).getState()
+    const gen = new ChaCha20NumberGenerator({
+      state: {
+        counterHigh: 0x09000000,
+        counterLow: 1,
+        index: 0,
+        key: keyWords,
+        streamHigh: 0,
+        streamLow: 0x4a000000
+      }
+    })
+    const values = Array.from({length: 16}, () => gen.nextUint32())
+    expect(values).to.deep.equal([
+      0xe4e7f110, 0x15593bd1, 0x1fdd0f50, 0xc47120a3, 0xc7f4d1c7, 0x0368c033, 0x9aaa2204,
+      0x4e6cd4c3, 0x466482d2, 0x09aa9f07, 0x05d7c214, 0xa2028bd9, 0xd19c12b5, 0xb94e16de,
+      0xe883d0cb, 0x4e3c50a2
+    ])
+  })
+
+  it('reproduces the keystream for a key of zeros', () => {
+    const gen = new ChaCha20NumberGenerator({key: new Uint8Array(32)})
+    const values = Array.from({length: 4}, () => gen.nextUint32())
+    expect(values).to.deep.equal([0xade0b876, 0x903df1a0, 0xe56a5d40, 0x28bd8653])
+  })
+
+  it('uses the key instead of the seed when both are given', () => {
+    const key = Uint8Array.from({length: 32}, (_, index) => index)
+    const gen1 = new ChaCha20NumberGenerator({key, seed: 1})
+    const gen2 = new ChaCha20NumberGenerator({key})
+    expect(gen1.getState()).to.deep.equal(gen2.getState())
+  })
+
+  it('rejects a key which is not 32 bytes', () => {
+    expect(() => new ChaCha20NumberGenerator({key: new Uint8Array(16)})).to.throw(
+      'Key must be 32 bytes.'
+    )
+  })
+
+  context('when a secure source of random numbers is available', () => {
+    let restoreFallbackCrypto: () => void
+
+    beforeEach(() => {
+      restoreFallbackCrypto = replaceFallbackCrypto(loadRealCrypto())
+    })
+
+    afterEach(() => {
+      restoreFallbackCrypto()
+    })
+
+    it('can be instantiated without deterministic seeding using a random key', () => {
+      const gen1 = new ChaCha20NumberGenerator()
+      const gen2 = new ChaCha20NumberGenerator()
+      expect(gen1.getState().key).to.not.deep.equal(gen2.getState().key)
+    })
+  })
+
+  context('when no secure source of random numbers is available', () => {
+    let restoreFallbackCrypto: () => void
+    let restoreGlobalCrypto: () => void
+
+    beforeEach(() => {
+      restoreFallbackCrypto = replaceFallbackCrypto(undefined)
+      restoreGlobalCrypto = replaceGlobalCrypto(undefined)
+    })
+
+    afterEach(() => {
+      restoreFallbackCrypto()
+      restoreGlobalCrypto()
+    })
+
+    it('rejects instantiation without a key, seed, or state', () => {
+      expect(() => new ChaCha20NumberGenerator()).to.throw(
+        'No secure source of random numbers is available.'
+      )
+    })
+
+    it('can be instantiated with a seed', () => {
+      expect(new ChaCha20NumberGenerator({seed: 1}).nextUint32()).to.be.a('number')
+    })
+  })
+
+  it('accepts a bigint stream', () => {
+    const gen1 = new ChaCha20NumberGenerator({seed: 1, stream: 2n ** 40n})
+    const gen2 = new ChaCha20NumberGenerator({seed: 1, stream: 2 ** 40})
+    expect(gen1.getState()).to.deep.equal(gen2.getState())
+  })
+
+  it('produces independent sequences for different streams of the same key', () => {
+    const gen1 = new ChaCha20NumberGenerator({seed: 1, stream: 1})
+    const gen2 = new ChaCha20NumberGenerator({seed: 1, stream: 2})
+    const values1 = Array.from({length: 4}, () => gen1.nextUint32())
+    const values2 = Array.from({length: 4}, () => gen2.nextUint32())
+    expect(values1).to.not.deep.equal(values2)
+  })
+
+  it('advances the block counter after each block of 16 values', () => {
+    const gen = new ChaCha20NumberGenerator({seed: 1})
+    Array.from({length: 16}, () => gen.nextUint32())
+    const {counterHigh, counterLow, index} = gen.getState()
+    expect({counterHigh, counterLow, index}).to.deep.equal({
+      counterHigh: 0,
+      counterLow: 1,
+      index: 0
+    })
+  })
+
+  it('carries the block counter into its high word', () => {
+    const state = new ChaCha20NumberGenerator({seed: 1}).getState()
+    const gen = new ChaCha20NumberGenerator({state: {...state, counterLow: 0xffffffff}})
+    Array.from({length: 16}, () => gen.nextUint32())
+    const {counterHigh, counterLow} = gen.getState()
+    expect({counterHigh, counterLow}).to.deep.equal({counterHigh: 1, counterLow: 0})
+  })
+
+  it('can be instantiated with a known state within a block', () => {
+    const gen1 = new ChaCha20NumberGenerator({seed: 1})
+    Array.from({length: 5}, () => gen1.nextUint32())
+    const gen2 = new ChaCha20NumberGenerator({state: gen1.getState()})
+    const values1 = Array.from({length: 40}, () => gen1.nextUint32())
+    const values2 = Array.from({length: 40}, () => gen2.nextUint32())
+    expect(values2).to.deep.equal(values1)
+  })
+
+  describe('#advance()', () => {
+    it('advances the generator as if generating the given number of values', () => {
+      const gen1 = new ChaCha20NumberGenerator({seed: 1})
+      const gen2 = new ChaCha20NumberGenerator({seed: 1})
+      gen1.advance(100)
+      Array.from({length: 100}, () => gen2.nextUint32())
+      expect(gen1.nextUint32()).to.equal(gen2.nextUint32())
+    })
+
+    it('accepts a bigint number of steps', () => {
+      const gen1 = new ChaCha20NumberGenerator({seed: 1})
+      const gen2 = new ChaCha20NumberGenerator({seed: 1})
+      gen1.advance(100n)
+      gen2.advance(100)
+      expect(gen1.nextUint32()).to.equal(gen2.nextUint32())
+    })
+
+    it('does not advance the generator for zero steps', () => {
+      const gen1 = new ChaCha20NumberGenerator({seed: 1})
+      const gen2 = new ChaCha20NumberGenerator({seed: 1})
+      gen1.advance(0)
+      expect(gen1.nextUint32()).to.equal(gen2.nextUint32())
+    })
+
+    it('rejects a negative number of steps', () => {
+      const gen = new ChaCha20NumberGenerator({seed: 1})
+      expect(() => gen.advance(-1)).to.throw('Steps must be a non-negative safe integer or bigint.')
+    })
+
+    it('advances the block counter and the index within the block', () => {
+      const gen = new ChaCha20NumberGenerator({seed: 1})
+      gen.nextUint32()
+      gen.advance(16n * 2n ** 40n + 2n)
+      const {counterHigh, counterLow, index} = gen.getState()
+      expect({counterHigh, counterLow, index}).to.deep.equal({
+        counterHigh: 2 ** 8,
+        counterLow: 0,
+        index: 3
+      })
+    })
+  })
+
+  describe('#fillBytes()', () => {
+    it('fills the array with random bytes', () => {
+      const gen = new ChaCha20NumberGenerator({seed: 1})
+      const array = gen.fillBytes(new Uint8Array(6))
+      expect(Array.from(array)).to.deep.equal([133, 108, 186, 170, 46, 30])
+    })
+  })
+
+  describe('#fillFloat32()', () => {
+    it('fills the array with 24-bit decimal fractions', () => {
+      const gen = new ChaCha20NumberGenerator({seed: 1})
+      const array = gen.fillFloat32(new Float32Array(2))
+      expect(Array.from(array)).to.deep.equal([0.5211902856826782, 0.1801559329032898])
+    })
+
+    it('accepts range options with an inclusive maximum', () => {
+      const gen = new ChaCha20NumberGenerator({seed: 1})
+      const array = gen.fillFloat32(new Float32Array(100), {min: 0.25, max: 0.5, inclusive: true})
+      expect(Math.min(...array)).to.be.greaterThanOrEqual(0.25)
+      expect(Math.max(...array)).to.be.lessThanOrEqual(0.5)
+    })
+  })
+
+  describe('#fillFloat64()', () => {
+    it('fills the array with values as from repeated calls to #nextFloat64()', () => {
+      const gen1 = new ChaCha20NumberGenerator({seed: 1})
+      const gen2 = new ChaCha20NumberGenerator({seed: 1})
+      const array = gen1.fillFloat64(new Float64Array(10), 0.25, 0.75)
+      const expected = Array.from({length: 10}, () => gen2.nextFloat64(0.25, 0.75))
+      expect(Array.from(array)).to.deep.equal(expected)
+    })
+
+    it('fills the array without a range as from repeated calls to #nextFloat64()', () => {
+      const gen1 = new ChaCha20NumberGenerator({seed: 1})
+      const gen2 = new ChaCha20NumberGenerator({seed: 1})
+      const array = gen1.fillFloat64(new Float64Array(10))
+      const expected = Array.from({length: 10}, () => gen2.nextFloat64())
+      expect(Array.from(array)).to.deep.equal(expected)
+    })
+  })
+
+  describe('#fillInt32()', () => {
+    it('fills the array with values as from repeated calls to #nextInt32()', () => {
+      const gen1 = new ChaCha20NumberGenerator({seed: 1})
+      const gen2 = new ChaCha20NumberGenerator({seed: 1})
+      const array = gen1.fillInt32(new Int32Array(10), -100, 100)
+      const expected = Array.from({length: 10}, () => gen2.nextInt32(-100, 100))
+      expect(Array.from(array)).to.deep.equal(expected)
+    })
+
+    it('fills the array without a range as from repeated calls to #nextInt32()', () => {
+      const gen1 = new ChaCha20NumberGenerator({seed: 1})
+      const gen2 = new ChaCha20NumberGenerator({seed: 1})
+      const array = gen1.fillInt32(new Int32Array(10))
+      const expected = Array.from({length: 10}, () => gen2.nextInt32())
+      expect(Array.from(array)).to.deep.equal(expected)
+    })
+  })
+
+  describe('#fillUint32()', () => {
+    it('fills the array with values as from repeated calls to #nextUint32()', () => {
+      const gen1 = new ChaCha20NumberGenerator({seed: 1})
+      const gen2 = new ChaCha20NumberGenerator({seed: 1})
+      const array = gen1.fillUint32(new Uint32Array(10))
+      const expected = Array.from({length: 10}, () => gen2.nextUint32())
+      expect(Array.from(array)).to.deep.equal(expected)
+    })
+
+    it('accepts range options with an inclusive maximum', () => {
+      const gen1 = new ChaCha20NumberGenerator({seed: 1})
+      const gen2 = new ChaCha20NumberGenerator({seed: 1})
+      const array = gen1.fillUint32(new Uint32Array(10), {min: 1, max: 6, inclusive: true})
+      const expected = Array.from({length: 10}, () =>
+        gen2.nextUint32({min: 1, max: 6, inclusive: true})
+      )
+      expect(Array.from(array)).to.deep.equal(expected)
+    })
+
+    it('leaves the generator in the same state as repeated calls to #nextUint32()', () => {
+      const gen1 = new ChaCha20NumberGenerator({seed: 1})
+      const gen2 = new ChaCha20NumberGenerator({seed: 1})
+      gen1.fillUint32(new Uint32Array(10))
+      Array.from({length: 10}, () => gen2.nextUint32())
+      expect(gen1.getState()).to.deep.equal(gen2.getState())
+    })
+
+    it('fills across keystream blocks as from repeated calls to #nextUint32()', () => {
+      const gen1 = new ChaCha20NumberGenerator({seed: 1})
+      const gen2 = new ChaCha20NumberGenerator({seed: 1})
+      gen1.nextUint32()
+      gen2.nextUint32()
+      const array = gen1.fillUint32(new Uint32Array(40))
+      const expected = Array.from({length: 40}, () => gen2.nextUint32())
+      expect(Array.from(array)).to.deep.equal(expected)
+      expect(gen1.getState()).to.deep.equal(gen2.getState())
+    })
+  })
+
+  describe('#fork()', () => {
+    it('returns a generator of the same class', () => {
+      const gen = new ChaCha20NumberGenerator({seed: 1})
+      expect(gen.fork('child')).to.be.an.instanceOf(ChaCha20NumberGenerator)
+    })
+
+    it('does not advance the generator', () => {
+      const gen1 = new ChaCha20NumberGenerator({seed: 1})
+      const gen2 = new ChaCha20NumberGenerator({seed: 1})
+      gen1.fork('child')
+      expect(gen1.nextUint32()).to.equal(gen2.nextUint32())
+    })
+
+    it('derives the same generator for the same state and label', () => {
+      const child1 = new ChaCha20NumberGenerator({seed: 1}).fork('child')
+      const child2 = new ChaCha20NumberGenerator({seed: 1}).fork('child')
+      expect(child1.getState()).to.deep.equal(child2.getState())
+    })
+
+    it('derives different generators for different labels', () => {
+      const gen = new ChaCha20NumberGenerator({seed: 1})
+      const child1 = gen.fork('first')
+      const child2 = gen.fork('second')
+      const values1 = Array.from({length: 4}, () => child1.nextUint32())
+      const values2 = Array.from({length: 4}, () => child2.nextUint32())
+      expect(values1).to.not.deep.equal(values2)
+    })
+
+    it('derives a generator from an empty label by default', () => {
+      const gen = new ChaCha20NumberGenerator({seed: 1})
+      expect(gen.fork().getState()).to.deep.equal(gen.fork('').getState())
+    })
+
+    it('retains the range strategy of the generator', () => {
+      const child = new ChaCha20NumberGenerator({rangeStrategy: 'lemire', seed: 1}).fork('child')
+      const copy = new ChaCha20NumberGenerator({rangeStrategy: 'lemire', state: child.getState()})
+      const values1 = Array.from({length: 4}, () => child.nextUint32(0, 1000003))
+      const values2 = Array.from({length: 4}, () => copy.nextUint32(0, 1000003))
+      expect(values1).to.deep.equal(values2)
+    })
+  })
+
+  describe('#getState()', () => {
+    it('returns the current state of the generator', () => {
+      const gen = new ChaCha20NumberGenerator({seed: 1})
+      expect(gen.getState()).to.have.keys(
+        'counterHigh',
+        'counterLow',
+        'index',
+        'key',
+        'streamHigh',
+        'streamLow'
+      )
+    })
+
+    it('returns a unique instance of the state', () => {
+      const gen = new ChaCha20NumberGenerator({seed: 1})
+      expect(gen.getState()).to.not.equal(gen.getState())
+    })
+
+    it('returns a copy of the key', () => {
+      const gen = new ChaCha20NumberGenerator({seed: 1})
+      const state = gen.getState()
+      state.key.fill(0)
+      expect(gen.getState().key).to.not.deep.equal(state.key)
+    })
+  })
+
+  describe('#nextBigInt()', () => {
+    it('returns an integer within the given range', () => {
+      const gen = new ChaCha20NumberGenerator({seed: 1})
+      expect(gen.nextBigInt(-(10n ** 30n), 10n ** 30n)).to.equal(-193444948767624303590915587270n)
+    })
+
+    it('rejects any maximum not greater than the given minimum', () => {
+      const gen = new ChaCha20NumberGenerator({seed: 1})
+      expect(() => gen.nextBigInt(10n ** 30n, 10n ** 30n)).to.throw()
+    })
+  })
+
+  describe('#nextBoolean()', () => {
+    function countTrue(next: () => boolean): number {
+      let count = 0
+      for (let i = 0; i < 1000; i++) {
+        count += next() ? 1 : 0
+      }
+      return count
+    }
+
+    it('returns true with a probability of 0.5 by default', () => {
+      const gen = new ChaCha20NumberGenerator({seed: 1})
+      expect(countTrue(() => gen.nextBoolean())).to.be.within(450, 550)
+    })
+
+    it('returns true with the given probability', () => {
+      const gen = new ChaCha20NumberGenerator({seed: 1})
+      expect(countTrue(() => gen.nextBoolean(0.1))).to.be.within(70, 130)
+    })
+
+    it('returns true with the given rational probability', () => {
+      const gen = new ChaCha20NumberGenerator({seed: 1})
+      expect(countTrue(() => gen.nextBoolean(2, 3))).to.be.within(617, 717)
+    })
+
+    it('does not advance the state for a probability of 0 or 1', () => {
+      const gen = new ChaCha20NumberGenerator({seed: 1})
+      const state = gen.getState()
+      expect([gen.nextBoolean(0), gen.nextBoolean(1), gen.nextBoolean(3, 3)]).to.deep.equal([
+        false,
+        true,
+        true
+      ])
+      expect(gen.getState()).to.deep.equal(state)
+    })
+  })
+
+  describe('#nextBytes()', () => {
+    it('returns a new array of random bytes', () => {
+      const gen = new ChaCha20NumberGenerator({seed: 1})
+      expect(Array.from(gen.nextBytes(6))).to.deep.equal([133, 108, 186, 170, 46, 30])
+    })
+
+    it('returns the same bytes as filling an array of the same length', () => {
+      const gen1 = new ChaCha20NumberGenerator({seed: 1})
+      const gen2 = new ChaCha20NumberGenerator({seed: 1})
+      expect(gen1.nextBytes(10)).to.deep.equal(gen2.fillBytes(new Uint8Array(10)))
+      expect(gen1.getState()).to.deep.equal(gen2.getState())
+    })
+
+    it('returns an empty array when the length is 0', () => {
+      const gen = new ChaCha20NumberGenerator({seed: 1})
+      expect(gen.nextBytes(0)).to.have.length(0)
+    })
+  })
+
+  describe('#nextFloat()', () => {
+    it('returns a number within the given range', () => {
+      const gen = new ChaCha20NumberGenerator({seed: 1})
+      expect(gen.nextFloat(-5.5, 12.25)).to.equal(3.751128255931798)
+    })
+
+    it('rejects any maximum not greater than the given minimum', () => {
+      const gen = new ChaCha20NumberGenerator({seed: 1})
+      expect(() => gen.nextFloat(12.25, 12.25)).to.throw()
+    })
+  })
+
+  describe('#nextFloatInclusive()', () => {
+    it('returns a number within the given range', () => {
+      const gen = new ChaCha20NumberGenerator({seed: 1})
+      expect(gen.nextFloatInclusive(1, 6)).to.equal(3.6059516213892393)
+    })
+
+    it('accepts a maximum equal to the given minimum', () => {
+      const gen = new ChaCha20NumberGenerator({seed: 1})
+      expect(gen.nextFloatInclusive(12.25, 12.25)).to.equal(12.25)
+    })
+  })
+
+  describe('#nextFloat64()', () => {
+    it('returns a 53-bit decimal fraction', () => {
+      const gen = new ChaCha20NumberGenerator({seed: 1})
+      expect(gen.nextFloat64()).to.equal(bitwiseUint53ToFloat64(4694465100413646))
+    })
+
+    it(`returns a value between ${MIN_SAFE_FLOAT64_INCLUSIVE} (inclusive) and ${MAX_SAFE_FLOAT64_EXCLUSIVE} (exclusive)`, () => {
+      const gen = new ChaCha20NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextFloat64(), 100)
+      expect(min).to.equal(bitwiseUint53ToFloat64(59163572467636))
+      expect(max).to.equal(bitwiseUint53ToFloat64(8950063807257654))
+    })
+
+    it('accepts an optional range', () => {
+      const gen = new ChaCha20NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextFloat64(0.375, 0.625), 100)
+      expect(min).to.equal(bitwiseUint53ToFloat64(3397576941480711))
+      expect(max).to.equal(bitwiseUint53ToFloat64(5629056351696136))
+    })
+  })
+
+  describe('#nextFract32()', () => {
+    it('returns a 32-bit decimal fraction', () => {
+      const gen = new ChaCha20NumberGenerator({seed: 1})
+      const value = gen.nextFract32()
+      // Transforming the value through 32-bit integer representation maintains fidelity
+      expect(bitwiseFractToFract32(value)).to.equal(value)
+    })
+
+    it(`returns a value between ${MIN_SAFE_FRACT32_INCLUSIVE} (inclusive) and ${MAX_SAFE_FRACT32_EXCLUSIVE} (exclusive)`, () => {
+      const gen = new ChaCha20NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextFract32(), 100)
+      expect(min).to.equal(bitwiseUint32ToFract32(59772035))
+      expect(max).to.equal(bitwiseUint32ToFract32(4210807399))
+    })
+
+    it('accepts an optional range', () => {
+      const gen = new ChaCha20NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextFract32(0.375, 0.625), 100)
+      expect(min).to.equal(bitwiseUint32ToFract32(1634611650))
+      expect(max).to.equal(bitwiseUint32ToFract32(2684143245))
+    })
+
+    it('accepts an optional minimum', () => {
+      const gen = new ChaCha20NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextFract32(0.375, undefined), 100)
+      expect(min).to.equal(bitwiseUint32ToFract32(1638824101))
+      expect(max).to.equal(bitwiseUint32ToFract32(4257991815))
+    })
+
+    it('accepts an optional maximum', () => {
+      const gen = new ChaCha20NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextFract32(undefined, 0.625), 100)
+      expect(min).to.equal(bitwiseUint32ToFract32(28211365))
+      expect(max).to.equal(bitwiseUint32ToFract32(2647379079))
+    })
+
+    it('returns a value without bias using the bitmask strategy', () => {
+      /*
+       * minimum: 0.3750 = 0b01100000000000000000000000000000 (as uint32: 1610612736)
+       * maximum: 0.6875 = 0b10100000000000000000000000000000 (as uint32: 2952790016)
+       * range:   0.3125 = 0b01010000000000000000000000000000 (as uint32: 1342177280)
+       * mask:             0b01111111111111111111111111111111
+       *
+       * masked value 1:   0b01100111110101001100111101110101
+       * masked value 2:   0b01001101100011001101000001110111
+       *
+       * 1st generated value: 1741999989, masked to 1741999989, exceeds the range.
+       * 2nd generated value: 1301074039, masked to 1301074039, is within range.
+       *
+       * Result: minimum (1610612736) + 1301074039 = 2911686775
+       */
+
+      const gen = new ChaCha20NumberGenerator({rangeStrategy: 'bitmask', seed: 9})
+      const expectedResult = bitwiseUint32ToFract32(2911686775) // 0.6779299059417099
+      expect(gen.nextFract32(0.375, 0.6875)).to.equal(expectedResult)
+    })
+  })
+
+  describe('#nextInt32()', () => {
+    it('returns a signed 32-bit integer', () => {
+      const gen = new ChaCha20NumberGenerator({seed: 2})
+      expect(gen.nextInt32()).to.equal(-889208408)
+    })
+
+    it(`returns a value inclusively between ${MIN_SAFE_INT32_INCLUSIVE} and ${MAX_SAFE_INT32_INCLUSIVE}`, () => {
+      const gen = new ChaCha20NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextInt32(), 100)
+      expect(min).to.equal(-2123484734)
+      expect(max).to.equal(2126230654)
+    })
+
+    it('accepts an optional range', () => {
+      const gen = new ChaCha20NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextInt32(8192, 32768), 100)
+      expect(min).to.equal(8626)
+      expect(max).to.equal(32598)
+    })
+
+    it('accepts an optional minimum', () => {
+      const gen = new ChaCha20NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextInt32(8192, undefined), 100)
+      expect(min).to.equal(24007106)
+      expect(max).to.equal(2126238846)
+    })
+
+    it('accepts an optional maximum', () => {
+      const gen = new ChaCha20NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextInt32(undefined, 32768), 100)
+      expect(min).to.equal(-2138005441)
+      expect(max).to.equal(-27244299)
+    })
+
+    it('accepts range options with an inclusive maximum', () => {
+      const gen = new ChaCha20NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(
+        () => gen.nextInt32({min: -3, max: 3, inclusive: true}),
+        100
+      )
+      expect(min).to.equal(-3)
+      expect(max).to.equal(3)
+    })
+
+    it('returns a value without bias using the bitmask strategy', () => {
+      /*
+       * minimum:  8192 = 0b0010000000000000
+       * maximum: 32768 = 0b1000000000000000
+       * range:   24576 = 0b0110000000000000
+       * mask:            0b0111111111111111
+       *
+       * masked value 1:  0b0110111110001101
+       * masked value 2:  0b0010001000011100
+       *
+       * 1st generated value: 2726621069, masked to 28557, exceeds the range.
+       * 2nd generated value: 1274651164, masked to 8732, is within range.
+       *
+       * Result: minimum (8192) + 8732 = 16924
+       */
+
+      const gen = new ChaCha20NumberGenerator({rangeStrategy: 'bitmask', seed: 11})
+      expect(gen.nextInt32(8192, 32768)).to.equal(16924)
+    })
+  })
+
+  describe('#nextInt64()', () => {
+    it('returns a signed 64-bit integer', () => {
+      const gen = new ChaCha20NumberGenerator({seed: 1})
+      expect(gen.nextInt64()).to.equal(-8832479529099414646n)
+    })
+
+    it('accepts an optional range', () => {
+      const gen = new ChaCha20NumberGenerator({seed: 1})
+      const value = gen.nextInt64(-(2n ** 40n), 2n ** 40n)
+      expect(value >= -(2n ** 40n) && value < 2n ** 40n).to.equal(true)
+    })
+  })
+
+  describe('#nextSafeInteger()', () => {
+    it('returns a safe integer', () => {
+      const gen = new ChaCha20NumberGenerator({seed: 1})
+      expect(gen.nextSafeInteger()).to.equal(3582939801498507)
+    })
+
+    it('accepts an optional range exceeding 32 bits', () => {
+      const gen = new ChaCha20NumberGenerator({seed: 1})
+      expect(gen.nextSafeInteger(0, 10_000_000_000)).to.equal(9363698570)
+    })
+  })
+
+  describe('#nextUint32()', () => {
+    it('returns an unsigned 32-bit integer', () => {
+      const gen = new ChaCha20NumberGenerator({seed: 2})
+      expect(gen.nextUint32()).to.equal(3405758888)
+    })
+
+    it(`returns a value inclusively between ${MIN_SAFE_UINT32_INCLUSIVE} and ${MAX_SAFE_UINT32_INCLUSIVE}`, () => {
+      const gen = new ChaCha20NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextUint32(), 100)
+      expect(min).to.equal(59772035)
+      expect(max).to.equal(4210807399)
+    })
+
+    it('accepts an optional range', () => {
+      const gen = new ChaCha20NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextUint32(8192, 32768), 100)
+      expect(min).to.equal(8626)
+      expect(max).to.equal(32598)
+    })
+
+    it('accepts an optional minimum', () => {
+      const gen = new ChaCha20NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextUint32(8192, undefined), 100)
+      expect(min).to.equal(59780227)
+      expect(max).to.equal(4210815591)
+    })
+
+    it('accepts an optional maximum', () => {
+      const gen = new ChaCha20NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextUint32(undefined, 32768), 100)
+      expect(min).to.equal(434)
+      expect(max).to.equal(32190)
+    })
+
+    it('accepts range options with an inclusive maximum', () => {
+      const gen = new ChaCha20NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(
+        () => gen.nextUint32({min: 1, max: 6, inclusive: true}),
+        100
+      )
+      expect(min).to.equal(1)
+      expect(max).to.equal(6)
+    })
+
+    it('returns a value without bias using the bitmask strategy', () => {
+      /*
+       * minimum:  8192 = 0b0010000000000000
+       * maximum: 32768 = 0b1000000000000000
+       * range:   24576 = 0b0110000000000000
+       * mask:            0b0111111111111111
+       *
+       * masked value 1:  0b0110111110001101
+       * masked value 2:  0b0010001000011100
+       *
+       * 1st generated value: 579137421, masked to 28557, exceeds the range.
+       * 2nd generated value: 3422134812, masked to 8732, is within range.
+       *
+       * Result: minimum (8192) + 8732 = 16924
+       */
+
+      const gen = new ChaCha20NumberGenerator({rangeStrategy: 'bitmask', seed: 11})
+      expect(gen.nextUint32(8192, 32768)).to.equal(16924)
+    })
+
+    it('accepts a range strategy for each call', () => {
+      const gen1 = new ChaCha20NumberGenerator({rangeStrategy: 'lemire', seed: 1})
+      const gen2 = new ChaCha20NumberGenerator({seed: 1})
+      const options = {min: 8192, max: 32768, strategy: 'lemire'} as const
+      expect(gen2.nextUint32(options)).to.equal(gen1.nextUint32(8192, 32768))
+    })
+  })
+
+  describe('#nextUint64()', () => {
+    it('returns an unsigned 64-bit integer', () => {
+      const gen = new ChaCha20NumberGenerator({seed: 1})
+      expect(gen.nextUint64()).to.equal(9614264544610136970n)
+    })
+
+    it('accepts an optional range', () => {
+      const gen = new ChaCha20NumberGenerator({seed: 1})
+      expect(gen.nextUint64(10n ** 12n, 10n ** 13n)).to.equal(7658379858746n)
+    })
+  })
+
+  describe('#split()', () => {
+    it('returns a generator of the same class', () => {
+      const gen = new ChaCha20NumberGenerator({seed: 1})
+      expect(gen.split()).to.be.an.instanceOf(ChaCha20NumberGenerator)
+    })
+
+    it('advances the generator by eight values', () => {
+      const gen1 = new ChaCha20NumberGenerator({seed: 1})
+      const gen2 = new ChaCha20NumberGenerator({seed: 1})
+      gen1.split()
+      gen2.advance(8)
+      expect(gen1.nextUint32()).to.equal(gen2.nextUint32())
+    })
+
+    it('derives a different generator with each call', () => {
+      const gen = new ChaCha20NumberGenerator({seed: 1})
+      const child1 = gen.split()
+      const child2 = gen.split()
+      const values1 = Array.from({length: 4}, () => child1.nextUint32())
+      const values2 = Array.from({length: 4}, () => child2.nextUint32())
+      expect(values1).to.not.deep.equal(values2)
+    })
+
+    it('derives the same generator for the same state', () => {
+      const child1 = new ChaCha20NumberGenerator({seed: 1}).split()
+      const child2 = new ChaCha20NumberGenerator({seed: 1}).split()
+      expect(child1.getState()).to.deep.equal(child2.getState())
+    })
+  })
+})
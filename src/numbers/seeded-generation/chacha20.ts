@@ -0,0 +1,300 @@
+import {bitwiseUint32ToFract32, bitwiseUint32ToInt32, uint32ToUint8Array} from '../../shared'
+import {createSecureGenerator} from '../secure-generation'
+import {RangeOptions} from '../types'
+import {
+  resolveRangeOptions,
+  unbiasedRandomFract32,
+  unbiasedRandomInt32,
+  unbiasedRandomUint32
+} from '../unbiased-random'
+import {SeededNumberGenerator, SeededNumberGeneratorOptions} from './seeded-generator'
+import {seedToUint32, splitMix32} from './seeding'
+import {
+  assertStateBoundedInteger,
+  assertStateUint32,
+  assertStateUint32Array
+} from './state-validation'
+import {LegacySeed} from './types'
+
+/*
+ * ChaCha, a variant of Salsa20, by Daniel J. Bernstein.
+ * See https://cr.yp.to/chacha/chacha-20080128.pdf
+ *
+ * The block function follows RFC 8439, while the block counter and nonce use
+ * the 64-bit words of the original design.
+ */
+
+export type ChaCha20State = {
+  counterHigh: number
+  counterLow: number
+  index: number
+  key: number[]
+  streamHigh: number
+  streamLow: number
+}
+
+export interface ChaCha20NumberGeneratorOptions
+  extends SeededNumberGeneratorOptions<ChaCha20State> {
+  key?: Uint8Array
+  stream?: bigint | number
+}
+
+const BLOCK_SIZE = 16
+const KEY_SIZE = 32
+
+// The words of "expand 32-byte k".
+const CONSTANTS = [0x61707865, 0x3320646e, 0x79622d32, 0x6b206574]
+
+/**
+ * A class with methods to generate pseudorandom numbers. This class implements
+ * the ChaCha20 stream cipher by Daniel J. Bernstein as a deterministic,
+ * cryptographically secure pseudorandom number generator. Each value is the
+ * next 32-bit word of the keystream for the given key and stream.
+ *
+ * The state includes the key, the stream, and the position of the next value
+ * in the keystream, rather than any generated block of the keystream. This
+ * keeps the state small, while the current block is generated again when the
+ * state is restored.
+ *
+ * When constrained with optional minimums and/or maximums, numbers are
+ * generated without additional bias.
+ *
+ * @export
+ * @class ChaCha20NumberGenerator
+ * @extends {SeededNumberGenerator<ChaCha20State>}
+ */
+export class ChaCha20NumberGenerator extends SeededNumberGenerator<ChaCha20State> {
+  static readonly seedWordCount = 8
+
+  private block: Uint32Array | null = null
+
+  /**
+   * Creates an instance of ChaCha20NumberGenerator.
+   *
+   * Sequences are only as unpredictable as the key from which they are
+   * generated. A seed is expanded into a key using SplitMix32, which is
+   * deterministic but has only 32 bits of entropy. For cryptographic strength,
+   * give a key instead. When no key, seed, seed function, or state is given, a
+   * random key is generated using `createSecureGenerator`, which throws when no
+   * secure source of random numbers is available within the current
+   * environment.
+   *
+   * @param {Uint8Array} [options.key] An optional 256-bit key of 32 bytes. When
+   * given, a key is used instead of any seed, and is ignored when a state is
+   * given.
+   * @param {bigint|number} [options.stream] An optional integer which selects
+   * one of 2^64 independent sequences for the same key, as the 64-bit nonce of
+   * ChaCha20. This value defaults to `0`, and is ignored when a state is given.
+   */
+  constructor(options: ChaCha20NumberGeneratorOptions = {}) {
+    super(withInitialKey(options))
+  }
+
+  nextFract32(minOrOptions?: number | RangeOptions, maxExclusive?: number): number {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomFract32(
+      min,
+      max,
+      () => bitwiseUint32ToFract32(this.internalNextUint32()),
+      inclusive,
+      strategy ?? this.rangeStrategy
+    )
+  }
+
+  nextInt32(minOrOptions?: number | RangeOptions, maxExclusive?: number): number {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomInt32(
+      min,
+      max,
+      () => bitwiseUint32ToInt32(this.internalNextUint32()),
+      inclusive,
+      strategy ?? this.rangeStrategy
+    )
+  }
+
+  nextUint32(minOrOptions?: number | RangeOptions, maxExclusive?: number): number {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomUint32(
+      min,
+      max,
+      () => this.internalNextUint32(),
+      inclusive,
+      strategy ?? this.rangeStrategy
+    )
+  }
+
+  protected createChild(randomUint32Fn: () => number): this {
+    // A child is given a full key, rather than a seed with only 32 bits of entropy.
+    const key = new Uint8Array(KEY_SIZE)
+    for (let i = 0; i < KEY_SIZE; i += 4) {
+      key.set(uint32ToUint8Array(randomUint32Fn()), i)
+    }
+
+    return this.createInstance<ChaCha20NumberGeneratorOptions>({key})
+  }
+
+  protected internalAdvance(steps: bigint): void {
+    const {counterHigh, counterLow, index} = this.state
+    const position = (BigInt(counterHigh) << 36n) | (BigInt(counterLow) << 4n) | BigInt(index)
+
+    // Positions wrap with the 64-bit block counter.
+    const advancedPosition = BigInt.asUintN(68, position + steps)
+
+    this.state.counterHigh = Number(advancedPosition >> 36n)
+    this.state.counterLow = Number((advancedPosition >> 4n) & 0xffffffffn)
+    this.state.index = Number(advancedPosition & 15n)
+    this.block = null
+  }
+
+  protected internalFillUint32(array: Uint32Array): void {
+    let offset = 0
+
+    while (offset < array.length) {
+      if (this.block == null) {
+        this.block = chaCha20Block(this.state)
+      }
+
+      // Copy as many of the remaining values of the current block as fit.
+      const {index} = this.state
+      const count = Math.min(BLOCK_SIZE - index, array.length - offset)
+      array.set(this.block.subarray(index, index + count), offset)
+
+      offset += count
+      this.state.index += count
+
+      if (this.state.index === BLOCK_SIZE) {
+        this.nextBlock()
+      }
+    }
+  }
+
+  protected internalNextUint32(): number {
+    if (this.block == null) {
+      this.block = chaCha20Block(this.state)
+    }
+
+    const value = this.block[this.state.index++]
+
+    if (this.state.index === BLOCK_SIZE) {
+      this.nextBlock()
+    }
+
+    return value
+  }
+
+  protected buildStateFromSeed(seed: LegacySeed, options: ChaCha20NumberGeneratorOptions): void {
+    this.buildStateFromSeedWords(splitMix32(seedToUint32(seed)), options)
+  }
+
+  protected buildStateFromSeedWords(
+    nextSeedWord: () => number,
+    options: ChaCha20NumberGeneratorOptions
+  ): void {
+    const stream = BigInt.asUintN(64, BigInt(options.stream ?? 0))
+
+    this.state = {
+      counterHigh: 0,
+      counterLow: 0,
+      index: 0,
+      key: options.key
+        ? keyToWords(options.key)
+        : Array.from({length: KEY_SIZE / 4}, () => nextSeedWord()),
+      streamHigh: Number(stream >> 32n),
+      streamLow: Number(stream & 0xffffffffn)
+    }
+  }
+
+  protected cloneState(state: ChaCha20State): ChaCha20State {
+    return {...state, key: [...state.key]}
+  }
+
+  protected validateState(state: ChaCha20State): void {
+    assertStateUint32(state, ['counterHigh', 'counterLow', 'streamHigh', 'streamLow'])
+    assertStateBoundedInteger(state, 'index', BLOCK_SIZE - 1)
+    assertStateUint32Array(state, 'key', KEY_SIZE / 4)
+  }
+
+  private nextBlock(): void {
+    this.state.index = 0
+    this.state.counterLow = (this.state.counterLow + 1) >>> 0
+
+    if (this.state.counterLow === 0) {
+      this.state.counterHigh = (this.state.counterHigh + 1) >>> 0
+    }
+
+    this.block = null
+  }
+}
+
+function chaCha20Block(state: ChaCha20State): Uint32Array {
+  const input = new Uint32Array([
+    ...CONSTANTS,
+    ...state.key,
+    state.counterLow,
+    state.counterHigh,
+    state.streamLow,
+    state.streamHigh
+  ])
+  const block = input.slice()
+
+  for (let round = 0; round < 20; round += 2) {
+    // Column round
+    quarterRound(block, 0, 4, 8, 12)
+    quarterRound(block, 1, 5, 9, 13)
+    quarterRound(block, 2, 6, 10, 14)
+    quarterRound(block, 3, 7, 11, 15)
+
+    // Diagonal round
+    quarterRound(block, 0, 5, 10, 15)
+    quarterRound(block, 1, 6, 11, 12)
+    quarterRound(block, 2, 7, 8, 13)
+    quarterRound(block, 3, 4, 9, 14)
+  }
+
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    block[i] += input[i]
+  }
+
+  return block
+}
+
+function quarterRound(block: Uint32Array, a: number, b: number, c: number, d: number): void {
+  block[a] += block[b]
+  block[d] = rotateLeft(block[d] ^ block[a], 16)
+  block[c] += block[d]
+  block[b] = rotateLeft(block[b] ^ block[c], 12)
+  block[a] += block[b]
+  block[d] = rotateLeft(block[d] ^ block[a], 8)
+  block[c] += block[d]
+  block[b] = rotateLeft(block[b] ^ block[c], 7)
+}
+
+function rotateLeft(value: number, bits: number): number {
+  return (value << bits) | (value >>> (32 - bits))
+}
+
+function keyToWords(key: Uint8Array): number[] {
+  if (key.length !== KEY_SIZE) {
+    throw new Error('Key must be 32 bytes.')
+  }
+
+  // Each word is read from four bytes in little-endian order.
+  const words = []
+  for (let i = 0; i < KEY_SIZE; i += 4) {
+    words.push((key[i] | (key[i + 1] << 8) | (key[i + 2] << 16) | (key[i + 3] << 24)) >>> 0)
+  }
+
+  return words
+}
+
+function withInitialKey(options: ChaCha20NumberGeneratorOptions): ChaCha20NumberGeneratorOptions {
+  if (options.key || options.seed != null || options.seedFn || options.state) {
+    return options
+  }
+
+  return {...options, key: randomKey()}
+}
+
+function randomKey(): Uint8Array {
+  return createSecureGenerator().nextBytes(KEY_SIZE)
+}
@@ -1,10 +1,21 @@
 export * from './alea'
+export * from './arc4'
+export * from './chacha20'
+export * from './jsf32'
+export * from './mt19937'
 export * from './mulberry32'
+export * from './pcg32'
+export * from './philox4x32'
+export * from './registry'
 export * from './seeded-generator'
 export * from './seeding'
+export * from './sfc32'
+export * from './squares'
 export * from './tychei'
 export * from './types'
 export * from './xor128'
 export * from './xor4096'
 export * from './xorShift7'
 export * from './xorWow'
+export * from './xoshiro128Plus'
+export * from './xoshiro128StarStar'
@@ -0,0 +1,67 @@
+/*
+ * The state transition of a generator such as xorshift is linear over GF(2),
+ * and so can be represented as a matrix, T, of bits. Advancing the state by n
+ * steps is then a multiplication by T^n, which is a product of the matrices
+ * T^(2^k) for each bit k set in n. These powers are computed by repeated
+ * squaring only as they are first needed, and are kept for later jumps.
+ *
+ * Each matrix is stored as its columns: the image of each single bit of the
+ * state, as an array of 32-bit words.
+ */
+
+export type LinearTransition = (words: Uint32Array) => void
+
+export function createLinearJump(
+  wordCount: number,
+  transition: LinearTransition
+): (words: Uint32Array, steps: bigint) => void {
+  const powers: Uint32Array[][] = []
+
+  function powerOfTwo(exponent: number): Uint32Array[] {
+    if (powers.length === 0) {
+      powers.push(
+        Array.from({length: wordCount * 32}, (_, bit) => {
+          const column = new Uint32Array(wordCount)
+          column[bit >>> 5] = 1 << (bit & 31)
+          transition(column)
+          return column
+        })
+      )
+    }
+
+    while (powers.length <= exponent) {
+      const matrix = powers[powers.length - 1]
+      powers.push(matrix.map(column => multiply(matrix, column)))
+    }
+
+    return powers[exponent]
+  }
+
+  return (words, steps) => {
+    let result = words
+
+    for (let exponent = 0, remaining = steps; remaining > 0n; exponent++, remaining >>= 1n) {
+      if (remaining & 1n) {
+        result = multiply(powerOfTwo(exponent), result)
+      }
+    }
+
+    words.set(result)
+  }
+}
+
+function multiply(matrix: Uint32Array[], vector: Uint32Array): Uint32Array {
+  const result = new Uint32Array(vector.length)
+
+  for (let bit = 0; bit < matrix.length; bit++) {
+    if (vector[bit >>> 5] & (1 << (bit & 31))) {
+      const column = matrix[bit]
+
+      for (let i = 0; i < result.length; i++) {
+        result[i] ^= column[i]
+      }
+    }
+  }
+
+  return result
+}
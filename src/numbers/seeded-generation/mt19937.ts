@@ -0,0 +1,263 @@
+import {bitwiseUint32ToFract32, bitwiseUint32ToInt32} from '../../shared'
+import {RangeOptions} from '../types'
+import {
+  resolveRangeOptions,
+  unbiasedRandomFract32,
+  unbiasedRandomInt32,
+  unbiasedRandomUint32
+} from '../unbiased-random'
+import {SeededNumberGenerator, SeededNumberGeneratorOptions} from './seeded-generator'
+import {seedToUint32} from './seeding'
+import {
+  assertStateBoundedInteger,
+  assertStateNotAllZero,
+  assertStateUint32Array
+} from './state-validation'
+import {LegacySeed} from './types'
+
+/*
+ * A C-program for MT19937, with initialization improved 2002/1/26.
+ * Coded by Takuji Nishimura and Makoto Matsumoto.
+ *
+ * Copyright (C) 1997 - 2002, Makoto Matsumoto and Takuji Nishimura,
+ * All rights reserved.
+ *
+ * Redistribution and use in source and binary forms, with or without
+ * modification, are permitted provided that the following conditions
+ * are met:
+ *
+ *   1. Redistributions of source code must retain the above copyright
+ *      notice, this list of conditions and the following disclaimer.
+ *
+ *   2. Redistributions in binary form must reproduce the above copyright
+ *      notice, this list of conditions and the following disclaimer in the
+ *      documentation and/or other materials provided with the distribution.
+ *
+ *   3. The names of its contributors may not be used to endorse or promote
+ *      products derived from this software without specific prior written
+ *      permission.
+ *
+ * THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS
+ * "AS IS" AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT
+ * LIMITED TO, THE IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR
+ * A PARTICULAR PURPOSE ARE DISCLAIMED.  IN NO EVENT SHALL THE COPYRIGHT OWNER OR
+ * CONTRIBUTORS BE LIABLE FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL,
+ * EXEMPLARY, OR CONSEQUENTIAL DAMAGES (INCLUDING, BUT NOT LIMITED TO,
+ * PROCUREMENT OF SUBSTITUTE GOODS OR SERVICES; LOSS OF USE, DATA, OR
+ * PROFITS; OR BUSINESS INTERRUPTION) HOWEVER CAUSED AND ON ANY THEORY OF
+ * LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY, OR TORT (INCLUDING
+ * NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE OF THIS
+ * SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+ *
+ * ---
+ *
+ * Original source:
+ * http://www.math.sci.hiroshima-u.ac.jp/m-mat/MT/MT2002/CODES/mt19937ar.c
+ */
+
+export type Mt19937State = {
+  index: number
+  words: number[]
+}
+
+export interface Mt19937NumberGeneratorOptions extends SeededNumberGeneratorOptions<Mt19937State> {
+  key?: number[]
+}
+
+const STATE_SIZE = 624
+const SHIFT_SIZE = 397
+const MATRIX_A = 0x9908b0df
+const UPPER_MASK = 0x80000000
+const LOWER_MASK = 0x7fffffff
+
+/**
+ * A class with methods to generate pseudorandom numbers. This class implements
+ * the MT19937 algorithm by Makoto Matsumoto and Takuji Nishimura, also known as
+ * the Mersenne Twister, which has a period of 2^19937-1.
+ *
+ * When constrained with optional minimums and/or maximums, numbers are
+ * generated without additional bias.
+ *
+ * @export
+ * @class Mt19937NumberGenerator
+ * @extends {SeededNumberGenerator<Mt19937State>}
+ */
+export class Mt19937NumberGenerator extends SeededNumberGenerator<Mt19937State> {
+  static readonly seedWordCount = 624
+
+  /**
+   * Creates an instance of Mt19937NumberGenerator.
+   *
+   * Seeding matches `init_genrand` of the reference implementation for the
+   * unsigned 32-bit integer of the seed. This is also the seeding of C++
+   * `std::mt19937`, so that a seed of `5489` reproduces its default sequence.
+   *
+   * @param {number[]} [options.key] An optional array of unsigned 32-bit
+   * integers with which to seed the generator, using `init_by_array` of the
+   * reference implementation. Python's `random.seed(n)` seeds this way, with
+   * the 32-bit words of the absolute value of `n`, least-significant first.
+   * When given, a key is used instead of any seed, and is ignored when a state
+   * is given.
+   */
+  constructor(options: Mt19937NumberGeneratorOptions = {}) {
+    super(options)
+  }
+
+  nextFract32(minOrOptions?: number | RangeOptions, maxExclusive?: number): number {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomFract32(
+      min,
+      max,
+      () => bitwiseUint32ToFract32(this.internalNextUint32()),
+      inclusive,
+      strategy ?? this.rangeStrategy
+    )
+  }
+
+  nextInt32(minOrOptions?: number | RangeOptions, maxExclusive?: number): number {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomInt32(
+      min,
+      max,
+      () => bitwiseUint32ToInt32(this.internalNextUint32()),
+      inclusive,
+      strategy ?? this.rangeStrategy
+    )
+  }
+
+  nextUint32(minOrOptions?: number | RangeOptions, maxExclusive?: number): number {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomUint32(
+      min,
+      max,
+      () => this.internalNextUint32(),
+      inclusive,
+      strategy ?? this.rangeStrategy
+    )
+  }
+
+  protected internalFillUint32(array: Uint32Array): void {
+    const {words} = this.state
+    let {index} = this.state
+
+    for (let i = 0; i < array.length; i++) {
+      if (index >= STATE_SIZE) {
+        this.twist()
+        index = 0
+      }
+
+      array[i] = temper(words[index++])
+    }
+
+    this.state.index = index
+  }
+
+  protected internalNextUint32(): number {
+    if (this.state.index >= STATE_SIZE) {
+      this.twist()
+    }
+
+    return temper(this.state.words[this.state.index++])
+  }
+
+  protected buildStateFromSeed(seed: LegacySeed, options: Mt19937NumberGeneratorOptions): void {
+    if (options.key) {
+      this.initByArray(options.key)
+    } else {
+      this.initGenrand(seedToUint32(seed))
+    }
+  }
+
+  protected buildStateFromSeedWords(
+    nextSeedWord: () => number,
+    options: Mt19937NumberGeneratorOptions
+  ): void {
+    this.initByArray(options.key ?? Array.from({length: STATE_SIZE}, () => nextSeedWord()))
+  }
+
+  protected cloneState(state: Mt19937State): Mt19937State {
+    return {index: state.index, words: [...state.words]}
+  }
+
+  protected validateState(state: Mt19937State): void {
+    assertStateBoundedInteger(state, 'index', STATE_SIZE)
+    assertStateUint32Array(state, 'words', STATE_SIZE)
+    assertStateNotAllZero(state.words, 'State "words"')
+  }
+
+  private initByArray(key: number[]): void {
+    if (key.length === 0) {
+      throw new Error('Key must include at least one integer.')
+    }
+
+    this.initGenrand(19650218)
+
+    const words = this.state.words
+    let i = 1
+    let j = 0
+
+    for (let k = Math.max(STATE_SIZE, key.length); k > 0; k--) {
+      const previous = words[i - 1] ^ (words[i - 1] >>> 30)
+      words[i] = ((words[i] ^ Math.imul(previous, 1664525)) + key[j] + j) >>> 0
+      i++
+      j++
+
+      if (i >= STATE_SIZE) {
+        words[0] = words[STATE_SIZE - 1]
+        i = 1
+      }
+
+      if (j >= key.length) {
+        j = 0
+      }
+    }
+
+    for (let k = STATE_SIZE - 1; k > 0; k--) {
+      const previous = words[i - 1] ^ (words[i - 1] >>> 30)
+      words[i] = ((words[i] ^ Math.imul(previous, 1566083941)) - i) >>> 0
+      i++
+
+      if (i >= STATE_SIZE) {
+        words[0] = words[STATE_SIZE - 1]
+        i = 1
+      }
+    }
+
+    // The most-significant bit is set, to ensure a non-zero initial state.
+    words[0] = UPPER_MASK
+  }
+
+  private initGenrand(seed: number): void {
+    const words = [seed >>> 0]
+
+    for (let i = 1; i < STATE_SIZE; i++) {
+      const previous = words[i - 1] ^ (words[i - 1] >>> 30)
+      words[i] = (Math.imul(previous, 1812433253) + i) >>> 0
+    }
+
+    this.state = {index: STATE_SIZE, words}
+  }
+
+  private twist(): void {
+    const words = this.state.words
+
+    for (let i = 0; i < STATE_SIZE; i++) {
+      const value = (words[i] & UPPER_MASK) | (words[(i + 1) % STATE_SIZE] & LOWER_MASK)
+      const shifted = words[(i + SHIFT_SIZE) % STATE_SIZE] ^ (value >>> 1)
+      words[i] = (value & 1 ? shifted ^ MATRIX_A : shifted) >>> 0
+    }
+
+    this.state.index = 0
+  }
+}
+
+function temper(word: number): number {
+  let value = word
+
+  value ^= value >>> 11
+  value ^= (value << 7) & 0x9d2c5680
+  value ^= (value << 15) & 0xefc60000
+  value ^= value >>> 18
+
+  return value >>> 0
+}
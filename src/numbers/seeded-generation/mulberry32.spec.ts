@@ -1,14 +1,17 @@
 import {expect} from 'chai'
 
 import {
+  MAX_SAFE_FLOAT64_EXCLUSIVE,
   MAX_SAFE_FRACT32_EXCLUSIVE,
   MAX_SAFE_INT32_INCLUSIVE,
   MAX_SAFE_UINT32_INCLUSIVE,
+  MIN_SAFE_FLOAT64_INCLUSIVE,
   MIN_SAFE_FRACT32_INCLUSIVE,
   MIN_SAFE_INT32_INCLUSIVE,
   MIN_SAFE_UINT32_INCLUSIVE,
   bitwiseFractToFract32,
-  bitwiseUint32ToFract32
+  bitwiseUint32ToFract32,
+  bitwiseUint53ToFloat64
 } from '../../shared'
 import {iterateForMinAndMax} from '../../spec-support'
 import {Mulberry32NumberGenerator} from './mulberry32'
@@ -34,12 +37,85 @@ describe('numbers > seeded generation > Mulberry32NumberGenerator', () => {
     expect(gen.nextInt32()).to.equal(-1690874895)
   })
 
+  it('can be instantiated with a seed hashed using MurmurHash3', () => {
+    const gen1 = new Mulberry32NumberGenerator({seed: 'start', seedMode: 'murmur3'})
+    expect(gen1.nextUint32()).to.equal(3934800984)
+  })
+
+  it('can be instantiated with a seed hashed using SHA-256', () => {
+    const gen1 = new Mulberry32NumberGenerator({seed: 'start', seedMode: 'sha256'})
+    expect(gen1.nextUint32()).to.equal(683979713)
+  })
+
+  it('derives unrelated states for seeds with the same legacy hash when hashing seeds', () => {
+    const gen1 = new Mulberry32NumberGenerator({seed: 'Aa', seedMode: 'murmur3'})
+    const gen2 = new Mulberry32NumberGenerator({seed: 'BB', seedMode: 'murmur3'})
+    expect(gen1.nextUint32()).to.not.equal(gen2.nextUint32())
+  })
+
+  it('derives the state from hashed words of a byte array seed', () => {
+    const gen1 = new Mulberry32NumberGenerator({seed: new Uint8Array([0x61, 0x62, 0x63])})
+    const gen2 = new Mulberry32NumberGenerator({seed: 'abc', seedMode: 'murmur3'})
+    expect(gen1.getState()).to.deep.equal(gen2.getState())
+  })
+
+  it('hashes a binary seed with the configured seed mode', () => {
+    const gen1 = new Mulberry32NumberGenerator({seed: [1, 2], seedMode: 'sha256'})
+    const gen2 = new Mulberry32NumberGenerator({seed: [1, 2], seedMode: 'murmur3'})
+    expect(gen1.nextUint32()).to.not.equal(gen2.nextUint32())
+  })
+
+  it('derives the same state for a bigint seed and its array of words', () => {
+    const gen1 = new Mulberry32NumberGenerator({seed: 0x1234567890abcdefn})
+    const gen2 = new Mulberry32NumberGenerator({seed: [0x12345678, 0x90abcdef]})
+    expect(gen1.getState()).to.deep.equal(gen2.getState())
+  })
+
+  it('rejects an unsupported seed mode', () => {
+    expect(() => new Mulberry32NumberGenerator({seed: 1, seedMode: 'md5' as 'sha256'})).to.throw(
+      'Seed mode "md5" is not supported.'
+    )
+  })
+
   it('can be instantiated with a known state', () => {
     const gen1 = new Mulberry32NumberGenerator({seed: 123})
     const gen2 = new Mulberry32NumberGenerator({state: gen1.getState()})
     expect(gen2.nextInt32()).to.equal(gen1.nextInt32())
   })
 
+  it('rejects a state with a seed which is not an integer', () => {
+    expect(() => new Mulberry32NumberGenerator({state: {seed: 1.5}})).to.throw(
+      'State "seed" must be a non-negative safe integer.'
+    )
+  })
+
+  it('rejects a state with a negative seed', () => {
+    expect(() => new Mulberry32NumberGenerator({state: {seed: -1}})).to.throw(
+      'State "seed" must be a non-negative safe integer.'
+    )
+  })
+
+  it('can be instantiated with a state saved before the seed wrapped to 32 bits', () => {
+    const gen = new Mulberry32NumberGenerator({state: {seed: 5593859761}})
+    expect(gen.getState()).to.deep.equal({seed: 5593859761 >>> 0})
+    const values = Array.from({length: 3}, () => gen.nextUint32())
+    expect(values).to.deep.equal([3147266757, 3895693938, 3318370368])
+  })
+
+  it('can be instantiated with its own state from a string seed with a negative hash', () => {
+    const gen1 = new Mulberry32NumberGenerator({seed: 'polygenelubricants'})
+    const gen2 = new Mulberry32NumberGenerator({state: gen1.getState()})
+    expect(gen1.getState()).to.deep.equal({seed: 2 ** 31})
+    expect(gen2.nextUint32()).to.equal(gen1.nextUint32())
+  })
+
+  it('can be instantiated with its own state after the seed wraps', () => {
+    const gen1 = new Mulberry32NumberGenerator({state: {seed: 0xffffffff}})
+    gen1.nextUint32()
+    const gen2 = new Mulberry32NumberGenerator({state: gen1.getState()})
+    expect(gen2.nextUint32()).to.equal(gen1.nextUint32())
+  })
+
   it('can be instantiated without deterministic seeding', () => {
     const gen = new Mulberry32NumberGenerator()
     expect(gen.nextInt32())
@@ -47,6 +123,205 @@ describe('numbers > seeded generation > Mulberry32NumberGenerator', () => {
       .and.greaterThanOrEqual(MIN_SAFE_INT32_INCLUSIVE)
   })
 
+  describe('#advance()', () => {
+    it('advances the generator as if generating the given number of values', () => {
+      const gen1 = new Mulberry32NumberGenerator({seed: 1})
+      const gen2 = new Mulberry32NumberGenerator({seed: 1})
+      gen1.advance(100)
+      Array.from({length: 100}, () => gen2.nextUint32())
+      expect(gen1.nextUint32()).to.equal(gen2.nextUint32())
+    })
+
+    it('accepts a bigint number of steps', () => {
+      const gen1 = new Mulberry32NumberGenerator({seed: 1})
+      const gen2 = new Mulberry32NumberGenerator({seed: 1})
+      gen1.advance(100n)
+      gen2.advance(100)
+      expect(gen1.nextUint32()).to.equal(gen2.nextUint32())
+    })
+
+    it('does not advance the generator for zero steps', () => {
+      const gen1 = new Mulberry32NumberGenerator({seed: 1})
+      const gen2 = new Mulberry32NumberGenerator({seed: 1})
+      gen1.advance(0)
+      expect(gen1.nextUint32()).to.equal(gen2.nextUint32())
+    })
+
+    it('rejects a negative number of steps', () => {
+      const gen = new Mulberry32NumberGenerator({seed: 1})
+      expect(() => gen.advance(-1)).to.throw('Steps must be a non-negative safe integer or bigint.')
+    })
+
+    it('leaves the generator in the same state as generating the given number of values', () => {
+      const gen1 = new Mulberry32NumberGenerator({state: {seed: 0xfffff000}})
+      const gen2 = new Mulberry32NumberGenerator({state: {seed: 0xfffff000}})
+      gen1.advance(10003)
+      Array.from({length: 10003}, () => gen2.nextUint32())
+      expect(gen1.getState()).to.deep.equal(gen2.getState())
+    })
+
+    it('advances beyond the safe integers', () => {
+      const gen1 = new Mulberry32NumberGenerator({seed: 1})
+      const gen2 = new Mulberry32NumberGenerator({seed: 1})
+      gen1.advance(2n ** 60n)
+      gen1.advance(2n ** 60n)
+      gen2.advance(2n ** 61n)
+      expect(gen1.getState()).to.deep.equal(gen2.getState())
+    })
+
+    it('returns to the same sequence after the period of the generator', () => {
+      const gen1 = new Mulberry32NumberGenerator({seed: 1})
+      const gen2 = new Mulberry32NumberGenerator({seed: 1})
+      gen1.advance(2 ** 32)
+      expect(gen1.nextUint32()).to.equal(gen2.nextUint32())
+    })
+  })
+
+  describe('#fillBytes()', () => {
+    it('fills the array with random bytes', () => {
+      const gen = new Mulberry32NumberGenerator({seed: 1})
+      const array = gen.fillBytes(new Uint8Array(6))
+      expect(Array.from(array)).to.deep.equal([160, 135, 234, 243, 0, 179])
+    })
+  })
+
+  describe('#fillFloat32()', () => {
+    it('fills the array with 24-bit decimal fractions', () => {
+      const gen = new Mulberry32NumberGenerator({seed: 1})
+      const array = gen.fillFloat32(new Float32Array(2))
+      expect(Array.from(array)).to.deep.equal([0.6270738840103149, 0.0027356743812561035])
+    })
+
+    it('accepts range options with an inclusive maximum', () => {
+      const gen = new Mulberry32NumberGenerator({seed: 1})
+      const array = gen.fillFloat32(new Float32Array(100), {min: 0.25, max: 0.5, inclusive: true})
+      expect(Math.min(...array)).to.be.greaterThanOrEqual(0.25)
+      expect(Math.max(...array)).to.be.lessThanOrEqual(0.5)
+    })
+  })
+
+  describe('#fillFloat64()', () => {
+    it('fills the array with values as from repeated calls to #nextFloat64()', () => {
+      const gen1 = new Mulberry32NumberGenerator({seed: 1})
+      const gen2 = new Mulberry32NumberGenerator({seed: 1})
+      const array = gen1.fillFloat64(new Float64Array(10), 0.25, 0.75)
+      const expected = Array.from({length: 10}, () => gen2.nextFloat64(0.25, 0.75))
+      expect(Array.from(array)).to.deep.equal(expected)
+    })
+
+    it('fills the array without a range as from repeated calls to #nextFloat64()', () => {
+      const gen1 = new Mulberry32NumberGenerator({seed: 1})
+      const gen2 = new Mulberry32NumberGenerator({seed: 1})
+      const array = gen1.fillFloat64(new Float64Array(10))
+      const expected = Array.from({length: 10}, () => gen2.nextFloat64())
+      expect(Array.from(array)).to.deep.equal(expected)
+    })
+  })
+
+  describe('#fillInt32()', () => {
+    it('fills the array with values as from repeated calls to #nextInt32()', () => {
+      const gen1 = new Mulberry32NumberGenerator({seed: 1})
+      const gen2 = new Mulberry32NumberGenerator({seed: 1})
+      const array = gen1.fillInt32(new Int32Array(10), -100, 100)
+      const expected = Array.from({length: 10}, () => gen2.nextInt32(-100, 100))
+      expect(Array.from(array)).to.deep.equal(expected)
+    })
+
+    it('fills the array without a range as from repeated calls to #nextInt32()', () => {
+      const gen1 = new Mulberry32NumberGenerator({seed: 1})
+      const gen2 = new Mulberry32NumberGenerator({seed: 1})
+      const array = gen1.fillInt32(new Int32Array(10))
+      const expected = Array.from({length: 10}, () => gen2.nextInt32())
+      expect(Array.from(array)).to.deep.equal(expected)
+    })
+  })
+
+  describe('#fillUint32()', () => {
+    it('fills the array with values as from repeated calls to #nextUint32()', () => {
+      const gen1 = new Mulberry32NumberGenerator({seed: 1})
+      const gen2 = new Mulberry32NumberGenerator({seed: 1})
+      const array = gen1.fillUint32(new Uint32Array(10))
+      const expected = Array.from({length: 10}, () => gen2.nextUint32())
+      expect(Array.from(array)).to.deep.equal(expected)
+    })
+
+    it('accepts range options with an inclusive maximum', () => {
+      const gen1 = new Mulberry32NumberGenerator({seed: 1})
+      const gen2 = new Mulberry32NumberGenerator({seed: 1})
+      const array = gen1.fillUint32(new Uint32Array(10), {min: 1, max: 6, inclusive: true})
+      const expected = Array.from({length: 10}, () =>
+        gen2.nextUint32({min: 1, max: 6, inclusive: true})
+      )
+      expect(Array.from(array)).to.deep.equal(expected)
+    })
+
+    it('leaves the generator in the same state as repeated calls to #nextUint32()', () => {
+      const gen1 = new Mulberry32NumberGenerator({seed: 1})
+      const gen2 = new Mulberry32NumberGenerator({seed: 1})
+      gen1.fillUint32(new Uint32Array(10))
+      Array.from({length: 10}, () => gen2.nextUint32())
+      expect(gen1.getState()).to.deep.equal(gen2.getState())
+    })
+
+    it('wraps the state as repeated calls to #nextUint32()', () => {
+      const gen1 = new Mulberry32NumberGenerator({state: {seed: 0xffffffff}})
+      const gen2 = new Mulberry32NumberGenerator({state: {seed: 0xffffffff}})
+      gen1.fillUint32(new Uint32Array(10))
+      Array.from({length: 10}, () => gen2.nextUint32())
+      expect(gen1.getState()).to.deep.equal(gen2.getState())
+    })
+  })
+
+  describe('#fork()', () => {
+    it('returns a generator of the same class', () => {
+      const gen = new Mulberry32NumberGenerator({seed: 1})
+      expect(gen.fork('child')).to.be.an.instanceOf(Mulberry32NumberGenerator)
+    })
+
+    it('does not advance the generator', () => {
+      const gen1 = new Mulberry32NumberGenerator({seed: 1})
+      const gen2 = new Mulberry32NumberGenerator({seed: 1})
+      gen1.fork('child')
+      expect(gen1.nextUint32()).to.equal(gen2.nextUint32())
+    })
+
+    it('derives the same generator for the same state and label', () => {
+      const child1 = new Mulberry32NumberGenerator({seed: 1}).fork('child')
+      const child2 = new Mulberry32NumberGenerator({seed: 1}).fork('child')
+      expect(child1.getState()).to.deep.equal(child2.getState())
+    })
+
+    it('derives different generators for different labels', () => {
+      const gen = new Mulberry32NumberGenerator({seed: 1})
+      const child1 = gen.fork('first')
+      const child2 = gen.fork('second')
+      const values1 = Array.from({length: 4}, () => child1.nextUint32())
+      const values2 = Array.from({length: 4}, () => child2.nextUint32())
+      expect(values1).to.not.deep.equal(values2)
+    })
+
+    it('derives different generators for labels with the same legacy hash', () => {
+      const gen = new Mulberry32NumberGenerator({seed: 1})
+      expect(gen.fork('Aa').getState()).to.not.deep.equal(gen.fork('BB').getState())
+    })
+
+    it('derives a generator from an empty label by default', () => {
+      const gen = new Mulberry32NumberGenerator({seed: 1})
+      expect(gen.fork().getState()).to.deep.equal(gen.fork('').getState())
+    })
+
+    it('retains the range strategy of the generator', () => {
+      const child = new Mulberry32NumberGenerator({rangeStrategy: 'lemire', seed: 1}).fork('child')
+      const copy = new Mulberry32NumberGenerator({
+        rangeStrategy: 'lemire',
+        state: child.getState()
+      })
+      const values1 = Array.from({length: 4}, () => child.nextUint32(0, 1000003))
+      const values2 = Array.from({length: 4}, () => copy.nextUint32(0, 1000003))
+      expect(values1).to.deep.equal(values2)
+    })
+  })
+
   describe('#getState()', () => {
     it('returns the current state of the generator', () => {
       const gen = new Mulberry32NumberGenerator({seed: 1})
@@ -59,6 +334,118 @@ describe('numbers > seeded generation > Mulberry32NumberGenerator', () => {
     })
   })
 
+  describe('#nextBigInt()', () => {
+    it('returns an integer within the given range', () => {
+      const gen = new Mulberry32NumberGenerator({seed: 1})
+      expect(gen.nextBigInt(-(10n ** 30n), 10n ** 30n)).to.equal(505551833943011921762118412285n)
+    })
+
+    it('rejects any maximum not greater than the given minimum', () => {
+      const gen = new Mulberry32NumberGenerator({seed: 1})
+      expect(() => gen.nextBigInt(10n ** 30n, 10n ** 30n)).to.throw()
+    })
+  })
+
+  describe('#nextBoolean()', () => {
+    function countTrue(next: () => boolean): number {
+      let count = 0
+      for (let i = 0; i < 1000; i++) {
+        count += next() ? 1 : 0
+      }
+      return count
+    }
+
+    it('returns true with a probability of 0.5 by default', () => {
+      const gen = new Mulberry32NumberGenerator({seed: 1})
+      expect(countTrue(() => gen.nextBoolean())).to.be.within(450, 550)
+    })
+
+    it('returns true with the given probability', () => {
+      const gen = new Mulberry32NumberGenerator({seed: 1})
+      expect(countTrue(() => gen.nextBoolean(0.1))).to.be.within(70, 130)
+    })
+
+    it('returns true with the given rational probability', () => {
+      const gen = new Mulberry32NumberGenerator({seed: 1})
+      expect(countTrue(() => gen.nextBoolean(2, 3))).to.be.within(617, 717)
+    })
+
+    it('does not advance the state for a probability of 0 or 1', () => {
+      const gen = new Mulberry32NumberGenerator({seed: 1})
+      const state = gen.getState()
+      expect([gen.nextBoolean(0), gen.nextBoolean(1), gen.nextBoolean(3, 3)]).to.deep.equal([
+        false,
+        true,
+        true
+      ])
+      expect(gen.getState()).to.deep.equal(state)
+    })
+  })
+
+  describe('#nextBytes()', () => {
+    it('returns a new array of random bytes', () => {
+      const gen = new Mulberry32NumberGenerator({seed: 1})
+      expect(Array.from(gen.nextBytes(6))).to.deep.equal([160, 135, 234, 243, 0, 179])
+    })
+
+    it('returns the same bytes as filling an array of the same length', () => {
+      const gen1 = new Mulberry32NumberGenerator({seed: 1})
+      const gen2 = new Mulberry32NumberGenerator({seed: 1})
+      expect(gen1.nextBytes(10)).to.deep.equal(gen2.fillBytes(new Uint8Array(10)))
+      expect(gen1.getState()).to.deep.equal(gen2.getState())
+    })
+
+    it('returns an empty array when the length is 0', () => {
+      const gen = new Mulberry32NumberGenerator({seed: 1})
+      expect(gen.nextBytes(0)).to.have.length(0)
+    })
+  })
+
+  describe('#nextFloat()', () => {
+    it('returns a number within the given range', () => {
+      const gen = new Mulberry32NumberGenerator({seed: 1})
+      expect(gen.nextFloat(-5.5, 12.25)).to.equal(5.630562367279522)
+    })
+
+    it('rejects any maximum not greater than the given minimum', () => {
+      const gen = new Mulberry32NumberGenerator({seed: 1})
+      expect(() => gen.nextFloat(12.25, 12.25)).to.throw()
+    })
+  })
+
+  describe('#nextFloatInclusive()', () => {
+    it('returns a number within the given range', () => {
+      const gen = new Mulberry32NumberGenerator({seed: 1})
+      expect(gen.nextFloatInclusive(1, 6)).to.equal(4.13536968092381)
+    })
+
+    it('accepts a maximum equal to the given minimum', () => {
+      const gen = new Mulberry32NumberGenerator({seed: 1})
+      expect(gen.nextFloatInclusive(12.25, 12.25)).to.equal(12.25)
+    })
+  })
+
+  describe('#nextFloat64()', () => {
+    it('returns a 53-bit decimal fraction', () => {
+      const gen = new Mulberry32NumberGenerator({seed: 1})
+      expect(gen.nextFloat64()).to.equal(bitwiseUint53ToFloat64(5648179890670887))
+    })
+
+    it(`returns a value between ${MIN_SAFE_FLOAT64_INCLUSIVE} (inclusive) and ${MAX_SAFE_FLOAT64_EXCLUSIVE} (exclusive)`, () => {
+      const gen = new Mulberry32NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextFloat64(), 100)
+      expect(min).to.equal(bitwiseUint53ToFloat64(33392040828099))
+      expect(max).to.equal(bitwiseUint53ToFloat64(8807983180344532))
+    })
+
+    it('accepts an optional range', () => {
+      const gen = new Mulberry32NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextFloat64(0.375, 0.625), 100)
+      expect(min).to.equal(bitwiseUint53ToFloat64(3383180828255425))
+      expect(max).to.equal(bitwiseUint53ToFloat64(5607196786045810))
+    })
+  })
+
   describe('#nextFract32()', () => {
     it('returns a 32-bit decimal fraction', () => {
       const gen = new Mulberry32NumberGenerator({seed: 1})
@@ -95,7 +482,7 @@ describe('numbers > seeded generation > Mulberry32NumberGenerator', () => {
       expect(max).to.equal(bitwiseUint32ToFract32(2672414727))
     })
 
-    it('returns a value without bias', () => {
+    it('returns a value without bias using the bitmask strategy', () => {
       /*
        * minimum: 0.3750 = 0b01100000000000000000000000000000 (as uint32: 1610612736)
        * maximum: 0.6875 = 0b10100000000000000000000000000000 (as uint32: 2952790016)
@@ -111,7 +498,7 @@ describe('numbers > seeded generation > Mulberry32NumberGenerator', () => {
        * Result: minimum (1610612736) + 444093919 = 2054706655
        */
 
-      const gen = new Mulberry32NumberGenerator({seed: 18})
+      const gen = new Mulberry32NumberGenerator({rangeStrategy: 'bitmask', seed: 18})
       const expectedResult = bitwiseUint32ToFract32(2054706655) // 0.47839867300353944
       expect(gen.nextFract32(0.375, 0.6875)).to.equal(expectedResult)
     })
@@ -151,7 +538,17 @@ describe('numbers > seeded generation > Mulberry32NumberGenerator', () => {
       expect(max).to.equal(-6498877)
     })
 
-    it('returns a value without bias', () => {
+    it('accepts range options with an inclusive maximum', () => {
+      const gen = new Mulberry32NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(
+        () => gen.nextInt32({min: -3, max: 3, inclusive: true}),
+        100
+      )
+      expect(min).to.equal(-3)
+      expect(max).to.equal(3)
+    })
+
+    it('returns a value without bias using the bitmask strategy', () => {
       /*
        * minimum:  8192 = 0b0010000000000000
        * maximum: 32768 = 0b1000000000000000
@@ -167,11 +564,36 @@ describe('numbers > seeded generation > Mulberry32NumberGenerator', () => {
        * Result: minimum (8192) + 18889 = 27081
        */
 
-      const gen = new Mulberry32NumberGenerator({seed: 1})
+      const gen = new Mulberry32NumberGenerator({rangeStrategy: 'bitmask', seed: 1})
       expect(gen.nextInt32(8192, 32768)).to.equal(27081)
     })
   })
 
+  describe('#nextInt64()', () => {
+    it('returns a signed 64-bit integer', () => {
+      const gen = new Mulberry32NumberGenerator({seed: 1})
+      expect(gen.nextInt64()).to.equal(-6879271576375440951n)
+    })
+
+    it('accepts an optional range', () => {
+      const gen = new Mulberry32NumberGenerator({seed: 1})
+      const value = gen.nextInt64(-(2n ** 40n), 2n ** 40n)
+      expect(value >= -(2n ** 40n) && value < 2n ** 40n).to.equal(true)
+    })
+  })
+
+  describe('#nextSafeInteger()', () => {
+    it('returns a safe integer', () => {
+      const gen = new Mulberry32NumberGenerator({seed: 1})
+      expect(gen.nextSafeInteger()).to.equal(-6778545008064054)
+    })
+
+    it('accepts an optional range exceeding 32 bits', () => {
+      const gen = new Mulberry32NumberGenerator({seed: 1})
+      expect(gen.nextSafeInteger(0, 10_000_000_000)).to.equal(3095568220)
+    })
+  })
+
   describe('#nextUint32()', () => {
     it('returns an unsigned 32-bit integer', () => {
       const gen = new Mulberry32NumberGenerator({seed: 2})
@@ -206,7 +628,17 @@ describe('numbers > seeded generation > Mulberry32NumberGenerator', () => {
       expect(max).to.equal(32428)
     })
 
-    it('returns a value without bias', () => {
+    it('accepts range options with an inclusive maximum', () => {
+      const gen = new Mulberry32NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(
+        () => gen.nextUint32({min: 1, max: 6, inclusive: true}),
+        100
+      )
+      expect(min).to.equal(1)
+      expect(max).to.equal(6)
+    })
+
+    it('returns a value without bias using the bitmask strategy', () => {
       /*
        * minimum:  8192 = 0b0010000000000000
        * maximum: 32768 = 0b1000000000000000
@@ -222,8 +654,57 @@ describe('numbers > seeded generation > Mulberry32NumberGenerator', () => {
        * Result: minimum (8192) + 18889 = 27081
        */
 
-      const gen = new Mulberry32NumberGenerator({seed: 1})
+      const gen = new Mulberry32NumberGenerator({rangeStrategy: 'bitmask', seed: 1})
       expect(gen.nextUint32(8192, 32768)).to.equal(27081)
     })
+
+    it('accepts a range strategy for each call', () => {
+      const gen1 = new Mulberry32NumberGenerator({rangeStrategy: 'lemire', seed: 1})
+      const gen2 = new Mulberry32NumberGenerator({seed: 1})
+      const options = {min: 8192, max: 32768, strategy: 'lemire'} as const
+      expect(gen2.nextUint32(options)).to.equal(gen1.nextUint32(8192, 32768))
+    })
+  })
+
+  describe('#nextUint64()', () => {
+    it('returns an unsigned 64-bit integer', () => {
+      const gen = new Mulberry32NumberGenerator({seed: 1})
+      expect(gen.nextUint64()).to.equal(11567472497334110665n)
+    })
+
+    it('accepts an optional range', () => {
+      const gen = new Mulberry32NumberGenerator({seed: 1})
+      expect(gen.nextUint64(10n ** 12n, 10n ** 13n)).to.equal(6411577407485n)
+    })
+  })
+
+  describe('#split()', () => {
+    it('returns a generator of the same class', () => {
+      const gen = new Mulberry32NumberGenerator({seed: 1})
+      expect(gen.split()).to.be.an.instanceOf(Mulberry32NumberGenerator)
+    })
+
+    it('advances the generator by two values', () => {
+      const gen1 = new Mulberry32NumberGenerator({seed: 1})
+      const gen2 = new Mulberry32NumberGenerator({seed: 1})
+      gen1.split()
+      gen2.advance(2)
+      expect(gen1.nextUint32()).to.equal(gen2.nextUint32())
+    })
+
+    it('derives a different generator with each call', () => {
+      const gen = new Mulberry32NumberGenerator({seed: 1})
+      const child1 = gen.split()
+      const child2 = gen.split()
+      const values1 = Array.from({length: 4}, () => child1.nextUint32())
+      const values2 = Array.from({length: 4}, () => child2.nextUint32())
+      expect(values1).to.not.deep.equal(values2)
+    })
+
+    it('derives the same generator for the same state', () => {
+      const child1 = new Mulberry32NumberGenerator({seed: 1}).split()
+      const child2 = new Mulberry32NumberGenerator({seed: 1}).split()
+      expect(child1.getState()).to.deep.equal(child2.getState())
+    })
   })
 })
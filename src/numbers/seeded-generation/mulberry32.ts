@@ -1,8 +1,15 @@
 import {bitwiseUint32ToFract32, bitwiseUint32ToInt32} from '../../shared'
-import {unbiasedRandomFract32, unbiasedRandomInt32, unbiasedRandomUint32} from '../unbiased-random'
+import {RangeOptions} from '../types'
+import {
+  resolveRangeOptions,
+  unbiasedRandomFract32,
+  unbiasedRandomInt32,
+  unbiasedRandomUint32
+} from '../unbiased-random'
 import {SeededNumberGenerator} from './seeded-generator'
 import {seedToUint32} from './seeding'
-import {Seed} from './types'
+import {assertStateSafeInteger} from './state-validation'
+import {LegacySeed} from './types'
 
 /*
  * Written in 2017 by Tommy Ettinger (tommy.ettinger@gmail.com)
@@ -35,35 +42,81 @@ export type Mulberry32State = {
  * @extends {SeededNumberGenerator<Mulberry32State>}
  */
 export class Mulberry32NumberGenerator extends SeededNumberGenerator<Mulberry32State> {
-  nextFract32(minInclusive?: number, maxExclusive?: number): number {
-    return unbiasedRandomFract32(minInclusive, maxExclusive, () =>
-      bitwiseUint32ToFract32(this.internalNextUint32())
+  nextFract32(minOrOptions?: number | RangeOptions, maxExclusive?: number): number {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomFract32(
+      min,
+      max,
+      () => bitwiseUint32ToFract32(this.internalNextUint32()),
+      inclusive,
+      strategy ?? this.rangeStrategy
     )
   }
 
-  nextInt32(minInclusive?: number, maxExclusive?: number): number {
-    return unbiasedRandomInt32(minInclusive, maxExclusive, () =>
-      bitwiseUint32ToInt32(this.internalNextUint32())
+  nextInt32(minOrOptions?: number | RangeOptions, maxExclusive?: number): number {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomInt32(
+      min,
+      max,
+      () => bitwiseUint32ToInt32(this.internalNextUint32()),
+      inclusive,
+      strategy ?? this.rangeStrategy
     )
   }
 
-  nextUint32(minInclusive?: number, maxExclusive?: number): number {
-    return unbiasedRandomUint32(minInclusive, maxExclusive, () => this.internalNextUint32())
+  nextUint32(minOrOptions?: number | RangeOptions, maxExclusive?: number): number {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomUint32(
+      min,
+      max,
+      () => this.internalNextUint32(),
+      inclusive,
+      strategy ?? this.rangeStrategy
+    )
+  }
+
+  protected internalAdvance(steps: bigint): void {
+    // The state is a Weyl sequence, which adds the same constant for each value.
+    const increment = Math.imul(Number(BigInt.asUintN(32, steps)), 0x6d2b79f5)
+    this.state.seed = (this.state.seed + increment) >>> 0
+  }
+
+  protected internalFillUint32(array: Uint32Array): void {
+    let {seed} = this.state
+
+    for (let i = 0; i < array.length; i++) {
+      let t = (seed = (seed + 0x6d2b79f5) >>> 0)
+      t = Math.imul(t ^ (t >>> 15), t | 1)
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+
+      array[i] = (t ^ (t >>> 14)) >>> 0
+    }
+
+    this.state.seed = seed
   }
 
   protected internalNextUint32(): number {
-    let t = (this.state.seed += 0x6d2b79f5)
+    let t = (this.state.seed = (this.state.seed + 0x6d2b79f5) >>> 0)
     t = Math.imul(t ^ (t >>> 15), t | 1)
     t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
 
     return (t ^ (t >>> 14)) >>> 0
   }
 
-  protected buildStateFromSeed(seed: Seed): void {
-    this.state = {seed: seedToUint32(seed)}
+  protected buildStateFromSeed(seed: LegacySeed): void {
+    this.state = {seed: seedToUint32(seed) >>> 0}
+  }
+
+  protected buildStateFromSeedWords(nextSeedWord: () => number): void {
+    this.state = {seed: nextSeedWord()}
   }
 
   protected cloneState(state: Mulberry32State): Mulberry32State {
-    return {...state}
+    // States saved before the seed wrapped to 32 bits can hold larger seeds.
+    return {seed: state.seed >>> 0}
+  }
+
+  protected validateState(state: Mulberry32State): void {
+    assertStateSafeInteger(state, ['seed'])
   }
 }
@@ -0,0 +1,737 @@
+import {expect} from 'chai'
+
+import {
+  MAX_SAFE_FLOAT64_EXCLUSIVE,
+  MAX_SAFE_FRACT32_EXCLUSIVE,
+  MAX_SAFE_INT32_INCLUSIVE,
+  MAX_SAFE_UINT32_INCLUSIVE,
+  MIN_SAFE_FLOAT64_INCLUSIVE,
+  MIN_SAFE_FRACT32_INCLUSIVE,
+  MIN_SAFE_INT32_INCLUSIVE,
+  MIN_SAFE_UINT32_INCLUSIVE,
+  bitwiseFractToFract32,
+  bitwiseUint32PairToUint53,
+  bitwiseUint32ToFract32,
+  bitwiseUint53ToFloat64
+} from '../../shared'
+import {iterateForMinAndMax} from '../../spec-support'
+import {Pcg32NumberGenerator} from './pcg32'
+import {deserializeGenerator} from './registry'
+
+describe('numbers > seeded generation > Pcg32NumberGenerator', () => {
+  it('can be instantiated with a numerical seed', () => {
+    const gen = new Pcg32NumberGenerator({seed: 123})
+    expect(gen.nextInt32()).to.equal(1317253622)
+  })
+
+  it('can be instantiated with a string seed', () => {
+    const gen = new Pcg32NumberGenerator({seed: 'start'})
+    expect(gen.nextInt32()).to.equal(7386838)
+  })
+
+  it('can be instantiated with a function returning a numerical seed', () => {
+    const gen = new Pcg32NumberGenerator({seedFn: () => 123})
+    expect(gen.nextInt32()).to.equal(1317253622)
+  })
+
+  it('can be instantiated with a function returning a string seed', () => {
+    const gen = new Pcg32NumberGenerator({seedFn: () => 'start'})
+    expect(gen.nextInt32()).to.equal(7386838)
+  })
+
+  it('can be instantiated with a seed hashed using MurmurHash3', () => {
+    const gen1 = new Pcg32NumberGenerator({seed: 'start', seedMode: 'murmur3'})
+    expect(gen1.nextUint32()).to.equal(2220500217)
+  })
+
+  it('can be instantiated with a seed hashed using SHA-256', () => {
+    const gen1 = new Pcg32NumberGenerator({seed: 'start', seedMode: 'sha256'})
+    expect(gen1.nextUint32()).to.equal(4221841241)
+  })
+
+  it('derives unrelated states for seeds with the same legacy hash when hashing seeds', () => {
+    const gen1 = new Pcg32NumberGenerator({seed: 'Aa', seedMode: 'murmur3'})
+    const gen2 = new Pcg32NumberGenerator({seed: 'BB', seedMode: 'murmur3'})
+    expect(gen1.nextUint32()).to.not.equal(gen2.nextUint32())
+  })
+
+  it('derives the state from hashed words of a byte array seed', () => {
+    const gen1 = new Pcg32NumberGenerator({seed: new Uint8Array([0x61, 0x62, 0x63])})
+    const gen2 = new Pcg32NumberGenerator({seed: 'abc', seedMode: 'murmur3'})
+    expect(gen1.getState()).to.deep.equal(gen2.getState())
+  })
+
+  it('can be instantiated with a known state', () => {
+    const gen1 = new Pcg32NumberGenerator({seed: 123})
+    const gen2 = new Pcg32NumberGenerator({state: gen1.getState()})
+    expect(gen2.nextInt32()).to.equal(gen1.nextInt32())
+  })
+
+  it('rejects a state with a word which is out of range', () => {
+    const state = new Pcg32NumberGenerator({seed: 1}).getState()
+    expect(() => new Pcg32NumberGenerator({state: {...state, stateHigh: -1}})).to.throw(
+      'State "stateHigh" must be an unsigned 32-bit integer.'
+    )
+  })
+
+  it('rejects a state with an even increment', () => {
+    const state = new Pcg32NumberGenerator({seed: 1}).getState()
+    expect(() => new Pcg32NumberGenerator({state: {...state, incrementLow: 2}})).to.throw(
+      'State "incrementLow" must be odd.'
+    )
+  })
+
+  it('can be instantiated without deterministic seeding', () => {
+    const gen = new Pcg32NumberGenerator()
+    expect(gen.nextInt32())
+      .to.be.lessThanOrEqual(MAX_SAFE_INT32_INCLUSIVE)
+      .and.greaterThanOrEqual(MIN_SAFE_INT32_INCLUSIVE)
+  })
+
+  it('reproduces the sequence of the reference implementation', () => {
+    // The `pcg32-demo` output of `pcg32_srandom_r(&rng, 42u, 54u)`.
+    const gen = new Pcg32NumberGenerator({seed: 42, stream: 54})
+    const values = Array.from({length: 6}, () => gen.nextUint32())
+    expect(values).to.deep.equal([
+      0xa15c02b7, 0x7b47f409, 0xba1d3330, 0x83d2f293, 0xbfa4784b, 0xcbed606e
+    ])
+  })
+
+  it('uses integer seeds beyond 32 bits in full', () => {
+    const gen1 = new Pcg32NumberGenerator({seed: 2 ** 32 + 1})
+    const gen2 = new Pcg32NumberGenerator({seed: 1})
+    expect(gen1.nextUint32()).to.not.equal(gen2.nextUint32())
+  })
+
+  it('accepts a bigint stream', () => {
+    const gen1 = new Pcg32NumberGenerator({seed: 42, stream: 54n})
+    const gen2 = new Pcg32NumberGenerator({seed: 42, stream: 54})
+    expect(gen1.getState()).to.deep.equal(gen2.getState())
+  })
+
+  it('produces independent sequences for different streams of the same seed', () => {
+    const gen1 = new Pcg32NumberGenerator({seed: 42, stream: 1})
+    const gen2 = new Pcg32NumberGenerator({seed: 42, stream: 2})
+    const values1 = Array.from({length: 4}, () => gen1.nextUint32())
+    const values2 = Array.from({length: 4}, () => gen2.nextUint32())
+    expect(values1).to.not.deep.equal(values2)
+  })
+
+  it('uses a stream of 0 by default', () => {
+    const gen1 = new Pcg32NumberGenerator({seed: 42})
+    const gen2 = new Pcg32NumberGenerator({seed: 42, stream: 0})
+    expect(gen1.getState()).to.deep.equal(gen2.getState())
+  })
+
+  it('retains the stream when instantiated with a known state', () => {
+    const gen1 = new Pcg32NumberGenerator({seed: 42, stream: 54})
+    gen1.nextUint32()
+    const gen2 = new Pcg32NumberGenerator({state: gen1.getState()})
+    const values1 = Array.from({length: 4}, () => gen1.nextUint32())
+    const values2 = Array.from({length: 4}, () => gen2.nextUint32())
+    expect(values2).to.deep.equal(values1)
+  })
+
+  describe('#advance()', () => {
+    it('advances the generator as if generating the given number of values', () => {
+      const gen1 = new Pcg32NumberGenerator({seed: 1})
+      const gen2 = new Pcg32NumberGenerator({seed: 1})
+      gen1.advance(100)
+      Array.from({length: 100}, () => gen2.nextUint32())
+      expect(gen1.nextUint32()).to.equal(gen2.nextUint32())
+    })
+
+    it('accepts a bigint number of steps', () => {
+      const gen1 = new Pcg32NumberGenerator({seed: 1})
+      const gen2 = new Pcg32NumberGenerator({seed: 1})
+      gen1.advance(100n)
+      gen2.advance(100)
+      expect(gen1.nextUint32()).to.equal(gen2.nextUint32())
+    })
+
+    it('does not advance the generator for zero steps', () => {
+      const gen1 = new Pcg32NumberGenerator({seed: 1})
+      const gen2 = new Pcg32NumberGenerator({seed: 1})
+      gen1.advance(0)
+      expect(gen1.nextUint32()).to.equal(gen2.nextUint32())
+    })
+
+    it('rejects a negative number of steps', () => {
+      const gen = new Pcg32NumberGenerator({seed: 1})
+      expect(() => gen.advance(-1)).to.throw('Steps must be a non-negative safe integer or bigint.')
+    })
+
+    it('returns to the same state after the period of the generator', () => {
+      const gen = new Pcg32NumberGenerator({seed: 1})
+      const state = gen.getState()
+      gen.advance(2n ** 64n)
+      expect(gen.getState()).to.deep.equal(state)
+    })
+
+    it('advances beyond the safe integers', () => {
+      const gen1 = new Pcg32NumberGenerator({seed: 1})
+      const gen2 = new Pcg32NumberGenerator({seed: 1})
+      gen1.advance(2n ** 60n)
+      gen1.advance(2n ** 60n)
+      gen2.advance(2n ** 61n)
+      expect(gen1.getState()).to.deep.equal(gen2.getState())
+    })
+  })
+
+  describe('#fillBytes()', () => {
+    it('fills the array with random bytes', () => {
+      const gen = new Pcg32NumberGenerator({seed: 1})
+      const array = gen.fillBytes(new Uint8Array(6))
+      expect(Array.from(array)).to.deep.equal([226, 57, 48, 81, 1, 17])
+    })
+  })
+
+  describe('#fillFloat32()', () => {
+    it('fills the array with 24-bit decimal fractions', () => {
+      const gen = new Pcg32NumberGenerator({seed: 1})
+      const array = gen.fillFloat32(new Float32Array(2))
+      expect(Array.from(array)).to.deep.equal([0.8836851119995117, 0.004168450832366943])
+    })
+
+    it('accepts range options with an inclusive maximum', () => {
+      const gen = new Pcg32NumberGenerator({seed: 1})
+      const array = gen.fillFloat32(new Float32Array(100), {min: 0.25, max: 0.5, inclusive: true})
+      expect(Math.min(...array)).to.be.greaterThanOrEqual(0.25)
+      expect(Math.max(...array)).to.be.lessThanOrEqual(0.5)
+    })
+  })
+
+  describe('#fillFloat64()', () => {
+    it('fills the array with values as from repeated calls to #nextFloat64()', () => {
+      const gen1 = new Pcg32NumberGenerator({seed: 1})
+      const gen2 = new Pcg32NumberGenerator({seed: 1})
+      const array = gen1.fillFloat64(new Float64Array(10), 0.25, 0.75)
+      const expected = Array.from({length: 10}, () => gen2.nextFloat64(0.25, 0.75))
+      expect(Array.from(array)).to.deep.equal(expected)
+    })
+
+    it('fills the array without a range as from repeated calls to #nextFloat64()', () => {
+      const gen1 = new Pcg32NumberGenerator({seed: 1})
+      const gen2 = new Pcg32NumberGenerator({seed: 1})
+      const array = gen1.fillFloat64(new Float64Array(10))
+      const expected = Array.from({length: 10}, () => gen2.nextFloat64())
+      expect(Array.from(array)).to.deep.equal(expected)
+    })
+  })
+
+  describe('#fillInt32()', () => {
+    it('fills the array with values as from repeated calls to #nextInt32()', () => {
+      const gen1 = new Pcg32NumberGenerator({seed: 1})
+      const gen2 = new Pcg32NumberGenerator({seed: 1})
+      const array = gen1.fillInt32(new Int32Array(10), -100, 100)
+      const expected = Array.from({length: 10}, () => gen2.nextInt32(-100, 100))
+      expect(Array.from(array)).to.deep.equal(expected)
+    })
+
+    it('fills the array without a range as from repeated calls to #nextInt32()', () => {
+      const gen1 = new Pcg32NumberGenerator({seed: 1})
+      const gen2 = new Pcg32NumberGenerator({seed: 1})
+      const array = gen1.fillInt32(new Int32Array(10))
+      const expected = Array.from({length: 10}, () => gen2.nextInt32())
+      expect(Array.from(array)).to.deep.equal(expected)
+    })
+  })
+
+  describe('#fillUint32()', () => {
+    it('fills the array with values as from repeated calls to #nextUint32()', () => {
+      const gen1 = new Pcg32NumberGenerator({seed: 1})
+      const gen2 = new Pcg32NumberGenerator({seed: 1})
+      const array = gen1.fillUint32(new Uint32Array(10))
+      const expected = Array.from({length: 10}, () => gen2.nextUint32())
+      expect(Array.from(array)).to.deep.equal(expected)
+    })
+
+    it('accepts range options with an inclusive maximum', () => {
+      const gen1 = new Pcg32NumberGenerator({seed: 1})
+      const gen2 = new Pcg32NumberGenerator({seed: 1})
+      const array = gen1.fillUint32(new Uint32Array(10), {min: 1, max: 6, inclusive: true})
+      const expected = Array.from({length: 10}, () =>
+        gen2.nextUint32({min: 1, max: 6, inclusive: true})
+      )
+      expect(Array.from(array)).to.deep.equal(expected)
+    })
+
+    it('leaves the generator in the same state as repeated calls to #nextUint32()', () => {
+      const gen1 = new Pcg32NumberGenerator({seed: 1})
+      const gen2 = new Pcg32NumberGenerator({seed: 1})
+      gen1.fillUint32(new Uint32Array(10))
+      Array.from({length: 10}, () => gen2.nextUint32())
+      expect(gen1.getState()).to.deep.equal(gen2.getState())
+    })
+  })
+
+  describe('#fork()', () => {
+    it('returns a generator of the same class', () => {
+      const gen = new Pcg32NumberGenerator({seed: 1})
+      expect(gen.fork('child')).to.be.an.instanceOf(Pcg32NumberGenerator)
+    })
+
+    it('does not advance the generator', () => {
+      const gen1 = new Pcg32NumberGenerator({seed: 1})
+      const gen2 = new Pcg32NumberGenerator({seed: 1})
+      gen1.fork('child')
+      expect(gen1.nextUint32()).to.equal(gen2.nextUint32())
+    })
+
+    it('derives the same generator for the same state and label', () => {
+      const child1 = new Pcg32NumberGenerator({seed: 1}).fork('child')
+      const child2 = new Pcg32NumberGenerator({seed: 1}).fork('child')
+      expect(child1.getState()).to.deep.equal(child2.getState())
+    })
+
+    it('derives different generators for different labels', () => {
+      const gen = new Pcg32NumberGenerator({seed: 1})
+      const child1 = gen.fork('first')
+      const child2 = gen.fork('second')
+      const values1 = Array.from({length: 4}, () => child1.nextUint32())
+      const values2 = Array.from({length: 4}, () => child2.nextUint32())
+      expect(values1).to.not.deep.equal(values2)
+    })
+
+    it('derives a generator from an empty label by default', () => {
+      const gen = new Pcg32NumberGenerator({seed: 1})
+      expect(gen.fork().getState()).to.deep.equal(gen.fork('').getState())
+    })
+
+    it('retains the range strategy of the generator', () => {
+      const child = new Pcg32NumberGenerator({rangeStrategy: 'lemire', seed: 1}).fork('child')
+      const copy = new Pcg32NumberGenerator({rangeStrategy: 'lemire', state: child.getState()})
+      const values1 = Array.from({length: 4}, () => child.nextUint32(0, 1000003))
+      const values2 = Array.from({length: 4}, () => copy.nextUint32(0, 1000003))
+      expect(values1).to.deep.equal(values2)
+    })
+  })
+
+  describe('#getState()', () => {
+    it('returns the current state of the generator', () => {
+      const gen = new Pcg32NumberGenerator({seed: 1})
+      expect(gen.getState()).to.have.keys('incrementHigh', 'incrementLow', 'stateHigh', 'stateLow')
+    })
+
+    it('returns a unique instance of the state', () => {
+      const gen = new Pcg32NumberGenerator({seed: 1})
+      expect(gen.getState()).to.not.equal(gen.getState())
+    })
+  })
+
+  describe('#nextBigInt()', () => {
+    it('returns an integer within the given range', () => {
+      const gen = new Pcg32NumberGenerator({seed: 1})
+      expect(gen.nextBigInt(-(10n ** 30n), 10n ** 30n)).to.equal(347209022435377506826165890890n)
+    })
+
+    it('rejects any maximum not greater than the given minimum', () => {
+      const gen = new Pcg32NumberGenerator({seed: 1})
+      expect(() => gen.nextBigInt(10n ** 30n, 10n ** 30n)).to.throw()
+    })
+  })
+
+  describe('#nextBoolean()', () => {
+    function countTrue(next: () => boolean): number {
+      let count = 0
+      for (let i = 0; i < 1000; i++) {
+        count += next() ? 1 : 0
+      }
+      return count
+    }
+
+    it('returns true with a probability of 0.5 by default', () => {
+      const gen = new Pcg32NumberGenerator({seed: 1})
+      expect(countTrue(() => gen.nextBoolean())).to.be.within(450, 550)
+    })
+
+    it('returns true with the given probability', () => {
+      const gen = new Pcg32NumberGenerator({seed: 1})
+      expect(countTrue(() => gen.nextBoolean(0.1))).to.be.within(70, 130)
+    })
+
+    it('returns true with the given rational probability', () => {
+      const gen = new Pcg32NumberGenerator({seed: 1})
+      expect(countTrue(() => gen.nextBoolean(2, 3))).to.be.within(617, 717)
+    })
+
+    it('does not advance the state for a probability of 0 or 1', () => {
+      const gen = new Pcg32NumberGenerator({seed: 1})
+      const state = gen.getState()
+      expect([gen.nextBoolean(0), gen.nextBoolean(1), gen.nextBoolean(3, 3)]).to.deep.equal([
+        false,
+        true,
+        true
+      ])
+      expect(gen.getState()).to.deep.equal(state)
+    })
+  })
+
+  describe('#nextBytes()', () => {
+    it('returns a new array of random bytes', () => {
+      const gen = new Pcg32NumberGenerator({seed: 1})
+      expect(Array.from(gen.nextBytes(6))).to.deep.equal([226, 57, 48, 81, 1, 17])
+    })
+
+    it('returns the same bytes as filling an array of the same length', () => {
+      const gen1 = new Pcg32NumberGenerator({seed: 1})
+      const gen2 = new Pcg32NumberGenerator({seed: 1})
+      expect(gen1.nextBytes(10)).to.deep.equal(gen2.fillBytes(new Uint8Array(10)))
+      expect(gen1.getState()).to.deep.equal(gen2.getState())
+    })
+
+    it('returns an empty array when the length is 0', () => {
+      const gen = new Pcg32NumberGenerator({seed: 1})
+      expect(gen.nextBytes(0)).to.have.length(0)
+    })
+  })
+
+  describe('#nextFloat()', () => {
+    it('returns a number within the given range', () => {
+      const gen = new Pcg32NumberGenerator({seed: 1})
+      expect(gen.nextFloat(-5.5, 12.25)).to.equal(10.185411003038213)
+    })
+
+    it('rejects any maximum not greater than the given minimum', () => {
+      const gen = new Pcg32NumberGenerator({seed: 1})
+      expect(() => gen.nextFloat(12.25, 12.25)).to.throw()
+    })
+  })
+
+  describe('#nextFloatInclusive()', () => {
+    it('returns a number within the given range', () => {
+      const gen = new Pcg32NumberGenerator({seed: 1})
+      expect(gen.nextFloatInclusive(1, 6)).to.equal(5.418425634658652)
+    })
+
+    it('accepts a maximum equal to the given minimum', () => {
+      const gen = new Pcg32NumberGenerator({seed: 1})
+      expect(gen.nextFloatInclusive(12.25, 12.25)).to.equal(12.25)
+    })
+  })
+
+  describe('#nextFloat64()', () => {
+    it('returns a 53-bit decimal fraction', () => {
+      const gen = new Pcg32NumberGenerator({seed: 1})
+      expect(gen.nextFloat64()).to.equal(bitwiseUint53ToFloat64(7959528016725180))
+    })
+
+    it(`returns a value between ${MIN_SAFE_FLOAT64_INCLUSIVE} (inclusive) and ${MAX_SAFE_FLOAT64_EXCLUSIVE} (exclusive)`, () => {
+      const gen = new Pcg32NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextFloat64(), 100)
+      expect(min).to.equal(bitwiseUint53ToFloat64(195231463406043))
+      expect(max).to.equal(bitwiseUint53ToFloat64(8818962581584793))
+    })
+
+    it('accepts an optional range', () => {
+      const gen = new Pcg32NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextFloat64(0.375, 0.625), 100)
+      expect(min).to.equal(bitwiseUint53ToFloat64(3455686141932031))
+      expect(max).to.equal(bitwiseUint53ToFloat64(5625651190795186))
+    })
+  })
+
+  describe('#nextFract32()', () => {
+    it('returns a 32-bit decimal fraction', () => {
+      const gen = new Pcg32NumberGenerator({seed: 1})
+      const value = gen.nextFract32()
+      // Transforming the value through 32-bit integer representation maintains fidelity
+      expect(bitwiseFractToFract32(value)).to.equal(value)
+    })
+
+    it(`returns a value between ${MIN_SAFE_FRACT32_INCLUSIVE} (inclusive) and ${MAX_SAFE_FRACT32_EXCLUSIVE} (exclusive)`, () => {
+      const gen = new Pcg32NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextFract32(), 100)
+      expect(min).to.equal(bitwiseUint32ToFract32(17292137))
+      expect(max).to.equal(bitwiseUint32ToFract32(4255049341))
+    })
+
+    it('accepts an optional range', () => {
+      const gen = new Pcg32NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextFract32(0.375, 0.625), 100)
+      expect(min).to.equal(bitwiseUint32ToFract32(1624668120))
+      expect(max).to.equal(bitwiseUint32ToFract32(2666413328))
+    })
+
+    it('accepts an optional minimum', () => {
+      const gen = new Pcg32NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextFract32(0.375, undefined), 100)
+      expect(min).to.equal(bitwiseUint32ToFract32(1627904873))
+      expect(max).to.equal(bitwiseUint32ToFract32(4286244573))
+    })
+
+    it('accepts an optional maximum', () => {
+      const gen = new Pcg32NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextFract32(undefined, 0.625), 100)
+      expect(min).to.equal(bitwiseUint32ToFract32(17292137))
+      expect(max).to.equal(bitwiseUint32ToFract32(2675631837))
+    })
+
+    it('returns a value without bias using the bitmask strategy', () => {
+      /*
+       * minimum: 0.3750 = 0b01100000000000000000000000000000 (as uint32: 1610612736)
+       * maximum: 0.6875 = 0b10100000000000000000000000000000 (as uint32: 2952790016)
+       * range:   0.3125 = 0b01010000000000000000000000000000 (as uint32: 1342177280)
+       * mask:             0b01111111111111111111111111111111
+       *
+       * masked value 1:   0b01100010001110010011000001010001
+       * masked value 2:   0b00000001000100010010111100110101
+       *
+       * 1st generated value: 3795398737, masked to 1647915089, exceeds the range.
+       * 2nd generated value: 17903413, masked to 17903413, is within range.
+       *
+       * Result: minimum (1610612736) + 17903413 = 1628516149
+       */
+
+      const gen = new Pcg32NumberGenerator({rangeStrategy: 'bitmask', seed: 1})
+      const expectedResult = bitwiseUint32ToFract32(1628516149) // 0.37916846317239106
+      expect(gen.nextFract32(0.375, 0.6875)).to.equal(expectedResult)
+    })
+  })
+
+  describe('#nextInt32()', () => {
+    it('returns a signed 32-bit integer', () => {
+      const gen = new Pcg32NumberGenerator({seed: 2})
+      expect(gen.nextInt32()).to.equal(257813417)
+    })
+
+    it(`returns a value inclusively between ${MIN_SAFE_INT32_INCLUSIVE} and ${MAX_SAFE_INT32_INCLUSIVE}`, () => {
+      const gen = new Pcg32NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextInt32(), 100)
+      expect(min).to.equal(-2120321303)
+      expect(max).to.equal(2042411709)
+    })
+
+    it('accepts an optional range', () => {
+      const gen = new Pcg32NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextInt32(8192, 32768), 100)
+      expect(min).to.equal(8226)
+      expect(max).to.equal(32315)
+    })
+
+    it('accepts an optional minimum', () => {
+      const gen = new Pcg32NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextInt32(8192, undefined), 100)
+      expect(min).to.equal(17300329)
+      expect(max).to.equal(2107573885)
+    })
+
+    it('accepts an optional maximum', () => {
+      const gen = new Pcg32NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextInt32(undefined, 32768), 100)
+      expect(min).to.equal(-2120321303)
+      expect(max).to.equal(-39917955)
+    })
+
+    it('accepts range options with an inclusive maximum', () => {
+      const gen = new Pcg32NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(
+        () => gen.nextInt32({min: -3, max: 3, inclusive: true}),
+        100
+      )
+      expect(min).to.equal(-3)
+      expect(max).to.equal(3)
+    })
+
+    it('returns a value without bias using the bitmask strategy', () => {
+      /*
+       * minimum:  8192 = 0b0010000000000000
+       * maximum: 32768 = 0b1000000000000000
+       * range:   24576 = 0b0110000000000000
+       * mask:            0b0111111111111111
+       *
+       * masked value 1:  0b0110101110101001
+       * masked value 2:  0b0100101110000100
+       *
+       * 1st generated value: 2405297065, masked to 27561, exceeds the range.
+       * 2nd generated value: 1383844740, masked to 19332, is within range.
+       *
+       * Result: minimum (8192) + 19332 = 27524
+       */
+
+      const gen = new Pcg32NumberGenerator({rangeStrategy: 'bitmask', seed: 2})
+      expect(gen.nextInt32(8192, 32768)).to.equal(27524)
+    })
+  })
+
+  describe('#nextInt64()', () => {
+    it('returns a signed 64-bit integer', () => {
+      const gen = new Pcg32NumberGenerator({seed: 1})
+      expect(gen.nextInt64()).to.equal(-2145630622996943051n)
+    })
+
+    it('accepts an optional range', () => {
+      const gen = new Pcg32NumberGenerator({seed: 1})
+      const value = gen.nextInt64(-(2n ** 40n), 2n ** 40n)
+      expect(value >= -(2n ** 40n) && value < 2n ** 40n).to.equal(true)
+    })
+  })
+
+  describe('#nextSafeInteger()', () => {
+    it('returns a safe integer', () => {
+      const gen = new Pcg32NumberGenerator({seed: 1})
+      expect(gen.nextSafeInteger()).to.equal(7089998886154038)
+    })
+
+    it('accepts an optional range exceeding 32 bits', () => {
+      const gen = new Pcg32NumberGenerator({seed: 1})
+      expect(gen.nextSafeInteger(0, 10_000_000_000)).to.equal(4312870709)
+    })
+  })
+
+  describe('#nextUint32()', () => {
+    it('returns an unsigned 32-bit integer', () => {
+      const gen = new Pcg32NumberGenerator({seed: 2})
+      expect(gen.nextUint32()).to.equal(257813417)
+    })
+
+    it(`returns a value inclusively between ${MIN_SAFE_UINT32_INCLUSIVE} and ${MAX_SAFE_UINT32_INCLUSIVE}`, () => {
+      const gen = new Pcg32NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextUint32(), 100)
+      expect(min).to.equal(17292137)
+      expect(max).to.equal(4255049341)
+    })
+
+    it('accepts an optional range', () => {
+      const gen = new Pcg32NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextUint32(8192, 32768), 100)
+      expect(min).to.equal(8226)
+      expect(max).to.equal(32315)
+    })
+
+    it('accepts an optional minimum', () => {
+      const gen = new Pcg32NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextUint32(8192, undefined), 100)
+      expect(min).to.equal(17300329)
+      expect(max).to.equal(4255057533)
+    })
+
+    it('accepts an optional maximum', () => {
+      const gen = new Pcg32NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextUint32(undefined, 32768), 100)
+      expect(min).to.equal(379)
+      expect(max).to.equal(32722)
+    })
+
+    it('accepts range options with an inclusive maximum', () => {
+      const gen = new Pcg32NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(
+        () => gen.nextUint32({min: 1, max: 6, inclusive: true}),
+        100
+      )
+      expect(min).to.equal(1)
+      expect(max).to.equal(6)
+    })
+
+    it('returns a value without bias using the bitmask strategy', () => {
+      /*
+       * minimum:  8192 = 0b0010000000000000
+       * maximum: 32768 = 0b1000000000000000
+       * range:   24576 = 0b0110000000000000
+       * mask:            0b0111111111111111
+       *
+       * masked value 1:  0b0110101110101001
+       * masked value 2:  0b0100101110000100
+       *
+       * 1st generated value: 257813417, masked to 27561, exceeds the range.
+       * 2nd generated value: 3531328388, masked to 19332, is within range.
+       *
+       * Result: minimum (8192) + 19332 = 27524
+       */
+
+      const gen = new Pcg32NumberGenerator({rangeStrategy: 'bitmask', seed: 2})
+      expect(gen.nextUint32(8192, 32768)).to.equal(27524)
+    })
+
+    it('accepts a range strategy for each call', () => {
+      const gen1 = new Pcg32NumberGenerator({rangeStrategy: 'lemire', seed: 1})
+      const gen2 = new Pcg32NumberGenerator({seed: 1})
+      const options = {min: 8192, max: 32768, strategy: 'lemire'} as const
+      expect(gen2.nextUint32(options)).to.equal(gen1.nextUint32(8192, 32768))
+    })
+  })
+
+  describe('#nextUint64()', () => {
+    it('returns an unsigned 64-bit integer', () => {
+      const gen = new Pcg32NumberGenerator({seed: 1})
+      expect(gen.nextUint64()).to.equal(16301113450712608565n)
+    })
+
+    it('accepts an optional range', () => {
+      const gen = new Pcg32NumberGenerator({seed: 1})
+      expect(gen.nextUint64(10n ** 12n, 10n ** 13n)).to.equal(1347910254389n)
+    })
+  })
+
+  describe('#serialize()', () => {
+    it('includes the algorithm, the format version, and the state', () => {
+      const gen = new Pcg32NumberGenerator({seed: 42, stream: 54})
+      expect(JSON.parse(gen.serialize())).to.deep.equal({
+        algorithm: 'pcg32',
+        version: 1,
+        state: gen.getState()
+      })
+    })
+
+    it('can be restored with deserializeGenerator', () => {
+      const gen1 = new Pcg32NumberGenerator({seed: 1})
+      gen1.nextUint32()
+      const gen2 = deserializeGenerator(gen1.serialize())
+      expect(gen2).to.be.an.instanceOf(Pcg32NumberGenerator)
+      expect(gen2.nextUint32()).to.equal(gen1.nextUint32())
+    })
+
+    it('includes a range strategy other than the default', () => {
+      const gen1 = new Pcg32NumberGenerator({seed: 1, rangeStrategy: 'lemire'})
+      const gen2 = deserializeGenerator(gen1.serialize())
+      expect(JSON.parse(gen1.serialize()).rangeStrategy).to.equal('lemire')
+      expect(gen2.nextUint32(0, 3)).to.equal(gen1.nextUint32(0, 3))
+    })
+
+    it('includes a seed mode other than the default', () => {
+      const gen1 = new Pcg32NumberGenerator({seed: 1, seedMode: 'sha256'})
+      const gen2 = deserializeGenerator(gen1.serialize())
+      expect(JSON.parse(gen1.serialize()).seedMode).to.equal('sha256')
+      expect(gen2.split().nextUint32()).to.equal(gen1.split().nextUint32())
+    })
+  })
+
+  describe('#split()', () => {
+    it('returns a generator of the same class', () => {
+      const gen = new Pcg32NumberGenerator({seed: 1})
+      expect(gen.split()).to.be.an.instanceOf(Pcg32NumberGenerator)
+    })
+
+    it('advances the generator by two values', () => {
+      const gen1 = new Pcg32NumberGenerator({seed: 1})
+      const gen2 = new Pcg32NumberGenerator({seed: 1})
+      gen1.split()
+      gen2.advance(2)
+      expect(gen1.nextUint32()).to.equal(gen2.nextUint32())
+    })
+
+    it('derives a different generator with each call', () => {
+      const gen = new Pcg32NumberGenerator({seed: 1})
+      const child1 = gen.split()
+      const child2 = gen.split()
+      const values1 = Array.from({length: 4}, () => child1.nextUint32())
+      const values2 = Array.from({length: 4}, () => child2.nextUint32())
+      expect(values1).to.not.deep.equal(values2)
+    })
+
+    it('derives the same generator for the same state', () => {
+      const child1 = new Pcg32NumberGenerator({seed: 1}).split()
+      const child2 = new Pcg32NumberGenerator({seed: 1}).split()
+      expect(child1.getState()).to.deep.equal(child2.getState())
+    })
+
+    it('uses the seed mode of the generator', () => {
+      const gen1 = new Pcg32NumberGenerator({seed: 1, seedMode: 'murmur3'})
+      const gen2 = new Pcg32NumberGenerator({seed: 1, seedMode: 'murmur3'})
+      const child = gen1.split()
+      const seed = bitwiseUint32PairToUint53(gen2.nextUint32(), gen2.nextUint32())
+      const expected = new Pcg32NumberGenerator({seed, seedMode: 'murmur3'})
+      expect(child.nextUint32()).to.equal(expected.nextUint32())
+    })
+  })
+})
@@ -0,0 +1,279 @@
+import {
+  bitwiseUint32ToFract32,
+  bitwiseUint32ToInt32,
+  multiplyUint32ToUint32Pair
+} from '../../shared'
+import {RangeOptions} from '../types'
+import {
+  resolveRangeOptions,
+  unbiasedRandomFract32,
+  unbiasedRandomInt32,
+  unbiasedRandomUint32
+} from '../unbiased-random'
+import {SeededNumberGenerator, SeededNumberGeneratorOptions} from './seeded-generator'
+import {seedToUint32} from './seeding'
+import {assertStateUint32} from './state-validation'
+import {LegacySeed} from './types'
+
+/*
+ * PCG Random Number Generation for C.
+ *
+ * Copyright 2014 Melissa O'Neill <oneill@pcg-random.org>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ * For additional information about the PCG random number generation scheme,
+ * including its license and other licensing options, visit
+ *
+ *     http://www.pcg-random.org
+ *
+ * ---
+ *
+ * Original source:
+ * https://github.com/imneme/pcg-c-basic/blob/bc39cd76ac3d541e618606bcc6e1e5ba5e5e6aa3/pcg_basic.c
+ */
+
+export type Pcg32State = {
+  incrementHigh: number
+  incrementLow: number
+  stateHigh: number
+  stateLow: number
+}
+
+export interface Pcg32NumberGeneratorOptions extends SeededNumberGeneratorOptions<Pcg32State> {
+  stream?: bigint | number
+}
+
+// The 64-bit multiplier of the underlying linear congruential generator.
+const MULTIPLIER_HIGH = 0x5851f42d
+const MULTIPLIER_LOW = 0x4c957f2d
+const MULTIPLIER = (BigInt(MULTIPLIER_HIGH) << 32n) | BigInt(MULTIPLIER_LOW)
+
+/**
+ * A class with methods to generate pseudorandom numbers. This class implements
+ * the PCG-XSH-RR algorithm by Melissa O'Neill, with 64 bits of state and 32-bit
+ * output, which has a period of 2^64. This is the `pcg32` generator of the
+ * reference implementations of PCG.
+ *
+ * When constrained with optional minimums and/or maximums, numbers are
+ * generated without additional bias.
+ *
+ * @export
+ * @class Pcg32NumberGenerator
+ * @extends {SeededNumberGenerator<Pcg32State>}
+ */
+export class Pcg32NumberGenerator extends SeededNumberGenerator<Pcg32State> {
+  static readonly seedWordCount = 2
+
+  /**
+   * Creates an instance of Pcg32NumberGenerator.
+   *
+   * Seeding matches `pcg32_srandom_r` of the reference implementation, where a
+   * numerical seed is the initial state and the stream is the sequence
+   * selector. For example, a seed of `42` and a stream of `54` reproduce the
+   * sequence of `pcg32_srandom_r(&rng, 42u, 54u)`. Integer seeds are used in
+   * full, up to `Number.MAX_SAFE_INTEGER`, while string seeds are first reduced
+   * to an unsigned 32-bit integer.
+   *
+   * @param {bigint|number} [options.stream] An optional integer which selects
+   * one of 2^63 independent sequences. Generators with the same seed and
+   * different streams produce unrelated sequences. Only the 63
+   * least-significant bits are used. This value defaults to `0`, and is ignored
+   * when a state is given.
+   */
+  constructor(options: Pcg32NumberGeneratorOptions = {}) {
+    super(options)
+  }
+
+  nextFract32(minOrOptions?: number | RangeOptions, maxExclusive?: number): number {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomFract32(
+      min,
+      max,
+      () => bitwiseUint32ToFract32(this.internalNextUint32()),
+      inclusive,
+      strategy ?? this.rangeStrategy
+    )
+  }
+
+  nextInt32(minOrOptions?: number | RangeOptions, maxExclusive?: number): number {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomInt32(
+      min,
+      max,
+      () => bitwiseUint32ToInt32(this.internalNextUint32()),
+      inclusive,
+      strategy ?? this.rangeStrategy
+    )
+  }
+
+  nextUint32(minOrOptions?: number | RangeOptions, maxExclusive?: number): number {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomUint32(
+      min,
+      max,
+      () => this.internalNextUint32(),
+      inclusive,
+      strategy ?? this.rangeStrategy
+    )
+  }
+
+  protected internalAdvance(steps: bigint): void {
+    const {incrementHigh, incrementLow, stateHigh, stateLow} = this.state
+
+    /*
+     * The jump-ahead of `pcg32_advance_r`, which composes the multiplier and
+     * increment of the state transition for each bit of the steps.
+     */
+    let multiplier = MULTIPLIER
+    let increment = (BigInt(incrementHigh) << 32n) | BigInt(incrementLow)
+    let accumulatedMultiplier = 1n
+    let accumulatedIncrement = 0n
+
+    for (let remaining = BigInt.asUintN(64, steps); remaining > 0n; remaining >>= 1n) {
+      if (remaining & 1n) {
+        accumulatedMultiplier = BigInt.asUintN(64, accumulatedMultiplier * multiplier)
+        accumulatedIncrement = BigInt.asUintN(64, accumulatedIncrement * multiplier + increment)
+      }
+
+      increment = BigInt.asUintN(64, (multiplier + 1n) * increment)
+      multiplier = BigInt.asUintN(64, multiplier * multiplier)
+    }
+
+    const state = (BigInt(stateHigh) << 32n) | BigInt(stateLow)
+    const advancedState = BigInt.asUintN(64, accumulatedMultiplier * state + accumulatedIncrement)
+
+    this.state.stateHigh = Number(advancedState >> 32n)
+    this.state.stateLow = Number(advancedState & 0xffffffffn)
+  }
+
+  protected internalFillUint32(array: Uint32Array): void {
+    const {incrementHigh, incrementLow} = this.state
+    let {stateHigh, stateLow} = this.state
+
+    for (let i = 0; i < array.length; i++) {
+      // The same output permutation as `internalNextUint32`.
+      const xoredHigh = stateHigh ^ (stateHigh >>> 18)
+      const xoredLow = stateLow ^ ((stateLow >>> 18) | (stateHigh << 14))
+      const xorshifted = ((xoredLow >>> 27) | (xoredHigh << 5)) >>> 0
+      const rotation = stateHigh >>> 27
+
+      array[i] = ((xorshifted >>> rotation) | (xorshifted << (-rotation & 31))) >>> 0
+
+      // The same state transition as `step`.
+      const [productHigh, productLow] = multiplyUint32ToUint32Pair(stateLow, MULTIPLIER_LOW)
+      const high =
+        productHigh + Math.imul(stateHigh, MULTIPLIER_LOW) + Math.imul(stateLow, MULTIPLIER_HIGH)
+      const low = productLow + incrementLow
+      const carry = low >= 0x100000000 ? 1 : 0
+
+      stateHigh = (high + incrementHigh + carry) >>> 0
+      stateLow = low >>> 0
+    }
+
+    this.state.stateHigh = stateHigh
+    this.state.stateLow = stateLow
+  }
+
+  protected internalNextUint32(): number {
+    const {stateHigh, stateLow} = this.state
+
+    this.step()
+
+    /*
+     * The output permutation is computed from the previous state, using only
+     * 32-bit operations on its high and low words:
+     *
+     *   xorshifted = ((state >> 18) ^ state) >> 27
+     *   rotation = state >> 59
+     */
+    const xoredHigh = stateHigh ^ (stateHigh >>> 18)
+    const xoredLow = stateLow ^ ((stateLow >>> 18) | (stateHigh << 14))
+    const xorshifted = ((xoredLow >>> 27) | (xoredHigh << 5)) >>> 0
+    const rotation = stateHigh >>> 27
+
+    return ((xorshifted >>> rotation) | (xorshifted << (-rotation & 31))) >>> 0
+  }
+
+  protected buildStateFromSeed(seed: LegacySeed, options: Pcg32NumberGeneratorOptions): void {
+    this.seedState(BigInt.asUintN(64, BigInt(seedToPcg32Integer(seed))), options)
+  }
+
+  protected buildStateFromSeedWords(
+    nextSeedWord: () => number,
+    options: Pcg32NumberGeneratorOptions
+  ): void {
+    this.seedState((BigInt(nextSeedWord()) << 32n) | BigInt(nextSeedWord()), options)
+  }
+
+  protected cloneState(state: Pcg32State): Pcg32State {
+    return {...state}
+  }
+
+  protected validateState(state: Pcg32State): void {
+    assertStateUint32(state, ['incrementHigh', 'incrementLow', 'stateHigh', 'stateLow'])
+
+    // The increment of the underlying linear congruential generator is odd.
+    if ((state.incrementLow & 1) === 0) {
+      throw new Error('State "incrementLow" must be odd.')
+    }
+  }
+
+  private seedState(initialState: bigint, options: Pcg32NumberGeneratorOptions): void {
+    const stream = BigInt.asUintN(64, BigInt(options.stream ?? 0))
+    const increment = BigInt.asUintN(64, (stream << 1n) | 1n)
+
+    this.state = {
+      incrementHigh: Number(increment >> 32n),
+      incrementLow: Number(increment & 0xffffffffn),
+      stateHigh: 0,
+      stateLow: 0
+    }
+
+    this.step()
+
+    const state = (BigInt(this.state.stateHigh) << 32n) + BigInt(this.state.stateLow)
+    const seededState = BigInt.asUintN(64, state + initialState)
+    this.state.stateHigh = Number(seededState >> 32n)
+    this.state.stateLow = Number(seededState & 0xffffffffn)
+
+    this.step()
+  }
+
+  private step(): void {
+    const {incrementHigh, incrementLow, stateHigh, stateLow} = this.state
+
+    /*
+     * state = state * multiplier + increment (mod 2^64)
+     *
+     * Only the low 32 bits of the cross products affect the high word, while
+     * the full 64-bit product of the low words is needed.
+     */
+    const [productHigh, productLow] = multiplyUint32ToUint32Pair(stateLow, MULTIPLIER_LOW)
+    const high =
+      productHigh + Math.imul(stateHigh, MULTIPLIER_LOW) + Math.imul(stateLow, MULTIPLIER_HIGH)
+    const low = productLow + incrementLow
+    const carry = low >= 0x100000000 ? 1 : 0
+
+    this.state.stateHigh = (high + incrementHigh + carry) >>> 0
+    this.state.stateLow = low >>> 0
+  }
+}
+
+function seedToPcg32Integer(seed: LegacySeed): number {
+  if (Number.isFinite(seed)) {
+    return Math.trunc(seed as number)
+  }
+
+  return seedToUint32(seed) >>> 0
+}
@@ -0,0 +1,771 @@
+import {expect} from 'chai'
+
+import {
+  MAX_SAFE_FLOAT64_EXCLUSIVE,
+  MAX_SAFE_FRACT32_EXCLUSIVE,
+  MAX_SAFE_INT32_INCLUSIVE,
+  MAX_SAFE_UINT32_INCLUSIVE,
+  MIN_SAFE_FLOAT64_INCLUSIVE,
+  MIN_SAFE_FRACT32_INCLUSIVE,
+  MIN_SAFE_INT32_INCLUSIVE,
+  MIN_SAFE_UINT32_INCLUSIVE,
+  bitwiseFractToFract32,
+  bitwiseUint32ToFract32,
+  bitwiseUint53ToFloat64
+} from '../../shared'
+import {iterateForMinAndMax} from '../../spec-support'
+import {Philox4x32NumberGenerator} from './philox4x32'
+
+describe('numbers > seeded generation > Philox4x32NumberGenerator', () => {
+  it('can be instantiated with a numerical seed', () => {
+    const gen = new Philox4x32NumberGenerator({seed: 123})
+    expect(gen.nextInt32()).to.equal(1773279810)
+  })
+
+  it('can be instantiated with a string seed', () => {
+    const gen = new Philox4x32NumberGenerator({seed: 'start'})
+    expect(gen.nextInt32()).to.equal(-357844839)
+  })
+
+  it('can be instantiated with a function returning a numerical seed', () => {
+    const gen = new Philox4x32NumberGenerator({seedFn: () => 123})
+    expect(gen.nextInt32()).to.equal(1773279810)
+  })
+
+  it('can be instantiated with a function returning a string seed', () => {
+    const gen = new Philox4x32NumberGenerator({seedFn: () => 'start'})
+    expect(gen.nextInt32()).to.equal(-357844839)
+  })
+
+  it('can be instantiated with a seed hashed using MurmurHash3', () => {
+    const gen1 = new Philox4x32NumberGenerator({seed: 'start', seedMode: 'murmur3'})
+    expect(gen1.nextUint32()).to.equal(467348258)
+  })
+
+  it('can be instantiated with a seed hashed using SHA-256', () => {
+    const gen1 = new Philox4x32NumberGenerator({seed: 'start', seedMode: 'sha256'})
+    expect(gen1.nextUint32()).to.equal(3508965793)
+  })
+
+  it('derives unrelated states for seeds with the same legacy hash when hashing seeds', () => {
+    const gen1 = new Philox4x32NumberGenerator({seed: 'Aa', seedMode: 'murmur3'})
+    const gen2 = new Philox4x32NumberGenerator({seed: 'BB', seedMode: 'murmur3'})
+    expect(gen1.nextUint32()).to.not.equal(gen2.nextUint32())
+  })
+
+  it('derives the state from hashed words of a byte array seed', () => {
+    const gen1 = new Philox4x32NumberGenerator({seed: new Uint8Array([0x61, 0x62, 0x63])})
+    const gen2 = new Philox4x32NumberGenerator({seed: 'abc', seedMode: 'murmur3'})
+    expect(gen1.getState()).to.deep.equal(gen2.getState())
+  })
+
+  it('can be instantiated with a known state', () => {
+    const gen1 = new Philox4x32NumberGenerator({seed: 123})
+    const gen2 = new Philox4x32NumberGenerator({state: gen1.getState()})
+    expect(gen2.nextInt32()).to.equal(gen1.nextInt32())
+  })
+
+  it('rejects a state with a counter with the wrong number of words', () => {
+    const state = new Philox4x32NumberGenerator({seed: 1}).getState()
+    expect(() => new Philox4x32NumberGenerator({state: {...state, counter: [0, 0, 0]}})).to.throw(
+      'State "counter" must be an array of 4 unsigned 32-bit integers.'
+    )
+  })
+
+  it('rejects a state with a key with a word which is out of range', () => {
+    const state = new Philox4x32NumberGenerator({seed: 1}).getState()
+    expect(() => new Philox4x32NumberGenerator({state: {...state, key: [0, 2 ** 32]}})).to.throw(
+      'State "key" must be an array of 2 unsigned 32-bit integers.'
+    )
+  })
+
+  it('rejects a state with an index beyond the block', () => {
+    const state = new Philox4x32NumberGenerator({seed: 1}).getState()
+    expect(() => new Philox4x32NumberGenerator({state: {...state, index: 4}})).to.throw(
+      'State "index" must be an integer from 0 to 3.'
+    )
+  })
+
+  it('can be instantiated without deterministic seeding', () => {
+    const gen = new Philox4x32NumberGenerator()
+    expect(gen.nextInt32())
+      .to.be.lessThanOrEqual(MAX_SAFE_INT32_INCLUSIVE)
+      .and.greaterThanOrEqual(MIN_SAFE_INT32_INCLUSIVE)
+  })
+
+  it('reproduces the sequence of the reference implementation', () => {
+    // The Random123 known-answer test for a counter and key of the digits of pi.
+    const gen = new Philox4x32NumberGenerator({
+      state: {
+        counter: [0x243f6a88, 0x85a308d3, 0x13198a2e, 0x03707344],
+        index: 0,
+        key: [0xa4093822, 0x299f31d0]
+      }
+    })
+    const values = Array.from({length: 4}, () => gen.nextUint32())
+    expect(values).to.deep.equal([0xd16cfe09, 0x94fdcceb, 0x5001e420, 0x24126ea1])
+  })
+
+  it('reproduces the sequence of the reference implementation for a zero key', () => {
+    const gen = new Philox4x32NumberGenerator({key: 0})
+    const values = Array.from({length: 4}, () => gen.nextUint32())
+    expect(values).to.deep.equal([0x6627e8d5, 0xe169c58d, 0xbc57ac4c, 0x9b00dbd8])
+  })
+
+  it('carries the counter into each subsequent word', () => {
+    const gen = new Philox4x32NumberGenerator({
+      state: {counter: [0xffffffff, 0xffffffff, 0, 0], index: 3, key: [0, 0]}
+    })
+    gen.nextUint32()
+    expect(gen.getState().counter).to.deep.equal([0, 0, 1, 0])
+  })
+
+  it('uses the key instead of the seed when both are given', () => {
+    const gen1 = new Philox4x32NumberGenerator({key: 2n ** 40n + 1n, seed: 1})
+    const gen2 = new Philox4x32NumberGenerator({key: 2n ** 40n + 1n})
+    expect(gen1.getState()).to.deep.equal(gen2.getState())
+  })
+
+  it('accepts a numerical key', () => {
+    const gen1 = new Philox4x32NumberGenerator({key: 2 ** 40 + 1})
+    const gen2 = new Philox4x32NumberGenerator({key: 2n ** 40n + 1n})
+    expect(gen1.getState()).to.deep.equal(gen2.getState())
+  })
+
+  describe('#advance()', () => {
+    it('advances the generator as if generating the given number of values', () => {
+      const gen1 = new Philox4x32NumberGenerator({seed: 1})
+      const gen2 = new Philox4x32NumberGenerator({seed: 1})
+      gen1.advance(100)
+      Array.from({length: 100}, () => gen2.nextUint32())
+      expect(gen1.nextUint32()).to.equal(gen2.nextUint32())
+    })
+
+    it('accepts a bigint number of steps', () => {
+      const gen1 = new Philox4x32NumberGenerator({seed: 1})
+      const gen2 = new Philox4x32NumberGenerator({seed: 1})
+      gen1.advance(100n)
+      gen2.advance(100)
+      expect(gen1.nextUint32()).to.equal(gen2.nextUint32())
+    })
+
+    it('does not advance the generator for zero steps', () => {
+      const gen1 = new Philox4x32NumberGenerator({seed: 1})
+      const gen2 = new Philox4x32NumberGenerator({seed: 1})
+      gen1.advance(0)
+      expect(gen1.nextUint32()).to.equal(gen2.nextUint32())
+    })
+
+    it('rejects a negative number of steps', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      expect(() => gen.advance(-1)).to.throw('Steps must be a non-negative safe integer or bigint.')
+    })
+
+    it('advances the generator as with #seek()', () => {
+      const gen1 = new Philox4x32NumberGenerator({seed: 1})
+      const gen2 = new Philox4x32NumberGenerator({seed: 1})
+      gen1.nextUint32()
+      gen1.advance(2n ** 80n)
+      gen2.seek(2n ** 80n + 1n)
+      expect(gen1.getState()).to.deep.equal(gen2.getState())
+    })
+  })
+
+  describe('#fillBytes()', () => {
+    it('fills the array with random bytes', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      const array = gen.fillBytes(new Uint8Array(6))
+      expect(Array.from(array)).to.deep.equal([179, 30, 49, 153, 179, 234])
+    })
+  })
+
+  describe('#fillFloat32()', () => {
+    it('fills the array with 24-bit decimal fractions', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      const array = gen.fillFloat32(new Float32Array(2))
+      expect(Array.from(array)).to.deep.equal([0.699679434299469, 0.7027921676635742])
+    })
+
+    it('accepts range options with an inclusive maximum', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      const array = gen.fillFloat32(new Float32Array(100), {min: 0.25, max: 0.5, inclusive: true})
+      expect(Math.min(...array)).to.be.greaterThanOrEqual(0.25)
+      expect(Math.max(...array)).to.be.lessThanOrEqual(0.5)
+    })
+  })
+
+  describe('#fillFloat64()', () => {
+    it('fills the array with values as from repeated calls to #nextFloat64()', () => {
+      const gen1 = new Philox4x32NumberGenerator({seed: 1})
+      const gen2 = new Philox4x32NumberGenerator({seed: 1})
+      const array = gen1.fillFloat64(new Float64Array(10), 0.25, 0.75)
+      const expected = Array.from({length: 10}, () => gen2.nextFloat64(0.25, 0.75))
+      expect(Array.from(array)).to.deep.equal(expected)
+    })
+
+    it('fills the array without a range as from repeated calls to #nextFloat64()', () => {
+      const gen1 = new Philox4x32NumberGenerator({seed: 1})
+      const gen2 = new Philox4x32NumberGenerator({seed: 1})
+      const array = gen1.fillFloat64(new Float64Array(10))
+      const expected = Array.from({length: 10}, () => gen2.nextFloat64())
+      expect(Array.from(array)).to.deep.equal(expected)
+    })
+  })
+
+  describe('#fillInt32()', () => {
+    it('fills the array with values as from repeated calls to #nextInt32()', () => {
+      const gen1 = new Philox4x32NumberGenerator({seed: 1})
+      const gen2 = new Philox4x32NumberGenerator({seed: 1})
+      const array = gen1.fillInt32(new Int32Array(10), -100, 100)
+      const expected = Array.from({length: 10}, () => gen2.nextInt32(-100, 100))
+      expect(Array.from(array)).to.deep.equal(expected)
+    })
+
+    it('fills the array without a range as from repeated calls to #nextInt32()', () => {
+      const gen1 = new Philox4x32NumberGenerator({seed: 1})
+      const gen2 = new Philox4x32NumberGenerator({seed: 1})
+      const array = gen1.fillInt32(new Int32Array(10))
+      const expected = Array.from({length: 10}, () => gen2.nextInt32())
+      expect(Array.from(array)).to.deep.equal(expected)
+    })
+  })
+
+  describe('#fillUint32()', () => {
+    it('fills the array with values as from repeated calls to #nextUint32()', () => {
+      const gen1 = new Philox4x32NumberGenerator({seed: 1})
+      const gen2 = new Philox4x32NumberGenerator({seed: 1})
+      const array = gen1.fillUint32(new Uint32Array(10))
+      const expected = Array.from({length: 10}, () => gen2.nextUint32())
+      expect(Array.from(array)).to.deep.equal(expected)
+    })
+
+    it('accepts range options with an inclusive maximum', () => {
+      const gen1 = new Philox4x32NumberGenerator({seed: 1})
+      const gen2 = new Philox4x32NumberGenerator({seed: 1})
+      const array = gen1.fillUint32(new Uint32Array(10), {min: 1, max: 6, inclusive: true})
+      const expected = Array.from({length: 10}, () =>
+        gen2.nextUint32({min: 1, max: 6, inclusive: true})
+      )
+      expect(Array.from(array)).to.deep.equal(expected)
+    })
+
+    it('leaves the generator in the same state as repeated calls to #nextUint32()', () => {
+      const gen1 = new Philox4x32NumberGenerator({seed: 1})
+      const gen2 = new Philox4x32NumberGenerator({seed: 1})
+      gen1.fillUint32(new Uint32Array(10))
+      Array.from({length: 10}, () => gen2.nextUint32())
+      expect(gen1.getState()).to.deep.equal(gen2.getState())
+    })
+
+    it('fills across blocks as from repeated calls to #nextUint32()', () => {
+      const gen1 = new Philox4x32NumberGenerator({seed: 1})
+      const gen2 = new Philox4x32NumberGenerator({seed: 1})
+      gen1.nextUint32()
+      gen2.nextUint32()
+      const array = gen1.fillUint32(new Uint32Array(10))
+      const expected = Array.from({length: 10}, () => gen2.nextUint32())
+      expect(Array.from(array)).to.deep.equal(expected)
+      expect(gen1.getState()).to.deep.equal(gen2.getState())
+    })
+  })
+
+  describe('#fork()', () => {
+    it('returns a generator of the same class', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      expect(gen.fork('child')).to.be.an.instanceOf(Philox4x32NumberGenerator)
+    })
+
+    it('does not advance the generator', () => {
+      const gen1 = new Philox4x32NumberGenerator({seed: 1})
+      const gen2 = new Philox4x32NumberGenerator({seed: 1})
+      gen1.fork('child')
+      expect(gen1.nextUint32()).to.equal(gen2.nextUint32())
+    })
+
+    it('derives the same generator for the same state and label', () => {
+      const child1 = new Philox4x32NumberGenerator({seed: 1}).fork('child')
+      const child2 = new Philox4x32NumberGenerator({seed: 1}).fork('child')
+      expect(child1.getState()).to.deep.equal(child2.getState())
+    })
+
+    it('derives different generators for different labels', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      const child1 = gen.fork('first')
+      const child2 = gen.fork('second')
+      const values1 = Array.from({length: 4}, () => child1.nextUint32())
+      const values2 = Array.from({length: 4}, () => child2.nextUint32())
+      expect(values1).to.not.deep.equal(values2)
+    })
+
+    it('derives a generator from an empty label by default', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      expect(gen.fork().getState()).to.deep.equal(gen.fork('').getState())
+    })
+
+    it('retains the range strategy of the generator', () => {
+      const child = new Philox4x32NumberGenerator({rangeStrategy: 'lemire', seed: 1}).fork('child')
+      const copy = new Philox4x32NumberGenerator({
+        rangeStrategy: 'lemire',
+        state: child.getState()
+      })
+      const values1 = Array.from({length: 4}, () => child.nextUint32(0, 1000003))
+      const values2 = Array.from({length: 4}, () => copy.nextUint32(0, 1000003))
+      expect(values1).to.deep.equal(values2)
+    })
+  })
+
+  describe('#getState()', () => {
+    it('returns the current state of the generator', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      expect(gen.getState()).to.have.keys('counter', 'index', 'key')
+    })
+
+    it('returns a unique instance of the state', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      expect(gen.getState()).to.not.equal(gen.getState())
+    })
+  })
+
+  describe('#nextBigInt()', () => {
+    it('returns an integer within the given range', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      expect(gen.nextBigInt(-(10n ** 30n), 10n ** 30n)).to.equal(-307214499910490646705150709627n)
+    })
+
+    it('rejects any maximum not greater than the given minimum', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      expect(() => gen.nextBigInt(10n ** 30n, 10n ** 30n)).to.throw()
+    })
+  })
+
+  describe('#nextBoolean()', () => {
+    function countTrue(next: () => boolean): number {
+      let count = 0
+      for (let i = 0; i < 1000; i++) {
+        count += next() ? 1 : 0
+      }
+      return count
+    }
+
+    it('returns true with a probability of 0.5 by default', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      expect(countTrue(() => gen.nextBoolean())).to.be.within(450, 550)
+    })
+
+    it('returns true with the given probability', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      expect(countTrue(() => gen.nextBoolean(0.1))).to.be.within(70, 130)
+    })
+
+    it('returns true with the given rational probability', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      expect(countTrue(() => gen.nextBoolean(2, 3))).to.be.within(617, 717)
+    })
+
+    it('does not advance the state for a probability of 0 or 1', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      const state = gen.getState()
+      expect([gen.nextBoolean(0), gen.nextBoolean(1), gen.nextBoolean(3, 3)]).to.deep.equal([
+        false,
+        true,
+        true
+      ])
+      expect(gen.getState()).to.deep.equal(state)
+    })
+  })
+
+  describe('#nextBytes()', () => {
+    it('returns a new array of random bytes', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      expect(Array.from(gen.nextBytes(6))).to.deep.equal([179, 30, 49, 153, 179, 234])
+    })
+
+    it('returns the same bytes as filling an array of the same length', () => {
+      const gen1 = new Philox4x32NumberGenerator({seed: 1})
+      const gen2 = new Philox4x32NumberGenerator({seed: 1})
+      expect(gen1.nextBytes(10)).to.deep.equal(gen2.fillBytes(new Uint8Array(10)))
+      expect(gen1.getState()).to.deep.equal(gen2.getState())
+    })
+
+    it('returns an empty array when the length is 0', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      expect(gen.nextBytes(0)).to.have.length(0)
+    })
+  })
+
+  describe('#nextFloat()', () => {
+    it('returns a number within the given range', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      expect(gen.nextFloat(-5.5, 12.25)).to.equal(6.9193105807495225)
+    })
+
+    it('rejects any maximum not greater than the given minimum', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      expect(() => gen.nextFloat(12.25, 12.25)).to.throw()
+    })
+  })
+
+  describe('#nextFloatInclusive()', () => {
+    it('returns a number within the given range', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      expect(gen.nextFloatInclusive(1, 6)).to.equal(4.498397346690007)
+    })
+
+    it('accepts a maximum equal to the given minimum', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      expect(gen.nextFloatInclusive(12.25, 12.25)).to.equal(12.25)
+    })
+  })
+
+  describe('#nextFloat64()', () => {
+    it('returns a 53-bit decimal fraction', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      expect(gen.nextFloat64()).to.equal(bitwiseUint53ToFloat64(6302152394778818))
+    })
+
+    it(`returns a value between ${MIN_SAFE_FLOAT64_INCLUSIVE} (inclusive) and ${MAX_SAFE_FLOAT64_EXCLUSIVE} (exclusive)`, () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextFloat64(), 100)
+      expect(min).to.equal(bitwiseUint53ToFloat64(77158992179829))
+      expect(max).to.equal(bitwiseUint53ToFloat64(8947216834421423))
+    })
+
+    it('accepts an optional range', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextFloat64(0.375, 0.625), 100)
+      expect(min).to.equal(bitwiseUint53ToFloat64(3393566193855041))
+      expect(max).to.equal(bitwiseUint53ToFloat64(5627755588942090))
+    })
+  })
+
+  describe('#nextFract32()', () => {
+    it('returns a 32-bit decimal fraction', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      const value = gen.nextFract32()
+      // Transforming the value through 32-bit integer representation maintains fidelity
+      expect(bitwiseFractToFract32(value)).to.equal(value)
+    })
+
+    it(`returns a value between ${MIN_SAFE_FRACT32_INCLUSIVE} (inclusive) and ${MAX_SAFE_FRACT32_EXCLUSIVE} (exclusive)`, () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextFract32(), 100)
+      expect(min).to.equal(bitwiseUint32ToFract32(35911687))
+      expect(max).to.equal(bitwiseUint32ToFract32(4228218143))
+    })
+
+    it('accepts an optional range', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextFract32(0.375, 0.625), 100)
+      expect(min).to.equal(bitwiseUint32ToFract32(1631276769))
+      expect(max).to.equal(bitwiseUint32ToFract32(2683523001))
+    })
+
+    it('accepts an optional minimum', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextFract32(0.375, undefined), 100)
+      expect(min).to.equal(bitwiseUint32ToFract32(1626228768))
+      expect(max).to.equal(bitwiseUint32ToFract32(4226801619))
+    })
+
+    it('accepts an optional maximum', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextFract32(undefined, 0.625), 100)
+      expect(min).to.equal(bitwiseUint32ToFract32(15616032))
+      expect(max).to.equal(bitwiseUint32ToFract32(2616188883))
+    })
+
+    it('returns a value without bias using the bitmask strategy', () => {
+      /*
+       * minimum: 0.3750 = 0b01100000000000000000000000000000 (as uint32: 1610612736)
+       * maximum: 0.6875 = 0b10100000000000000000000000000000 (as uint32: 2952790016)
+       * range:   0.3125 = 0b01010000000000000000000000000000 (as uint32: 1342177280)
+       * mask:             0b01111111111111111111111111111111
+       *
+       * masked value 1:   0b01010101011110111110001100110110
+       * masked value 2:   0b01001110011011011100011000010111
+       *
+       * 1st generated value: 1434182454, masked to 1434182454, exceeds the range.
+       * 2nd generated value: 1315816983, masked to 1315816983, is within range.
+       *
+       * Result: minimum (1610612736) + 1315816983 = 2926429719
+       */
+
+      const gen = new Philox4x32NumberGenerator({rangeStrategy: 'bitmask', seed: 6})
+      const expectedResult = bitwiseUint32ToFract32(2926429719) // 0.6813625150825828
+      expect(gen.nextFract32(0.375, 0.6875)).to.equal(expectedResult)
+    })
+  })
+
+  describe('#nextInt32()', () => {
+    it('returns a signed 32-bit integer', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 2})
+      expect(gen.nextInt32()).to.equal(-543257677)
+    })
+
+    it(`returns a value inclusively between ${MIN_SAFE_INT32_INCLUSIVE} and ${MAX_SAFE_INT32_INCLUSIVE}`, () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextInt32(), 100)
+      expect(min).to.equal(-2103466174)
+      expect(max).to.equal(2129780040)
+    })
+
+    it('accepts an optional range', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextInt32(8192, 32768), 100)
+      expect(min).to.equal(8911)
+      expect(max).to.equal(32723)
+    })
+
+    it('accepts an optional minimum', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextInt32(8192, undefined), 100)
+      expect(min).to.equal(35919879)
+      expect(max).to.equal(2129788232)
+    })
+
+    it('accepts an optional maximum', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextInt32(undefined, 32768), 100)
+      expect(min).to.equal(-2121353034)
+      expect(max).to.equal(-28601831)
+    })
+
+    it('accepts range options with an inclusive maximum', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(
+        () => gen.nextInt32({min: -3, max: 3, inclusive: true}),
+        100
+      )
+      expect(min).to.equal(-3)
+      expect(max).to.equal(3)
+    })
+
+    it('returns a value without bias using the bitmask strategy', () => {
+      /*
+       * minimum:  8192 = 0b0010000000000000
+       * maximum: 32768 = 0b1000000000000000
+       * range:   24576 = 0b0110000000000000
+       * mask:            0b0111111111111111
+       *
+       * masked value 1:  0b0110001100110110
+       * masked value 2:  0b0100011000010111
+       *
+       * 1st generated value: 3581666102, masked to 25398, exceeds the range.
+       * 2nd generated value: 3463300631, masked to 17943, is within range.
+       *
+       * Result: minimum (8192) + 17943 = 26135
+       */
+
+      const gen = new Philox4x32NumberGenerator({rangeStrategy: 'bitmask', seed: 6})
+      expect(gen.nextInt32(8192, 32768)).to.equal(26135)
+    })
+  })
+
+  describe('#nextInt64()', () => {
+    it('returns a signed 64-bit integer', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      expect(gen.nextInt64()).to.equal(-5539935955400904516n)
+    })
+
+    it('accepts an optional range', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      const value = gen.nextInt64(-(2n ** 40n), 2n ** 40n)
+      expect(value >= -(2n ** 40n) && value < 2n ** 40n).to.equal(true)
+    })
+  })
+
+  describe('#nextSafeInteger()', () => {
+    it('returns a safe integer', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      expect(gen.nextSafeInteger()).to.equal(-508413735194435)
+    })
+
+    it('accepts an optional range exceeding 32 bits', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      expect(gen.nextSafeInteger(0, 10_000_000_000)).to.equal(7313436860)
+    })
+  })
+
+  describe('#nextUint32()', () => {
+    it('returns an unsigned 32-bit integer', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 2})
+      expect(gen.nextUint32()).to.equal(3751709619)
+    })
+
+    it(`returns a value inclusively between ${MIN_SAFE_UINT32_INCLUSIVE} and ${MAX_SAFE_UINT32_INCLUSIVE}`, () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextUint32(), 100)
+      expect(min).to.equal(35911687)
+      expect(max).to.equal(4228218143)
+    })
+
+    it('accepts an optional range', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextUint32(8192, 32768), 100)
+      expect(min).to.equal(8911)
+      expect(max).to.equal(32723)
+    })
+
+    it('accepts an optional minimum', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextUint32(8192, undefined), 100)
+      expect(min).to.equal(35919879)
+      expect(max).to.equal(4228226335)
+    })
+
+    it('accepts an optional maximum', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextUint32(undefined, 32768), 100)
+      expect(min).to.equal(1172)
+      expect(max).to.equal(32031)
+    })
+
+    it('accepts range options with an inclusive maximum', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(
+        () => gen.nextUint32({min: 1, max: 6, inclusive: true}),
+        100
+      )
+      expect(min).to.equal(1)
+      expect(max).to.equal(6)
+    })
+
+    it('returns a value without bias using the bitmask strategy', () => {
+      /*
+       * minimum:  8192 = 0b0010000000000000
+       * maximum: 32768 = 0b1000000000000000
+       * range:   24576 = 0b0110000000000000
+       * mask:            0b0111111111111111
+       *
+       * masked value 1:  0b0110001100110110
+       * masked value 2:  0b0100011000010111
+       *
+       * 1st generated value: 1434182454, masked to 25398, exceeds the range.
+       * 2nd generated value: 1315816983, masked to 17943, is within range.
+       *
+       * Result: minimum (8192) + 17943 = 26135
+       */
+
+      const gen = new Philox4x32NumberGenerator({rangeStrategy: 'bitmask', seed: 6})
+      expect(gen.nextUint32(8192, 32768)).to.equal(26135)
+    })
+
+    it('accepts a range strategy for each call', () => {
+      const gen1 = new Philox4x32NumberGenerator({rangeStrategy: 'lemire', seed: 1})
+      const gen2 = new Philox4x32NumberGenerator({seed: 1})
+      const options = {min: 8192, max: 32768, strategy: 'lemire'} as const
+      expect(gen2.nextUint32(options)).to.equal(gen1.nextUint32(8192, 32768))
+    })
+  })
+
+  describe('#nextUint64()', () => {
+    it('returns an unsigned 64-bit integer', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      expect(gen.nextUint64()).to.equal(12906808118308647100n)
+    })
+
+    it('accepts an optional range', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      expect(gen.nextUint64(10n ** 12n, 10n ** 13n)).to.equal(2759660093628n)
+    })
+  })
+
+  describe('#seek()', () => {
+    it('moves the generator to the given position of its sequence', () => {
+      const gen1 = new Philox4x32NumberGenerator({seed: 1})
+      const gen2 = new Philox4x32NumberGenerator({seed: 1})
+      const values = Array.from({length: 10}, () => gen1.nextUint32())
+      gen2.seek(7)
+      expect(gen2.nextUint32()).to.equal(values[7])
+    })
+
+    it('can move the generator backward', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      const values = Array.from({length: 10}, () => gen.nextUint32())
+      gen.seek(2)
+      expect(Array.from({length: 8}, () => gen.nextUint32())).to.deep.equal(values.slice(2))
+    })
+
+    it('accepts a bigint position', () => {
+      const gen1 = new Philox4x32NumberGenerator({seed: 1})
+      const gen2 = new Philox4x32NumberGenerator({seed: 1})
+      gen1.seek(2n ** 40n + 3n)
+      gen2.seek(2 ** 40 + 3)
+      expect(gen1.getState()).to.deep.equal(gen2.getState())
+    })
+
+    it('rejects a negative position', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      expect(() => gen.seek(-1)).to.throw('Index must be a non-negative safe integer or bigint.')
+    })
+
+    it('rejects a position beyond the sequence', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      expect(() => gen.seek(2n ** 130n)).to.throw('Index must be less than 2^130.')
+    })
+  })
+
+  describe('#split()', () => {
+    it('returns a generator of the same class', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      expect(gen.split()).to.be.an.instanceOf(Philox4x32NumberGenerator)
+    })
+
+    it('advances the generator by two values', () => {
+      const gen1 = new Philox4x32NumberGenerator({seed: 1})
+      const gen2 = new Philox4x32NumberGenerator({seed: 1})
+      gen1.split()
+      gen2.advance(2)
+      expect(gen1.nextUint32()).to.equal(gen2.nextUint32())
+    })
+
+    it('derives a different generator with each call', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      const child1 = gen.split()
+      const child2 = gen.split()
+      const values1 = Array.from({length: 4}, () => child1.nextUint32())
+      const values2 = Array.from({length: 4}, () => child2.nextUint32())
+      expect(values1).to.not.deep.equal(values2)
+    })
+
+    it('derives the same generator for the same state', () => {
+      const child1 = new Philox4x32NumberGenerator({seed: 1}).split()
+      const child2 = new Philox4x32NumberGenerator({seed: 1}).split()
+      expect(child1.getState()).to.deep.equal(child2.getState())
+    })
+  })
+
+  describe('#valueAt()', () => {
+    it('returns the value at the given position of the sequence', () => {
+      const gen1 = new Philox4x32NumberGenerator({seed: 1})
+      const gen2 = new Philox4x32NumberGenerator({seed: 1})
+      const values = Array.from({length: 10}, () => gen1.nextUint32())
+      expect(Array.from({length: 10}, (_, index) => gen2.valueAt(index))).to.deep.equal(values)
+    })
+
+    it('returns the value at the given position after seeking', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      gen.seek(2n ** 40n)
+      const value = gen.nextUint32()
+      expect(new Philox4x32NumberGenerator({seed: 1}).valueAt(2n ** 40n)).to.equal(value)
+    })
+
+    it('does not change the state of the generator', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      gen.nextUint32()
+      const state = gen.getState()
+      gen.valueAt(123)
+      expect(gen.getState()).to.deep.equal(state)
+    })
+
+    it('rejects a negative position', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      expect(() => gen.valueAt(-1)).to.throw('Index must be a non-negative safe integer or bigint.')
+    })
+
+    it('rejects a position beyond the sequence', () => {
+      const gen = new Philox4x32NumberGenerator({seed: 1})
+      expect(() => gen.valueAt(2n ** 130n)).to.throw('Index must be less than 2^130.')
+    })
+  })
+})
@@ -0,0 +1,180 @@
+import {expect} from 'chai'
+
+import {Mulberry32NumberGenerator} from './mulberry32'
+import {Pcg32NumberGenerator} from './pcg32'
+import {
+  createGenerator,
+  deserializeGenerator,
+  getAlgorithmName,
+  listAlgorithms,
+  registerAlgorithm
+} from './registry'
+import {Xor4096NumberGenerator} from './xor4096'
+
+class CustomNumberGenerator extends Mulberry32NumberGenerator {}
+
+describe('numbers > seeded generation > registry', () => {
+  describe('.createGenerator()', () => {
+    it('creates a generator of the algorithm with the given name', () => {
+      expect(createGenerator('xor4096', {seed: 1})).to.be.an.instanceOf(Xor4096NumberGenerator)
+    })
+
+    it('passes the given options to the generator', () => {
+      const gen1 = createGenerator('xor4096', {seed: 1})
+      const gen2 = new Xor4096NumberGenerator({seed: 1})
+      expect(gen1.nextUint32()).to.equal(gen2.nextUint32())
+    })
+
+    it('restores a generator from a known state', () => {
+      const gen1 = new Xor4096NumberGenerator({seed: 1})
+      const gen2 = createGenerator(getAlgorithmName(gen1), {state: gen1.getState()})
+      expect(gen2.nextUint32()).to.equal(gen1.nextUint32())
+    })
+
+    it('can be called without options', () => {
+      expect(createGenerator('mulberry32')).to.be.an.instanceOf(Mulberry32NumberGenerator)
+    })
+
+    it('rejects an algorithm name which is not registered', () => {
+      expect(() => createGenerator('unknown')).to.throw('Algorithm "unknown" is not registered.')
+    })
+  })
+
+  describe('.deserializeGenerator()', () => {
+    it('restores a generator of each registered algorithm', () => {
+      for (const name of listAlgorithms()) {
+        const gen1 = createGenerator(name, {seed: 1})
+        gen1.nextUint32()
+        const gen2 = deserializeGenerator(gen1.serialize())
+        expect(gen2.constructor).to.equal(gen1.constructor)
+        expect(gen2.nextUint32()).to.equal(gen1.nextUint32())
+      }
+    })
+
+    it('restores a generator serialized with version 1', () => {
+      const gen = deserializeGenerator(
+        '{"algorithm":"pcg32","version":1,"state":{"incrementHigh":0,"incrementLow":109,' +
+          '"stateHigh":408356536,"stateLow":741213176}}'
+      )
+      expect(gen).to.be.an.instanceOf(Pcg32NumberGenerator)
+      expect([gen.nextUint32(), gen.nextUint32(), gen.nextUint32()]).to.deep.equal([
+        2707161783, 2068313097, 3122475824
+      ])
+    })
+
+    it('rejects text which is not JSON', () => {
+      expect(() => deserializeGenerator('pcg32')).to.throw(
+        'Serialized generator must be valid JSON.'
+      )
+    })
+
+    it('rejects JSON without an algorithm, a version, or a state', () => {
+      const message = 'Serialized generator must include an algorithm, a version, and a state.'
+      expect(() => deserializeGenerator('null')).to.throw(message)
+      expect(() => deserializeGenerator('{"version":1,"state":{}}')).to.throw(message)
+      expect(() => deserializeGenerator('{"algorithm":"pcg32","state":{}}')).to.throw(message)
+      expect(() => deserializeGenerator('{"algorithm":"pcg32","version":1}')).to.throw(message)
+    })
+
+    it('rejects an unsupported version', () => {
+      expect(() => deserializeGenerator('{"algorithm":"pcg32","version":2,"state":{}}')).to.throw(
+        'Serialization version 2 is not supported.'
+      )
+    })
+
+    it('rejects a state which is not an object', () => {
+      expect(() => deserializeGenerator('{"algorithm":"xor128","version":1,"state":5}')).to.throw(
+        'State must be an object.'
+      )
+    })
+
+    it('rejects a corrupted state', () => {
+      expect(() =>
+        deserializeGenerator('{"algorithm":"xor128","version":1,"state":{"w":0,"x":0,"y":0}}')
+      ).to.throw('State "z" must be a 32-bit integer.')
+    })
+
+    it('rejects an algorithm which is not registered', () => {
+      expect(() => deserializeGenerator('{"algorithm":"unknown","version":1,"state":{}}')).to.throw(
+        'Algorithm "unknown" is not registered.'
+      )
+    })
+  })
+
+  describe('.getAlgorithmName()', () => {
+    it('returns the registered name of the algorithm of the generator', () => {
+      expect(getAlgorithmName(new Xor4096NumberGenerator({seed: 1}))).to.equal('xor4096')
+    })
+
+    it('rejects a generator of an unregistered class', () => {
+      class UnregisteredNumberGenerator extends Mulberry32NumberGenerator {}
+      const gen = new UnregisteredNumberGenerator({seed: 1})
+      expect(() => getAlgorithmName(gen)).to.throw('Algorithm of the generator is not registered.')
+    })
+  })
+
+  describe('.listAlgorithms()', () => {
+    it('includes the algorithms of this library', () => {
+      expect(listAlgorithms()).to.include.members([
+        'alea',
+        'arc4',
+        'chacha20',
+        'jsf32',
+        'mt19937',
+        'mulberry32',
+        'pcg32',
+        'philox4x32',
+        'sfc32',
+        'squares',
+        'tychei',
+        'xor128',
+        'xor4096',
+        'xorshift7',
+        'xorwow',
+        'xoshiro128plus',
+        'xoshiro128starstar'
+      ])
+    })
+
+    it('returns the names in alphabetical order', () => {
+      const names = listAlgorithms()
+      expect(names).to.deep.equal([...names].sort())
+    })
+  })
+
+  describe('.registerAlgorithm()', () => {
+    before(() => {
+      registerAlgorithm('custom', CustomNumberGenerator)
+    })
+
+    it('adds the algorithm to the list of algorithms', () => {
+      expect(listAlgorithms()).to.include('custom')
+    })
+
+    it('allows generators of the algorithm to be created', () => {
+      expect(createGenerator('custom', {seed: 1})).to.be.an.instanceOf(CustomNumberGenerator)
+    })
+
+    it('allows the algorithm of its generators to be named', () => {
+      expect(getAlgorithmName(new CustomNumberGenerator({seed: 1}))).to.equal('custom')
+    })
+
+    it('rejects a name which is already registered', () => {
+      expect(() => registerAlgorithm('xor4096', CustomNumberGenerator)).to.throw(
+        'Algorithm "xor4096" is already registered.'
+      )
+    })
+
+    it('rejects an empty name', () => {
+      expect(() => registerAlgorithm('', CustomNumberGenerator)).to.throw(
+        'Algorithm name must be a non-empty string.'
+      )
+    })
+
+    it('rejects a class which does not extend SeededNumberGenerator', () => {
+      expect(() => registerAlgorithm('invalid', Object as never)).to.throw(
+        'Algorithm class must extend SeededNumberGenerator.'
+      )
+    })
+  })
+})
@@ -0,0 +1,140 @@
+import {algorithms, SeededNumberGeneratorClass} from './algorithms'
+import {AleaNumberGenerator} from './alea'
+import {Arc4NumberGenerator} from './arc4'
+import {ChaCha20NumberGenerator} from './chacha20'
+import {Jsf32NumberGenerator} from './jsf32'
+import {Mt19937NumberGenerator} from './mt19937'
+import {Mulberry32NumberGenerator} from './mulberry32'
+import {Pcg32NumberGenerator} from './pcg32'
+import {Philox4x32NumberGenerator} from './philox4x32'
+import {SeededNumberGenerator, SeededNumberGeneratorOptions} from './seeded-generator'
+import {decodeState, SERIALIZATION_VERSION, SerializedGenerator} from './serialization'
+import {Sfc32NumberGenerator} from './sfc32'
+import {SquaresNumberGenerator} from './squares'
+import {TycheiNumberGenerator} from './tychei'
+import {Xor128NumberGenerator} from './xor128'
+import {Xor4096NumberGenerator} from './xor4096'
+import {XorShift7NumberGenerator} from './xorShift7'
+import {XorWowNumberGenerator} from './xorWow'
+import {Xoshiro128PlusNumberGenerator} from './xoshiro128Plus'
+import {Xoshiro128StarStarNumberGenerator} from './xoshiro128StarStar'
+
+export {getAlgorithmName} from './algorithms'
+export type {SeededNumberGeneratorClass} from './algorithms'
+
+/**
+ * A function which creates a seeded number generator of the algorithm with the
+ * given name. This allows the algorithm of a generator to be configured by
+ * name, and stored together with its state.
+ *
+ * @export
+ * @param {string} name The name of a registered algorithm.
+ * @param {SeededNumberGeneratorOptions} [options] Options for the constructor
+ * of the algorithm, such as a seed or a state.
+ * @returns {SeededNumberGenerator} A new generator of the given algorithm.
+ */
+export function createGenerator<State = unknown>(
+  name: string,
+  options: SeededNumberGeneratorOptions<State> = {}
+): SeededNumberGenerator<State> {
+  const generatorClass = algorithms.get(name) as SeededNumberGeneratorClass<State> | undefined
+
+  if (generatorClass == null) {
+    throw new Error(`Algorithm "${name}" is not registered.`)
+  }
+
+  return new generatorClass(options)
+}
+
+/**
+ * A function which restores a generator from a string returned by its
+ * `serialize()` method. The generator is created with the registered class of
+ * its algorithm, and resumes from the serialized state.
+ *
+ * @export
+ * @param {string} text A serialized generator.
+ * @returns {SeededNumberGenerator} A new generator with the serialized state.
+ */
+export function deserializeGenerator<State = unknown>(text: string): SeededNumberGenerator<State> {
+  let serialized: Partial<SerializedGenerator>
+
+  try {
+    serialized = JSON.parse(text)
+  } catch {
+    throw new Error('Serialized generator must be valid JSON.')
+  }
+
+  const {algorithm, rangeStrategy, seedMode, state, version} = serialized ?? {}
+
+  if (typeof algorithm !== 'string' || !Number.isInteger(version) || state == null) {
+    throw new Error('Serialized generator must include an algorithm, a version, and a state.')
+  }
+
+  if ((version as number) < 1 || (version as number) > SERIALIZATION_VERSION) {
+    throw new Error(`Serialization version ${version} is not supported.`)
+  }
+
+  return createGenerator<State>(algorithm, {
+    rangeStrategy,
+    seedMode,
+    state: decodeState(state) as State
+  })
+}
+
+/**
+ * A function which returns the names of all registered algorithms, in
+ * alphabetical order.
+ *
+ * @export
+ * @returns {string[]} The names of all registered algorithms.
+ */
+export function listAlgorithms(): string[] {
+  return [...algorithms.keys()].sort()
+}
+
+/**
+ * A function which registers a seeded number generator class with the given
+ * algorithm name, for use with `createGenerator`. The algorithms of this
+ * library are registered by default.
+ *
+ * @export
+ * @param {string} name A unique name for the algorithm, such as `xor4096`.
+ * @param {SeededNumberGeneratorClass} generatorClass A class which extends
+ * `SeededNumberGenerator`.
+ */
+export function registerAlgorithm<State>(
+  name: string,
+  generatorClass: SeededNumberGeneratorClass<State>
+): void {
+  if (typeof name !== 'string' || name.length === 0) {
+    throw new Error('Algorithm name must be a non-empty string.')
+  }
+
+  if (!(generatorClass?.prototype instanceof SeededNumberGenerator)) {
+    throw new Error('Algorithm class must extend SeededNumberGenerator.')
+  }
+
+  if (algorithms.has(name)) {
+    throw new Error(`Algorithm "${name}" is already registered.`)
+  }
+
+  algorithms.set(name, generatorClass as SeededNumberGeneratorClass)
+}
+
+registerAlgorithm('alea', AleaNumberGenerator)
+registerAlgorithm('arc4', Arc4NumberGenerator)
+registerAlgorithm('chacha20', ChaCha20NumberGenerator)
+registerAlgorithm('jsf32', Jsf32NumberGenerator)
+registerAlgorithm('mt19937', Mt19937NumberGenerator)
+registerAlgorithm('mulberry32', Mulberry32NumberGenerator)
+registerAlgorithm('pcg32', Pcg32NumberGenerator)
+registerAlgorithm('philox4x32', Philox4x32NumberGenerator)
+registerAlgorithm('sfc32', Sfc32NumberGenerator)
+registerAlgorithm('squares', SquaresNumberGenerator)
+registerAlgorithm('tychei', TycheiNumberGenerator)
+registerAlgorithm('xor128', Xor128NumberGenerator)
+registerAlgorithm('xor4096', Xor4096NumberGenerator)
+registerAlgorithm('xorshift7', XorShift7NumberGenerator)
+registerAlgorithm('xorwow', XorWowNumberGenerator)
+registerAlgorithm('xoshiro128plus', Xoshiro128PlusNumberGenerator)
+registerAlgorithm('xoshiro128starstar', Xoshiro128StarStarNumberGenerator)
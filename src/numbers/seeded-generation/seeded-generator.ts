@@ -1,45 +1,276 @@
-import {RandomNumberGenerator} from '../types'
-import {randomSeed} from './seeding'
-import {Seed} from './types'
+import {
+  assertSafeSteps,
+  bitwiseUint24ToFloat32,
+  bitwiseUint32PairToUint53,
+  bitwiseUint32ToInt32,
+  bitwiseUint53ToFloat64
+} from '../../shared'
+import {RandomNumberGenerator, RangeOptions, RangeStrategy} from '../types'
+import {
+  fillRandomBytes,
+  fillUnbiasedRandomFloat32,
+  fillUnbiasedRandomFloat64,
+  fillUnbiasedRandomInt32,
+  fillUnbiasedRandomUint32,
+  resolveRangeOptions,
+  unbiasedRandomBigInt,
+  unbiasedRandomBoolean,
+  unbiasedRandomBooleanRational,
+  unbiasedRandomFloat,
+  unbiasedRandomFloat64,
+  unbiasedRandomFloatInclusive,
+  unbiasedRandomInt64,
+  unbiasedRandomSafeInteger,
+  unbiasedRandomUint64
+} from '../unbiased-random'
+import {getAlgorithmName} from './algorithms'
+import {deriveSeedWords, isLegacySeed, randomSeed} from './seeding'
+import {encodeState, SERIALIZATION_VERSION, SerializedGenerator} from './serialization'
+import {LegacySeed, Seed, SeedMode} from './types'
 
 export interface SeededNumberGeneratorOptions<State> {
+  rangeStrategy?: RangeStrategy
   seed?: Seed
   seedFn?: () => Seed
+  seedMode?: SeedMode
   state?: State
 }
 
+const SEED_MODES: SeedMode[] = ['legacy', 'murmur3', 'sha256']
+
 export abstract class SeededNumberGenerator<State> implements RandomNumberGenerator {
+  /**
+   * The number of unsigned 32-bit integers which the state of this algorithm
+   * derives from a seed. A seed of this many words from `randomSeed` holds as
+   * much entropy as the state can use.
+   */
+  static readonly seedWordCount: number = 1
+
+  protected rangeStrategy: RangeStrategy
+  private seedMode: SeedMode
   protected state!: State
 
   /**
    * Creates an instance of a seeded number generator.
    *
-   * @param {Seed} [options.seed] An optional string or number with which to
-   * deterministically seed this pseudorandom number generator.
+   * @param {RangeStrategy} [options.rangeStrategy] An optional method used to
+   * reduce generated values to a given range, for methods which accept a number
+   * range. Range options given to a method can override this. This value
+   * defaults to `bitmask`, which reproduces sequences generated by versions of
+   * this library which predate range strategies.
+   * @param {Seed} [options.seed] An optional value with which to
+   * deterministically seed this pseudorandom number generator. Strings and
+   * numbers are reduced according to the seed mode. Bigints, arrays of 32-bit
+   * integers, and byte arrays, which can hold more entropy, always derive the
+   * whole state from well-mixed words of the seed, hashed with `murmur3` when
+   * the seed mode is `legacy`. An error is thrown when a seed builds a
+   * degenerate state, such as a seed of `0` for some xorshift generators.
+   * @param {SeedMode} [options.seedMode] An optional method used to build the
+   * initial state from a seed. This value defaults to `legacy`, where each
+   * algorithm reduces a seed in its own way, often to a single 32-bit integer
+   * using Java's `String.hashCode`. This reproduces sequences of prior versions
+   * of this library and of `seedrandom`. With `murmur3` or `sha256`, the whole
+   * state is instead derived from well-mixed words of the seed, using
+   * `deriveSeedWords`. The seed mode of a generator is also used for the
+   * generators derived from it with `fork()` and `split()`.
    * @param {() => Seed} [options.seedFn] An optional function which returns a
-   * seed value (string or number) with which to deterministically seed this
-   * pseudorandom number generator. When no initial seed, state, or seed
-   * function is given, this value will default to a function which uses either
-   * `Crypto` or `Math.random` to randomly generate an initial seed for this
-   * instance of the generator, depending on availability within the current
-   * environment.
+   * seed value with which to deterministically seed this pseudorandom number
+   * generator. When no initial seed, state, or seed function is given, this
+   * value will default to a function which uses either `Crypto` or
+   * `Math.random` to randomly generate an initial seed of `seedWordCount`
+   * words for this instance of the generator, depending on availability within
+   * the current environment.
    * @param {State} [options.state] An optional initial state from an previous
-   * instance of this seeded number generator.
+   * instance of this seeded number generator. An error is thrown when the state
+   * has the wrong shape, has out-of-range values, or is known to be degenerate,
+   * such as the all-zero state of an xorshift generator.
    */
   constructor(options: SeededNumberGeneratorOptions<State> = {}) {
+    this.rangeStrategy = options.rangeStrategy ?? 'bitmask'
+    this.seedMode = options.seedMode ?? 'legacy'
+
+    if (!SEED_MODES.includes(this.seedMode)) {
+      throw new Error(`Seed mode "${this.seedMode}" is not supported.`)
+    }
+
     if (options.state) {
+      this.validateState(options.state)
       this.state = this.cloneState(options.state)
     } else {
       let seed = options.seed
 
       if (seed == null) {
-        seed = (options.seedFn || randomSeed)()
+        const {seedWordCount} = this.constructor as typeof SeededNumberGenerator
+        seed = options.seedFn ? options.seedFn() : randomSeed(undefined, seedWordCount)
       }
 
-      this.buildStateFromSeed(seed)
+      if (this.seedMode === 'legacy' && isLegacySeed(seed)) {
+        this.buildStateFromSeed(seed, options)
+      } else {
+        const hash = this.seedMode === 'legacy' ? 'murmur3' : this.seedMode
+        this.buildStateFromSeedWords(deriveSeedWords(seed, hash), options)
+      }
     }
   }
 
+  /**
+   * A method which advances the generator by the given number of steps, as if
+   * that many unsigned 32-bit integers had been generated with `nextUint32()`
+   * and discarded. This can be used to begin a sequence at an exact position,
+   * such as for each chunk of a partitioned simulation.
+   *
+   * Generators whose algorithms allow it skip ahead directly, in a number of
+   * operations which grows with the logarithm of the steps, or not at all.
+   * Others generate and discard each value, in time which grows with the
+   * number of steps.
+   *
+   * @param {bigint|number} steps A non-negative integer number of values to
+   * skip.
+   */
+  advance(steps: bigint | number): void {
+    assertSafeSteps(steps)
+    this.internalAdvance(BigInt(steps))
+  }
+
+  fillBytes(array: Uint8Array): Uint8Array {
+    return fillRandomBytes(array, () => this.internalNextUint32())
+  }
+
+  fillFloat32(
+    array: Float32Array,
+    minOrOptions?: number | RangeOptions,
+    maxExclusive?: number
+  ): Float32Array {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+
+    if (min == null && max == null) {
+      /*
+       * Each value uses one unsigned 32-bit integer, so the array is first
+       * filled with integers through a view of the same memory. Each integer is
+       * then read before its own element is overwritten.
+       */
+      const words = new Uint32Array(array.buffer, array.byteOffset, array.length)
+      this.internalFillUint32(words)
+
+      for (let i = 0; i < array.length; i++) {
+        // Keep the 24 most-significant bits, the precision of a 32-bit float.
+        array[i] = bitwiseUint24ToFloat32(words[i] >>> 8)
+      }
+
+      return array
+    }
+
+    return fillUnbiasedRandomFloat32(
+      array,
+      min,
+      max,
+      () => this.internalNextUint32(),
+      inclusive,
+      strategy ?? this.rangeStrategy
+    )
+  }
+
+  fillFloat64(
+    array: Float64Array,
+    minOrOptions?: number | RangeOptions,
+    maxExclusive?: number
+  ): Float64Array {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+
+    if (min == null && max == null) {
+      // As with `fillFloat32`, with two unsigned 32-bit integers for each value.
+      const words = new Uint32Array(array.buffer, array.byteOffset, array.length * 2)
+      this.internalFillUint32(words)
+
+      for (let i = 0; i < array.length; i++) {
+        array[i] = bitwiseUint53ToFloat64(bitwiseUint32PairToUint53(words[2 * i], words[2 * i + 1]))
+      }
+
+      return array
+    }
+
+    return fillUnbiasedRandomFloat64(
+      array,
+      min,
+      max,
+      () => this.internalNextUint32(),
+      inclusive,
+      strategy ?? this.rangeStrategy
+    )
+  }
+
+  fillInt32(
+    array: Int32Array,
+    minOrOptions?: number | RangeOptions,
+    maxExclusive?: number
+  ): Int32Array {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+
+    if (min == null && max == null) {
+      // Signed 32-bit integers have the same bits as the unsigned integers.
+      this.internalFillUint32(new Uint32Array(array.buffer, array.byteOffset, array.length))
+      return array
+    }
+
+    return fillUnbiasedRandomInt32(
+      array,
+      min,
+      max,
+      () => bitwiseUint32ToInt32(this.internalNextUint32()),
+      inclusive,
+      strategy ?? this.rangeStrategy
+    )
+  }
+
+  fillUint32(
+    array: Uint32Array,
+    minOrOptions?: number | RangeOptions,
+    maxExclusive?: number
+  ): Uint32Array {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+
+    if (min == null && max == null) {
+      this.internalFillUint32(array)
+      return array
+    }
+
+    return fillUnbiasedRandomUint32(
+      array,
+      min,
+      max,
+      () => this.internalNextUint32(),
+      inclusive,
+      strategy ?? this.rangeStrategy
+    )
+  }
+
+  /**
+   * A method which returns a new generator of the same algorithm, derived from
+   * the state of this generator and the given label. This generator is not
+   * advanced. Forking the same state with the same label always derives the
+   * same generator, while different labels derive independent generators.
+   *
+   * This allows parallel subsystems to each use their own generator, where
+   * values drawn by one subsystem do not change the values of another:
+   *
+   *     const terrain = generator.fork('terrain')
+   *     const weather = generator.fork('weather')
+   *
+   * @param {Seed} [label=''] An optional string or number which identifies the
+   * derived generator.
+   * @returns {this} A new generator of the same class.
+   */
+  fork(label: Seed = ''): this {
+    const source = this.createInstance({state: this.getState()})
+    // Labels are hashed even in the legacy seed mode, where strings could collide.
+    const nextLabelUint32 = deriveSeedWords(
+      label,
+      this.seedMode === 'legacy' ? 'murmur3' : this.seedMode
+    )
+
+    return source.createChild(() => source.internalNextUint32() ^ nextLabelUint32())
+  }
+
   /**
    * A method which returns the current internal state of the pseudorandom
    * number generator. This state can be used to re-instantiate the same
@@ -51,13 +282,174 @@ export abstract class SeededNumberGenerator<State> implements RandomNumberGenera
     return this.cloneState(this.state)
   }
 
-  abstract nextFract32(minInclusive?: number, maxExclusive?: number): number
+  nextBigInt(minInclusive: bigint, maxExclusive: bigint): bigint {
+    return unbiasedRandomBigInt(minInclusive, maxExclusive, () => this.internalNextUint32())
+  }
+
+  nextBoolean(probabilityOrNumerator: number = 0.5, denominator?: number): boolean {
+    if (denominator == null) {
+      return unbiasedRandomBoolean(probabilityOrNumerator, () => this.internalNextUint32())
+    }
+
+    return unbiasedRandomBooleanRational(probabilityOrNumerator, denominator, () =>
+      this.internalNextUint32()
+    )
+  }
+
+  nextBytes(length: number): Uint8Array {
+    return this.fillBytes(new Uint8Array(length))
+  }
+
+  nextFloat(minInclusive: number, maxExclusive: number): number {
+    return unbiasedRandomFloat(minInclusive, maxExclusive, () => this.internalNextUint32())
+  }
+
+  nextFloatInclusive(minInclusive: number, maxInclusive: number): number {
+    return unbiasedRandomFloatInclusive(minInclusive, maxInclusive, () => this.internalNextUint32())
+  }
+
+  nextFloat64(minOrOptions?: number | RangeOptions, maxExclusive?: number): number {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomFloat64(
+      min,
+      max,
+      () => this.internalNextUint32(),
+      inclusive,
+      strategy ?? this.rangeStrategy
+    )
+  }
+
+  abstract nextFract32(minOrOptions?: number | RangeOptions, maxExclusive?: number): number
 
-  abstract nextInt32(minInclusive?: number, maxExclusive?: number): number
+  abstract nextInt32(minOrOptions?: number | RangeOptions, maxExclusive?: number): number
 
-  abstract nextUint32(minInclusive?: number, maxExclusive?: number): number
+  nextInt64(minOrOptions?: bigint | RangeOptions<bigint>, maxExclusive?: bigint): bigint {
+    const {min, max, inclusive} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomInt64(min, max, () => this.internalNextUint32(), inclusive)
+  }
+
+  nextSafeInteger(minOrOptions?: number | RangeOptions, maxExclusive?: number): number {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomSafeInteger(
+      min,
+      max,
+      () => this.internalNextUint32(),
+      inclusive,
+      strategy ?? this.rangeStrategy
+    )
+  }
 
-  protected abstract buildStateFromSeed(seed: Seed): void
+  abstract nextUint32(minOrOptions?: number | RangeOptions, maxExclusive?: number): number
+
+  nextUint64(minOrOptions?: bigint | RangeOptions<bigint>, maxExclusive?: bigint): bigint {
+    const {min, max, inclusive} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomUint64(min, max, () => this.internalNextUint32(), inclusive)
+  }
+
+  /**
+   * A method which returns the algorithm and current state of this generator as
+   * a compact JSON string, such as for game saves or simulation checkpoints.
+   * Large integer arrays of the state are encoded as base64 binary data. The
+   * string includes a format version, and can be restored with
+   * `deserializeGenerator`, including by later versions of this library.
+   *
+   *     {"algorithm":"pcg32","version":1,"state":{...}}
+   *
+   * The algorithm of this generator must be registered.
+   *
+   * @returns {string} The serialized generator.
+   */
+  serialize(): string {
+    const serialized: SerializedGenerator = {
+      algorithm: getAlgorithmName(this),
+      version: SERIALIZATION_VERSION,
+      state: encodeState(this.getState())
+    }
+
+    if (this.rangeStrategy !== 'bitmask') {
+      serialized.rangeStrategy = this.rangeStrategy
+    }
+
+    if (this.seedMode !== 'legacy') {
+      serialized.seedMode = this.seedMode
+    }
+
+    return JSON.stringify(serialized)
+  }
+
+  /**
+   * A method which returns a new generator of the same algorithm, seeded from
+   * values drawn from this generator. This generator is advanced by a fixed
+   * number of values, which is two for most generators. Each call derives a
+   * different generator, independent of this one.
+   *
+   * @returns {this} A new generator of the same class.
+   */
+  split(): this {
+    return this.createChild(() => this.internalNextUint32())
+  }
+
+  protected internalAdvance(steps: bigint): void {
+    for (let remaining = steps; remaining > 0n; remaining--) {
+      this.internalNextUint32()
+    }
+  }
+
+  /*
+   * Fills the given array with the same values as calling `internalNextUint32`
+   * once for each element. Subclasses override this with a loop which keeps the
+   * state of the algorithm in local variables.
+   */
+  protected internalFillUint32(array: Uint32Array): void {
+    for (let i = 0; i < array.length; i++) {
+      array[i] = this.internalNextUint32()
+    }
+  }
+
+  protected abstract internalNextUint32(): number
+
+  /*
+   * Returns a new generator seeded from a fixed number of values of the given
+   * function. Generators which accept more than a numerical seed can override
+   * this to derive more of their state.
+   */
+  protected createChild(randomUint32Fn: () => number): this {
+    const seed = bitwiseUint32PairToUint53(randomUint32Fn(), randomUint32Fn())
+    return this.createInstance({seed})
+  }
+
+  /*
+   * Returns a new generator of the same class with the given options, which can
+   * include those specific to the class.
+   */
+  protected createInstance<Options extends SeededNumberGeneratorOptions<State>>(
+    options: Options
+  ): this {
+    const Generator = this.constructor as new (options: Options) => this
+    return new Generator({...options, rangeStrategy: this.rangeStrategy, seedMode: this.seedMode})
+  }
+
+  protected abstract buildStateFromSeed(
+    seed: LegacySeed,
+    options: SeededNumberGeneratorOptions<State>
+  ): void
+
+  /*
+   * Builds the initial state from the given function, which returns the next
+   * well-mixed unsigned 32-bit integer derived from the seed with each call.
+   * As many integers as the state needs can be taken from this function.
+   */
+  protected abstract buildStateFromSeedWords(
+    nextSeedWord: () => number,
+    options: SeededNumberGeneratorOptions<State>
+  ): void
 
   protected abstract cloneState(state: State): State
+
+  /*
+   * Throws a descriptive error when the given state can not be restored, such
+   * as a state from a corrupted save file. The state is not yet known to match
+   * the `State` type, and is validated before it is cloned.
+   */
+  protected abstract validateState(state: State): void
 }
@@ -0,0 +1,158 @@
+import {expect} from 'chai'
+import {SinonStub, stub} from 'sinon'
+
+import {replaceFallbackCrypto, replaceGlobalCrypto, WebCryptoDouble} from '../../spec-support'
+import {deriveSeedWords, isLegacySeed, randomSeed, seedToUint32} from './seeding'
+
+describe('numbers > seeded generation > seeding', () => {
+  describe('.deriveSeedWords()', () => {
+    it('derives each word as the MurmurHash3 of the seed with the index of the word', () => {
+      const nextWord = deriveSeedWords('abc', 'murmur3')
+      expect([nextWord(), nextWord(), nextWord()]).to.deep.equal([
+        3017643002, 2859854335, 2529246295
+      ])
+    })
+
+    it('uses MurmurHash3 by default', () => {
+      expect(deriveSeedWords('abc')()).to.equal(3017643002)
+    })
+
+    it('derives each group of 8 words as a SHA-256 digest of the index of the group and the seed', () => {
+      const nextWord = deriveSeedWords('abc', 'sha256')
+      expect(Array.from({length: 10}, () => nextWord())).to.deep.equal([
+        176376496, 1259743408, 3035373770, 1910996886, 2818847169, 3666340848, 1920386104,
+        3059884138, 4190413483, 1307056862
+      ])
+    })
+
+    it('derives the same words for a numerical seed and its string', () => {
+      expect(deriveSeedWords(123)()).to.equal(deriveSeedWords('123')())
+    })
+
+    it('derives different words for strings with the same Java hash code', () => {
+      expect(deriveSeedWords('Aa')()).to.not.equal(deriveSeedWords('BB')())
+    })
+
+    it('derives the same words for the same seed', () => {
+      const nextWord1 = deriveSeedWords('start', 'sha256')
+      const nextWord2 = deriveSeedWords('start', 'sha256')
+      const words1 = Array.from({length: 20}, () => nextWord1())
+      const words2 = Array.from({length: 20}, () => nextWord2())
+      expect(words1).to.deep.equal(words2)
+    })
+
+    it('derives words from the bytes of a byte array as-is', () => {
+      const bytes = new Uint8Array([0x61, 0x62, 0x63])
+      expect(deriveSeedWords(bytes)()).to.equal(3017643002)
+    })
+
+    it('derives words from the big-endian bytes of each integer of an array', () => {
+      const bytes = new Uint8Array([1, 2, 3, 4, 0xff, 0xff, 0xff, 0xfe])
+      expect(deriveSeedWords([0x01020304, 0xfffffffe])()).to.equal(deriveSeedWords(bytes)())
+    })
+
+    it('derives the same words for signed and unsigned integers of an array', () => {
+      expect(deriveSeedWords([-2])()).to.equal(deriveSeedWords([0xfffffffe])())
+    })
+
+    it('derives words from the big-endian bytes of a bigint', () => {
+      const bytes = new Uint8Array([1, 2, 3, 4, 5])
+      expect(deriveSeedWords(0x0102030405n)()).to.equal(deriveSeedWords(bytes)())
+    })
+
+    it('rejects an array with values which are not 32-bit integers', () => {
+      expect(() => deriveSeedWords([1, 0x100000000])).to.throw(
+        'Seed words must be 32-bit integers.'
+      )
+      expect(() => deriveSeedWords([1.5])).to.throw('Seed words must be 32-bit integers.')
+    })
+
+    it('rejects a negative bigint', () => {
+      expect(() => deriveSeedWords(-1n)).to.throw('Seed must be a non-negative bigint.')
+    })
+
+    it('rejects an unsupported hash', () => {
+      expect(() => deriveSeedWords('abc', 'md5' as 'sha256')).to.throw(
+        'Seed hash "md5" is not supported.'
+      )
+    })
+  })
+
+  describe('.isLegacySeed()', () => {
+    it('returns true for strings and numbers', () => {
+      expect(isLegacySeed('abc')).to.be.true
+      expect(isLegacySeed(123)).to.be.true
+    })
+
+    it('returns false for bigints, arrays, and byte arrays', () => {
+      expect(isLegacySeed(123n)).to.be.false
+      expect(isLegacySeed([1, 2, 3])).to.be.false
+      expect(isLegacySeed(new Uint8Array([1, 2, 3]))).to.be.false
+    })
+  })
+
+  describe('.randomSeed()', () => {
+    it('returns an unsigned 32-bit integer by default', () => {
+      const seed = randomSeed(undefined)
+      expect(seed).to.be.a('number')
+      expect(seed).to.equal((seed as number) >>> 0)
+    })
+
+    it('returns an array of the given number of unsigned 32-bit integers', () => {
+      const seed = randomSeed(undefined, 129) as number[]
+      expect(seed).to.have.length(129)
+      seed.forEach(word => expect(word).to.equal(word >>> 0))
+    })
+
+    context('when the global Crypto module is not available', () => {
+      let fallbackCrypto: WebCryptoDouble
+      let mathRandom: SinonStub<void[], number>
+      let restoreFallbackCrypto: () => void
+      let restoreGlobalCrypto: () => void
+
+      beforeEach(() => {
+        fallbackCrypto = new WebCryptoDouble()
+        mathRandom = stub(Math, 'random').returns(0.5)
+        restoreFallbackCrypto = replaceFallbackCrypto(fallbackCrypto)
+        restoreGlobalCrypto = replaceGlobalCrypto(undefined)
+      })
+
+      afterEach(() => {
+        mathRandom.restore()
+        restoreFallbackCrypto()
+        restoreGlobalCrypto()
+      })
+
+      it('uses the crypto module of Node.js instead of Math.random', () => {
+        fallbackCrypto.pushSequenceValues([0, 0, 0, 9])
+        expect(randomSeed()).to.equal(9)
+        expect(mathRandom.callCount).to.equal(0)
+      })
+
+      it('uses Math.random when no secure source is available', () => {
+        replaceFallbackCrypto(undefined)
+        randomSeed()
+        expect(mathRandom.callCount).to.be.greaterThan(0)
+      })
+    })
+
+    it('rejects a word count which is not a positive safe integer', () => {
+      expect(() => randomSeed(undefined, 0)).to.throw('Word count must be a positive safe integer.')
+      expect(() => randomSeed(undefined, 1.5)).to.throw(
+        'Word count must be a positive safe integer.'
+      )
+    })
+  })
+
+  describe('.seedToUint32()', () => {
+    it('reduces a string seed with its Java hash code', () => {
+      expect(seedToUint32('abc')).to.equal(96354)
+    })
+
+    it('reduces bigints, arrays, and byte arrays to their first derived word', () => {
+      expect(seedToUint32(new Uint8Array([0x61, 0x62, 0x63]))).to.equal(3017643002)
+      expect(seedToUint32([1, 2])).to.equal(deriveSeedWords([1, 2])())
+      expect(seedToUint32(12345678901234567890n)).to.equal(deriveSeedWords(12345678901234567890n)())
+    })
+  })
+})
@@ -1,43 +1,140 @@
-import {WebCrypto} from '../../shared'
+import {
+  MAX_SAFE_UINT32_INCLUSIVE,
+  MIN_SAFE_INT32_INCLUSIVE,
+  murmurHash3,
+  sha256,
+  uint32ToUint8Array,
+  WebCrypto
+} from '../../shared'
 import {MathRandomNumberGenerator} from '../insecure-generation'
 import {WebCryptoNumberGenerator} from '../secure-generation'
-import {Seed} from './types'
+import {getSecureCrypto} from '../secure-generation/secure-source'
+import {RandomNumberGenerator} from '../types'
+import {LegacySeed, Seed, SeedHash} from './types'
+
+/**
+ * A function which returns a sequence of well-mixed unsigned 32-bit integers
+ * derived from the given seed. Each call of the returned function returns the
+ * next integer of the sequence, so that a seed can be expanded into as many
+ * words as the state of a seeded number generator needs. Unlike
+ * `seedToUint32`, every character of a string seed affects every word, and
+ * similar seeds produce unrelated sequences.
+ *
+ * Seeds are hashed as bytes. Strings and numbers are hashed as the UTF-8 bytes
+ * of their text, so the number `1` and the string `'1'` derive the same words.
+ * A `Uint8Array` is hashed as-is, an array of 32-bit integers as 4 big-endian
+ * bytes for each integer, and a non-negative bigint as its big-endian bytes.
+ *
+ * @export
+ * @param {Seed} seed A seed from which to derive the words.
+ * @param {SeedHash} [hash='murmur3'] The hash function used to derive the
+ * words. With `murmur3`, each word is the MurmurHash3 of the seed with the
+ * index of the word as the hash seed. With `sha256`, each group of 8 words is
+ * the SHA-256 digest of the index of the group, as 4 big-endian bytes,
+ * followed by the seed.
+ * @returns {() => number} A function which returns the next unsigned 32-bit
+ * integer of the sequence.
+ */
+export function deriveSeedWords(seed: Seed, hash: SeedHash = 'murmur3'): () => number {
+  const bytes = seedToBytes(seed)
+  let index = 0
+
+  if (hash === 'murmur3') {
+    return () => murmurHash3(bytes, index++)
+  }
+
+  if (hash === 'sha256') {
+    const input = new Uint8Array(bytes.length + 4)
+    const inputView = new DataView(input.buffer)
+    let digestView = new DataView(new ArrayBuffer(0))
+
+    input.set(bytes, 4)
+
+    return () => {
+      if (index % 8 === 0) {
+        inputView.setUint32(0, index / 8)
+        digestView = new DataView(sha256(input).buffer)
+      }
+
+      return digestView.getUint32((index++ % 8) * 4)
+    }
+  }
+
+  throw new Error(`Seed hash "${hash}" is not supported.`)
+}
+
+/**
+ * A function which returns whether the given seed is a string or number, which
+ * seeded number generators reduce in their own way with the `legacy` seed mode.
+ *
+ * @export
+ * @param {Seed} seed A seed value.
+ * @returns {boolean} Whether the seed is a string or number.
+ */
+export function isLegacySeed(seed: Seed): seed is LegacySeed {
+  return typeof seed === 'string' || typeof seed === 'number'
+}
 
 /**
  * A function which returns a seed value for use with instantiating seeded
  * number generators.
  *
+ * By default, the seed is a single unsigned 32-bit integer, which allows for
+ * only 2^32 different seeds. For a seed with as much entropy as the state of
+ * an algorithm can hold, give the `seedWordCount` of its class:
+ *
+ *     randomSeed(crypto, Xor4096NumberGenerator.seedWordCount)
+ *
  * @export
  * @param {WebCrypto} [crypto=globalThis.crypto] A subset of JavaScript's native
  * `Crypto` module. This is a subset of JavaScript's native `Crypto` module.
  * This value defaults to JavaScript's native `Crypto` module, when available.
  * When JavaScript's `Crypto` module is not available in the current environment
- * and a substititute is not given, JavaScript's `Math.random` function will be
- * used for equivalent behavior.
+ * and a substititute is not given, the `crypto` module of Node.js is used
+ * instead when imported from the `node` entry point of this package. Only when
+ * neither is available will JavaScript's `Math.random` function be used for
+ * equivalent behavior.
+ * @param {number} [wordCount] An optional number of unsigned 32-bit integers
+ * to generate. When given, the seed is an array of this many integers.
  *
  * @returns {Seed} A value for use with instantiating seeded number generators.
  */
-export function randomSeed(crypto: WebCrypto = globalThis.crypto): Seed {
-  if (crypto) {
-    const gen = new WebCryptoNumberGenerator({crypto})
+export function randomSeed(
+  crypto: WebCrypto | undefined = getSecureCrypto(),
+  wordCount?: number
+): Seed {
+  const gen = createSeedGenerator(crypto)
+
+  if (wordCount == null) {
     return gen.nextUint32()
   }
 
-  const gen = new MathRandomNumberGenerator()
-  return gen.nextUint32()
+  if (!Number.isSafeInteger(wordCount) || wordCount < 1) {
+    throw new Error('Word count must be a positive safe integer.')
+  }
+
+  return Array.from(gen.fillUint32(new Uint32Array(wordCount)))
 }
 
 /**
  * A function which takes a seed value and returns an unsigned 32-bit integer
  * for use with instantiating seeded number generators.
  *
+ * Strings are reduced with Java's `String.hashCode`, while bigints, arrays,
+ * and byte arrays are reduced to the first word derived with
+ * `deriveSeedWords`.
+ *
  * @export
- * @param {Seed} seed A string or number which could be used to
- * deterministically seed a pseudorandom number generator.
+ * @param {Seed} seed A value which could be used to deterministically seed a
+ * pseudorandom number generator.
  * @returns {number} An unsigned 32-bit integer value for use with instantiating
  * seeded number generators.
  */
 export function seedToUint32(seed: Seed): number {
+  if (!isLegacySeed(seed)) {
+    return deriveSeedWords(seed)()
+  }
+
   if (Number.isFinite(seed)) {
     return (seed as number) >>> 0
   }
@@ -55,3 +152,79 @@ export function seedToUint32(seed: Seed): number {
 
   return result
 }
+
+/**
+ * A function which returns a SplitMix32 sequence for the given seed. Each call
+ * of the returned function advances the sequence and returns its next unsigned
+ * 32-bit integer. This is used to expand a single 32-bit seed into the larger
+ * state of a seeded number generator, so that similar seeds produce unrelated
+ * states.
+ *
+ * This is the 32-bit variant of SplitMix, which adds the golden ratio to its
+ * state and mixes the result with the hash function found by Hash Prospector.
+ *
+ * @export
+ * @param {number} seed An integer with which to begin the sequence. Only the 32
+ * least-significant bits are used.
+ * @returns {() => number} A function which returns the next unsigned 32-bit
+ * integer of the sequence.
+ */
+export function splitMix32(seed: number): () => number {
+  let state = seed | 0
+
+  return () => {
+    state = (state + 0x9e3779b9) | 0
+
+    let value = state ^ (state >>> 16)
+    value = Math.imul(value, 0x21f0aaad)
+    value ^= value >>> 15
+    value = Math.imul(value, 0x735a2d97)
+    value ^= value >>> 15
+
+    return value >>> 0
+  }
+}
+
+function createSeedGenerator(crypto: WebCrypto | undefined): RandomNumberGenerator {
+  if (crypto) {
+    return new WebCryptoNumberGenerator({crypto})
+  }
+
+  return new MathRandomNumberGenerator()
+}
+
+function seedToBytes(seed: Seed): Uint8Array {
+  if (seed instanceof Uint8Array) {
+    return seed
+  }
+
+  if (Array.isArray(seed)) {
+    const bytes = new Uint8Array(seed.length * 4)
+
+    seed.forEach((word, index) => {
+      if (
+        !Number.isInteger(word) ||
+        word < MIN_SAFE_INT32_INCLUSIVE ||
+        word > MAX_SAFE_UINT32_INCLUSIVE
+      ) {
+        throw new Error('Seed words must be 32-bit integers.')
+      }
+
+      bytes.set(uint32ToUint8Array(word), index * 4)
+    })
+
+    return bytes
+  }
+
+  if (typeof seed === 'bigint') {
+    if (seed < 0n) {
+      throw new Error('Seed must be a non-negative bigint.')
+    }
+
+    const hex = seed.toString(16)
+    const digits = hex.length % 2 === 0 ? hex : `0${hex}`
+    return Uint8Array.from(digits.match(/../g) as string[], pair => Number.parseInt(pair, 16))
+  }
+
+  return new TextEncoder().encode(String(seed))
+}
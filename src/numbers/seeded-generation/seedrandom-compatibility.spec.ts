@@ -0,0 +1,248 @@
+import {expect} from 'chai'
+
+import {AleaNumberGenerator} from './alea'
+import {Arc4NumberGenerator} from './arc4'
+import {TycheiNumberGenerator} from './tychei'
+import {Xor128NumberGenerator} from './xor128'
+import {Xor4096NumberGenerator} from './xor4096'
+import {XorShift7NumberGenerator} from './xorShift7'
+import {XorWowNumberGenerator} from './xorWow'
+
+/*
+ * The expected sequences were generated by version 3.0.5 of `seedrandom`, such
+ * as with `seedrandom.alea('hello.')`, calling the returned function 5 times.
+ * Each generator must reproduce them bit-for-bit from the same seed.
+ */
+
+function take(count: number, next: () => number): number[] {
+  return Array.from({length: count}, next)
+}
+
+describe('numbers > seeded generation > seedrandom compatibility', () => {
+  describe('Arc4NumberGenerator', () => {
+    it('matches seedrandom() for a string seed', () => {
+      const gen = new Arc4NumberGenerator({seed: 'hello.'})
+      expect(take(5, () => gen.nextDouble())).to.deep.equal([
+        0.9282578795792454, 0.3752569768646784, 0.7316977468919549, 0.23707962084956113,
+        0.06057665448709666
+      ])
+    })
+
+    it('matches seedrandom().quick() for a string seed', () => {
+      const gen = new Arc4NumberGenerator({seed: 'hello.'})
+      expect(take(5, () => gen.nextFract32())).to.deep.equal([
+        0.9282578795682639, 0.04716571420431137, 0.06578607717528939, 0.7833363600075245,
+        0.5435403110459447
+      ])
+    })
+
+    it('matches seedrandom().int32() for a string seed', () => {
+      const gen = new Arc4NumberGenerator({seed: 'hello.'})
+      expect(take(5, () => gen.nextInt32())).to.deep.equal([
+        -308130061, 202575200, 282549050, -930563248, -1960479436
+      ])
+    })
+
+    it('matches seedrandom() for an integer seed', () => {
+      const gen = new Arc4NumberGenerator({seed: 12345})
+      expect(take(5, () => gen.nextDouble())).to.deep.equal([
+        0.9166586073672581, 0.033239555014046934, 0.8161255028800786, 0.5355104187079619,
+        0.5725719374207708
+      ])
+    })
+
+    it('matches seedrandom().quick() for an integer seed', () => {
+      const gen = new Arc4NumberGenerator({seed: 12345})
+      expect(take(5, () => gen.nextFract32())).to.deep.equal([
+        0.9166586073115468, 0.23927861638367176, 0.5093260835856199, 0.044653166085481644,
+        0.9281287372577935
+      ])
+    })
+
+    it('matches seedrandom().int32() for an integer seed', () => {
+      const gen = new Arc4NumberGenerator({seed: 12345})
+      expect(take(5, () => gen.nextInt32())).to.deep.equal([
+        -357948556, 1027693832, -2107428424, 191783888, -308684723
+      ])
+    })
+
+    it('matches seedrandom() for a fractional seed', () => {
+      const gen = new Arc4NumberGenerator({seed: 0.5})
+      expect(take(5, () => gen.nextDouble())).to.deep.equal([
+        0.07850312379107637, 0.1794552176347184, 0.8574869813279058, 0.9494443138916921,
+        0.7603082951020289
+      ])
+    })
+
+    it('matches seedrandom().quick() for a fractional seed', () => {
+      const gen = new Arc4NumberGenerator({seed: 0.5})
+      expect(take(5, () => gen.nextFract32())).to.deep.equal([
+        0.07850312371738255, 0.3165125355590135, 0.9405357143841684, 0.4455849835649133,
+        0.26680830563418567
+      ])
+    })
+
+    it('matches seedrandom().int32() for a fractional seed', () => {
+      const gen = new Arc4NumberGenerator({seed: 0.5})
+      expect(take(5, () => gen.nextInt32())).to.deep.equal([
+        337168349, 1359410989, -255397162, 1913772932, 1145932947
+      ])
+    })
+  })
+
+  describe('AleaNumberGenerator', () => {
+    it('matches seedrandom.alea() for a string seed', () => {
+      const gen = new AleaNumberGenerator({seed: 'hello.'})
+      expect(take(5, () => gen.nextFract32())).to.deep.equal([
+        0.4783254903741181, 0.8297006865032017, 0.46924330526962876, 0.2505575136747211,
+        0.31444981368258595
+      ])
+    })
+
+    it('matches seedrandom.alea() for an integer seed', () => {
+      const gen = new AleaNumberGenerator({seed: 12345})
+      expect(take(5, () => gen.nextFract32())).to.deep.equal([
+        0.27138191112317145, 0.19615925149992108, 0.6810678059700876, 0.9894359013997018,
+        0.34078020555898547
+      ])
+    })
+
+    it('matches seedrandom.alea() for a fractional seed', () => {
+      const gen = new AleaNumberGenerator({seed: 0.5})
+      expect(take(5, () => gen.nextFract32())).to.deep.equal([
+        0.05934533127583563, 0.5203025210648775, 0.11865817313082516, 0.009800460422411561,
+        0.04488652036525309
+      ])
+    })
+  })
+
+  describe('TycheiNumberGenerator', () => {
+    it('matches seedrandom.tychei() for a string seed', () => {
+      const gen = new TycheiNumberGenerator({seed: 'hello.'})
+      expect(take(5, () => gen.nextFract32())).to.deep.equal([
+        0.4676165450364351, 0.794256798690185, 0.8909397614188492, 0.9707713141106069,
+        0.07701495313085616
+      ])
+    })
+
+    it('matches seedrandom.tychei() for an integer seed', () => {
+      const gen = new TycheiNumberGenerator({seed: 12345})
+      expect(take(5, () => gen.nextFract32())).to.deep.equal([
+        0.5940808744635433, 0.6933232431765646, 0.6757778080645949, 0.7403312076348811,
+        0.3301935619674623
+      ])
+    })
+
+    it('matches seedrandom.tychei() for a fractional seed', () => {
+      const gen = new TycheiNumberGenerator({seed: 0.5})
+      expect(take(5, () => gen.nextFract32())).to.deep.equal([
+        0.20147272408939898, 0.5261408307123929, 0.12144580180756748, 0.11921929195523262,
+        0.9314319712575525
+      ])
+    })
+  })
+
+  describe('Xor128NumberGenerator', () => {
+    it('matches seedrandom.xor128() for a string seed', () => {
+      const gen = new Xor128NumberGenerator({seed: 'hello.'})
+      expect(take(5, () => gen.nextFract32())).to.deep.equal([
+        0.698391932528466, 0.6919899098575115, 0.5514540106523782, 0.4113934386987239,
+        0.5855552146676928
+      ])
+    })
+
+    it('matches seedrandom.xor128() for an integer seed', () => {
+      const gen = new Xor128NumberGenerator({seed: 12345})
+      expect(take(5, () => gen.nextFract32())).to.deep.equal([
+        0.8285389693919569, 0.5838943012058735, 0.9246132124681026, 0.4141239544842392,
+        0.40271294885315
+      ])
+    })
+
+    it('matches seedrandom.xor128() for a fractional seed', () => {
+      const gen = new Xor128NumberGenerator({seed: 0.5})
+      expect(take(5, () => gen.nextFract32())).to.deep.equal([
+        0.26607067603617907, 0.23579281382262707, 0.5403311925474554, 0.3798494611401111,
+        0.7974394529592246
+      ])
+    })
+  })
+
+  describe('Xor4096NumberGenerator', () => {
+    it('matches seedrandom.xor4096() for a string seed', () => {
+      const gen = new Xor4096NumberGenerator({seed: 'hello.'})
+      expect(take(5, () => gen.nextFract32())).to.deep.equal([
+        0.9798525865189731, 0.035834695445373654, 0.9905578466132283, 0.3123260070569813,
+        0.5215296742971987
+      ])
+    })
+
+    it('matches seedrandom.xor4096() for an integer seed', () => {
+      const gen = new Xor4096NumberGenerator({seed: 12345})
+      expect(take(5, () => gen.nextFract32())).to.deep.equal([
+        0.41276967944577336, 0.7442638026550412, 0.22138263913802803, 0.5201760411728173,
+        0.774778303457424
+      ])
+    })
+
+    it('matches seedrandom.xor4096() for a fractional seed', () => {
+      const gen = new Xor4096NumberGenerator({seed: 0.5})
+      expect(take(5, () => gen.nextFract32())).to.deep.equal([
+        0.9545366743113846, 0.6228190895635635, 0.9245942125562578, 0.6413682338315994,
+        0.49177313642576337
+      ])
+    })
+  })
+
+  describe('XorShift7NumberGenerator', () => {
+    it('matches seedrandom.xorshift7() for a string seed', () => {
+      const gen = new XorShift7NumberGenerator({seed: 'hello.'})
+      expect(take(5, () => gen.nextFract32())).to.deep.equal([
+        0.7404357127379626, 0.017942105419933796, 0.1670631943270564, 0.03609398379921913,
+        0.3878708186093718
+      ])
+    })
+
+    it('matches seedrandom.xorshift7() for an integer seed', () => {
+      const gen = new XorShift7NumberGenerator({seed: 12345})
+      expect(take(5, () => gen.nextFract32())).to.deep.equal([
+        0.7622230167035013, 0.9296577374916524, 0.9675464080646634, 0.5260102248284966,
+        0.8098729308694601
+      ])
+    })
+
+    it('matches seedrandom.xorshift7() for a fractional seed', () => {
+      const gen = new XorShift7NumberGenerator({seed: 0.5})
+      expect(take(5, () => gen.nextFract32())).to.deep.equal([
+        0.7404357127379626, 0.017942105419933796, 0.1670631943270564, 0.03609398379921913,
+        0.3878708186093718
+      ])
+    })
+  })
+
+  describe('XorWowNumberGenerator', () => {
+    it('matches seedrandom.xorwow() for a string seed', () => {
+      const gen = new XorWowNumberGenerator({seed: 'hello.'})
+      expect(take(5, () => gen.nextFract32())).to.deep.equal([
+        0.14254314289428294, 0.5642471052706242, 0.8030998287722468, 0.4684637268073857,
+        0.21372657804749906
+      ])
+    })
+
+    it('matches seedrandom.xorwow() for an integer seed', () => {
+      const gen = new XorWowNumberGenerator({seed: 12345})
+      expect(take(5, () => gen.nextFract32())).to.deep.equal([
+        0.3323741762433201, 0.44424289325252175, 0.4084796607494354, 0.4622695376165211,
+        0.6734141875058413
+      ])
+    })
+
+    it('matches seedrandom.xorwow() for a fractional seed', () => {
+      const gen = new XorWowNumberGenerator({seed: 0.5})
+      expect(take(5, () => gen.nextFract32())).to.deep.equal([
+        0.1123266820795834, 0.5880490741692483, 0.9235639914404601, 0.27440202445723116,
+        0.10926967044360936
+      ])
+    })
+  })
+})
@@ -0,0 +1,150 @@
+import {base64ToUint8Array, uint8ArrayToBase64} from '../../shared'
+import {RangeStrategy} from '../types'
+import {SeedMode} from './types'
+
+/*
+ * The version of the serialized format. This only changes when a serialized
+ * generator of a previous version can no longer be read as-is, in which case
+ * `deserializeGenerator` must continue to accept each previous version.
+ */
+export const SERIALIZATION_VERSION = 1
+
+// Integer arrays at least this long can be encoded as base64 binary data.
+const MIN_BINARY_LENGTH = 16
+
+const BINARY_ARRAY_KEYS = ['int32', 'uint8', 'uint32']
+
+export type SerializedGenerator = {
+  algorithm: string
+  rangeStrategy?: RangeStrategy
+  seedMode?: SeedMode
+  state: unknown
+  version: number
+}
+
+type BinaryArray = {int32: string} | {uint8: string} | {uint32: string}
+
+export function decodeState(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(decodeState)
+  }
+
+  if (isPlainObject(value)) {
+    if (isBinaryArray(value)) {
+      return decodeBinaryArray(value)
+    }
+
+    const state: Record<string, unknown> = {}
+
+    for (const [key, entry] of Object.entries(value)) {
+      state[key] = decodeState(entry)
+    }
+
+    return state
+  }
+
+  return value
+}
+
+export function encodeState(value: unknown): unknown {
+  /*
+   * Large arrays of integers, such as the 128 words of xor4096 or the 624 words
+   * of MT19937, are encoded as base64 little-endian 32-bit words, which is
+   * about a third of the length of their JSON arrays. Arrays of bytes, such as
+   * the 256 entries of ARC4, are encoded as base64 bytes. An array is only
+   * encoded when this is shorter, and all other values are kept as they are,
+   * for states to remain readable.
+   */
+  if (Array.isArray(value)) {
+    if (value.length >= MIN_BINARY_LENGTH) {
+      const binaryArray = encodeBinaryArray(value)
+
+      if (binaryArray && JSON.stringify(binaryArray).length < JSON.stringify(value).length) {
+        return binaryArray
+      }
+    }
+
+    return value.map(encodeState)
+  }
+
+  if (isPlainObject(value)) {
+    const state: Record<string, unknown> = {}
+
+    for (const [key, entry] of Object.entries(value)) {
+      state[key] = encodeState(entry)
+    }
+
+    return state
+  }
+
+  return value
+}
+
+function decodeBinaryArray(value: BinaryArray): number[] {
+  if ('uint8' in value) {
+    return Array.from(base64ToUint8Array(value.uint8))
+  }
+
+  const bytes = base64ToUint8Array('int32' in value ? value.int32 : value.uint32)
+
+  if (bytes.length % 4 !== 0) {
+    throw new Error('Binary state must be a whole number of 32-bit words.')
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const words = []
+
+  for (let offset = 0; offset < bytes.length; offset += 4) {
+    words.push('int32' in value ? view.getInt32(offset, true) : view.getUint32(offset, true))
+  }
+
+  return words
+}
+
+function encodeBinaryArray(values: unknown[]): BinaryArray | null {
+  if (values.every(isUint8)) {
+    return {uint8: uint8ArrayToBase64(Uint8Array.from(values))}
+  }
+
+  if (values.every(isUint32)) {
+    return {uint32: encodeWords(values)}
+  }
+
+  if (values.every(isInt32)) {
+    return {int32: encodeWords(values)}
+  }
+
+  return null
+}
+
+function encodeWords(words: number[]): string {
+  const bytes = new Uint8Array(words.length * 4)
+  const view = new DataView(bytes.buffer)
+
+  words.forEach((word, index) => view.setUint32(index * 4, word >>> 0, true))
+
+  return uint8ArrayToBase64(bytes)
+}
+
+function isBinaryArray(value: Record<string, unknown>): value is BinaryArray {
+  const keys = Object.keys(value)
+  return (
+    keys.length === 1 && BINARY_ARRAY_KEYS.includes(keys[0]) && typeof value[keys[0]] === 'string'
+  )
+}
+
+function isInt32(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) === ((value as number) | 0)
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isUint8(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 0xff
+}
+
+function isUint32(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) === (value as number) >>> 0
+}
@@ -0,0 +1,120 @@
+import {
+  MAX_SAFE_UINT32_INCLUSIVE,
+  MIN_SAFE_INT32_INCLUSIVE,
+  MIN_SAFE_UINT32_INCLUSIVE
+} from '../../shared'
+
+/*
+ * Assertions for states given to the constructors of seeded generators, such
+ * as from saved files, which may have been edited or corrupted. Generators
+ * which combine words with bitwise operations accept either the signed or the
+ * unsigned representation of each 32-bit word, while generators which combine
+ * words arithmetically require unsigned words.
+ */
+
+export function assertStateBoundedInteger(state: unknown, key: string, maxInclusive: number): void {
+  assertStateIntegers(state, [key], 0, maxInclusive, `an integer from 0 to ${maxInclusive}`)
+}
+
+export function assertStateInt32(state: unknown, keys: string[]): void {
+  assertStateIntegers(
+    state,
+    keys,
+    MIN_SAFE_INT32_INCLUSIVE,
+    MAX_SAFE_UINT32_INCLUSIVE,
+    'a 32-bit integer'
+  )
+}
+
+export function assertStateInt32Array(state: unknown, key: string, length: number): void {
+  assertStateIntegerArray(
+    state,
+    key,
+    length,
+    MIN_SAFE_INT32_INCLUSIVE,
+    MAX_SAFE_UINT32_INCLUSIVE,
+    `an array of ${length} 32-bit integers`
+  )
+}
+
+export function assertStateNotAllZero(words: number[], description: string): void {
+  if (words.every(word => word === 0)) {
+    throw new Error(`${description} must not be all zeros.`)
+  }
+}
+
+export function assertStateObject(state: unknown): asserts state is Record<string, unknown> {
+  if (typeof state !== 'object' || state === null || Array.isArray(state)) {
+    throw new Error('State must be an object.')
+  }
+}
+
+export function assertStateSafeInteger(state: unknown, keys: string[]): void {
+  assertStateIntegers(state, keys, 0, Number.MAX_SAFE_INTEGER, 'a non-negative safe integer')
+}
+
+export function assertStateUint32(state: unknown, keys: string[]): void {
+  assertStateIntegers(
+    state,
+    keys,
+    MIN_SAFE_UINT32_INCLUSIVE,
+    MAX_SAFE_UINT32_INCLUSIVE,
+    'an unsigned 32-bit integer'
+  )
+}
+
+export function assertStateUint32Array(state: unknown, key: string, length: number): void {
+  assertStateIntegerArray(
+    state,
+    key,
+    length,
+    MIN_SAFE_UINT32_INCLUSIVE,
+    MAX_SAFE_UINT32_INCLUSIVE,
+    `an array of ${length} unsigned 32-bit integers`
+  )
+}
+
+function assertStateIntegerArray(
+  state: unknown,
+  key: string,
+  length: number,
+  minInclusive: number,
+  maxInclusive: number,
+  description: string
+): void {
+  assertStateObject(state)
+
+  const value = state[key]
+
+  if (
+    !Array.isArray(value) ||
+    value.length !== length ||
+    !value.every(item => isIntegerInRange(item, minInclusive, maxInclusive))
+  ) {
+    throw new Error(`State "${key}" must be ${description}.`)
+  }
+}
+
+function assertStateIntegers(
+  state: unknown,
+  keys: string[],
+  minInclusive: number,
+  maxInclusive: number,
+  description: string
+): void {
+  assertStateObject(state)
+
+  for (const key of keys) {
+    if (!isIntegerInRange(state[key], minInclusive, maxInclusive)) {
+      throw new Error(`State "${key}" must be ${description}.`)
+    }
+  }
+}
+
+function isIntegerInRange(value: unknown, minInclusive: number, maxInclusive: number): boolean {
+  return (
+    Number.isInteger(value) &&
+    (value as number) >= minInclusive &&
+    (value as number) <= maxInclusive
+  )
+}
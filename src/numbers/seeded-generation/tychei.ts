@@ -9,9 +9,16 @@
  */
 
 import {bitwiseInt32ToFract32, bitwiseInt32ToUint32} from '../../shared'
-import {unbiasedRandomFract32, unbiasedRandomInt32, unbiasedRandomUint32} from '../unbiased-random'
+import {RangeOptions} from '../types'
+import {
+  resolveRangeOptions,
+  unbiasedRandomFract32,
+  unbiasedRandomInt32,
+  unbiasedRandomUint32
+} from '../unbiased-random'
 import {SeededNumberGenerator} from './seeded-generator'
-import {Seed} from './types'
+import {assertStateInt32, assertStateNotAllZero} from './state-validation'
+import {LegacySeed} from './types'
 
 export type TycheiState = {
   a: number
@@ -32,22 +39,64 @@ export type TycheiState = {
  * @extends {SeededNumberGenerator<TycheiState>}
  */
 export class TycheiNumberGenerator extends SeededNumberGenerator<TycheiState> {
-  nextFract32(minInclusive?: number, maxExclusive?: number): number {
-    return unbiasedRandomFract32(minInclusive, maxExclusive, () =>
-      bitwiseInt32ToFract32(this.internalNextInt32())
+  static readonly seedWordCount = 2
+
+  nextFract32(minOrOptions?: number | RangeOptions, maxExclusive?: number): number {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomFract32(
+      min,
+      max,
+      () => bitwiseInt32ToFract32(this.internalNextInt32()),
+      inclusive,
+      strategy ?? this.rangeStrategy
     )
   }
 
-  nextInt32(minInclusive?: number, maxExclusive?: number): number {
-    return unbiasedRandomInt32(minInclusive, maxExclusive, () => this.internalNextInt32())
+  nextInt32(minOrOptions?: number | RangeOptions, maxExclusive?: number): number {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomInt32(
+      min,
+      max,
+      () => this.internalNextInt32(),
+      inclusive,
+      strategy ?? this.rangeStrategy
+    )
   }
 
-  nextUint32(minInclusive?: number, maxExclusive?: number): number {
-    return unbiasedRandomUint32(minInclusive, maxExclusive, () =>
-      bitwiseInt32ToUint32(this.internalNextInt32())
+  nextUint32(minOrOptions?: number | RangeOptions, maxExclusive?: number): number {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomUint32(
+      min,
+      max,
+      () => bitwiseInt32ToUint32(this.internalNextInt32()),
+      inclusive,
+      strategy ?? this.rangeStrategy
     )
   }
 
+  protected internalFillUint32(array: Uint32Array): void {
+    let {a, b, c, d} = this.state
+
+    for (let i = 0; i < array.length; i++) {
+      b = (b << 25) ^ (b >>> 7) ^ c
+      c = (c - d) | 0
+      d = (d << 24) ^ (d >>> 8) ^ a
+      a = (a - b) | 0
+
+      b = (b << 20) ^ (b >>> 12) ^ c
+      c = (c - d) | 0
+      d = (d << 16) ^ (c >>> 16) ^ a
+      a = (a - b) | 0
+
+      array[i] = a >>> 0
+    }
+
+    this.state.a = a
+    this.state.b = b
+    this.state.c = c
+    this.state.d = d
+  }
+
   protected internalNextInt32(): number {
     let {a, b, c, d} = this.state
 
@@ -64,7 +113,11 @@ export class TycheiNumberGenerator extends SeededNumberGenerator<TycheiState> {
     return this.state.a
   }
 
-  protected buildStateFromSeed(seed: Seed): void {
+  protected internalNextUint32(): number {
+    return bitwiseInt32ToUint32(this.internalNextInt32())
+  }
+
+  protected buildStateFromSeed(seed: LegacySeed): void {
     this.state = {
       a: 0,
       b: 0,
@@ -91,7 +144,25 @@ export class TycheiNumberGenerator extends SeededNumberGenerator<TycheiState> {
     }
   }
 
+  protected buildStateFromSeedWords(nextSeedWord: () => number): void {
+    this.state = {
+      a: nextSeedWord() | 0,
+      b: nextSeedWord() | 0,
+      c: 2654435769 | 0,
+      d: 1367130551
+    }
+
+    for (let k = 0; k < 20; k++) {
+      this.internalNextUint32()
+    }
+  }
+
   protected cloneState(state: TycheiState): TycheiState {
     return {...state}
   }
+
+  protected validateState(state: TycheiState): void {
+    assertStateInt32(state, ['a', 'b', 'c', 'd'])
+    assertStateNotAllZero([state.a, state.b, state.c, state.d], 'State')
+  }
 }
@@ -1 +1,31 @@
-export type Seed = string | number
+import {RandomNumberGenerator} from '../types'
+
+export type LegacySeed = string | number
+
+export type Seed = LegacySeed | bigint | number[] | Uint8Array
+
+export type SeedHash = 'murmur3' | 'sha256'
+
+export type SeedMode = 'legacy' | SeedHash
+
+export interface RandomAccessNumberGenerator extends RandomNumberGenerator {
+  /**
+   * A method which moves the generator to the given position of its sequence
+   * of unsigned 32-bit integers, such that the next generated value is the
+   * value at that position.
+   *
+   * @param {bigint|number} index A non-negative integer position of the
+   * sequence.
+   */
+  seek(index: bigint | number): void
+
+  /**
+   * A method which returns the unsigned 32-bit integer at the given position
+   * of the sequence of this generator, without changing its state.
+   *
+   * @param {bigint|number} index A non-negative integer position of the
+   * sequence.
+   * @returns {number} The unsigned 32-bit integer at the given position.
+   */
+  valueAt(index: bigint | number): number
+}
@@ -9,9 +9,17 @@
  */
 
 import {bitwiseInt32ToFract32, bitwiseInt32ToUint32} from '../../shared'
-import {unbiasedRandomFract32, unbiasedRandomInt32, unbiasedRandomUint32} from '../unbiased-random'
+import {RangeOptions} from '../types'
+import {
+  resolveRangeOptions,
+  unbiasedRandomFract32,
+  unbiasedRandomInt32,
+  unbiasedRandomUint32
+} from '../unbiased-random'
+import {createLinearJump} from './linear-jump'
 import {SeededNumberGenerator} from './seeded-generator'
-import {Seed} from './types'
+import {assertStateInt32, assertStateNotAllZero} from './state-validation'
+import {LegacySeed} from './types'
 
 export type Xor128State = {
   w: number
@@ -20,6 +28,14 @@ export type Xor128State = {
   z: number
 }
 
+const PERIOD = (1n << 128n) - 1n
+
+const linearJump = createLinearJump(4, words => {
+  const [x, y, z, w] = words
+  const t = x ^ (x << 11)
+  words.set([y, z, w, w ^ (w >>> 19) ^ t ^ (t >>> 8)])
+})
+
 /**
  * A class with methods to generate pseudorandom numbers. This class implements
  * the "xor128" algorithm by George Marsaglia, which has a period of 2^128-1.
@@ -32,22 +48,71 @@ export type Xor128State = {
  * @extends {SeededNumberGenerator<Xor128State>}
  */
 export class Xor128NumberGenerator extends SeededNumberGenerator<Xor128State> {
-  nextFract32(minInclusive?: number, maxExclusive?: number): number {
-    return unbiasedRandomFract32(minInclusive, maxExclusive, () =>
-      bitwiseInt32ToFract32(this.internalNextInt32())
+  static readonly seedWordCount = 4
+
+  nextFract32(minOrOptions?: number | RangeOptions, maxExclusive?: number): number {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomFract32(
+      min,
+      max,
+      () => bitwiseInt32ToFract32(this.internalNextInt32()),
+      inclusive,
+      strategy ?? this.rangeStrategy
     )
   }
 
-  nextInt32(minInclusive?: number, maxExclusive?: number): number {
-    return unbiasedRandomInt32(minInclusive, maxExclusive, () => this.internalNextInt32())
+  nextInt32(minOrOptions?: number | RangeOptions, maxExclusive?: number): number {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomInt32(
+      min,
+      max,
+      () => this.internalNextInt32(),
+      inclusive,
+      strategy ?? this.rangeStrategy
+    )
   }
 
-  nextUint32(minInclusive?: number, maxExclusive?: number): number {
-    return unbiasedRandomUint32(minInclusive, maxExclusive, () =>
-      bitwiseInt32ToUint32(this.internalNextInt32())
+  nextUint32(minOrOptions?: number | RangeOptions, maxExclusive?: number): number {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomUint32(
+      min,
+      max,
+      () => bitwiseInt32ToUint32(this.internalNextInt32()),
+      inclusive,
+      strategy ?? this.rangeStrategy
     )
   }
 
+  protected internalAdvance(steps: bigint): void {
+    const words = Uint32Array.of(this.state.x, this.state.y, this.state.z, this.state.w)
+    linearJump(words, steps % PERIOD)
+
+    this.state.x = words[0] | 0
+    this.state.y = words[1] | 0
+    this.state.z = words[2] | 0
+    this.state.w = words[3] | 0
+  }
+
+  protected internalFillUint32(array: Uint32Array): void {
+    let {w, x, y, z} = this.state
+
+    for (let i = 0; i < array.length; i++) {
+      const t = x ^ (x << 11)
+
+      x = y
+      y = z
+      z = w
+      w ^= (w >>> 19) ^ t ^ (t >>> 8)
+
+      array[i] = w >>> 0
+    }
+
+    this.state.w = w
+    this.state.x = x
+    this.state.y = y
+    this.state.z = z
+  }
+
   protected internalNextInt32(): number {
     const state = this.state
 
@@ -59,7 +124,11 @@ export class Xor128NumberGenerator extends SeededNumberGenerator<Xor128State> {
     return (state.w ^= (state.w >>> 19) ^ t ^ (t >>> 8))
   }
 
-  protected buildStateFromSeed(seed: Seed): void {
+  protected internalNextUint32(): number {
+    return bitwiseInt32ToUint32(this.internalNextInt32())
+  }
+
+  protected buildStateFromSeed(seed: LegacySeed): void {
     this.state = {
       w: 0,
       x: 0,
@@ -83,9 +152,26 @@ export class Xor128NumberGenerator extends SeededNumberGenerator<Xor128State> {
       this.state.x ^= strseed.charCodeAt(k) | 0
       this.nextFract32()
     }
+
+    // Seeds of `0` and `''` leave every word zero, which the state cannot hold.
+    assertStateNotAllZero([this.state.w, this.state.x, this.state.y, this.state.z], 'State')
+  }
+
+  protected buildStateFromSeedWords(nextSeedWord: () => number): void {
+    this.state = {
+      w: nextSeedWord() | 0,
+      x: nextSeedWord() | 0,
+      y: nextSeedWord() | 0,
+      z: nextSeedWord() | 0
+    }
   }
 
   protected cloneState(state: Xor128State): Xor128State {
     return {...state}
   }
+
+  protected validateState(state: Xor128State): void {
+    assertStateInt32(state, ['w', 'x', 'y', 'z'])
+    assertStateNotAllZero([state.w, state.x, state.y, state.z], 'State')
+  }
 }
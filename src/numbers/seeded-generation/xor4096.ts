@@ -24,9 +24,21 @@
  */
 
 import {bitwiseInt32ToFract32, bitwiseInt32ToUint32} from '../../shared'
-import {unbiasedRandomFract32, unbiasedRandomInt32, unbiasedRandomUint32} from '../unbiased-random'
+import {RangeOptions} from '../types'
+import {
+  resolveRangeOptions,
+  unbiasedRandomFract32,
+  unbiasedRandomInt32,
+  unbiasedRandomUint32
+} from '../unbiased-random'
 import {SeededNumberGenerator} from './seeded-generator'
-import {Seed} from './types'
+import {
+  assertStateBoundedInteger,
+  assertStateInt32,
+  assertStateInt32Array,
+  assertStateNotAllZero
+} from './state-validation'
+import {LegacySeed} from './types'
 
 export type Xor4096State = {
   X: number[]
@@ -47,22 +59,69 @@ export type Xor4096State = {
  * @extends {SeededNumberGenerator<Xor4096State>}
  */
 export class Xor4096NumberGenerator extends SeededNumberGenerator<Xor4096State> {
-  nextFract32(minInclusive?: number, maxExclusive?: number): number {
-    return unbiasedRandomFract32(minInclusive, maxExclusive, () =>
-      bitwiseInt32ToFract32(this.internalNextInt32())
+  static readonly seedWordCount = 129
+
+  nextFract32(minOrOptions?: number | RangeOptions, maxExclusive?: number): number {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomFract32(
+      min,
+      max,
+      () => bitwiseInt32ToFract32(this.internalNextInt32()),
+      inclusive,
+      strategy ?? this.rangeStrategy
     )
   }
 
-  nextInt32(minInclusive?: number, maxExclusive?: number): number {
-    return unbiasedRandomInt32(minInclusive, maxExclusive, () => this.internalNextInt32())
+  nextInt32(minOrOptions?: number | RangeOptions, maxExclusive?: number): number {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomInt32(
+      min,
+      max,
+      () => this.internalNextInt32(),
+      inclusive,
+      strategy ?? this.rangeStrategy
+    )
   }
 
-  nextUint32(minInclusive?: number, maxExclusive?: number): number {
-    return unbiasedRandomUint32(minInclusive, maxExclusive, () =>
-      bitwiseInt32ToUint32(this.internalNextInt32())
+  nextUint32(minOrOptions?: number | RangeOptions, maxExclusive?: number): number {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomUint32(
+      min,
+      max,
+      () => bitwiseInt32ToUint32(this.internalNextInt32()),
+      inclusive,
+      strategy ?? this.rangeStrategy
     )
   }
 
+  protected internalFillUint32(array: Uint32Array): void {
+    const {X} = this.state
+    let {i, w} = this.state
+
+    for (let index = 0; index < array.length; index++) {
+      // Update Weyl generator.
+      w = (w + 0x61c88647) | 0
+
+      // Update xor generator.
+      let v = X[(i + 34) & 127]
+      let t = X[(i = (i + 1) & 127)]
+
+      v ^= v << 13
+      t ^= t << 17
+      v ^= v >>> 15
+      t ^= t >>> 12
+
+      // Update Xor generator array state.
+      v = X[i] = v ^ t
+
+      // Result is the combination.
+      array[index] = (v + (w ^ (w >>> 16))) >>> 0
+    }
+
+    this.state.i = i
+    this.state.w = w
+  }
+
   protected internalNextInt32(): number {
     const state = this.state
 
@@ -88,7 +147,11 @@ export class Xor4096NumberGenerator extends SeededNumberGenerator<Xor4096State>
     return (v + (w ^ (w >>> 16))) | 0
   }
 
-  protected buildStateFromSeed(seed: Seed): void {
+  protected internalNextUint32(): number {
+    return bitwiseInt32ToUint32(this.internalNextInt32())
+  }
+
+  protected buildStateFromSeed(seed: LegacySeed): void {
     this.state = {
       X: [],
       i: 0,
@@ -166,8 +229,23 @@ export class Xor4096NumberGenerator extends SeededNumberGenerator<Xor4096State>
     state.i = i
   }
 
+  protected buildStateFromSeedWords(nextSeedWord: () => number): void {
+    this.state = {
+      X: Array.from({length: 128}, () => nextSeedWord() | 0),
+      i: 127,
+      w: nextSeedWord() | 0
+    }
+  }
+
   protected cloneState(state: Xor4096State): Xor4096State {
     const {X, i, w} = state
     return {X: [...X], i, w}
   }
+
+  protected validateState(state: Xor4096State): void {
+    assertStateInt32Array(state, 'X', 128)
+    assertStateBoundedInteger(state, 'i', 127)
+    assertStateInt32(state, ['w'])
+    assertStateNotAllZero(state.X, 'State "X"')
+  }
 }
@@ -10,15 +10,49 @@
  */
 
 import {bitwiseInt32ToFract32, bitwiseInt32ToUint32} from '../../shared'
-import {unbiasedRandomFract32, unbiasedRandomInt32, unbiasedRandomUint32} from '../unbiased-random'
+import {RangeOptions} from '../types'
+import {
+  resolveRangeOptions,
+  unbiasedRandomFract32,
+  unbiasedRandomInt32,
+  unbiasedRandomUint32
+} from '../unbiased-random'
+import {createLinearJump} from './linear-jump'
 import {SeededNumberGenerator} from './seeded-generator'
-import {Seed} from './types'
+import {
+  assertStateBoundedInteger,
+  assertStateInt32Array,
+  assertStateNotAllZero
+} from './state-validation'
+import {LegacySeed} from './types'
 
 export type XorShift7State = {
   X: number[]
   i: number
 }
 
+const PERIOD = (1n << 256n) - 1n
+
+// The words are ordered from the current index of the circular state array.
+const linearJump = createLinearJump(8, words => {
+  let t = words[0]
+  t ^= t >>> 7
+  let v = t ^ (t << 24)
+
+  t = words[1]
+  v ^= t ^ (t >>> 10)
+  t = words[3]
+  v ^= t ^ (t >>> 3)
+  t = words[4]
+  v ^= t ^ (t << 7)
+  t = words[7]
+  t = t ^ (t << 13)
+  v ^= t ^ (t << 9)
+
+  words.copyWithin(0, 1)
+  words[7] = v
+})
+
 /**
  * A class with methods to generate pseudorandom numbers. This class implements
  * the "xorshift7" algorithm by François Panneton and Pierre L'ecuyer, which has
@@ -32,22 +66,84 @@ export type XorShift7State = {
  * @extends {SeededNumberGenerator<XorShift7State>}
  */
 export class XorShift7NumberGenerator extends SeededNumberGenerator<XorShift7State> {
-  nextFract32(minInclusive?: number, maxExclusive?: number): number {
-    return unbiasedRandomFract32(minInclusive, maxExclusive, () =>
-      bitwiseInt32ToFract32(this.internalNextInt32())
+  static readonly seedWordCount = 8
+
+  nextFract32(minOrOptions?: number | RangeOptions, maxExclusive?: number): number {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomFract32(
+      min,
+      max,
+      () => bitwiseInt32ToFract32(this.internalNextInt32()),
+      inclusive,
+      strategy ?? this.rangeStrategy
     )
   }
 
-  nextInt32(minInclusive?: number, maxExclusive?: number): number {
-    return unbiasedRandomInt32(minInclusive, maxExclusive, () => this.internalNextInt32())
+  nextInt32(minOrOptions?: number | RangeOptions, maxExclusive?: number): number {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomInt32(
+      min,
+      max,
+      () => this.internalNextInt32(),
+      inclusive,
+      strategy ?? this.rangeStrategy
+    )
   }
 
-  nextUint32(minInclusive?: number, maxExclusive?: number): number {
-    return unbiasedRandomUint32(minInclusive, maxExclusive, () =>
-      bitwiseInt32ToUint32(this.internalNextInt32())
+  nextUint32(minOrOptions?: number | RangeOptions, maxExclusive?: number): number {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomUint32(
+      min,
+      max,
+      () => bitwiseInt32ToUint32(this.internalNextInt32()),
+      inclusive,
+      strategy ?? this.rangeStrategy
     )
   }
 
+  protected internalAdvance(steps: bigint): void {
+    const {X, i} = this.state
+    const words = Uint32Array.from({length: 8}, (_, k) => X[(i + k) & 7])
+    linearJump(words, steps % PERIOD)
+
+    // The index moves by one for each step, within the circular state array.
+    const index = (i + Number(steps & 7n)) & 7
+
+    for (let k = 0; k < 8; k++) {
+      X[(index + k) & 7] = words[k] | 0
+    }
+
+    this.state.i = index
+  }
+
+  protected internalFillUint32(array: Uint32Array): void {
+    const {X} = this.state
+    let {i} = this.state
+
+    for (let index = 0; index < array.length; index++) {
+      let t = X[i]
+      t ^= t >>> 7
+      let v = t ^ (t << 24)
+
+      t = X[(i + 1) & 7]
+      v ^= t ^ (t >>> 10)
+      t = X[(i + 3) & 7]
+      v ^= t ^ (t >>> 3)
+      t = X[(i + 4) & 7]
+      v ^= t ^ (t << 7)
+      t = X[(i + 7) & 7]
+      t = t ^ (t << 13)
+      v ^= t ^ (t << 9)
+
+      X[i] = v
+      i = (i + 1) & 7
+
+      array[index] = v >>> 0
+    }
+
+    this.state.i = i
+  }
+
   protected internalNextInt32(): number {
     const state = this.state
 
@@ -74,7 +170,11 @@ export class XorShift7NumberGenerator extends SeededNumberGenerator<XorShift7Sta
     return v
   }
 
-  protected buildStateFromSeed(seed: Seed): void {
+  protected internalNextUint32(): number {
+    return bitwiseInt32ToUint32(this.internalNextInt32())
+  }
+
+  protected buildStateFromSeed(seed: LegacySeed): void {
     this.state = {
       X: [],
       i: 0
@@ -120,8 +220,21 @@ export class XorShift7NumberGenerator extends SeededNumberGenerator<XorShift7Sta
     }
   }
 
+  protected buildStateFromSeedWords(nextSeedWord: () => number): void {
+    this.state = {
+      X: Array.from({length: 8}, () => nextSeedWord() | 0),
+      i: 0
+    }
+  }
+
   protected cloneState(state: XorShift7State): XorShift7State {
     const {X, i} = state
     return {X: [...X], i}
   }
+
+  protected validateState(state: XorShift7State): void {
+    assertStateInt32Array(state, 'X', 8)
+    assertStateBoundedInteger(state, 'i', 7)
+    assertStateNotAllZero(state.X, 'State "X"')
+  }
 }
@@ -9,9 +9,17 @@
  */
 
 import {bitwiseInt32ToFract32, bitwiseInt32ToUint32} from '../../shared'
-import {unbiasedRandomFract32, unbiasedRandomInt32, unbiasedRandomUint32} from '../unbiased-random'
+import {RangeOptions} from '../types'
+import {
+  resolveRangeOptions,
+  unbiasedRandomFract32,
+  unbiasedRandomInt32,
+  unbiasedRandomUint32
+} from '../unbiased-random'
+import {createLinearJump} from './linear-jump'
 import {SeededNumberGenerator} from './seeded-generator'
-import {Seed} from './types'
+import {assertStateInt32, assertStateNotAllZero} from './state-validation'
+import {LegacySeed} from './types'
 
 export type XorWowState = {
   d: number
@@ -22,6 +30,15 @@ export type XorWowState = {
   z: number
 }
 
+// The period of the xorshift words, apart from the Weyl sequence.
+const XORSHIFT_PERIOD = (1n << 160n) - 1n
+
+const linearJump = createLinearJump(5, words => {
+  const [x, y, z, w, v] = words
+  const t = x ^ (x >>> 2)
+  words.set([y, z, w, v, v ^ (v << 4) ^ (t ^ (t << 1))])
+})
+
 /**
  * A class with methods to generate pseudorandom numbers. This class implements
  * the "xorwow" algorithm by George Marsaglia, which has a period of 2^192-2^32.
@@ -34,22 +51,81 @@ export type XorWowState = {
  * @extends {SeededNumberGenerator<XorWowState>}
  */
 export class XorWowNumberGenerator extends SeededNumberGenerator<XorWowState> {
-  nextFract32(minInclusive?: number, maxExclusive?: number): number {
-    return unbiasedRandomFract32(minInclusive, maxExclusive, () =>
-      bitwiseInt32ToFract32(this.internalNextInt32())
+  static readonly seedWordCount = 6
+
+  nextFract32(minOrOptions?: number | RangeOptions, maxExclusive?: number): number {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomFract32(
+      min,
+      max,
+      () => bitwiseInt32ToFract32(this.internalNextInt32()),
+      inclusive,
+      strategy ?? this.rangeStrategy
     )
   }
 
-  nextInt32(minInclusive?: number, maxExclusive?: number): number {
-    return unbiasedRandomInt32(minInclusive, maxExclusive, () => this.internalNextInt32())
+  nextInt32(minOrOptions?: number | RangeOptions, maxExclusive?: number): number {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomInt32(
+      min,
+      max,
+      () => this.internalNextInt32(),
+      inclusive,
+      strategy ?? this.rangeStrategy
+    )
   }
 
-  nextUint32(minInclusive?: number, maxExclusive?: number): number {
-    return unbiasedRandomUint32(minInclusive, maxExclusive, () =>
-      bitwiseInt32ToUint32(this.internalNextInt32())
+  nextUint32(minOrOptions?: number | RangeOptions, maxExclusive?: number): number {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomUint32(
+      min,
+      max,
+      () => bitwiseInt32ToUint32(this.internalNextInt32()),
+      inclusive,
+      strategy ?? this.rangeStrategy
     )
   }
 
+  protected internalAdvance(steps: bigint): void {
+    const {x, y, z, w, v} = this.state
+    const words = Uint32Array.of(x, y, z, w, v)
+    linearJump(words, steps % XORSHIFT_PERIOD)
+
+    this.state.x = words[0] | 0
+    this.state.y = words[1] | 0
+    this.state.z = words[2] | 0
+    this.state.w = words[3] | 0
+    this.state.v = words[4] | 0
+
+    // The Weyl sequence adds the same constant for each value.
+    const increment = Math.imul(Number(BigInt.asUintN(32, steps)), 362437)
+    this.state.d = (this.state.d + increment) | 0
+  }
+
+  protected internalFillUint32(array: Uint32Array): void {
+    let {d, v, w, x, y, z} = this.state
+
+    for (let i = 0; i < array.length; i++) {
+      const t = x ^ (x >>> 2)
+
+      x = y
+      y = z
+      z = w
+      w = v
+      d = (d + 362437) | 0
+      v = v ^ (v << 4) ^ (t ^ (t << 1))
+
+      array[i] = (d + v) >>> 0
+    }
+
+    this.state.d = d
+    this.state.v = v
+    this.state.w = w
+    this.state.x = x
+    this.state.y = y
+    this.state.z = z
+  }
+
   protected internalNextInt32(): number {
     const state = this.state
 
@@ -66,7 +142,11 @@ export class XorWowNumberGenerator extends SeededNumberGenerator<XorWowState> {
     )
   }
 
-  protected buildStateFromSeed(seed: Seed): void {
+  protected internalNextUint32(): number {
+    return bitwiseInt32ToUint32(this.internalNextInt32())
+  }
+
+  protected buildStateFromSeed(seed: LegacySeed): void {
     this.state = {
       d: 0,
       v: 0,
@@ -97,9 +177,36 @@ export class XorWowNumberGenerator extends SeededNumberGenerator<XorWowState> {
       }
       this.nextFract32()
     }
+
+    // Seeds of `0` and `''` leave every word zero, which the state cannot hold.
+    assertStateNotAllZero(
+      [state.v, state.w, state.x, state.y, state.z],
+      'State "v", "w", "x", "y", and "z"'
+    )
+  }
+
+  protected buildStateFromSeedWords(nextSeedWord: () => number): void {
+    this.state = {
+      d: nextSeedWord() | 0,
+      v: nextSeedWord() | 0,
+      w: nextSeedWord() | 0,
+      x: nextSeedWord() | 0,
+      y: nextSeedWord() | 0,
+      z: nextSeedWord() | 0
+    }
   }
 
   protected cloneState(state: XorWowState): XorWowState {
     return {...state}
   }
+
+  protected validateState(state: XorWowState): void {
+    assertStateInt32(state, ['d', 'v', 'w', 'x', 'y', 'z'])
+
+    // Only the xorshift words, and not the Weyl sequence, must be nonzero.
+    assertStateNotAllZero(
+      [state.v, state.w, state.x, state.y, state.z],
+      'State "v", "w", "x", "y", and "z"'
+    )
+  }
 }
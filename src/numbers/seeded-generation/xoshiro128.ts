@@ -0,0 +1,110 @@
+import {createLinearJump} from './linear-jump'
+import {assertStateNotAllZero, assertStateUint32} from './state-validation'
+
+/*
+ * Written in 2018 by David Blackman and Sebastiano Vigna (vigna@acm.org)
+ *
+ * To the extent possible under law, the author has dedicated all copyright
+ * and related and neighboring rights to this software to the public domain
+ * worldwide. This software is distributed without any warranty.
+ *
+ * See <http://creativecommons.org/publicdomain/zero/1.0/>.
+ *
+ * ---
+ *
+ * Original sources:
+ * https://prng.di.unimi.it/xoshiro128starstar.c
+ * https://prng.di.unimi.it/xoshiro128plus.c
+ *
+ * The xoshiro128 generators share their state transition and jump
+ * polynomials, and differ only in how a value is output from the state.
+ */
+
+type Xoshiro128State = {
+  s0: number
+  s1: number
+  s2: number
+  s3: number
+}
+
+// Polynomials equivalent to 2^64 and 2^96 calls of the state transition.
+const JUMP = [0x8764000b, 0xf542d2d3, 0x6fa035c3, 0x77f2db5b]
+const LONG_JUMP = [0xb523952e, 0x0b6f099f, 0xccf5a0ef, 0x1c580662]
+
+const PERIOD = (1n << 128n) - 1n
+
+const linearJump = createLinearJump(4, words => {
+  const [s0, s1, s2, s3] = words
+  const state = {s0, s1, s2, s3}
+  stepXoshiro128(state)
+  words.set([state.s0, state.s1, state.s2, state.s3])
+})
+
+export function advanceXoshiro128(state: Xoshiro128State, steps: bigint): void {
+  const words = Uint32Array.of(state.s0, state.s1, state.s2, state.s3)
+  linearJump(words, steps % PERIOD)
+
+  state.s0 = words[0]
+  state.s1 = words[1]
+  state.s2 = words[2]
+  state.s3 = words[3]
+}
+
+export function buildXoshiro128State(nextUint32: () => number): Xoshiro128State {
+  return {
+    s0: nextUint32(),
+    s1: nextUint32(),
+    s2: nextUint32(),
+    s3: nextUint32()
+  }
+}
+
+export function stepXoshiro128(state: Xoshiro128State): void {
+  const {s0, s1} = state
+  const s2 = state.s2 ^ s0
+  const s3 = state.s3 ^ s1
+
+  // Words are kept unsigned, so that the state is consistent when retrieved.
+  state.s0 = (s0 ^ s3) >>> 0
+  state.s1 = (s1 ^ s2) >>> 0
+  state.s2 = (s2 ^ (s1 << 9)) >>> 0
+  state.s3 = ((s3 << 11) | (s3 >>> 21)) >>> 0
+}
+
+export function jumpXoshiro128(state: Xoshiro128State): void {
+  applyJumpPolynomial(state, JUMP)
+}
+
+export function longJumpXoshiro128(state: Xoshiro128State): void {
+  applyJumpPolynomial(state, LONG_JUMP)
+}
+
+function applyJumpPolynomial(state: Xoshiro128State, polynomial: number[]): void {
+  let s0 = 0
+  let s1 = 0
+  let s2 = 0
+  let s3 = 0
+
+  for (const word of polynomial) {
+    for (let bit = 0; bit < 32; bit++) {
+      if (word & (1 << bit)) {
+        s0 ^= state.s0
+        s1 ^= state.s1
+        s2 ^= state.s2
+        s3 ^= state.s3
+      }
+
+      stepXoshiro128(state)
+    }
+  }
+
+  state.s0 = s0 >>> 0
+  state.s1 = s1 >>> 0
+  state.s2 = s2 >>> 0
+  state.s3 = s3 >>> 0
+}
+
+export function validateXoshiro128State(state: Xoshiro128State): void {
+  assertStateUint32(state, ['s0', 's1', 's2', 's3'])
+  assertStateNotAllZero([state.s0, state.s1, state.s2, state.s3], 'State')
+}
@@ -0,0 +1,726 @@
+import {expect} from 'chai'
+
+import {
+  MAX_SAFE_FLOAT64_EXCLUSIVE,
+  MAX_SAFE_FRACT32_EXCLUSIVE,
+  MAX_SAFE_INT32_INCLUSIVE,
+  MAX_SAFE_UINT32_INCLUSIVE,
+  MIN_SAFE_FLOAT64_INCLUSIVE,
+  MIN_SAFE_FRACT32_INCLUSIVE,
+  MIN_SAFE_INT32_INCLUSIVE,
+  MIN_SAFE_UINT32_INCLUSIVE,
+  bitwiseFractToFract32,
+  bitwiseUint32ToFract32,
+  bitwiseUint53ToFloat64
+} from '../../shared'
+import {iterateForMinAndMax} from '../../spec-support'
+import {Xoshiro128PlusNumberGenerator} from './xoshiro128Plus'
+
+describe('numbers > seeded generation > Xoshiro128PlusNumberGenerator', () => {
+  it('can be instantiated with a numerical seed', () => {
+    const gen = new Xoshiro128PlusNumberGenerator({seed: 123})
+    expect(gen.nextInt32()).to.equal(-886673883)
+  })
+
+  it('can be instantiated with a string seed', () => {
+    const gen = new Xoshiro128PlusNumberGenerator({seed: 'start'})
+    expect(gen.nextInt32()).to.equal(696136318)
+  })
+
+  it('can be instantiated with a function returning a numerical seed', () => {
+    const gen = new Xoshiro128PlusNumberGenerator({seedFn: () => 123})
+    expect(gen.nextInt32()).to.equal(-886673883)
+  })
+
+  it('can be instantiated with a function returning a string seed', () => {
+    const gen = new Xoshiro128PlusNumberGenerator({seedFn: () => 'start'})
+    expect(gen.nextInt32()).to.equal(696136318)
+  })
+
+  it('can be instantiated with a seed hashed using MurmurHash3', () => {
+    const gen1 = new Xoshiro128PlusNumberGenerator({seed: 'start', seedMode: 'murmur3'})
+    expect(gen1.nextUint32()).to.equal(4246692863)
+  })
+
+  it('can be instantiated with a seed hashed using SHA-256', () => {
+    const gen1 = new Xoshiro128PlusNumberGenerator({seed: 'start', seedMode: 'sha256'})
+    expect(gen1.nextUint32()).to.equal(2227742862)
+  })
+
+  it('derives unrelated states for seeds with the same legacy hash when hashing seeds', () => {
+    const gen1 = new Xoshiro128PlusNumberGenerator({seed: 'Aa', seedMode: 'murmur3'})
+    const gen2 = new Xoshiro128PlusNumberGenerator({seed: 'BB', seedMode: 'murmur3'})
+    expect(gen1.nextUint32()).to.not.equal(gen2.nextUint32())
+  })
+
+  it('derives the state from hashed words of a byte array seed', () => {
+    const gen1 = new Xoshiro128PlusNumberGenerator({seed: new Uint8Array([0x61, 0x62, 0x63])})
+    const gen2 = new Xoshiro128PlusNumberGenerator({seed: 'abc', seedMode: 'murmur3'})
+    expect(gen1.getState()).to.deep.equal(gen2.getState())
+  })
+
+  it('can be instantiated with a known state', () => {
+    const gen1 = new Xoshiro128PlusNumberGenerator({seed: 123})
+    const gen2 = new Xoshiro128PlusNumberGenerator({state: gen1.getState()})
+    expect(gen2.nextInt32()).to.equal(gen1.nextInt32())
+  })
+
+  it('rejects a state with a word which is out of range', () => {
+    const state = new Xoshiro128PlusNumberGenerator({seed: 1}).getState()
+    expect(() => new Xoshiro128PlusNumberGenerator({state: {...state, s0: -1}})).to.throw(
+      'State "s0" must be an unsigned 32-bit integer.'
+    )
+  })
+
+  it('rejects an all-zero state', () => {
+    expect(() => new Xoshiro128PlusNumberGenerator({state: {s0: 0, s1: 0, s2: 0, s3: 0}})).to.throw(
+      'State must not be all zeros.'
+    )
+  })
+
+  it('can be instantiated without deterministic seeding', () => {
+    const gen = new Xoshiro128PlusNumberGenerator()
+    expect(gen.nextInt32())
+      .to.be.lessThanOrEqual(MAX_SAFE_INT32_INCLUSIVE)
+      .and.greaterThanOrEqual(MIN_SAFE_INT32_INCLUSIVE)
+  })
+
+  it('reproduces the sequence of the reference implementation', () => {
+    // The output of `xoshiro128plus.c` with a state of {1, 2, 3, 4}.
+    const gen = new Xoshiro128PlusNumberGenerator({state: {s0: 1, s1: 2, s2: 3, s3: 4}})
+    const values = Array.from({length: 4}, () => gen.nextUint32())
+    expect(values).to.deep.equal([5, 12295, 25178119, 27286542])
+  })
+
+  it('seeds the state using SplitMix32', () => {
+    const gen = new Xoshiro128PlusNumberGenerator({seed: 1})
+    expect(gen.getState()).to.deep.equal({
+      s0: 0x5e2d1772,
+      s1: 0x14e498f0,
+      s2: 0xd20ea1fd,
+      s3: 0xb382f339
+    })
+  })
+
+  describe('#advance()', () => {
+    it('advances the generator as if generating the given number of values', () => {
+      const gen1 = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const gen2 = new Xoshiro128PlusNumberGenerator({seed: 1})
+      gen1.advance(100)
+      Array.from({length: 100}, () => gen2.nextUint32())
+      expect(gen1.nextUint32()).to.equal(gen2.nextUint32())
+    })
+
+    it('accepts a bigint number of steps', () => {
+      const gen1 = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const gen2 = new Xoshiro128PlusNumberGenerator({seed: 1})
+      gen1.advance(100n)
+      gen2.advance(100)
+      expect(gen1.nextUint32()).to.equal(gen2.nextUint32())
+    })
+
+    it('does not advance the generator for zero steps', () => {
+      const gen1 = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const gen2 = new Xoshiro128PlusNumberGenerator({seed: 1})
+      gen1.advance(0)
+      expect(gen1.nextUint32()).to.equal(gen2.nextUint32())
+    })
+
+    it('rejects a negative number of steps', () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 1})
+      expect(() => gen.advance(-1)).to.throw('Steps must be a non-negative safe integer or bigint.')
+    })
+
+    it('advances the generator as with #jump() for 2^64 steps', () => {
+      const gen1 = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const gen2 = new Xoshiro128PlusNumberGenerator({seed: 1})
+      gen1.advance(2n ** 64n)
+      gen2.jump()
+      expect(gen1.getState()).to.deep.equal(gen2.getState())
+    })
+  })
+
+  describe('#fillBytes()', () => {
+    it('fills the array with random bytes', () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const array = gen.fillBytes(new Uint8Array(6))
+      expect(Array.from(array)).to.deep.equal([17, 176, 10, 171, 44, 169])
+    })
+  })
+
+  describe('#fillFloat32()', () => {
+    it('fills the array with 24-bit decimal fractions', () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const array = gen.fillFloat32(new Float32Array(2))
+      expect(Array.from(array)).to.deep.equal([0.06909239292144775, 0.17446571588516235])
+    })
+
+    it('accepts range options with an inclusive maximum', () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const array = gen.fillFloat32(new Float32Array(100), {min: 0.25, max: 0.5, inclusive: true})
+      expect(Math.min(...array)).to.be.greaterThanOrEqual(0.25)
+      expect(Math.max(...array)).to.be.lessThanOrEqual(0.5)
+    })
+  })
+
+  describe('#fillFloat64()', () => {
+    it('fills the array with values as from repeated calls to #nextFloat64()', () => {
+      const gen1 = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const gen2 = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const array = gen1.fillFloat64(new Float64Array(10), 0.25, 0.75)
+      const expected = Array.from({length: 10}, () => gen2.nextFloat64(0.25, 0.75))
+      expect(Array.from(array)).to.deep.equal(expected)
+    })
+
+    it('fills the array without a range as from repeated calls to #nextFloat64()', () => {
+      const gen1 = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const gen2 = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const array = gen1.fillFloat64(new Float64Array(10))
+      const expected = Array.from({length: 10}, () => gen2.nextFloat64())
+      expect(Array.from(array)).to.deep.equal(expected)
+    })
+  })
+
+  describe('#fillInt32()', () => {
+    it('fills the array with values as from repeated calls to #nextInt32()', () => {
+      const gen1 = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const gen2 = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const array = gen1.fillInt32(new Int32Array(10), -100, 100)
+      const expected = Array.from({length: 10}, () => gen2.nextInt32(-100, 100))
+      expect(Array.from(array)).to.deep.equal(expected)
+    })
+
+    it('fills the array without a range as from repeated calls to #nextInt32()', () => {
+      const gen1 = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const gen2 = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const array = gen1.fillInt32(new Int32Array(10))
+      const expected = Array.from({length: 10}, () => gen2.nextInt32())
+      expect(Array.from(array)).to.deep.equal(expected)
+    })
+  })
+
+  describe('#fillUint32()', () => {
+    it('fills the array with values as from repeated calls to #nextUint32()', () => {
+      const gen1 = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const gen2 = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const array = gen1.fillUint32(new Uint32Array(10))
+      const expected = Array.from({length: 10}, () => gen2.nextUint32())
+      expect(Array.from(array)).to.deep.equal(expected)
+    })
+
+    it('accepts range options with an inclusive maximum', () => {
+      const gen1 = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const gen2 = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const array = gen1.fillUint32(new Uint32Array(10), {min: 1, max: 6, inclusive: true})
+      const expected = Array.from({length: 10}, () =>
+        gen2.nextUint32({min: 1, max: 6, inclusive: true})
+      )
+      expect(Array.from(array)).to.deep.equal(expected)
+    })
+
+    it('leaves the generator in the same state as repeated calls to #nextUint32()', () => {
+      const gen1 = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const gen2 = new Xoshiro128PlusNumberGenerator({seed: 1})
+      gen1.fillUint32(new Uint32Array(10))
+      Array.from({length: 10}, () => gen2.nextUint32())
+      expect(gen1.getState()).to.deep.equal(gen2.getState())
+    })
+  })
+
+  describe('#fork()', () => {
+    it('returns a generator of the same class', () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 1})
+      expect(gen.fork('child')).to.be.an.instanceOf(Xoshiro128PlusNumberGenerator)
+    })
+
+    it('does not advance the generator', () => {
+      const gen1 = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const gen2 = new Xoshiro128PlusNumberGenerator({seed: 1})
+      gen1.fork('child')
+      expect(gen1.nextUint32()).to.equal(gen2.nextUint32())
+    })
+
+    it('derives the same generator for the same state and label', () => {
+      const child1 = new Xoshiro128PlusNumberGenerator({seed: 1}).fork('child')
+      const child2 = new Xoshiro128PlusNumberGenerator({seed: 1}).fork('child')
+      expect(child1.getState()).to.deep.equal(child2.getState())
+    })
+
+    it('derives different generators for different labels', () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const child1 = gen.fork('first')
+      const child2 = gen.fork('second')
+      const values1 = Array.from({length: 4}, () => child1.nextUint32())
+      const values2 = Array.from({length: 4}, () => child2.nextUint32())
+      expect(values1).to.not.deep.equal(values2)
+    })
+
+    it('derives a generator from an empty label by default', () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 1})
+      expect(gen.fork().getState()).to.deep.equal(gen.fork('').getState())
+    })
+
+    it('retains the range strategy of the generator', () => {
+      const child = new Xoshiro128PlusNumberGenerator({rangeStrategy: 'lemire', seed: 1}).fork(
+        'child'
+      )
+      const copy = new Xoshiro128PlusNumberGenerator({
+        rangeStrategy: 'lemire',
+        state: child.getState()
+      })
+      const values1 = Array.from({length: 4}, () => child.nextUint32(0, 1000003))
+      const values2 = Array.from({length: 4}, () => copy.nextUint32(0, 1000003))
+      expect(values1).to.deep.equal(values2)
+    })
+  })
+
+  describe('#getState()', () => {
+    it('returns the current state of the generator', () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 1})
+      expect(gen.getState()).to.have.keys('s0', 's1', 's2', 's3')
+    })
+
+    it('returns a unique instance of the state', () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 1})
+      expect(gen.getState()).to.not.equal(gen.getState())
+    })
+  })
+
+  describe('#jump()', () => {
+    it('advances the generator by 2^64 values', () => {
+      const gen1 = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const gen2 = new Xoshiro128PlusNumberGenerator({seed: 1})
+      gen1.jump()
+      expect(gen1.nextUint32()).to.not.equal(gen2.nextUint32())
+    })
+
+    it('advances to the sequence of the reference implementation', () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 1})
+      gen.jump()
+      expect([gen.nextUint32(), gen.nextUint32()]).to.deep.equal([0x3066ccb8, 0xb639a9a8])
+    })
+
+    it('produces a sequence which is unrelated to the original sequence', () => {
+      const gen1 = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const gen2 = new Xoshiro128PlusNumberGenerator({state: gen1.getState()})
+      gen2.jump()
+      const values1 = Array.from({length: 100}, () => gen1.nextUint32())
+      const values2 = Array.from({length: 100}, () => gen2.nextUint32())
+      expect(values2.filter(value => values1.includes(value))).to.have.length(0)
+    })
+
+    it('is deterministic for the same state', () => {
+      const gen1 = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const gen2 = new Xoshiro128PlusNumberGenerator({seed: 1})
+      gen1.jump()
+      gen2.jump()
+      expect(gen1.getState()).to.deep.equal(gen2.getState())
+    })
+  })
+
+  describe('#longJump()', () => {
+    it('advances the generator by 2^96 values', () => {
+      const gen1 = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const gen2 = new Xoshiro128PlusNumberGenerator({seed: 1})
+      gen1.longJump()
+      expect(gen1.nextUint32()).to.not.equal(gen2.nextUint32())
+    })
+
+    it('advances to the sequence of the reference implementation', () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 1})
+      gen.longJump()
+      expect([gen.nextUint32(), gen.nextUint32()]).to.deep.equal([0x2465afc3, 0xd3ebe55e])
+    })
+
+    it('produces a sequence which is unrelated to the original sequence', () => {
+      const gen1 = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const gen2 = new Xoshiro128PlusNumberGenerator({state: gen1.getState()})
+      gen2.longJump()
+      const values1 = Array.from({length: 100}, () => gen1.nextUint32())
+      const values2 = Array.from({length: 100}, () => gen2.nextUint32())
+      expect(values2.filter(value => values1.includes(value))).to.have.length(0)
+    })
+
+    it('is deterministic for the same state', () => {
+      const gen1 = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const gen2 = new Xoshiro128PlusNumberGenerator({seed: 1})
+      gen1.longJump()
+      gen2.longJump()
+      expect(gen1.getState()).to.deep.equal(gen2.getState())
+    })
+  })
+
+  describe('#nextBigInt()', () => {
+    it('returns an integer within the given range', () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 1})
+      expect(gen.nextBigInt(-(10n ** 30n), 10n ** 30n)).to.equal(-114667609711719957602884452764n)
+    })
+
+    it('rejects any maximum not greater than the given minimum', () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 1})
+      expect(() => gen.nextBigInt(10n ** 30n, 10n ** 30n)).to.throw()
+    })
+  })
+
+  describe('#nextBoolean()', () => {
+    function countTrue(next: () => boolean): number {
+      let count = 0
+      for (let i = 0; i < 1000; i++) {
+        count += next() ? 1 : 0
+      }
+      return count
+    }
+
+    it('returns true with a probability of 0.5 by default', () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 1})
+      expect(countTrue(() => gen.nextBoolean())).to.be.within(450, 550)
+    })
+
+    it('returns true with the given probability', () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 1})
+      expect(countTrue(() => gen.nextBoolean(0.1))).to.be.within(70, 130)
+    })
+
+    it('returns true with the given rational probability', () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 1})
+      expect(countTrue(() => gen.nextBoolean(2, 3))).to.be.within(617, 717)
+    })
+
+    it('does not advance the state for a probability of 0 or 1', () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const state = gen.getState()
+      expect([gen.nextBoolean(0), gen.nextBoolean(1), gen.nextBoolean(3, 3)]).to.deep.equal([
+        false,
+        true,
+        true
+      ])
+      expect(gen.getState()).to.deep.equal(state)
+    })
+  })
+
+  describe('#nextBytes()', () => {
+    it('returns a new array of random bytes', () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 1})
+      expect(Array.from(gen.nextBytes(6))).to.deep.equal([17, 176, 10, 171, 44, 169])
+    })
+
+    it('returns the same bytes as filling an array of the same length', () => {
+      const gen1 = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const gen2 = new Xoshiro128PlusNumberGenerator({seed: 1})
+      expect(gen1.nextBytes(10)).to.deep.equal(gen2.fillBytes(new Uint8Array(10)))
+      expect(gen1.getState()).to.deep.equal(gen2.getState())
+    })
+
+    it('returns an empty array when the length is 0', () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 1})
+      expect(gen.nextBytes(0)).to.have.length(0)
+    })
+  })
+
+  describe('#nextFloat()', () => {
+    it('returns a number within the given range', () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 1})
+      expect(gen.nextFloat(-5.5, 12.25)).to.equal(-4.273609341332561)
+    })
+
+    it('rejects any maximum not greater than the given minimum', () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 1})
+      expect(() => gen.nextFloat(12.25, 12.25)).to.throw()
+    })
+  })
+
+  describe('#nextFloatInclusive()', () => {
+    it('returns a number within the given range', () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 1})
+      expect(gen.nextFloatInclusive(1, 6)).to.equal(1.3454621573711099)
+    })
+
+    it('accepts a maximum equal to the given minimum', () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 1})
+      expect(gen.nextFloatInclusive(12.25, 12.25)).to.equal(12.25)
+    })
+  })
+
+  describe('#nextFloat64()', () => {
+    it('returns a 53-bit decimal fraction', () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 1})
+      expect(gen.nextFloat64()).to.equal(bitwiseUint53ToFloat64(622329297282855))
+    })
+
+    it(`returns a value between ${MIN_SAFE_FLOAT64_INCLUSIVE} (inclusive) and ${MAX_SAFE_FLOAT64_EXCLUSIVE} (exclusive)`, () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextFloat64(), 100)
+      expect(min).to.equal(bitwiseUint53ToFloat64(265651070299133))
+      expect(max).to.equal(bitwiseUint53ToFloat64(8914416893567157))
+    })
+
+    it('accepts an optional range', () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextFloat64(0.375, 0.625), 100)
+      expect(min).to.equal(bitwiseUint53ToFloat64(3393206809437591))
+      expect(max).to.equal(bitwiseUint53ToFloat64(5629004279323693))
+    })
+  })
+
+  describe('#nextFract32()', () => {
+    it('returns a 32-bit decimal fraction', () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const value = gen.nextFract32()
+      // Transforming the value through 32-bit integer representation maintains fidelity
+      expect(bitwiseFractToFract32(value)).to.equal(value)
+    })
+
+    it(`returns a value between ${MIN_SAFE_FRACT32_INCLUSIVE} (inclusive) and ${MAX_SAFE_FRACT32_EXCLUSIVE} (exclusive)`, () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextFract32(), 100)
+      expect(min).to.equal(bitwiseUint32ToFract32(3356731))
+      expect(max).to.equal(bitwiseUint32ToFract32(4157161892))
+    })
+
+    it('accepts an optional range', () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextFract32(0.375, 0.625), 100)
+      expect(min).to.equal(bitwiseUint32ToFract32(1613969467))
+      expect(max).to.equal(bitwiseUint32ToFract32(2676537900))
+    })
+
+    it('accepts an optional minimum', () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextFract32(0.375, undefined), 100)
+      expect(min).to.equal(bitwiseUint32ToFract32(1613969467))
+      expect(max).to.equal(bitwiseUint32ToFract32(4279243589))
+    })
+
+    it('accepts an optional maximum', () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextFract32(undefined, 0.625), 100)
+      expect(min).to.equal(bitwiseUint32ToFract32(3356731))
+      expect(max).to.equal(bitwiseUint32ToFract32(2668630853))
+    })
+
+    it('returns a value without bias using the bitmask strategy', () => {
+      /*
+       * minimum: 0.3750 = 0b01100000000000000000000000000000 (as uint32: 1610612736)
+       * maximum: 0.6875 = 0b10100000000000000000000000000000 (as uint32: 2952790016)
+       * range:   0.3125 = 0b01010000000000000000000000000000 (as uint32: 1342177280)
+       * mask:             0b01111111111111111111111111111111
+       *
+       * masked value 1:   0b01110111001111101101110011010011
+       * masked value 2:   0b00111001101000010001000011001100
+       *
+       * 1st generated value: 2000608467, masked to 2000608467, exceeds the range.
+       * 2nd generated value: 966856908, masked to 966856908, is within range.
+       *
+       * Result: minimum (1610612736) + 966856908 = 2577469644
+       */
+
+      const gen = new Xoshiro128PlusNumberGenerator({rangeStrategy: 'bitmask', seed: 8})
+      const expectedResult = bitwiseUint32ToFract32(2577469644) // 0.6001139162108302
+      expect(gen.nextFract32(0.375, 0.6875)).to.equal(expectedResult)
+    })
+  })
+
+  describe('#nextInt32()', () => {
+    it('returns a signed 32-bit integer', () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 2})
+      expect(gen.nextInt32()).to.equal(-1963347667)
+    })
+
+    it(`returns a value inclusively between ${MIN_SAFE_INT32_INCLUSIVE} and ${MAX_SAFE_INT32_INCLUSIVE}`, () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextInt32(), 100)
+      expect(min).to.equal(-2120347387)
+      expect(max).to.equal(2089273043)
+    })
+
+    it('accepts an optional range', () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextInt32(8192, 32768), 100)
+      expect(min).to.equal(8323)
+      expect(max).to.equal(32397)
+    })
+
+    it('accepts an optional minimum', () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextInt32(8192, undefined), 100)
+      expect(min).to.equal(3364923)
+      expect(max).to.equal(2089281235)
+    })
+
+    it('accepts an optional maximum', () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextInt32(undefined, 32768), 100)
+      expect(min).to.equal(-2138769139)
+      expect(max).to.equal(-44242070)
+    })
+
+    it('accepts range options with an inclusive maximum', () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(
+        () => gen.nextInt32({min: -3, max: 3, inclusive: true}),
+        100
+      )
+      expect(min).to.equal(-3)
+      expect(max).to.equal(3)
+    })
+
+    it('returns a value without bias using the bitmask strategy', () => {
+      /*
+       * minimum:  8192 = 0b0010000000000000
+       * maximum: 32768 = 0b1000000000000000
+       * range:   24576 = 0b0110000000000000
+       * mask:            0b0111111111111111
+       *
+       * masked value 1:  0b0111011100010110
+       * masked value 2:  0b0000101001100001
+       *
+       * 1st generated value: 691205910, masked to 30486, exceeds the range.
+       * 2nd generated value: 2188479073, masked to 2657, is within range.
+       *
+       * Result: minimum (8192) + 2657 = 10849
+       */
+
+      const gen = new Xoshiro128PlusNumberGenerator({rangeStrategy: 'bitmask', seed: 9})
+      expect(gen.nextInt32(8192, 32768)).to.equal(10849)
+    })
+  })
+
+  describe('#nextInt64()', () => {
+    it('returns a signed 64-bit integer', () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 1})
+      expect(gen.nextInt64()).to.equal(1274530424850860534n)
+    })
+
+    it('accepts an optional range', () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const value = gen.nextInt64(-(2n ** 40n), 2n ** 40n)
+      expect(value >= -(2n ** 40n) && value < 2n ** 40n).to.equal(true)
+    })
+  })
+
+  describe('#nextSafeInteger()', () => {
+    it('returns a safe integer', () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 1})
+      expect(gen.nextSafeInteger()).to.equal(4515329932380663)
+    })
+
+    it('accepts an optional range exceeding 32 bits', () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 1})
+      expect(gen.nextSafeInteger(0, 10_000_000_000)).to.equal(1981265357)
+    })
+  })
+
+  describe('#nextUint32()', () => {
+    it('returns an unsigned 32-bit integer', () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 2})
+      expect(gen.nextUint32()).to.equal(2331619629)
+    })
+
+    it(`returns a value inclusively between ${MIN_SAFE_UINT32_INCLUSIVE} and ${MAX_SAFE_UINT32_INCLUSIVE}`, () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextUint32(), 100)
+      expect(min).to.equal(3356731)
+      expect(max).to.equal(4157161892)
+    })
+
+    it('accepts an optional range', () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextUint32(8192, 32768), 100)
+      expect(min).to.equal(8323)
+      expect(max).to.equal(32397)
+    })
+
+    it('accepts an optional minimum', () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextUint32(8192, undefined), 100)
+      expect(min).to.equal(3364923)
+      expect(max).to.equal(4157170084)
+    })
+
+    it('accepts an optional maximum', () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(() => gen.nextUint32(undefined, 32768), 100)
+      expect(min).to.equal(727)
+      expect(max).to.equal(32741)
+    })
+
+    it('accepts range options with an inclusive maximum', () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const {min, max} = iterateForMinAndMax(
+        () => gen.nextUint32({min: 1, max: 6, inclusive: true}),
+        100
+      )
+      expect(min).to.equal(1)
+      expect(max).to.equal(6)
+    })
+
+    it('returns a value without bias using the bitmask strategy', () => {
+      /*
+       * minimum:  8192 = 0b0010000000000000
+       * maximum: 32768 = 0b1000000000000000
+       * range:   24576 = 0b0110000000000000
+       * mask:            0b0111111111111111
+       *
+       * masked value 1:  0b0111011100010110
+       * masked value 2:  0b0000101001100001
+       *
+       * 1st generated value: 2838689558, masked to 30486, exceeds the range.
+       * 2nd generated value: 40995425, masked to 2657, is within range.
+       *
+       * Result: minimum (8192) + 2657 = 10849
+       */
+
+      const gen = new Xoshiro128PlusNumberGenerator({rangeStrategy: 'bitmask', seed: 9})
+      expect(gen.nextUint32(8192, 32768)).to.equal(10849)
+    })
+
+    it('accepts a range strategy for each call', () => {
+      const gen1 = new Xoshiro128PlusNumberGenerator({rangeStrategy: 'lemire', seed: 1})
+      const gen2 = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const options = {min: 8192, max: 32768, strategy: 'lemire'} as const
+      expect(gen2.nextUint32(options)).to.equal(gen1.nextUint32(8192, 32768))
+    })
+  })
+
+  describe('#nextUint64()', () => {
+    it('returns an unsigned 64-bit integer', () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 1})
+      expect(gen.nextUint64()).to.equal(1274530424850860534n)
+    })
+
+    it('accepts an optional range', () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 1})
+      expect(gen.nextUint64(10n ** 12n, 10n ** 13n)).to.equal(6892130930276n)
+    })
+  })
+
+  describe('#split()', () => {
+    it('returns a generator of the same class', () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 1})
+      expect(gen.split()).to.be.an.instanceOf(Xoshiro128PlusNumberGenerator)
+    })
+
+    it('advances the generator by two values', () => {
+      const gen1 = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const gen2 = new Xoshiro128PlusNumberGenerator({seed: 1})
+      gen1.split()
+      gen2.advance(2)
+      expect(gen1.nextUint32()).to.equal(gen2.nextUint32())
+    })
+
+    it('derives a different generator with each call', () => {
+      const gen = new Xoshiro128PlusNumberGenerator({seed: 1})
+      const child1 = gen.split()
+      const child2 = gen.split()
+      const values1 = Array.from({length: 4}, () => child1.nextUint32())
+      const values2 = Array.from({length: 4}, () => child2.nextUint32())
+      expect(values1).to.not.deep.equal(values2)
+    })
+
+    it('derives the same generator for the same state', () => {
+      const child1 = new Xoshiro128PlusNumberGenerator({seed: 1}).split()
+      const child2 = new Xoshiro128PlusNumberGenerator({seed: 1}).split()
+      expect(child1.getState()).to.deep.equal(child2.getState())
+    })
+  })
+})
@@ -0,0 +1,166 @@
+import {bitwiseUint32ToFract32, bitwiseUint32ToInt32} from '../../shared'
+import {RangeOptions} from '../types'
+import {
+  resolveRangeOptions,
+  unbiasedRandomFract32,
+  unbiasedRandomInt32,
+  unbiasedRandomUint32
+} from '../unbiased-random'
+import {SeededNumberGenerator} from './seeded-generator'
+import {seedToUint32, splitMix32} from './seeding'
+import {LegacySeed} from './types'
+import {
+  advanceXoshiro128,
+  buildXoshiro128State,
+  jumpXoshiro128,
+  longJumpXoshiro128,
+  stepXoshiro128,
+  validateXoshiro128State
+} from './xoshiro128'
+
+/*
+ * Written in 2018 by David Blackman and Sebastiano Vigna (vigna@acm.org)
+ *
+ * To the extent possible under law, the author has dedicated all copyright
+ * and related and neighboring rights to this software to the public domain
+ * worldwide. This software is distributed without any warranty.
+ *
+ * See <http://creativecommons.org/publicdomain/zero/1.0/>.
+ *
+ * ---
+ *
+ * Original source:
+ * https://prng.di.unimi.it/xoshiro128plus.c
+ */
+
+export type Xoshiro128PlusState = {
+  s0: number
+  s1: number
+  s2: number
+  s3: number
+}
+
+/**
+ * A class with methods to generate pseudorandom numbers. This class implements
+ * the xoshiro128+ algorithm by David Blackman and Sebastiano Vigna, which has a
+ * period of 2^128-1. This is faster than xoshiro128**, though its lowest bits
+ * have low linear complexity. It is best suited to generating decimal
+ * fractions, which use only the most-significant bits.
+ *
+ * The state is seeded from the unsigned 32-bit integer of the seed, using
+ * SplitMix32, as recommended by the reference implementation.
+ *
+ * When constrained with optional minimums and/or maximums, numbers are
+ * generated without additional bias.
+ *
+ * @export
+ * @class Xoshiro128PlusNumberGenerator
+ * @extends {SeededNumberGenerator<Xoshiro128PlusState>}
+ */
+export class Xoshiro128PlusNumberGenerator extends SeededNumberGenerator<Xoshiro128PlusState> {
+  static readonly seedWordCount = 4
+
+  /**
+   * A method which advances the generator by 2^64 values, as if that many
+   * values had been generated. This can be used to create up to 2^64
+   * non-overlapping sequences for parallel computations, by jumping the state
+   * of one generator between instantiations of others.
+   */
+  jump(): void {
+    jumpXoshiro128(this.state)
+  }
+
+  /**
+   * A method which advances the generator by 2^96 values, as if that many
+   * values had been generated. This can be used to create up to 2^32 starting
+   * points, from each of which `jump()` creates further non-overlapping
+   * sequences.
+   */
+  longJump(): void {
+    longJumpXoshiro128(this.state)
+  }
+
+  nextFract32(minOrOptions?: number | RangeOptions, maxExclusive?: number): number {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomFract32(
+      min,
+      max,
+      () => bitwiseUint32ToFract32(this.internalNextUint32()),
+      inclusive,
+      strategy ?? this.rangeStrategy
+    )
+  }
+
+  nextInt32(minOrOptions?: number | RangeOptions, maxExclusive?: number): number {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomInt32(
+      min,
+      max,
+      () => bitwiseUint32ToInt32(this.internalNextUint32()),
+      inclusive,
+      strategy ?? this.rangeStrategy
+    )
+  }
+
+  nextUint32(minOrOptions?: number | RangeOptions, maxExclusive?: number): number {
+    const {min, max, inclusive, strategy} = resolveRangeOptions(minOrOptions, maxExclusive)
+    return unbiasedRandomUint32(
+      min,
+      max,
+      () => this.internalNextUint32(),
+      inclusive,
+      strategy ?? this.rangeStrategy
+    )
+  }
+
+  protected internalAdvance(steps: bigint): void {
+    advanceXoshiro128(this.state, steps)
+  }
+
+  protected internalFillUint32(array: Uint32Array): void {
+    let {s0, s1, s2, s3} = this.state
+
+    for (let i = 0; i < array.length; i++) {
+      array[i] = (s0 + s3) >>> 0
+
+      // The same steps as `stepXoshiro128`, with the words kept in variables.
+      const t = s1 << 9
+      s2 ^= s0
+      s3 ^= s1
+      s1 ^= s2
+      s0 ^= s3
+      s2 ^= t
+      s3 = (s3 << 11) | (s3 >>> 21)
+    }
+
+    // Words are kept unsigned, so that the state is consistent when retrieved.
+    this.state.s0 = s0 >>> 0
+    this.state.s1 = s1 >>> 0
+    this.state.s2 = s2 >>> 0
+    this.state.s3 = s3 >>> 0
+  }
+
+  protected internalNextUint32(): number {
+    const result = this.state.s0 + this.state.s3
+
+    stepXoshiro128(this.state)
+
+    return result >>> 0
+  }
+
+  protected buildStateFromSeed(seed: LegacySeed): void {
+    this.state = buildXoshiro128State(splitMix32(seedToUint32(seed)))
+  }
+
+  protected buildStateFromSeedWords(nextSeedWord: () => number): void {
+    this.state = buildXoshiro128State(nextSeedWord)
+  }
+
+  protected cloneState(state: Xoshiro128PlusState): Xoshiro128PlusState {
+    return {...state}
+  }
+
+  protected validateState(state: Xoshiro128PlusState): void {
+    validateXoshiro128State(state)
+  }
+}
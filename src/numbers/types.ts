@@ -1,6 +1,255 @@
 export type RandomUint32Fn = (minInclusive: number, maxExclusive: number) => number
 
+/**
+ * The method used to reduce a generated 32-bit value to a smaller range without
+ * bias.
+ *
+ * - `bitmask`: Masks away any bits above those needed for the range, then
+ *   discards values which still exceed it. This can discard nearly half of the
+ *   generated values when the range is just above a power of two.
+ * - `lemire`: Daniel Lemire's multiply-shift method, which discards far fewer
+ *   values for ranges which are small relative to 2^32.
+ *
+ * Each strategy produces a different sequence of values from the same source.
+ */
+export type RangeStrategy = 'bitmask' | 'lemire'
+
+/**
+ * Options for a range of randomly-generated values, as an alternative to
+ * positional arguments. The maximum is exclusive unless `inclusive` is `true`.
+ * For number ranges, `strategy` overrides the range strategy of the generator.
+ */
+export interface RangeOptions<T = number> {
+  min?: T
+  max?: T
+  inclusive?: boolean
+  strategy?: RangeStrategy
+}
+
 export interface RandomNumberGenerator {
+  /**
+   * A method which fills the given array with randomly-generated bytes. Each
+   * group of four bytes is taken from one 32-bit value generated internally,
+   * most-significant byte first.
+   *
+   * @param {Uint8Array} array The array to fill.
+   * @returns {Uint8Array} The given array.
+   */
+  fillBytes(array: Uint8Array): Uint8Array
+
+  /**
+   * A method which fills the given array with randomly-generated 24-bit
+   * decimal fractions, the full precision of a 32-bit float. Each number will
+   * be between an optional minimum (inclusive) and optional maximum
+   * (exclusive).
+   *
+   * @param {Float32Array} array The array to fill.
+   * @param {number} [minInclusive] An optional lower limit (inclusive) which
+   * each value will be at least. The lower limit will default to `0` and cannot
+   * be below this number.
+   * @param {number} [maxExclusive] An optional upper limit (exclusive) below
+   * which each value will be constrained. The upper limit will default to `1`
+   * and cannot exceed this number.
+   * @returns {Float32Array} The given array.
+   */
+  fillFloat32(array: Float32Array, minInclusive?: number, maxExclusive?: number): Float32Array
+
+  /**
+   * Equivalent to the positional form, with the range given as options. When
+   * `inclusive` is `true`, the maximum is inclusive and will default to
+   * `1 - 2 ** -24`.
+   *
+   * @param {Float32Array} array The array to fill.
+   * @param {RangeOptions} options The range of each value.
+   * @returns {Float32Array} The given array.
+   */
+  fillFloat32(array: Float32Array, options: RangeOptions): Float32Array
+
+  /**
+   * A method which fills the given array with values as returned from
+   * `nextFloat64`, given the same range. The array is filled with the same
+   * values as would be returned from repeated calls to that method.
+   *
+   * @param {Float64Array} array The array to fill.
+   * @param {number} [minInclusive] An optional lower limit (inclusive), as
+   * with `nextFloat64`.
+   * @param {number} [maxExclusive] An optional upper limit (exclusive), as
+   * with `nextFloat64`.
+   * @returns {Float64Array} The given array.
+   */
+  fillFloat64(array: Float64Array, minInclusive?: number, maxExclusive?: number): Float64Array
+
+  /**
+   * Equivalent to the positional form, with the range given as options.
+   *
+   * @param {Float64Array} array The array to fill.
+   * @param {RangeOptions} options The range of each value.
+   * @returns {Float64Array} The given array.
+   */
+  fillFloat64(array: Float64Array, options: RangeOptions): Float64Array
+
+  /**
+   * A method which fills the given array with values as returned from
+   * `nextInt32`, given the same range. The array is filled with the same
+   * values as would be returned from repeated calls to that method.
+   *
+   * @param {Int32Array} array The array to fill.
+   * @param {number} [minInclusive] An optional lower limit (inclusive), as
+   * with `nextInt32`.
+   * @param {number} [maxExclusive] An optional upper limit (exclusive), as
+   * with `nextInt32`.
+   * @returns {Int32Array} The given array.
+   */
+  fillInt32(array: Int32Array, minInclusive?: number, maxExclusive?: number): Int32Array
+
+  /**
+   * Equivalent to the positional form, with the range given as options.
+   *
+   * @param {Int32Array} array The array to fill.
+   * @param {RangeOptions} options The range of each value.
+   * @returns {Int32Array} The given array.
+   */
+  fillInt32(array: Int32Array, options: RangeOptions): Int32Array
+
+  /**
+   * A method which fills the given array with values as returned from
+   * `nextUint32`, given the same range. The array is filled with the same
+   * values as would be returned from repeated calls to that method.
+   *
+   * @param {Uint32Array} array The array to fill.
+   * @param {number} [minInclusive] An optional lower limit (inclusive), as
+   * with `nextUint32`.
+   * @param {number} [maxExclusive] An optional upper limit (exclusive), as
+   * with `nextUint32`.
+   * @returns {Uint32Array} The given array.
+   */
+  fillUint32(array: Uint32Array, minInclusive?: number, maxExclusive?: number): Uint32Array
+
+  /**
+   * Equivalent to the positional form, with the range given as options.
+   *
+   * @param {Uint32Array} array The array to fill.
+   * @param {RangeOptions} options The range of each value.
+   * @returns {Uint32Array} The given array.
+   */
+  fillUint32(array: Uint32Array, options: RangeOptions): Uint32Array
+
+  /**
+   * A method which returns a randomly-generated integer of any size. The number
+   * will be between the given minimum (inclusive) and maximum (exclusive).
+   * Each value is composed from as many 32-bit values generated internally as
+   * are needed to represent the range.
+   *
+   * @param {bigint} minInclusive A lower limit (inclusive) which the returned
+   * value will be at least.
+   * @param {bigint} maxExclusive An upper limit (exclusive) below which the
+   * returned number will be constrained.
+   * @returns {bigint} An integer.
+   */
+  nextBigInt(minInclusive: bigint, maxExclusive: bigint): bigint
+
+  /**
+   * A method which returns `true` with the given probability, and `false`
+   * otherwise. The result is exact for any given probability, rather than
+   * being limited to multiples of a fixed-size fraction. Random bits are
+   * consumed only as needed to decide the result, which typically requires a
+   * single 32-bit value generated internally. A probability of 0 or 1 does not
+   * consume any random bits.
+   *
+   * @param {number} [probability=0.5] The probability of returning `true`,
+   * between 0 and 1 (both inclusive).
+   * @returns {boolean} A boolean.
+   */
+  nextBoolean(probability?: number): boolean
+
+  /**
+   * A method which returns `true` with the probability given by the rational
+   * fraction of the numerator over the denominator, and `false` otherwise. The
+   * result is exact, even for probabilities like `1/3` which cannot be
+   * represented by a number.
+   *
+   * @param {number} numerator An integer between 0 and the given denominator
+   * (both inclusive).
+   * @param {number} denominator A positive safe integer.
+   * @returns {boolean} A boolean.
+   */
+  nextBoolean(numerator: number, denominator: number): boolean
+
+  /**
+   * A method which returns a new array of randomly-generated bytes. This is
+   * equivalent to calling `fillBytes` with a new array of the given length.
+   *
+   * @param {number} length The number of bytes to generate.
+   * @returns {Uint8Array} A new array of random bytes.
+   */
+  nextBytes(length: number): Uint8Array
+
+  /**
+   * A method which returns a randomly-generated number between the given
+   * minimum (inclusive) and maximum (exclusive). Any finite bounds are allowed,
+   * including negative numbers and ranges wider than `Number.MAX_VALUE`.
+   *
+   * The returned value is the minimum plus a 53-bit decimal fraction of the
+   * range, rounded to the nearest representable number. This rounding can
+   * leave some representable numbers unreachable and make others slightly
+   * more likely, particularly where the bounds differ greatly in magnitude. A
+   * value which rounds to the maximum is discarded and generated again, so the
+   * maximum is never returned.
+   *
+   * @param {number} minInclusive A finite lower limit (inclusive) which the
+   * returned value will be at least.
+   * @param {number} maxExclusive A finite upper limit (exclusive) below which
+   * the returned number will be constrained. This must be greater than the
+   * given minimum.
+   * @returns {number} A number.
+   */
+  nextFloat(minInclusive: number, maxExclusive: number): number
+
+  /**
+   * A method which returns a randomly-generated number between the given
+   * minimum (inclusive) and maximum (inclusive). Any finite bounds are allowed,
+   * including negative numbers and ranges wider than `Number.MAX_VALUE`.
+   *
+   * The returned value is the minimum plus a 53-bit fraction of the range,
+   * where the fraction includes both `0` and `1`, rounded to the nearest
+   * representable number. The same rounding caveats as with `nextFloat` apply.
+   * A value which rounds beyond the maximum is discarded and generated again.
+   *
+   * @param {number} minInclusive A finite lower limit (inclusive) which the
+   * returned value will be at least.
+   * @param {number} maxInclusive A finite upper limit (inclusive) which the
+   * returned value will be at most. This must be no less than the given
+   * minimum.
+   * @returns {number} A number.
+   */
+  nextFloatInclusive(minInclusive: number, maxInclusive: number): number
+
+  /**
+   * A method which returns a randomly-generated 53-bit decimal fraction, the
+   * full precision of a JavaScript number. The number will be between an
+   * optional minimum (inclusive) and optional maximum (exclusive). Each value
+   * is composed from two 32-bit values generated internally.
+   *
+   * @param {number} [minInclusive] An optional lower limit (inclusive) which
+   * the returned value will be at least. The lower limit will default to `0`
+   * and cannot be below this number.
+   * @param {number} [maxExclusive] An optional upper limit (exclusive) below
+   * which the returned number will be constrained. The upper limit will default
+   * to `1` and cannot exceed this number.
+   * @returns {number} A 53-bit decimal fraction.
+   */
+  nextFloat64(minInclusive?: number, maxExclusive?: number): number
+
+  /**
+   * Equivalent to the positional form, with the range given as options. When
+   * `inclusive` is `true`, the maximum is inclusive and will default to
+   * `1 - 2 ** -53`.
+   *
+   * @param {RangeOptions} options The range of the returned value.
+   * @returns {number} A 53-bit decimal fraction.
+   */
+  nextFloat64(options: RangeOptions): number
+
   /**
    * A method which returns a randomly-generated 32-bit decimal fraction. The
    * number will be between an optional minimum (inclusive) and optional maximum
@@ -16,6 +265,16 @@ export interface RandomNumberGenerator {
    */
   nextFract32(minInclusive?: number, maxExclusive?: number): number
 
+  /**
+   * Equivalent to the positional form, with the range given as options. When
+   * `inclusive` is `true`, the maximum is inclusive and will default to
+   * `1 - 2 ** -32`.
+   *
+   * @param {RangeOptions} options The range of the returned value.
+   * @returns {number} A 32-bit decimal fraction.
+   */
+  nextFract32(options: RangeOptions): number
+
   /**
    * A method which returns a randomly-generated, signed 32-bit integer. The
    * number will be between an optional minimum (inclusive) and optional maximum
@@ -31,6 +290,67 @@ export interface RandomNumberGenerator {
    */
   nextInt32(minInclusive?: number, maxExclusive?: number): number
 
+  /**
+   * Equivalent to the positional form, with the range given as options. When
+   * `inclusive` is `true`, the maximum is inclusive and will default to
+   * `2147483647`.
+   *
+   * @param {RangeOptions} options The range of the returned value.
+   * @returns {number} A signed 32-bit integer.
+   */
+  nextInt32(options: RangeOptions): number
+
+  /**
+   * A method which returns a randomly-generated, signed 64-bit integer. The
+   * number will be between an optional minimum (inclusive) and optional maximum
+   * (exclusive).
+   *
+   * @param {bigint} [minInclusive] An optional lower limit (inclusive) which
+   * the returned value will be at least. The lower limit will default to
+   * `-9223372036854775808` and cannot be below this number.
+   * @param {bigint} [maxExclusive] An optional upper limit (exclusive) below
+   * which the returned number will be constrained. The upper limit will default
+   * to `9223372036854775808` and cannot exceed this number.
+   * @returns {bigint} A signed 64-bit integer.
+   */
+  nextInt64(minInclusive?: bigint, maxExclusive?: bigint): bigint
+
+  /**
+   * Equivalent to the positional form, with the range given as options. When
+   * `inclusive` is `true`, the maximum is inclusive and will default to
+   * `9223372036854775807`.
+   *
+   * @param {RangeOptions<bigint>} options The range of the returned value.
+   * @returns {bigint} A signed 64-bit integer.
+   */
+  nextInt64(options: RangeOptions<bigint>): bigint
+
+  /**
+   * A method which returns a randomly-generated, safe integer. The number will
+   * be between an optional minimum (inclusive) and optional maximum
+   * (exclusive). When the range exceeds 32 bits, each value is composed from
+   * two 32-bit values generated internally.
+   *
+   * @param {number} [minInclusive] An optional lower limit (inclusive) which
+   * the returned value will be at least. The lower limit will default to
+   * `-9007199254740991` and cannot be below this number.
+   * @param {number} [maxExclusive] An optional upper limit (exclusive) below
+   * which the returned number will be constrained. The upper limit will default
+   * to `9007199254740992` and cannot exceed this number.
+   * @returns {number} A safe integer.
+   */
+  nextSafeInteger(minInclusive?: number, maxExclusive?: number): number
+
+  /**
+   * Equivalent to the positional form, with the range given as options. When
+   * `inclusive` is `true`, the maximum is inclusive and will default to
+   * `9007199254740991`.
+   *
+   * @param {RangeOptions} options The range of the returned value.
+   * @returns {number} A safe integer.
+   */
+  nextSafeInteger(options: RangeOptions): number
+
   /**
    * A method which returns a randomly-generated, unsigned 32-bit integer. The
    * number will be between an optional minimum (inclusive) and optional maximum
@@ -45,4 +365,39 @@ export interface RandomNumberGenerator {
    * @returns {number} An unsigned 32-bit integer.
    */
   nextUint32(minInclusive?: number, maxExclusive?: number): number
+
+  /**
+   * Equivalent to the positional form, with the range given as options. When
+   * `inclusive` is `true`, the maximum is inclusive and will default to
+   * `4294967295`.
+   *
+   * @param {RangeOptions} options The range of the returned value.
+   * @returns {number} An unsigned 32-bit integer.
+   */
+  nextUint32(options: RangeOptions): number
+
+  /**
+   * A method which returns a randomly-generated, unsigned 64-bit integer. The
+   * number will be between an optional minimum (inclusive) and optional maximum
+   * (exclusive).
+   *
+   * @param {bigint} [minInclusive] An optional lower limit (inclusive) which
+   * the returned value will be at least. The lower limit will default to `0`
+   * and cannot be below this number.
+   * @param {bigint} [maxExclusive] An optional upper limit (exclusive) below
+   * which the returned number will be constrained. The upper limit will default
+   * to `18446744073709551616` and cannot exceed this number.
+   * @returns {bigint} An unsigned 64-bit integer.
+   */
+  nextUint64(minInclusive?: bigint, maxExclusive?: bigint): bigint
+
+  /**
+   * Equivalent to the positional form, with the range given as options. When
+   * `inclusive` is `true`, the maximum is inclusive and will default to
+   * `18446744073709551615`.
+   *
+   * @param {RangeOptions<bigint>} options The range of the returned value.
+   * @returns {bigint} An unsigned 64-bit integer.
+   */
+  nextUint64(options: RangeOptions<bigint>): bigint
 }
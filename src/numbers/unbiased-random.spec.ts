@@ -2,46 +2,787 @@ import {expect} from 'chai'
 import {SinonStub, stub} from 'sinon'
 
 import {
+  MAX_SAFE_FLOAT32_EXCLUSIVE,
+  MAX_SAFE_FLOAT32_INCLUSIVE,
+  MAX_SAFE_FLOAT64_EXCLUSIVE,
+  MAX_SAFE_FLOAT64_INCLUSIVE,
   MAX_SAFE_FRACT32_EXCLUSIVE,
   MAX_SAFE_FRACT32_INCLUSIVE,
   MAX_SAFE_INT32_EXCLUSIVE,
   MAX_SAFE_INT32_INCLUSIVE,
+  MAX_SAFE_INT64_EXCLUSIVE,
+  MAX_SAFE_INT64_INCLUSIVE,
+  MAX_SAFE_INTEGER_EXCLUSIVE,
+  MAX_SAFE_INTEGER_INCLUSIVE,
   MAX_SAFE_UINT32_EXCLUSIVE,
   MAX_SAFE_UINT32_INCLUSIVE,
+  MAX_SAFE_UINT64_EXCLUSIVE,
+  MAX_SAFE_UINT64_INCLUSIVE,
+  MIN_SAFE_FLOAT64_INCLUSIVE,
   MIN_SAFE_FRACT32_INCLUSIVE,
   MIN_SAFE_INT32_INCLUSIVE,
+  MIN_SAFE_INT64_INCLUSIVE,
+  MIN_SAFE_INTEGER_INCLUSIVE,
   MIN_SAFE_UINT32_INCLUSIVE,
+  MIN_SAFE_UINT64_INCLUSIVE,
+  ONE_BIT_AS_FLOAT32,
+  ONE_BIT_AS_FLOAT64,
   ONE_BIT_AS_FRACT32,
-  bitwiseUint32ToFract32
+  bitwiseUint32ToFract32,
+  bitwiseUint53ToFloat64
 } from '../shared'
-import {unbiasedRandomFract32, unbiasedRandomInt32, unbiasedRandomUint32} from './unbiased-random'
+import {
+  fillRandomBytes,
+  fillUnbiasedRandomFloat32,
+  fillUnbiasedRandomFloat64,
+  fillUnbiasedRandomInt32,
+  fillUnbiasedRandomUint32,
+  resolveRangeOptions,
+  unbiasedRandomBigInt,
+  unbiasedRandomBoolean,
+  unbiasedRandomBooleanRational,
+  unbiasedRandomFloat,
+  unbiasedRandomFloat64,
+  unbiasedRandomFloatInclusive,
+  unbiasedRandomFract32,
+  unbiasedRandomInt32,
+  unbiasedRandomInt64,
+  unbiasedRandomSafeInteger,
+  unbiasedRandomUint32,
+  unbiasedRandomUint64
+} from './unbiased-random'
+
+describe('numbers > unbiased random', () => {
+  /*
+   * To ensure that "unbiased random" is working as intended, these specs assume
+   * some knowledge about the internal math of the algorithm. This is necessary
+   * to guarantee the intended behavior and protect against known problematic
+   * cases. To avoid redundancy, the repeated examples in the spec blocks below
+   * will not repeat explanations. Instead, all vital descriptions are presented
+   * in this comment.
+   *
+   * The examples below largely employ values with known behavior, or values on
+   * either side of a bit boundary.
+   *
+   * Some repeated examples involve the following uint32 values:
+   *
+   *     127 => 0b01111111
+   *     126 => 0b01111110
+   *     254 => 0b11111110
+   *     255 => 0b11111111
+   *
+   *   127 is used as the `maxExclusive` value.
+   *   126 is a valid value for that range.
+   *   254 is a generated value, which is above 127 and not valid as-is. It is
+   *   bit-masked down to 126, a valid value.
+   *   255 is a generated value, also not valid as-is. It is bit-masked down to
+   *   127, which is still not valid.
+   */
+
+  // Returns a function which generates a fixed sequence of well-mixed values.
+  function sequenceFn(): () => number {
+    let count = 0
+    return () => Math.imul(++count, 0x9e3779b9) >>> 0
+  }
+
+  describe('.fillRandomBytes()', () => {
+    let randomUint32Fn: SinonStub<void[], number>
+
+    beforeEach(() => {
+      randomUint32Fn = stub().returns(0)
+    })
+
+    it('fills the array with the bytes of each generated value', () => {
+      randomUint32Fn.onFirstCall().returns(0x01020304)
+      randomUint32Fn.onSecondCall().returns(0x05060708)
+      const array = fillRandomBytes(new Uint8Array(8), randomUint32Fn)
+      expect(Array.from(array)).to.deep.equal([1, 2, 3, 4, 5, 6, 7, 8])
+    })
+
+    it('discards any bytes beyond the end of the array', () => {
+      randomUint32Fn.onFirstCall().returns(0x01020304)
+      randomUint32Fn.onSecondCall().returns(0x05060708)
+      const array = fillRandomBytes(new Uint8Array(6), randomUint32Fn)
+      expect(Array.from(array)).to.deep.equal([1, 2, 3, 4, 5, 6])
+    })
+
+    it('generates one value for each group of four bytes', () => {
+      fillRandomBytes(new Uint8Array(9), randomUint32Fn)
+      expect(randomUint32Fn.callCount).to.equal(3)
+    })
+
+    it('returns the given array', () => {
+      const array = new Uint8Array(4)
+      expect(fillRandomBytes(array, randomUint32Fn)).to.equal(array)
+    })
+  })
+
+  describe('.fillUnbiasedRandomFloat32()', () => {
+    let randomUint32Fn: SinonStub<void[], number>
+
+    beforeEach(() => {
+      randomUint32Fn = stub().returns(0)
+    })
+
+    it('uses the 24 most-significant bits of each generated value', () => {
+      randomUint32Fn.returns(MAX_SAFE_UINT32_INCLUSIVE)
+      const array = fillUnbiasedRandomFloat32(
+        new Float32Array(2),
+        undefined,
+        undefined,
+        randomUint32Fn
+      )
+      expect(Array.from(array)).to.deep.equal([
+        MAX_SAFE_FLOAT32_INCLUSIVE,
+        MAX_SAFE_FLOAT32_INCLUSIVE
+      ])
+    })
+
+    it('offsets each generated value by the given minimum', () => {
+      const array = fillUnbiasedRandomFloat32(new Float32Array(2), 0.25, 0.5, randomUint32Fn)
+      expect(Array.from(array)).to.deep.equal([0.25, 0.25])
+    })
+
+    it('can return an inclusive maximum', () => {
+      randomUint32Fn.returns(2 ** 22)
+      const array = fillUnbiasedRandomFloat32(new Float32Array(1), 0.25, 0.5, randomUint32Fn, true)
+      expect(array[0]).to.equal(0.5)
+    })
+
+    it('discards any value which exceeds the range', () => {
+      randomUint32Fn.onFirstCall().returns(2 ** 22 + 1)
+      randomUint32Fn.onSecondCall().returns(123)
+      const array = fillUnbiasedRandomFloat32(new Float32Array(1), 0.25, 0.5, randomUint32Fn, true)
+      expect(array[0]).to.equal(0.25 + 123 * ONE_BIT_AS_FLOAT32)
+    })
+
+    it('rejects a range which includes no 24-bit decimal fraction', () => {
+      expect(() =>
+        fillUnbiasedRandomFloat32(new Float32Array(1), 0.1, 0.1 + 2 ** -30, randomUint32Fn)
+      ).to.throw('Range must include at least one 24-bit decimal fraction.')
+    })
+
+    it(`rejects any maximum above ${MAX_SAFE_FLOAT32_EXCLUSIVE}`, () => {
+      expect(() =>
+        fillUnbiasedRandomFloat32(new Float32Array(1), 0, 1 + ONE_BIT_AS_FLOAT32, randomUint32Fn)
+      ).to.throw()
+    })
+
+    it('accepts a range strategy', () => {
+      const array = new Float32Array(1)
+      fillUnbiasedRandomFloat32(array, 0, 6 * ONE_BIT_AS_FLOAT32, () => 0xffffffff, false, 'lemire')
+      expect(array[0]).to.equal(5 * ONE_BIT_AS_FLOAT32)
+    })
+  })
+
+  describe('.fillUnbiasedRandomFloat64()', () => {
+    it('fills the array with values as from repeated calls to .unbiasedRandomFloat64()', () => {
+      const array = fillUnbiasedRandomFloat64(new Float64Array(8), 0.25, 0.75, sequenceFn())
+      const randomUint32Fn = sequenceFn()
+      const expected = Array.from({length: 8}, () =>
+        unbiasedRandomFloat64(0.25, 0.75, randomUint32Fn)
+      )
+      expect(Array.from(array)).to.deep.equal(expected)
+    })
+
+    it('supports an inclusive maximum', () => {
+      const array = fillUnbiasedRandomFloat64(new Float64Array(8), 0, 0.5, sequenceFn(), true)
+      const randomUint32Fn = sequenceFn()
+      const expected = Array.from({length: 8}, () =>
+        unbiasedRandomFloat64(0, 0.5, randomUint32Fn, true)
+      )
+      expect(Array.from(array)).to.deep.equal(expected)
+    })
+
+    it('rejects an invalid range', () => {
+      expect(() =>
+        fillUnbiasedRandomFloat64(new Float64Array(1), 0.5, 0.25, sequenceFn())
+      ).to.throw()
+    })
+  })
+
+  describe('.fillUnbiasedRandomInt32()', () => {
+    it('fills the array with values as from repeated calls to .unbiasedRandomInt32()', () => {
+      const randomInt32Fn = sequenceFn()
+      const array = fillUnbiasedRandomInt32(new Int32Array(8), -100, 100, () => randomInt32Fn() | 0)
+      const expectedFn = sequenceFn()
+      const expected = Array.from({length: 8}, () =>
+        unbiasedRandomInt32(-100, 100, () => expectedFn() | 0)
+      )
+      expect(Array.from(array)).to.deep.equal(expected)
+    })
+
+    it('uses each generated value as-is without a range', () => {
+      const array = fillUnbiasedRandomInt32(new Int32Array(2), undefined, undefined, () => -123)
+      expect(Array.from(array)).to.deep.equal([-123, -123])
+    })
+
+    it('rejects an invalid range', () => {
+      expect(() => fillUnbiasedRandomInt32(new Int32Array(1), 5, 5, sequenceFn())).to.throw()
+    })
+  })
+
+  describe('.fillUnbiasedRandomUint32()', () => {
+    it('fills the array with values as from repeated calls to .unbiasedRandomUint32()', () => {
+      const array = fillUnbiasedRandomUint32(new Uint32Array(8), 8192, 32768, sequenceFn())
+      const randomUint32Fn = sequenceFn()
+      const expected = Array.from({length: 8}, () =>
+        unbiasedRandomUint32(8192, 32768, randomUint32Fn)
+      )
+      expect(Array.from(array)).to.deep.equal(expected)
+    })
+
+    it('supports an inclusive maximum', () => {
+      const array = fillUnbiasedRandomUint32(new Uint32Array(8), 1, 6, sequenceFn(), true)
+      const randomUint32Fn = sequenceFn()
+      const expected = Array.from({length: 8}, () =>
+        unbiasedRandomUint32(1, 6, randomUint32Fn, true)
+      )
+      expect(Array.from(array)).to.deep.equal(expected)
+    })
+
+    it('rejects an invalid range', () => {
+      expect(() => fillUnbiasedRandomUint32(new Uint32Array(1), 5, 5, sequenceFn())).to.throw()
+    })
+  })
+
+  describe('.resolveRangeOptions()', () => {
+    it('returns the given options', () => {
+      const options = {min: 1, max: 6, inclusive: true}
+      expect(resolveRangeOptions(options, undefined)).to.equal(options)
+    })
+
+    it('returns the given minimum and maximum as an exclusive range', () => {
+      expect(resolveRangeOptions(1, 6)).to.deep.equal({min: 1, max: 6, inclusive: false})
+    })
+
+    it('supports bigint values', () => {
+      expect(resolveRangeOptions(1n, 6n)).to.deep.equal({min: 1n, max: 6n, inclusive: false})
+    })
+
+    it('rejects a maximum given together with range options', () => {
+      expect(() => resolveRangeOptions({min: 1}, 7)).to.throw(
+        'Maximum value must be given within the range options.'
+      )
+    })
+
+    it('returns an unbounded exclusive range when no values are given', () => {
+      expect(resolveRangeOptions(undefined, undefined)).to.deep.equal({
+        min: undefined,
+        max: undefined,
+        inclusive: false
+      })
+    })
+  })
+
+  describe('.unbiasedRandomBigInt()', () => {
+    let randomUint32Fn: SinonStub<void[], number>
+
+    beforeEach(() => {
+      randomUint32Fn = stub().returns(0)
+    })
+
+    it('returns the generated value when within the given range', () => {
+      randomUint32Fn.returns(123)
+      const value = unbiasedRandomBigInt(0n, 125n, randomUint32Fn)
+      expect(value).to.equal(123n)
+    })
+
+    it('offsets the generated value by the given minimum', () => {
+      const value = unbiasedRandomBigInt(-(2n ** 100n), 2n ** 100n, randomUint32Fn)
+      expect(value).to.equal(-(2n ** 100n))
+    })
+
+    it('composes values from as many generated values as the range requires', () => {
+      unbiasedRandomBigInt(0n, 2n ** 96n + 1n, randomUint32Fn)
+      expect(randomUint32Fn.callCount).to.equal(4)
+    })
+
+    it('uses the first generated value as the most-significant word', () => {
+      randomUint32Fn.onFirstCall().returns(1)
+      randomUint32Fn.onSecondCall().returns(2)
+      randomUint32Fn.onThirdCall().returns(3)
+      const value = unbiasedRandomBigInt(0n, 2n ** 96n, randomUint32Fn)
+      expect(value).to.equal((1n << 64n) + (2n << 32n) + 3n)
+    })
+
+    it('adjusts the most-significant word to be within range, when possible', () => {
+      /*
+       * The largest allowed value, 2^64, uses 65 bits. The most-significant word
+       * is masked to its least-significant bit.
+       */
+      randomUint32Fn.onFirstCall().returns(254)
+      const value = unbiasedRandomBigInt(0n, 2n ** 64n + 1n, randomUint32Fn)
+      expect(value).to.equal(0n)
+    })
+
+    context('when the adjusted value still exceeds the range', () => {
+      beforeEach(() => {
+        randomUint32Fn.onCall(0).returns(255)
+        randomUint32Fn.onCall(1).returns(1)
+        randomUint32Fn.onCall(2).returns(0)
+        randomUint32Fn.onCall(3).returns(0)
+        randomUint32Fn.onCall(4).returns(123)
+      })
+
+      it('generates another value', () => {
+        unbiasedRandomBigInt(0n, 2n ** 32n + 1n, randomUint32Fn)
+        expect(randomUint32Fn.callCount).to.equal(4)
+      })
+
+      it('uses the next generated value adjustable to the range', () => {
+        const value = unbiasedRandomBigInt(0n, 2n ** 32n + 1n, randomUint32Fn)
+        expect(value).to.equal(0n)
+      })
+    })
+
+    context('when the difference between the given minimum and maximum is 1', () => {
+      it('does not call the given generator function', () => {
+        unbiasedRandomBigInt(2n ** 100n, 2n ** 100n + 1n, randomUint32Fn)
+        expect(randomUint32Fn.callCount).to.equal(0)
+      })
+
+      it('returns the given minimum value', () => {
+        const value = unbiasedRandomBigInt(2n ** 100n, 2n ** 100n + 1n, randomUint32Fn)
+        expect(value).to.equal(2n ** 100n)
+      })
+    })
+
+    it('rejects any maximum equal to the given minimum', () => {
+      expect(() => {
+        unbiasedRandomBigInt(123n, 123n, randomUint32Fn)
+      }).to.throw()
+    })
+
+    it('rejects any maximum lower than the given minimum', () => {
+      expect(() => {
+        unbiasedRandomBigInt(123n, 122n, randomUint32Fn)
+      }).to.throw()
+    })
+  })
+
+  describe('.unbiasedRandomBoolean()', () => {
+    let randomUint32Fn: SinonStub<void[], number>
+
+    beforeEach(() => {
+      randomUint32Fn = stub().returns(0)
+    })
+
+    it('returns true when the generated fraction is less than the probability', () => {
+      randomUint32Fn.returns(0x3fffffff)
+      expect(unbiasedRandomBoolean(0.25, randomUint32Fn)).to.equal(true)
+    })
+
+    it('returns false when the generated fraction is equal to the probability', () => {
+      randomUint32Fn.returns(0x40000000)
+      expect(unbiasedRandomBoolean(0.25, randomUint32Fn)).to.equal(false)
+    })
+
+    it('returns false when the generated fraction is greater than the probability', () => {
+      randomUint32Fn.returns(0xffffffff)
+      expect(unbiasedRandomBoolean(0.25, randomUint32Fn)).to.equal(false)
+    })
+
+    it('uses one generated value when the first 32 bits decide the result', () => {
+      unbiasedRandomBoolean(0.3, randomUint32Fn)
+      expect(randomUint32Fn.callCount).to.equal(1)
+    })
+
+    it('uses another generated value when the first 32 bits match the probability', () => {
+      // 1/3 as a number is 0b0.0101…01 for 54 bits.
+      randomUint32Fn.onFirstCall().returns(0x55555555)
+      randomUint32Fn.onSecondCall().returns(0x55000000)
+      expect(unbiasedRandomBoolean(1 / 3, randomUint32Fn)).to.equal(true)
+      expect(randomUint32Fn.callCount).to.equal(2)
+    })
+
+    it('compares all bits of the probability', () => {
+      randomUint32Fn.returns(0x55555555)
+      expect(unbiasedRandomBoolean(1 / 3, randomUint32Fn)).to.equal(false)
+    })
+
+    it('returns true for a probability of 1 without generating a value', () => {
+      expect(unbiasedRandomBoolean(1, randomUint32Fn)).to.equal(true)
+      expect(randomUint32Fn.callCount).to.equal(0)
+    })
+
+    it('returns false for a probability of 0 without generating a value', () => {
+      expect(unbiasedRandomBoolean(0, randomUint32Fn)).to.equal(false)
+      expect(randomUint32Fn.callCount).to.equal(0)
+    })
+
+    it('supports the smallest positive probability', () => {
+      expect(unbiasedRandomBoolean(Number.MIN_VALUE, randomUint32Fn)).to.equal(true)
+      expect(randomUint32Fn.callCount).to.equal(34)
+    })
+
+    it('rejects an invalid probability', () => {
+      expect(() => unbiasedRandomBoolean(1.5, randomUint32Fn)).to.throw()
+    })
+  })
+
+  describe('.unbiasedRandomBooleanRational()', () => {
+    let randomUint32Fn: SinonStub<void[], number>
+
+    beforeEach(() => {
+      randomUint32Fn = stub().returns(0)
+    })
+
+    it('returns true when the generated fraction is less than the probability', () => {
+      randomUint32Fn.returns(0x3fffffff)
+      expect(unbiasedRandomBooleanRational(1, 4, randomUint32Fn)).to.equal(true)
+    })
+
+    it('returns false when the generated fraction is equal to the probability', () => {
+      randomUint32Fn.returns(0x40000000)
+      expect(unbiasedRandomBooleanRational(1, 4, randomUint32Fn)).to.equal(false)
+    })
+
+    it('returns false when the generated fraction is greater than the probability', () => {
+      randomUint32Fn.returns(0xffffffff)
+      expect(unbiasedRandomBooleanRational(1, 4, randomUint32Fn)).to.equal(false)
+    })
+
+    it('is exact for probabilities which cannot be represented by a number', () => {
+      // 1/3 is 0b0.0101… without end, unlike its nearest number.
+      randomUint32Fn.onFirstCall().returns(0x55555555)
+      randomUint32Fn.onSecondCall().returns(0x55555555)
+      expect(unbiasedRandomBooleanRational(1, 3, randomUint32Fn)).to.equal(true)
+      expect(randomUint32Fn.callCount).to.equal(3)
+    })
+
+    it('supports the largest safe integer as the denominator', () => {
+      randomUint32Fn.returns(0xffffffff)
+      const denominator = Number.MAX_SAFE_INTEGER
+      const value = unbiasedRandomBooleanRational(denominator - 1, denominator, randomUint32Fn)
+      expect(value).to.equal(false)
+    })
+
+    it('returns true when the numerator equals the denominator without generating a value', () => {
+      expect(unbiasedRandomBooleanRational(3, 3, randomUint32Fn)).to.equal(true)
+      expect(randomUint32Fn.callCount).to.equal(0)
+    })
+
+    it('returns false when the numerator is 0 without generating a value', () => {
+      expect(unbiasedRandomBooleanRational(0, 3, randomUint32Fn)).to.equal(false)
+      expect(randomUint32Fn.callCount).to.equal(0)
+    })
+
+    it('rejects an invalid probability', () => {
+      expect(() => unbiasedRandomBooleanRational(4, 3, randomUint32Fn)).to.throw()
+    })
+  })
+
+  describe('.unbiasedRandomFloat()', () => {
+    let randomUint32Fn: SinonStub<void[], number>
+
+    beforeEach(() => {
+      randomUint32Fn = stub().returns(0)
+    })
+
+    it('scales a 53-bit decimal fraction to the given range', () => {
+      randomUint32Fn.onFirstCall().returns(0b10100000000000000000000000000000) // 0.625
+      const value = unbiasedRandomFloat(-5.5, 12.25, randomUint32Fn)
+      expect(value).to.equal(-5.5 + 0.625 * 17.75)
+    })
+
+    it('can return the given minimum', () => {
+      const value = unbiasedRandomFloat(-5.5, 12.25, randomUint32Fn)
+      expect(value).to.equal(-5.5)
+    })
+
+    it('returns a value less than the given maximum', () => {
+      randomUint32Fn.returns(MAX_SAFE_UINT32_INCLUSIVE)
+      const value = unbiasedRandomFloat(-5.5, 12.25, randomUint32Fn)
+      expect(value).to.be.lessThan(12.25)
+    })
+
+    context('when the scaled value is rounded to the given maximum', () => {
+      const maxExclusive = 1 + Number.EPSILON
+
+      beforeEach(() => {
+        randomUint32Fn.onCall(0).returns(MAX_SAFE_UINT32_INCLUSIVE)
+        randomUint32Fn.onCall(1).returns(MAX_SAFE_UINT32_INCLUSIVE)
+      })
+
+      it('generates another value', () => {
+        unbiasedRandomFloat(1, maxExclusive, randomUint32Fn)
+        expect(randomUint32Fn.callCount).to.equal(4)
+      })
+
+      it('uses the next generated value within the range', () => {
+        const value = unbiasedRandomFloat(1, maxExclusive, randomUint32Fn)
+        expect(value).to.equal(1)
+      })
+    })
+
+    it('supports ranges wider than the largest finite number', () => {
+      randomUint32Fn.onFirstCall().returns(0b10000000000000000000000000000000) // 0.5
+      const value = unbiasedRandomFloat(-Number.MAX_VALUE, Number.MAX_VALUE, randomUint32Fn)
+      expect(value).to.equal(0)
+    })
+
+    it('rejects any minimum which is not finite', () => {
+      expect(() => {
+        unbiasedRandomFloat(-Infinity, 0, randomUint32Fn)
+      }).to.throw()
+    })
+
+    it('rejects any maximum which is not finite', () => {
+      expect(() => {
+        unbiasedRandomFloat(0, NaN, randomUint32Fn)
+      }).to.throw()
+    })
+
+    it('rejects any maximum equal to the given minimum', () => {
+      expect(() => {
+        unbiasedRandomFloat(12.25, 12.25, randomUint32Fn)
+      }).to.throw()
+    })
+
+    it('rejects any maximum lower than the given minimum', () => {
+      expect(() => {
+        unbiasedRandomFloat(12.25, -5.5, randomUint32Fn)
+      }).to.throw()
+    })
+  })
+
+  describe('.unbiasedRandomFloatInclusive()', () => {
+    let randomUint32Fn: SinonStub<void[], number>
+
+    beforeEach(() => {
+      randomUint32Fn = stub().returns(0)
+    })
+
+    it('can return the given minimum', () => {
+      const value = unbiasedRandomFloatInclusive(-5.5, 12.25, randomUint32Fn)
+      expect(value).to.equal(-5.5)
+    })
+
+    it('can return the given maximum', () => {
+      randomUint32Fn.returns(MAX_SAFE_UINT32_INCLUSIVE)
+      const value = unbiasedRandomFloatInclusive(-5.5, 12.25, randomUint32Fn)
+      expect(value).to.equal(12.25)
+    })
+
+    it('supports ranges wider than the largest finite number', () => {
+      randomUint32Fn.returns(MAX_SAFE_UINT32_INCLUSIVE)
+      const value = unbiasedRandomFloatInclusive(
+        -Number.MAX_VALUE,
+        Number.MAX_VALUE,
+        randomUint32Fn
+      )
+      expect(value).to.equal(Number.MAX_VALUE)
+    })
+
+    context('when the given minimum and maximum are equal', () => {
+      it('does not call the given generator function', () => {
+        unbiasedRandomFloatInclusive(12.25, 12.25, randomUint32Fn)
+        expect(randomUint32Fn.callCount).to.equal(0)
+      })
+
+      it('returns the given minimum value', () => {
+        const value = unbiasedRandomFloatInclusive(12.25, 12.25, randomUint32Fn)
+        expect(value).to.equal(12.25)
+      })
+    })
+
+    it('rejects any minimum which is not finite', () => {
+      expect(() => {
+        unbiasedRandomFloatInclusive(NaN, 0, randomUint32Fn)
+      }).to.throw()
+    })
+
+    it('rejects any maximum which is not finite', () => {
+      expect(() => {
+        unbiasedRandomFloatInclusive(0, Infinity, randomUint32Fn)
+      }).to.throw()
+    })
+
+    it('rejects any maximum lower than the given minimum', () => {
+      expect(() => {
+        unbiasedRandomFloatInclusive(12.25, -5.5, randomUint32Fn)
+      }).to.throw()
+    })
+  })
+
+  describe('.unbiasedRandomFloat64()', () => {
+    let randomUint32Fn: SinonStub<void[], number>
+
+    beforeEach(() => {
+      randomUint32Fn = stub().returns(0)
+    })
+
+    it('composes one 53-bit decimal fraction from two generated uint32 values', () => {
+      randomUint32Fn.onFirstCall().returns(0b10100000000000000000000000000000)
+      randomUint32Fn.onSecondCall().returns(0b00000000000000000000000011000000)
+      const value = unbiasedRandomFloat64(undefined, undefined, randomUint32Fn)
+      expect(value).to.equal(0.625 + 3 * ONE_BIT_AS_FLOAT64)
+    })
+
+    it('offsets the generated value by the given minimum', () => {
+      const value = unbiasedRandomFloat64(0.125, 0.75, randomUint32Fn)
+      expect(value).to.equal(0.125)
+    })
+
+    it('adjusts the generated value to be within range, when possible', () => {
+      randomUint32Fn.returns(254)
+      const maxExclusive = bitwiseUint53ToFloat64(127)
+      const value = unbiasedRandomFloat64(MIN_SAFE_FLOAT64_INCLUSIVE, maxExclusive, randomUint32Fn)
+      expect(value).to.equal(bitwiseUint53ToFloat64(126))
+    })
+
+    context('when the adjusted value still exceeds the range', () => {
+      const maxExclusive = bitwiseUint53ToFloat64(127)
+
+      beforeEach(() => {
+        randomUint32Fn.onFirstCall().returns(255)
+        randomUint32Fn.onSecondCall().returns(123)
+      })
+
+      it('generates another value', () => {
+        unbiasedRandomFloat64(MIN_SAFE_FLOAT64_INCLUSIVE, maxExclusive, randomUint32Fn)
+        expect(randomUint32Fn.callCount).to.equal(2)
+      })
+
+      it('uses the next generated value adjustable to the range', () => {
+        const value = unbiasedRandomFloat64(
+          MIN_SAFE_FLOAT64_INCLUSIVE,
+          maxExclusive,
+          randomUint32Fn
+        )
+        expect(value).to.equal(bitwiseUint53ToFloat64(123))
+      })
+    })
+
+    it('uses two generated values when the range exceeds 32 bits', () => {
+      unbiasedRandomFloat64(0.125, 0.75, randomUint32Fn)
+      expect(randomUint32Fn.callCount).to.equal(2)
+    })
+
+    it(`can return the minimum 53-bit decimal fraction (${MIN_SAFE_FLOAT64_INCLUSIVE})`, () => {
+      const value = unbiasedRandomFloat64(
+        MIN_SAFE_FLOAT64_INCLUSIVE,
+        MAX_SAFE_FLOAT64_EXCLUSIVE,
+        randomUint32Fn
+      )
+      expect(value).to.equal(MIN_SAFE_FLOAT64_INCLUSIVE)
+    })
+
+    it(`can return the maximum 53-bit decimal fraction (${MAX_SAFE_FLOAT64_INCLUSIVE})`, () => {
+      randomUint32Fn.returns(MAX_SAFE_UINT32_INCLUSIVE)
+      const value = unbiasedRandomFloat64(
+        MIN_SAFE_FLOAT64_INCLUSIVE,
+        MAX_SAFE_FLOAT64_EXCLUSIVE,
+        randomUint32Fn
+      )
+      expect(value).to.equal(MAX_SAFE_FLOAT64_INCLUSIVE)
+    })
+
+    it('rounds a minimum up to the nearest 53-bit decimal fraction', () => {
+      const value = unbiasedRandomFloat64(0.1, 0.2, randomUint32Fn)
+      expect(value).to.equal(bitwiseUint53ToFloat64(900719925474100))
+    })
+
+    it('returns a value below a maximum which is not a 53-bit decimal fraction', () => {
+      /*
+       * 0.1 lies between the 53-bit decimal fractions 900719925474099 / 2^53 and
+       * 900719925474100 / 2^53. The generated values below compose the former.
+       */
+      randomUint32Fn.onFirstCall().returns(429496704)
+      randomUint32Fn.onSecondCall().returns(3435973824)
+      const value = unbiasedRandomFloat64(MIN_SAFE_FLOAT64_INCLUSIVE, 0.1, randomUint32Fn)
+      expect(value).to.equal(bitwiseUint53ToFloat64(900719925474099))
+      expect(value).to.be.lessThan(0.1)
+    })
+
+    context('when the difference between the given minimum and maximum is 1 bit', () => {
+      it('does not call the given generator function', () => {
+        unbiasedRandomFloat64(0.125, 0.125 + ONE_BIT_AS_FLOAT64, randomUint32Fn)
+        expect(randomUint32Fn.callCount).to.equal(0)
+      })
+
+      it('returns the given minimum value', () => {
+        const value = unbiasedRandomFloat64(0.125, 0.125 + ONE_BIT_AS_FLOAT64, randomUint32Fn)
+        expect(value).to.equal(0.125)
+      })
+    })
+
+    it(`uses ${MIN_SAFE_FLOAT64_INCLUSIVE} as the default minimum`, () => {
+      const value = unbiasedRandomFloat64(undefined, MAX_SAFE_FLOAT64_EXCLUSIVE, randomUint32Fn)
+      expect(value).to.equal(MIN_SAFE_FLOAT64_INCLUSIVE)
+    })
+
+    it(`uses ${MAX_SAFE_FLOAT64_EXCLUSIVE} as the default maximum`, () => {
+      randomUint32Fn.returns(MAX_SAFE_UINT32_INCLUSIVE)
+      const value = unbiasedRandomFloat64(MIN_SAFE_FLOAT64_INCLUSIVE, undefined, randomUint32Fn)
+      expect(value).to.equal(MAX_SAFE_FLOAT64_INCLUSIVE)
+    })
+
+    it(`rejects any minimum lower than ${MIN_SAFE_FLOAT64_INCLUSIVE}`, () => {
+      expect(() => {
+        unbiasedRandomFloat64(
+          MIN_SAFE_FLOAT64_INCLUSIVE - ONE_BIT_AS_FLOAT64,
+          0.125,
+          randomUint32Fn
+        )
+      }).to.throw()
+    })
+
+    it(`rejects any maximum higher than ${MAX_SAFE_FLOAT64_EXCLUSIVE}`, () => {
+      expect(() => {
+        unbiasedRandomFloat64(
+          MIN_SAFE_FLOAT64_INCLUSIVE,
+          MAX_SAFE_FLOAT64_EXCLUSIVE + 1,
+          randomUint32Fn
+        )
+      }).to.throw()
+    })
+
+    it('rejects any maximum equal to the given minimum', () => {
+      expect(() => {
+        unbiasedRandomFloat64(0.125, 0.125, randomUint32Fn)
+      }).to.throw()
+    })
+
+    it('rejects a range which includes no 53-bit decimal fraction', () => {
+      expect(() => {
+        unbiasedRandomFloat64(0.1, 0.1 + Number.EPSILON / 16, randomUint32Fn)
+      }).to.throw()
+    })
+
+    context('with an inclusive maximum', () => {
+      it('can return the given maximum', () => {
+        randomUint32Fn.onFirstCall().returns(2 ** 30)
+        randomUint32Fn.onSecondCall().returns(0)
+        const value = unbiasedRandomFloat64(0.25, 0.5, randomUint32Fn, true)
+        expect(value).to.equal(0.5)
+      })
+
+      it(`uses a default maximum of ${MAX_SAFE_FLOAT64_INCLUSIVE}`, () => {
+        randomUint32Fn.returns(MAX_SAFE_UINT32_INCLUSIVE)
+        const value = unbiasedRandomFloat64(
+          MIN_SAFE_FLOAT64_INCLUSIVE,
+          undefined,
+          randomUint32Fn,
+          true
+        )
+        expect(value).to.equal(MAX_SAFE_FLOAT64_INCLUSIVE)
+      })
 
-describe('numbers > unbiased random', () => {
-  /*
-   * To ensure that "unbiased random" is working as intended, these specs assume
-   * some knowledge about the internal math of the algorithm. This is necessary
-   * to guarantee the intended behavior and protect against known problematic
-   * cases. To avoid redundancy, the repeated examples in the spec blocks below
-   * will not repeat explanations. Instead, all vital descriptions are presented
-   * in this comment.
-   *
-   * The examples below largely employ values with known behavior, or values on
-   * either side of a bit boundary.
-   *
-   * Some repeated examples involve the following uint32 values:
-   *
-   *     127 => 0b01111111
-   *     126 => 0b01111110
-   *     254 => 0b11111110
-   *     255 => 0b11111111
-   *
-   *   127 is used as the `maxExclusive` value.
-   *   126 is a valid value for that range.
-   *   254 is a generated value, which is above 127 and not valid as-is. It is
-   *   bit-masked down to 126, a valid value.
-   *   255 is a generated value, also not valid as-is. It is bit-masked down to
-   *   127, which is still not valid.
-   */
+      it('rejects a range which includes no 53-bit decimal fraction', () => {
+        expect(() => unbiasedRandomFloat64(0.1, 0.1, randomUint32Fn, true)).to.throw(
+          'Range must include at least one 53-bit decimal fraction.'
+        )
+      })
+
+      it(`rejects any maximum above ${MAX_SAFE_FLOAT64_INCLUSIVE}`, () => {
+        expect(() =>
+          unbiasedRandomFloat64(0.25, MAX_SAFE_FLOAT64_EXCLUSIVE, randomUint32Fn, true)
+        ).to.throw()
+      })
+    })
+  })
 
   describe('.unbiasedRandomFract32()', () => {
     let randomFract32Fn: SinonStub<void[], number>
@@ -182,6 +923,44 @@ describe('numbers > unbiased random', () => {
         unbiasedRandomFract32(0.125, 0.125 - ONE_BIT_AS_FRACT32, randomFract32Fn)
       }).to.throw()
     })
+
+    context('with an inclusive maximum', () => {
+      it('can return the given maximum', () => {
+        randomFract32Fn.returns(0.25)
+        const value = unbiasedRandomFract32(0.25, 0.5, randomFract32Fn, true)
+        expect(value).to.equal(0.5)
+      })
+
+      it(`uses a default maximum of ${MAX_SAFE_FRACT32_INCLUSIVE}`, () => {
+        randomFract32Fn.returns(MAX_SAFE_FRACT32_INCLUSIVE)
+        const value = unbiasedRandomFract32(
+          MIN_SAFE_FRACT32_INCLUSIVE,
+          undefined,
+          randomFract32Fn,
+          true
+        )
+        expect(value).to.equal(MAX_SAFE_FRACT32_INCLUSIVE)
+      })
+
+      it('returns the given minimum when equal to the given maximum', () => {
+        const value = unbiasedRandomFract32(0.25, 0.25, randomFract32Fn, true)
+        expect(value).to.equal(0.25)
+      })
+
+      it(`rejects any maximum above ${MAX_SAFE_FRACT32_INCLUSIVE}`, () => {
+        expect(() =>
+          unbiasedRandomFract32(0.25, MAX_SAFE_FRACT32_EXCLUSIVE, randomFract32Fn, true)
+        ).to.throw()
+      })
+    })
+
+    context('with the lemire strategy', () => {
+      it('returns the high 32 bits of the generated value multiplied by the range', () => {
+        const randomFract32Fn = () => bitwiseUint32ToFract32(0xffffffff)
+        const value = unbiasedRandomFract32(0, 0.5, randomFract32Fn, false, 'lemire')
+        expect(value).to.equal(bitwiseUint32ToFract32(0x7fffffff))
+      })
+    })
   })
 
   describe('.unbiasedRandomInt32()', () => {
@@ -339,6 +1118,301 @@ describe('numbers > unbiased random', () => {
         unbiasedRandomInt32(123, 122, randomInt32Fn)
       }).to.throw()
     })
+
+    context('with an inclusive maximum', () => {
+      it('can return the given maximum', () => {
+        randomInt32Fn.returns(6)
+        const value = unbiasedRandomInt32(-3, 3, randomInt32Fn, true)
+        expect(value).to.equal(3)
+      })
+
+      it(`uses a default maximum of ${MAX_SAFE_INT32_INCLUSIVE}`, () => {
+        randomInt32Fn.returns(MAX_SAFE_INT32_INCLUSIVE)
+        const value = unbiasedRandomInt32(0, undefined, randomInt32Fn, true)
+        expect(value).to.equal(MAX_SAFE_INT32_INCLUSIVE)
+      })
+
+      it('returns the given minimum when equal to the given maximum', () => {
+        const value = unbiasedRandomInt32(-3, -3, randomInt32Fn, true)
+        expect(value).to.equal(-3)
+      })
+
+      it(`rejects any maximum above ${MAX_SAFE_INT32_INCLUSIVE}`, () => {
+        expect(() =>
+          unbiasedRandomInt32(0, MAX_SAFE_INT32_EXCLUSIVE, randomInt32Fn, true)
+        ).to.throw()
+      })
+    })
+
+    context('with the lemire strategy', () => {
+      it('returns the high 32 bits of the generated value multiplied by the range', () => {
+        // 2^31 - 1 is shifted to 0xffffffff, which multiplied by 6 has high bits of 5.
+        const value = unbiasedRandomInt32(-3, 3, () => 2 ** 31 - 1, false, 'lemire')
+        expect(value).to.equal(2)
+      })
+    })
+  })
+
+  describe('.unbiasedRandomInt64()', () => {
+    let randomUint32Fn: SinonStub<void[], number>
+
+    beforeEach(() => {
+      randomUint32Fn = stub().returns(0)
+    })
+
+    it('composes one signed 64-bit integer from two generated uint32 values', () => {
+      randomUint32Fn.onFirstCall().returns(MAX_SAFE_UINT32_INCLUSIVE)
+      randomUint32Fn.onSecondCall().returns(MAX_SAFE_UINT32_INCLUSIVE - 122)
+      const value = unbiasedRandomInt64(undefined, undefined, randomUint32Fn)
+      expect(value).to.equal(-123n)
+    })
+
+    it('offsets the generated value by the given minimum', () => {
+      const value = unbiasedRandomInt64(-123n, 256n, randomUint32Fn)
+      expect(value).to.equal(-123n)
+    })
+
+    it(`can return the minimum signed 64-bit integer (${MIN_SAFE_INT64_INCLUSIVE})`, () => {
+      const value = unbiasedRandomInt64(
+        MIN_SAFE_INT64_INCLUSIVE,
+        MAX_SAFE_INT64_EXCLUSIVE,
+        randomUint32Fn
+      )
+      expect(value).to.equal(MIN_SAFE_INT64_INCLUSIVE)
+    })
+
+    it(`can return the maximum signed 64-bit integer (${MAX_SAFE_INT64_INCLUSIVE})`, () => {
+      randomUint32Fn.returns(MAX_SAFE_UINT32_INCLUSIVE)
+      const value = unbiasedRandomInt64(
+        MIN_SAFE_INT64_INCLUSIVE,
+        MAX_SAFE_INT64_EXCLUSIVE,
+        randomUint32Fn
+      )
+      expect(value).to.equal(MAX_SAFE_INT64_INCLUSIVE)
+    })
+
+    it(`uses ${MIN_SAFE_INT64_INCLUSIVE} as the default minimum`, () => {
+      const value = unbiasedRandomInt64(undefined, 0n, randomUint32Fn)
+      expect(value).to.equal(MIN_SAFE_INT64_INCLUSIVE)
+    })
+
+    it(`uses ${MAX_SAFE_INT64_EXCLUSIVE} as the default maximum`, () => {
+      randomUint32Fn.returns(MAX_SAFE_UINT32_INCLUSIVE)
+      const value = unbiasedRandomInt64(0n, undefined, randomUint32Fn)
+      expect(value).to.equal(MAX_SAFE_INT64_INCLUSIVE)
+    })
+
+    it(`rejects any minimum lower than ${MIN_SAFE_INT64_INCLUSIVE}`, () => {
+      expect(() => {
+        unbiasedRandomInt64(MIN_SAFE_INT64_INCLUSIVE - 1n, 0n, randomUint32Fn)
+      }).to.throw()
+    })
+
+    it(`rejects any maximum higher than ${MAX_SAFE_INT64_EXCLUSIVE}`, () => {
+      expect(() => {
+        unbiasedRandomInt64(0n, MAX_SAFE_INT64_EXCLUSIVE + 1n, randomUint32Fn)
+      }).to.throw()
+    })
+
+    it('rejects any maximum equal to the given minimum', () => {
+      expect(() => {
+        unbiasedRandomInt64(123n, 123n, randomUint32Fn)
+      }).to.throw()
+    })
+
+    context('with an inclusive maximum', () => {
+      it('can return the given maximum', () => {
+        randomUint32Fn.returns(6)
+        const value = unbiasedRandomInt64(-3n, 3n, randomUint32Fn, true)
+        expect(value).to.equal(3n)
+      })
+
+      it(`uses a default maximum of ${MAX_SAFE_INT64_INCLUSIVE}`, () => {
+        randomUint32Fn.returns(MAX_SAFE_UINT32_INCLUSIVE)
+        const value = unbiasedRandomInt64(0n, undefined, randomUint32Fn, true)
+        expect(value).to.equal(MAX_SAFE_INT64_INCLUSIVE)
+      })
+
+      it('returns the given minimum when equal to the given maximum', () => {
+        const value = unbiasedRandomInt64(-3n, -3n, randomUint32Fn, true)
+        expect(value).to.equal(-3n)
+      })
+
+      it(`rejects any maximum above ${MAX_SAFE_INT64_INCLUSIVE}`, () => {
+        expect(() =>
+          unbiasedRandomInt64(0n, MAX_SAFE_INT64_EXCLUSIVE, randomUint32Fn, true)
+        ).to.throw()
+      })
+    })
+  })
+
+  describe('.unbiasedRandomSafeInteger()', () => {
+    let randomUint32Fn: SinonStub<void[], number>
+
+    beforeEach(() => {
+      randomUint32Fn = stub().returns(0)
+    })
+
+    it('returns the generated value when within the given range', () => {
+      randomUint32Fn.returns(123)
+      const value = unbiasedRandomSafeInteger(0, 125, randomUint32Fn)
+      expect(value).to.equal(123)
+    })
+
+    it('uses one generated value when the range fits in 32 bits', () => {
+      unbiasedRandomSafeInteger(2 ** 40, 2 ** 40 + 2 ** 32, randomUint32Fn)
+      expect(randomUint32Fn.callCount).to.equal(1)
+    })
+
+    it('uses two generated values when the range exceeds 32 bits', () => {
+      unbiasedRandomSafeInteger(0, 2 ** 32 + 1, randomUint32Fn)
+      expect(randomUint32Fn.callCount).to.equal(2)
+    })
+
+    it('uses the first generated value for the high bits', () => {
+      randomUint32Fn.onFirstCall().returns(3)
+      randomUint32Fn.onSecondCall().returns(5)
+      const value = unbiasedRandomSafeInteger(0, 2 ** 40, randomUint32Fn)
+      expect(value).to.equal(3 * 2 ** 32 + 5)
+    })
+
+    it('offsets the generated value by the given minimum', () => {
+      randomUint32Fn.onFirstCall().returns(3)
+      randomUint32Fn.onSecondCall().returns(5)
+      const value = unbiasedRandomSafeInteger(-(2 ** 40) - 1, 2 ** 40, randomUint32Fn)
+      expect(value).to.equal(-(2 ** 40) - 1 + 3 * 2 ** 32 + 5)
+    })
+
+    it('adjusts the high bits to be within range, when possible', () => {
+      randomUint32Fn.onFirstCall().returns(254)
+      randomUint32Fn.onSecondCall().returns(5)
+      const value = unbiasedRandomSafeInteger(0, 127 * 2 ** 32, randomUint32Fn)
+      expect(value).to.equal(126 * 2 ** 32 + 5)
+    })
+
+    context('when the adjusted value still exceeds the range', () => {
+      beforeEach(() => {
+        randomUint32Fn.onCall(0).returns(255)
+        randomUint32Fn.onCall(1).returns(5)
+        randomUint32Fn.onCall(2).returns(123)
+        randomUint32Fn.onCall(3).returns(5)
+      })
+
+      it('generates another value', () => {
+        unbiasedRandomSafeInteger(0, 127 * 2 ** 32, randomUint32Fn)
+        expect(randomUint32Fn.callCount).to.equal(4)
+      })
+
+      it('uses the next generated value adjustable to the range', () => {
+        const value = unbiasedRandomSafeInteger(0, 127 * 2 ** 32, randomUint32Fn)
+        expect(value).to.equal(123 * 2 ** 32 + 5)
+      })
+    })
+
+    it('rejects a value whose low bits exceed the range', () => {
+      randomUint32Fn.onCall(0).returns(1)
+      randomUint32Fn.onCall(1).returns(1)
+      randomUint32Fn.onCall(2).returns(1)
+      randomUint32Fn.onCall(3).returns(0)
+      const value = unbiasedRandomSafeInteger(0, 2 ** 32 + 1, randomUint32Fn)
+      expect(value).to.equal(2 ** 32)
+    })
+
+    it(`can return the minimum safe integer (${MIN_SAFE_INTEGER_INCLUSIVE})`, () => {
+      const value = unbiasedRandomSafeInteger(
+        MIN_SAFE_INTEGER_INCLUSIVE,
+        MAX_SAFE_INTEGER_EXCLUSIVE,
+        randomUint32Fn
+      )
+      expect(value).to.equal(MIN_SAFE_INTEGER_INCLUSIVE)
+    })
+
+    it(`can return the maximum safe integer (${MAX_SAFE_INTEGER_INCLUSIVE})`, () => {
+      // The largest offset in the range of 2^54 - 1 values.
+      randomUint32Fn.onFirstCall().returns(2 ** 22 - 1)
+      randomUint32Fn.onSecondCall().returns(MAX_SAFE_UINT32_INCLUSIVE - 1)
+      const value = unbiasedRandomSafeInteger(
+        MIN_SAFE_INTEGER_INCLUSIVE,
+        MAX_SAFE_INTEGER_EXCLUSIVE,
+        randomUint32Fn
+      )
+      expect(value).to.equal(MAX_SAFE_INTEGER_INCLUSIVE)
+    })
+
+    context('when the difference between the given minimum and maximum is 1', () => {
+      it('does not call the given generator function', () => {
+        unbiasedRandomSafeInteger(2 ** 40, 2 ** 40 + 1, randomUint32Fn)
+        expect(randomUint32Fn.callCount).to.equal(0)
+      })
+
+      it('returns the given minimum value', () => {
+        const value = unbiasedRandomSafeInteger(2 ** 40, 2 ** 40 + 1, randomUint32Fn)
+        expect(value).to.equal(2 ** 40)
+      })
+    })
+
+    it(`uses ${MIN_SAFE_INTEGER_INCLUSIVE} as the default minimum`, () => {
+      const value = unbiasedRandomSafeInteger(undefined, 0, randomUint32Fn)
+      expect(value).to.equal(MIN_SAFE_INTEGER_INCLUSIVE)
+    })
+
+    it(`uses ${MAX_SAFE_INTEGER_EXCLUSIVE} as the default maximum`, () => {
+      // The largest offset in the range of 2^53 values.
+      randomUint32Fn.onFirstCall().returns(2 ** 21 - 1)
+      randomUint32Fn.onSecondCall().returns(MAX_SAFE_UINT32_INCLUSIVE)
+      const value = unbiasedRandomSafeInteger(0, undefined, randomUint32Fn)
+      expect(value).to.equal(MAX_SAFE_INTEGER_INCLUSIVE)
+    })
+
+    it(`rejects any minimum lower than ${MIN_SAFE_INTEGER_INCLUSIVE}`, () => {
+      expect(() => {
+        unbiasedRandomSafeInteger(MIN_SAFE_INTEGER_INCLUSIVE - 2, 0, randomUint32Fn)
+      }).to.throw()
+    })
+
+    it(`rejects any maximum higher than ${MAX_SAFE_INTEGER_EXCLUSIVE}`, () => {
+      expect(() => {
+        unbiasedRandomSafeInteger(0, MAX_SAFE_INTEGER_EXCLUSIVE + 2, randomUint32Fn)
+      }).to.throw()
+    })
+
+    it('rejects any maximum equal to the given minimum', () => {
+      expect(() => {
+        unbiasedRandomSafeInteger(123, 123, randomUint32Fn)
+      }).to.throw()
+    })
+
+    context('with an inclusive maximum', () => {
+      it('can return the given maximum', () => {
+        randomUint32Fn.returns(5)
+        const value = unbiasedRandomSafeInteger(1, 6, randomUint32Fn, true)
+        expect(value).to.equal(6)
+      })
+
+      it(`uses a default maximum of ${MAX_SAFE_INTEGER_INCLUSIVE}`, () => {
+        randomUint32Fn.returns(MAX_SAFE_UINT32_INCLUSIVE)
+        const value = unbiasedRandomSafeInteger(0, undefined, randomUint32Fn, true)
+        expect(value).to.equal(MAX_SAFE_INTEGER_INCLUSIVE)
+      })
+
+      it('returns the given minimum when equal to the given maximum', () => {
+        const value = unbiasedRandomSafeInteger(5, 5, randomUint32Fn, true)
+        expect(value).to.equal(5)
+      })
+
+      it(`rejects any maximum above ${MAX_SAFE_INTEGER_INCLUSIVE}`, () => {
+        expect(() =>
+          unbiasedRandomSafeInteger(0, MAX_SAFE_INTEGER_EXCLUSIVE, randomUint32Fn, true)
+        ).to.throw()
+      })
+    })
+
+    context('with the lemire strategy', () => {
+      it('returns the high 32 bits of the generated value multiplied by the range', () => {
+        const value = unbiasedRandomSafeInteger(0, 6, () => 0xffffffff, false, 'lemire')
+        expect(value).to.equal(5)
+      })
+    })
   })
 
   describe('.unbiasedRandomUint32()', () => {
@@ -497,5 +1571,188 @@ describe('numbers > unbiased random', () => {
         unbiasedRandomUint32(123, 122, randomUint32Fn)
       }).to.throw()
     })
+
+    context('with an inclusive maximum', () => {
+      it('can return the given maximum', () => {
+        randomUint32Fn.returns(5)
+        const value = unbiasedRandomUint32(1, 6, randomUint32Fn, true)
+        expect(value).to.equal(6)
+      })
+
+      it(`can return ${MAX_SAFE_UINT32_INCLUSIVE} with a given minimum`, () => {
+        randomUint32Fn.returns(MAX_SAFE_UINT32_INCLUSIVE - 1)
+        const value = unbiasedRandomUint32(1, MAX_SAFE_UINT32_INCLUSIVE, randomUint32Fn, true)
+        expect(value).to.equal(MAX_SAFE_UINT32_INCLUSIVE)
+      })
+
+      it(`uses a default maximum of ${MAX_SAFE_UINT32_INCLUSIVE}`, () => {
+        randomUint32Fn.returns(MAX_SAFE_UINT32_INCLUSIVE - 123)
+        const value = unbiasedRandomUint32(123, undefined, randomUint32Fn, true)
+        expect(value).to.equal(MAX_SAFE_UINT32_INCLUSIVE)
+      })
+
+      it('returns the given minimum when equal to the given maximum', () => {
+        const value = unbiasedRandomUint32(5, 5, randomUint32Fn, true)
+        expect(value).to.equal(5)
+      })
+
+      it(`rejects any maximum above ${MAX_SAFE_UINT32_INCLUSIVE}`, () => {
+        expect(() =>
+          unbiasedRandomUint32(0, MAX_SAFE_UINT32_EXCLUSIVE, randomUint32Fn, true)
+        ).to.throw()
+      })
+    })
+
+    context('with the lemire strategy', () => {
+      /*
+       * The generated value is multiplied by the range, as a 64-bit product. For
+       * a range of 6, the threshold for the low 32 bits is 2^32 mod 6 = 4.
+       *
+       *   0x80000000 * 6 = 0x3_00000000, low bits of 0 are below the threshold.
+       *   0x80000001 * 6 = 0x3_00000006, high bits of 3 are the result.
+       *   0xffffffff * 6 = 0x5_fffffffa, high bits of 5 are the result.
+       */
+
+      it('returns the high 32 bits of the generated value multiplied by the range', () => {
+        randomUint32Fn.returns(0x80000001)
+        const value = unbiasedRandomUint32(10, 16, randomUint32Fn, false, 'lemire')
+        expect(value).to.equal(13)
+      })
+
+      it('discards a generated value when the low 32 bits are below the threshold', () => {
+        randomUint32Fn.onFirstCall().returns(0x80000000)
+        randomUint32Fn.onSecondCall().returns(0xffffffff)
+        const value = unbiasedRandomUint32(10, 16, randomUint32Fn, false, 'lemire')
+        expect(value).to.equal(15)
+        expect(randomUint32Fn.callCount).to.equal(2)
+      })
+
+      it('computes the product exactly when it exceeds 2^53', () => {
+        randomUint32Fn.returns(0xffffffff)
+        const value = unbiasedRandomUint32(0, 2 ** 32 - 1, randomUint32Fn, false, 'lemire')
+        expect(value).to.equal(2 ** 32 - 2)
+      })
+
+      it('returns the generated value for the full range', () => {
+        randomUint32Fn.returns(0xfedcba98)
+        const value = unbiasedRandomUint32(0, 2 ** 32, randomUint32Fn, false, 'lemire')
+        expect(value).to.equal(0xfedcba98)
+      })
+
+      it('supports an inclusive maximum', () => {
+        randomUint32Fn.returns(0xffffffff)
+        const value = unbiasedRandomUint32(1, 6, randomUint32Fn, true, 'lemire')
+        expect(value).to.equal(6)
+      })
+
+      it('discards fewer values than the bitmask strategy above a power of two', () => {
+        const lemireFn = sequenceFn()
+        const bitmaskFn = sequenceFn()
+        const lemireSpy = stub().callsFake(lemireFn)
+        const bitmaskSpy = stub().callsFake(bitmaskFn)
+
+        for (let i = 0; i < 100; i++) {
+          unbiasedRandomUint32(0, 2 ** 16 + 1, lemireSpy, false, 'lemire')
+          unbiasedRandomUint32(0, 2 ** 16 + 1, bitmaskSpy, false, 'bitmask')
+        }
+
+        expect(lemireSpy.callCount).to.equal(100)
+        expect(bitmaskSpy.callCount).to.be.greaterThan(150)
+      })
+    })
+  })
+
+  describe('.unbiasedRandomUint64()', () => {
+    let randomUint32Fn: SinonStub<void[], number>
+
+    beforeEach(() => {
+      randomUint32Fn = stub().returns(0)
+    })
+
+    it('composes one unsigned 64-bit integer from two generated uint32 values', () => {
+      randomUint32Fn.onFirstCall().returns(1)
+      randomUint32Fn.onSecondCall().returns(2)
+      const value = unbiasedRandomUint64(undefined, undefined, randomUint32Fn)
+      expect(value).to.equal(2n ** 32n + 2n)
+    })
+
+    it('offsets the generated value by the given minimum', () => {
+      const value = unbiasedRandomUint64(2n ** 40n, 2n ** 48n, randomUint32Fn)
+      expect(value).to.equal(2n ** 40n)
+    })
+
+    it('uses one generated value when the range fits in 32 bits', () => {
+      randomUint32Fn.returns(254)
+      const value = unbiasedRandomUint64(2n ** 40n, 2n ** 40n + 127n, randomUint32Fn)
+      expect(randomUint32Fn.callCount).to.equal(1)
+      expect(value).to.equal(2n ** 40n + 126n)
+    })
+
+    it(`can return the maximum unsigned 64-bit integer (${MAX_SAFE_UINT64_INCLUSIVE})`, () => {
+      randomUint32Fn.returns(MAX_SAFE_UINT32_INCLUSIVE)
+      const value = unbiasedRandomUint64(
+        MIN_SAFE_UINT64_INCLUSIVE,
+        MAX_SAFE_UINT64_EXCLUSIVE,
+        randomUint32Fn
+      )
+      expect(value).to.equal(MAX_SAFE_UINT64_INCLUSIVE)
+    })
+
+    it(`uses ${MIN_SAFE_UINT64_INCLUSIVE} as the default minimum`, () => {
+      const value = unbiasedRandomUint64(undefined, 2n ** 48n, randomUint32Fn)
+      expect(value).to.equal(MIN_SAFE_UINT64_INCLUSIVE)
+    })
+
+    it(`uses ${MAX_SAFE_UINT64_EXCLUSIVE} as the default maximum`, () => {
+      // The largest value in the range of 2^64 - 2^48 values (as uint64).
+      randomUint32Fn.onFirstCall().returns(0xfffeffff)
+      randomUint32Fn.onSecondCall().returns(MAX_SAFE_UINT32_INCLUSIVE)
+      const value = unbiasedRandomUint64(2n ** 48n, undefined, randomUint32Fn)
+      expect(value).to.equal(MAX_SAFE_UINT64_INCLUSIVE)
+    })
+
+    it(`rejects any minimum lower than ${MIN_SAFE_UINT64_INCLUSIVE}`, () => {
+      expect(() => {
+        unbiasedRandomUint64(-1n, 2n ** 48n, randomUint32Fn)
+      }).to.throw()
+    })
+
+    it(`rejects any maximum higher than ${MAX_SAFE_UINT64_EXCLUSIVE}`, () => {
+      expect(() => {
+        unbiasedRandomUint64(0n, MAX_SAFE_UINT64_EXCLUSIVE + 1n, randomUint32Fn)
+      }).to.throw()
+    })
+
+    it('rejects any maximum equal to the given minimum', () => {
+      expect(() => {
+        unbiasedRandomUint64(123n, 123n, randomUint32Fn)
+      }).to.throw()
+    })
+
+    context('with an inclusive maximum', () => {
+      it('can return the given maximum', () => {
+        randomUint32Fn.returns(5)
+        const value = unbiasedRandomUint64(1n, 6n, randomUint32Fn, true)
+        expect(value).to.equal(6n)
+      })
+
+      it(`can return ${MAX_SAFE_UINT64_INCLUSIVE} with a given minimum`, () => {
+        randomUint32Fn.onFirstCall().returns(MAX_SAFE_UINT32_INCLUSIVE)
+        randomUint32Fn.onSecondCall().returns(MAX_SAFE_UINT32_INCLUSIVE - 1)
+        const value = unbiasedRandomUint64(1n, MAX_SAFE_UINT64_INCLUSIVE, randomUint32Fn, true)
+        expect(value).to.equal(MAX_SAFE_UINT64_INCLUSIVE)
+      })
+
+      it('returns the given minimum when equal to the given maximum', () => {
+        const value = unbiasedRandomUint64(5n, 5n, randomUint32Fn, true)
+        expect(value).to.equal(5n)
+      })
+
+      it(`rejects any maximum above ${MAX_SAFE_UINT64_INCLUSIVE}`, () => {
+        expect(() =>
+          unbiasedRandomUint64(0n, MAX_SAFE_UINT64_EXCLUSIVE, randomUint32Fn, true)
+        ).to.throw()
+      })
+    })
   })
 })
@@ -1,54 +1,651 @@
 import {
+  MAX_SAFE_FLOAT32_EXCLUSIVE,
+  MAX_SAFE_FLOAT32_INCLUSIVE,
+  MAX_SAFE_FLOAT64_EXCLUSIVE,
+  MAX_SAFE_FLOAT64_INCLUSIVE,
   MAX_SAFE_FRACT32_EXCLUSIVE,
+  MAX_SAFE_FRACT32_INCLUSIVE,
   MAX_SAFE_INT32_EXCLUSIVE,
+  MAX_SAFE_INT32_INCLUSIVE,
+  MAX_SAFE_INT64_EXCLUSIVE,
+  MAX_SAFE_INT64_INCLUSIVE,
+  MAX_SAFE_INTEGER_EXCLUSIVE,
+  MAX_SAFE_INTEGER_INCLUSIVE,
+  MAX_SAFE_UINT24_EXCLUSIVE,
   MAX_SAFE_UINT32_EXCLUSIVE,
+  MAX_SAFE_UINT32_INCLUSIVE,
+  MAX_SAFE_UINT53_EXCLUSIVE,
+  MAX_SAFE_UINT53_INCLUSIVE,
+  MAX_SAFE_UINT64_EXCLUSIVE,
+  MAX_SAFE_UINT64_INCLUSIVE,
+  MIN_SAFE_FLOAT32_INCLUSIVE,
+  MIN_SAFE_FLOAT64_INCLUSIVE,
   MIN_SAFE_FRACT32_INCLUSIVE,
   MIN_SAFE_INT32_INCLUSIVE,
+  MIN_SAFE_INT64_INCLUSIVE,
+  MIN_SAFE_INTEGER_INCLUSIVE,
   MIN_SAFE_UINT32_INCLUSIVE,
+  MIN_SAFE_UINT64_INCLUSIVE,
+  assertSafeProbability,
+  assertSafeRangeBigInt,
+  assertSafeRangeFloat,
+  assertSafeRangeFloat32,
+  assertSafeRangeFloat64,
   assertSafeRangeFract32,
   assertSafeRangeInt32,
+  assertSafeRangeInt64,
+  assertSafeRangeSafeInteger,
   assertSafeRangeUint32,
+  assertSafeRangeUint64,
+  assertSafeRationalProbability,
   bitwiseFract32ToUint32,
-  bitwiseUint32ToFract32
+  bitwiseUint24ToFloat32,
+  bitwiseUint32PairToUint53,
+  bitwiseUint32PairToUint64,
+  bitwiseUint32ToFract32,
+  bitwiseUint53ToFloat64,
+  bitwiseUint64ToInt64
 } from '../shared'
+import {RangeOptions, RangeStrategy} from './types'
+
+// Shared by calls without a range, which are the most frequent.
+const UNBOUNDED_RANGE: RangeOptions<never> = Object.freeze({
+  min: undefined,
+  max: undefined,
+  inclusive: false
+})
+
+export function fillRandomBytes(array: Uint8Array, randomUint32Fn: () => number): Uint8Array {
+  const wholeLength = array.length - (array.length % 4)
+
+  // Bytes of each value are written most-significant first.
+  for (let i = 0; i < wholeLength; i += 4) {
+    const value = randomUint32Fn()
+    array[i] = value >>> 24
+    array[i + 1] = value >>> 16
+    array[i + 2] = value >>> 8
+    array[i + 3] = value
+  }
+
+  if (wholeLength < array.length) {
+    // Any bytes of the final value beyond the end of the array are discarded.
+    const value = randomUint32Fn()
+
+    for (let i = wholeLength; i < array.length; i++) {
+      array[i] = value >>> (24 - 8 * (i - wholeLength))
+    }
+  }
+
+  return array
+}
+
+export function fillUnbiasedRandomFloat32(
+  array: Float32Array,
+  minInclusive: number | undefined,
+  max: number | undefined,
+  randomUint32Fn: () => number,
+  inclusive: boolean = false,
+  strategy: RangeStrategy = 'bitmask'
+): Float32Array {
+  return fillFromSampler(
+    array,
+    float32Sampler(minInclusive, max, randomUint32Fn, inclusive, strategy)
+  )
+}
+
+export function fillUnbiasedRandomFloat64(
+  array: Float64Array,
+  minInclusive: number | undefined,
+  max: number | undefined,
+  randomUint32Fn: () => number,
+  inclusive: boolean = false,
+  strategy: RangeStrategy = 'bitmask'
+): Float64Array {
+  return fillFromSampler(
+    array,
+    float64Sampler(minInclusive, max, randomUint32Fn, inclusive, strategy)
+  )
+}
+
+export function fillUnbiasedRandomInt32(
+  array: Int32Array,
+  minInclusive: number | undefined,
+  max: number | undefined,
+  randomInt32Fn: () => number,
+  inclusive: boolean = false,
+  strategy: RangeStrategy = 'bitmask'
+): Int32Array {
+  return fillFromSampler(array, int32Sampler(minInclusive, max, randomInt32Fn, inclusive, strategy))
+}
+
+export function fillUnbiasedRandomUint32(
+  array: Uint32Array,
+  minInclusive: number | undefined,
+  max: number | undefined,
+  randomUint32Fn: () => number,
+  inclusive: boolean = false,
+  strategy: RangeStrategy = 'bitmask'
+): Uint32Array {
+  return fillFromSampler(
+    array,
+    uint32Sampler(minInclusive, max, randomUint32Fn, inclusive, strategy)
+  )
+}
+
+export function unbiasedRandomBigInt(
+  minInclusive: bigint,
+  maxExclusive: bigint,
+  randomUint32Fn: () => number
+): bigint {
+  assertSafeRangeBigInt(minInclusive, maxExclusive)
+
+  return minInclusive + unbiasedRandomBigIntFromRange(maxExclusive - minInclusive, randomUint32Fn)
+}
+
+export function unbiasedRandomBoolean(probability: number, randomUint32Fn: () => number): boolean {
+  assertSafeProbability(probability)
+
+  if (probability === 1) {
+    return true
+  }
+
+  let remainder = probability
+
+  /*
+   * Every number is a binary fraction, so each of its bits can be found by
+   * doubling the remainder. Both operations are exact for any number in the
+   * range of [0, 1), and the remainder becomes 0 once its bits are exhausted.
+   */
+  return randomFractionBelow(() => {
+    if (remainder === 0) {
+      return null
+    }
+
+    remainder *= 2
+    const bit = remainder >= 1 ? 1 : 0
+    remainder -= bit
+
+    return bit
+  }, randomUint32Fn)
+}
+
+export function unbiasedRandomBooleanRational(
+  numerator: number,
+  denominator: number,
+  randomUint32Fn: () => number
+): boolean {
+  assertSafeRationalProbability(numerator, denominator)
+
+  if (numerator === denominator) {
+    return true
+  }
+
+  let remainder = numerator
+
+  /*
+   * Bits of the fraction are found by long division. The remainder is always
+   * less than the denominator, so doubling it and subtracting the denominator
+   * are exact for any safe integer denominator.
+   */
+  return randomFractionBelow(() => {
+    if (remainder === 0) {
+      return null
+    }
+
+    remainder *= 2
+    const bit = remainder >= denominator ? 1 : 0
+    remainder -= bit * denominator
+
+    return bit
+  }, randomUint32Fn)
+}
+
+export function unbiasedRandomFloat(
+  minInclusive: number,
+  maxExclusive: number,
+  randomUint32Fn: () => number
+): number {
+  assertSafeRangeFloat(minInclusive, maxExclusive)
+
+  let value = minInclusive
+
+  do {
+    const fraction = bitwiseUint53ToFloat64(
+      bitwiseUint32PairToUint53(randomUint32Fn(), randomUint32Fn())
+    )
+    value = scaleFractionToRange(fraction, minInclusive, maxExclusive)
+
+    /*
+     * Scaling a fraction below 1 can still round up to the maximum when the
+     * range is wide relative to the precision available near the maximum.
+     * Replacing such a value with the next-lower number would make that number
+     * more likely than others. Instead, discard it and generate another.
+     */
+  } while (value >= maxExclusive)
+
+  return value
+}
+
+export function unbiasedRandomFloatInclusive(
+  minInclusive: number,
+  maxInclusive: number,
+  randomUint32Fn: () => number
+): number {
+  assertSafeRangeFloat(minInclusive, maxInclusive, true)
+
+  if (minInclusive === maxInclusive) {
+    return minInclusive
+  }
+
+  let value = minInclusive
+
+  do {
+    // Dividing by the largest 53-bit integer allows for a fraction of exactly 1.
+    const fraction =
+      bitwiseUint32PairToUint53(randomUint32Fn(), randomUint32Fn()) / MAX_SAFE_UINT53_INCLUSIVE
+    value = scaleFractionToRange(fraction, minInclusive, maxInclusive)
+
+    // As above, discard any value which has been rounded beyond the maximum.
+  } while (value > maxInclusive)
+
+  return value
+}
+
+export function unbiasedRandomFloat64(
+  minInclusive: number | undefined,
+  max: number | undefined,
+  randomUint32Fn: () => number,
+  inclusive: boolean = false,
+  strategy: RangeStrategy = 'bitmask'
+): number {
+  return float64Sampler(minInclusive, max, randomUint32Fn, inclusive, strategy)()
+}
 
 export function unbiasedRandomFract32(
   minInclusive: number | undefined,
-  maxExclusive: number | undefined,
-  randomFract32Fn: () => number
+  max: number | undefined,
+  randomFract32Fn: () => number,
+  inclusive: boolean = false,
+  strategy: RangeStrategy = 'bitmask'
 ): number {
-  if (minInclusive == null && maxExclusive == null) {
+  if (minInclusive == null && max == null) {
     return randomFract32Fn()
   }
 
   const min = minInclusive ?? MIN_SAFE_FRACT32_INCLUSIVE
-  const max = maxExclusive ?? MAX_SAFE_FRACT32_EXCLUSIVE
+  const maxValue = max ?? (inclusive ? MAX_SAFE_FRACT32_INCLUSIVE : MAX_SAFE_FRACT32_EXCLUSIVE)
 
-  assertSafeRangeFract32(min, max)
+  assertSafeRangeFract32(min, maxValue, inclusive)
 
   const minUint32 = bitwiseFract32ToUint32(min)
-  const maxUint32 =
-    max === MAX_SAFE_FRACT32_EXCLUSIVE ? MAX_SAFE_UINT32_EXCLUSIVE : bitwiseFract32ToUint32(max)
+  let maxUint32 = bitwiseFract32ToUint32(maxValue)
+
+  if (inclusive) {
+    // An inclusive maximum is made exclusive by including the next fraction.
+    maxUint32 += 1
+  } else if (maxValue === MAX_SAFE_FRACT32_EXCLUSIVE) {
+    maxUint32 = MAX_SAFE_UINT32_EXCLUSIVE
+  }
   const randomUint32Fn = () => bitwiseFract32ToUint32(randomFract32Fn())
 
-  const result = unbiasedRandomUint32FromRange(maxUint32 - minUint32, randomUint32Fn)
+  const result = unbiasedRandomUint32FromRange(maxUint32 - minUint32, randomUint32Fn, strategy)
 
   return min + bitwiseUint32ToFract32(result)
 }
 
 export function unbiasedRandomInt32(
   minInclusive: number | undefined,
-  maxExclusive: number | undefined,
-  randomInt32Fn: () => number
+  max: number | undefined,
+  randomInt32Fn: () => number,
+  inclusive: boolean = false,
+  strategy: RangeStrategy = 'bitmask'
+): number {
+  return int32Sampler(minInclusive, max, randomInt32Fn, inclusive, strategy)()
+}
+
+export function unbiasedRandomInt64(
+  minInclusive: bigint | undefined,
+  max: bigint | undefined,
+  randomUint32Fn: () => number,
+  inclusive: boolean = false
+): bigint {
+  if (minInclusive == null && max == null) {
+    return bitwiseUint64ToInt64(bitwiseUint32PairToUint64(randomUint32Fn(), randomUint32Fn()))
+  }
+
+  const min = minInclusive ?? MIN_SAFE_INT64_INCLUSIVE
+  const maxValue = max ?? (inclusive ? MAX_SAFE_INT64_INCLUSIVE : MAX_SAFE_INT64_EXCLUSIVE)
+
+  assertSafeRangeInt64(min, maxValue, inclusive)
+
+  /*
+   * Unlike with int32 values, the range does not need to be shifted into
+   * unsigned values, as BigInt arithmetic is exact for negative numbers.
+   */
+  const range = maxValue - min + (inclusive ? 1n : 0n)
+
+  return min + unbiasedRandomBigIntFromRange(range, randomUint32Fn)
+}
+
+export function unbiasedRandomSafeInteger(
+  minInclusive: number | undefined,
+  max: number | undefined,
+  randomUint32Fn: () => number,
+  inclusive: boolean = false,
+  strategy: RangeStrategy = 'bitmask'
+): number {
+  const min = Math.floor(minInclusive ?? MIN_SAFE_INTEGER_INCLUSIVE)
+  const maxValue = Math.floor(
+    max ?? (inclusive ? MAX_SAFE_INTEGER_INCLUSIVE : MAX_SAFE_INTEGER_EXCLUSIVE)
+  )
+
+  assertSafeRangeSafeInteger(min, maxValue, inclusive)
+
+  /*
+   * The full range of safe integers spans nearly 2^54 values, which cannot all
+   * be represented in a JavaScript number. To keep every operation exact, each
+   * bound is split into a high and low 32-bit word, and the largest allowed
+   * offset from the minimum is derived from those words:
+   *
+   *   1. Split the minimum and maximum into words (no loss in fidelity).
+   *   2. Subtract word by word, borrowing from the high word as necessary.
+   *   3. Generate an offset no greater than that largest allowed offset.
+   *   4. Add the offset to the minimum, again word by word.
+   */
+  const minHigh = Math.floor(min / MAX_SAFE_UINT32_EXCLUSIVE)
+  const minLow = min - minHigh * MAX_SAFE_UINT32_EXCLUSIVE
+  const maxHigh = Math.floor(maxValue / MAX_SAFE_UINT32_EXCLUSIVE)
+  const maxLow = maxValue - maxHigh * MAX_SAFE_UINT32_EXCLUSIVE
+
+  // Subtract 1 from an exclusive maximum for the largest allowed offset.
+  let offsetHigh = maxHigh - minHigh
+  let offsetLow = maxLow - minLow - (inclusive ? 0 : 1)
+
+  if (offsetLow < 0) {
+    offsetHigh -= 1
+    offsetLow += MAX_SAFE_UINT32_EXCLUSIVE
+  }
+
+  let resultHigh = 0
+  let resultLow = 0
+
+  if (offsetHigh === 0) {
+    // Offsets representable with 32 bits need only one generated value each.
+    resultLow = unbiasedRandomUint32FromRange(offsetLow + 1, randomUint32Fn, strategy)
+  } else {
+    /*
+     * The high word is masked in the same manner as within
+     * `unbiasedRandomUint32FromRange`. Every bit of the low word is relevant,
+     * so the low word is used as-is. When the combined words exceed the
+     * largest allowed offset, both are discarded and generated again.
+     */
+    let mask = 0
+    let temp = offsetHigh
+
+    while (temp > 0) {
+      mask = (mask << 1) | 1
+      temp = temp >>> 1
+    }
+
+    do {
+      resultHigh = (randomUint32Fn() & mask) >>> 0
+      resultLow = randomUint32Fn() >>> 0
+    } while (resultHigh > offsetHigh || (resultHigh === offsetHigh && resultLow > offsetLow))
+  }
+
+  return (minHigh + resultHigh) * MAX_SAFE_UINT32_EXCLUSIVE + (minLow + resultLow)
+}
+
+export function unbiasedRandomUint32(
+  minInclusive: number | undefined,
+  max: number | undefined,
+  randomUint32Fn: () => number,
+  inclusive: boolean = false,
+  strategy: RangeStrategy = 'bitmask'
+): number {
+  return uint32Sampler(minInclusive, max, randomUint32Fn, inclusive, strategy)()
+}
+
+export function unbiasedRandomUint64(
+  minInclusive: bigint | undefined,
+  max: bigint | undefined,
+  randomUint32Fn: () => number,
+  inclusive: boolean = false
+): bigint {
+  if (minInclusive == null && max == null) {
+    return bitwiseUint32PairToUint64(randomUint32Fn(), randomUint32Fn())
+  }
+
+  const min = minInclusive ?? MIN_SAFE_UINT64_INCLUSIVE
+  const maxValue = max ?? (inclusive ? MAX_SAFE_UINT64_INCLUSIVE : MAX_SAFE_UINT64_EXCLUSIVE)
+
+  assertSafeRangeUint64(min, maxValue, inclusive)
+
+  const range = maxValue - min + (inclusive ? 1n : 0n)
+
+  return min + unbiasedRandomBigIntFromRange(range, randomUint32Fn)
+}
+
+export function unbiasedRandomUint32FromRange(
+  range: number,
+  randomUint32Fn: () => number,
+  strategy: RangeStrategy = 'bitmask'
 ): number {
-  if (minInclusive == null && maxExclusive == null) {
-    return randomInt32Fn()
+  return uint32RangeSampler(range, randomUint32Fn, strategy)()
+}
+
+export function unbiasedRandomUint53FromRange(
+  range: number,
+  randomUint32Fn: () => number,
+  strategy: RangeStrategy = 'bitmask'
+): number {
+  return uint53RangeSampler(range, randomUint32Fn, strategy)()
+}
+
+export function unbiasedRandomBigIntFromRange(range: bigint, randomUint32Fn: () => number): bigint {
+  // A range of 1 can only result in the given minimum value.
+  if (range === 1n) {
+    return 0n
+  }
+
+  /*
+   * This generalizes the mask-and-reject approach of
+   * `unbiasedRandomUint32FromRange` to values of any size. Each candidate value
+   * is composed of as many 32-bit words as are needed to represent the largest
+   * allowed value, most-significant word first. Only the most-significant word
+   * is masked, since every bit of the lesser words is relevant.
+   */
+  const bitCount = (range - 1n).toString(2).length
+  const wordCount = Math.ceil(bitCount / 32)
+  const highBitCount = bitCount - 32 * (wordCount - 1)
+  const highMask = highBitCount === 32 ? 0xffffffff : 2 ** highBitCount - 1
+
+  let randomValue = 0n
+
+  do {
+    randomValue = BigInt((randomUint32Fn() & highMask) >>> 0)
+
+    for (let i = 1; i < wordCount; i++) {
+      randomValue = (randomValue << 32n) | BigInt(randomUint32Fn() >>> 0)
+    }
+
+    // As with 32-bit values, discard any value which exceeds the range.
+  } while (randomValue >= range)
+
+  return randomValue
+}
+
+export function resolveRangeOptions<T extends bigint | number>(
+  minOrOptions: T | RangeOptions<T> | undefined,
+  maxExclusive: T | undefined
+): RangeOptions<T> {
+  if (minOrOptions == null && maxExclusive == null) {
+    return UNBOUNDED_RANGE
+  }
+
+  if (typeof minOrOptions === 'object') {
+    if (maxExclusive != null) {
+      throw new Error('Maximum value must be given within the range options.')
+    }
+
+    return minOrOptions
+  }
+
+  return {min: minOrOptions, max: maxExclusive, inclusive: false}
+}
+
+function scaleFractionToRange(fraction: number, min: number, max: number): number {
+  const range = max - min
+
+  if (Number.isFinite(range)) {
+    return min + fraction * range
+  }
+
+  /*
+   * The difference between two finite numbers can exceed the largest finite
+   * number (e.g. `-Number.MAX_VALUE` to `Number.MAX_VALUE`). Halving both bounds
+   * keeps the intermediate values finite without affecting the proportions.
+   */
+  return 2 * (min / 2 + fraction * (max / 2 - min / 2))
+}
+
+/*
+ * Compares a random decimal fraction against the given fraction, one bit at a
+ * time from the most-significant bit. The first differing bit decides which is
+ * less, so random bits are only consumed as needed, and on average no more than
+ * two are needed. Once the given fraction has no remaining bits (`null`), the
+ * random fraction cannot be less than it.
+ */
+function randomFractionBelow(
+  nextFractionBit: () => number | null,
+  randomUint32Fn: () => number
+): boolean {
+  let uint32 = 0
+  let bitsRemaining = 0
+  let fractionBit = nextFractionBit()
+
+  while (fractionBit != null) {
+    if (bitsRemaining === 0) {
+      uint32 = randomUint32Fn()
+      bitsRemaining = 32
+    }
+
+    bitsRemaining--
+    const randomBit = (uint32 >>> bitsRemaining) & 1
+
+    if (randomBit !== fractionBit) {
+      return randomBit < fractionBit
+    }
+
+    fractionBit = nextFractionBit()
+  }
+
+  return false
+}
+
+/*
+ * Each sampler validates its range and derives any values needed for
+ * generation once, then returns a function which generates one value per call.
+ * This allows filling arrays without repeating that work for every value.
+ */
+
+function fillFromSampler<T extends Float32Array | Float64Array | Int32Array | Uint32Array>(
+  array: T,
+  sample: () => number
+): T {
+  for (let i = 0; i < array.length; i++) {
+    array[i] = sample()
+  }
+
+  return array
+}
+
+function float32Sampler(
+  minInclusive: number | undefined,
+  max: number | undefined,
+  randomUint32Fn: () => number,
+  inclusive: boolean,
+  strategy: RangeStrategy
+): () => number {
+  if (minInclusive == null && max == null) {
+    // Keep the 24 most-significant bits, the precision of a 32-bit float.
+    return () => bitwiseUint24ToFloat32(randomUint32Fn() >>> 8)
+  }
+
+  const min = minInclusive ?? MIN_SAFE_FLOAT32_INCLUSIVE
+  const maxValue = max ?? (inclusive ? MAX_SAFE_FLOAT32_INCLUSIVE : MAX_SAFE_FLOAT32_EXCLUSIVE)
+
+  assertSafeRangeFloat32(min, maxValue, inclusive)
+
+  // The bounds are rounded in the same manner as for 53-bit decimal fractions.
+  const minUint24 = Math.ceil(min * MAX_SAFE_UINT24_EXCLUSIVE)
+  const maxUint24 = inclusive
+    ? Math.floor(maxValue * MAX_SAFE_UINT24_EXCLUSIVE) + 1
+    : Math.ceil(maxValue * MAX_SAFE_UINT24_EXCLUSIVE)
+
+  if (maxUint24 <= minUint24) {
+    throw new Error('Range must include at least one 24-bit decimal fraction.')
+  }
+
+  const sampleUint24 = uint32RangeSampler(maxUint24 - minUint24, randomUint32Fn, strategy)
+
+  return () => bitwiseUint24ToFloat32(minUint24 + sampleUint24())
+}
+
+function float64Sampler(
+  minInclusive: number | undefined,
+  max: number | undefined,
+  randomUint32Fn: () => number,
+  inclusive: boolean,
+  strategy: RangeStrategy
+): () => number {
+  if (minInclusive == null && max == null) {
+    return () =>
+      bitwiseUint53ToFloat64(bitwiseUint32PairToUint53(randomUint32Fn(), randomUint32Fn()))
+  }
+
+  const min = minInclusive ?? MIN_SAFE_FLOAT64_INCLUSIVE
+  const maxValue = max ?? (inclusive ? MAX_SAFE_FLOAT64_INCLUSIVE : MAX_SAFE_FLOAT64_EXCLUSIVE)
+
+  assertSafeRangeFloat64(min, maxValue, inclusive)
+
+  /*
+   * Every possible result is a multiple of 2^-53. Scaling the bounds by 2^53 is
+   * exact, so rounding each of them up to an integer yields the first allowed
+   * multiple (inclusive) and the first disallowed multiple (exclusive). An
+   * inclusive maximum is instead rounded down to the last allowed multiple,
+   * which is followed by the first disallowed one. The result is then derived
+   * from integer math alone and cannot be rounded beyond the given maximum.
+   */
+  const minUint53 = Math.ceil(min * MAX_SAFE_UINT53_EXCLUSIVE)
+  const maxUint53 = inclusive
+    ? Math.floor(maxValue * MAX_SAFE_UINT53_EXCLUSIVE) + 1
+    : Math.ceil(maxValue * MAX_SAFE_UINT53_EXCLUSIVE)
+
+  if (maxUint53 <= minUint53) {
+    throw new Error('Range must include at least one 53-bit decimal fraction.')
+  }
+
+  const sampleUint53 = uint53RangeSampler(maxUint53 - minUint53, randomUint32Fn, strategy)
+
+  return () => bitwiseUint53ToFloat64(minUint53 + sampleUint53())
+}
+
+function int32Sampler(
+  minInclusive: number | undefined,
+  max: number | undefined,
+  randomInt32Fn: () => number,
+  inclusive: boolean,
+  strategy: RangeStrategy
+): () => number {
+  if (minInclusive == null && max == null) {
+    return randomInt32Fn
   }
 
   const min = minInclusive ?? MIN_SAFE_INT32_INCLUSIVE
-  const max = maxExclusive ?? MAX_SAFE_INT32_EXCLUSIVE
+  const maxValue = max ?? (inclusive ? MAX_SAFE_INT32_INCLUSIVE : MAX_SAFE_INT32_EXCLUSIVE)
 
-  assertSafeRangeInt32(min, max)
+  assertSafeRangeInt32(min, maxValue, inclusive)
 
   /*
    * Doing range comparisons with int32 values is complicated, as a range across
@@ -67,40 +664,52 @@ export function unbiasedRandomInt32(
   const rangeShift = 2 ** 31
 
   const minUint32 = min + rangeShift
-  const maxUint32 = max + rangeShift
+  // An inclusive maximum is made exclusive by including the next integer.
+  const maxUint32 = maxValue + rangeShift + (inclusive ? 1 : 0)
   const randomUint32Fn = () => randomInt32Fn() + rangeShift
 
-  const result = unbiasedRandomUint32FromRange(maxUint32 - minUint32, randomUint32Fn)
+  const sampleUint32 = uint32RangeSampler(maxUint32 - minUint32, randomUint32Fn, strategy)
 
-  return (min + result) | 0
+  return () => (min + sampleUint32()) | 0
 }
 
-export function unbiasedRandomUint32(
+function uint32Sampler(
   minInclusive: number | undefined,
-  maxExclusive: number | undefined,
-  randomUint32Fn: () => number
-): number {
-  if (minInclusive == null && maxExclusive == null) {
-    return randomUint32Fn()
+  max: number | undefined,
+  randomUint32Fn: () => number,
+  inclusive: boolean,
+  strategy: RangeStrategy
+): () => number {
+  if (minInclusive == null && max == null) {
+    return randomUint32Fn
   }
 
   const min = minInclusive ?? MIN_SAFE_UINT32_INCLUSIVE
-  const max = maxExclusive ?? MAX_SAFE_UINT32_EXCLUSIVE
+  const maxValue = max ?? (inclusive ? MAX_SAFE_UINT32_INCLUSIVE : MAX_SAFE_UINT32_EXCLUSIVE)
 
-  assertSafeRangeUint32(min, max)
+  assertSafeRangeUint32(min, maxValue, inclusive)
 
   const rangeMin = Math.floor(min)
-  const rangeMax = Math.floor(max)
+  // An inclusive maximum is made exclusive by including the next integer.
+  const rangeMax = Math.floor(maxValue) + (inclusive ? 1 : 0)
 
-  const value = unbiasedRandomUint32FromRange(rangeMax - rangeMin, randomUint32Fn)
+  const sampleUint32 = uint32RangeSampler(rangeMax - rangeMin, randomUint32Fn, strategy)
 
-  return rangeMin + value
+  return () => rangeMin + sampleUint32()
 }
 
-export function unbiasedRandomUint32FromRange(range: number, randomUint32Fn: () => number): number {
+function uint32RangeSampler(
+  range: number,
+  randomUint32Fn: () => number,
+  strategy: RangeStrategy
+): () => number {
   // A range of 1 can only result in the given minimum value.
   if (range === 1) {
-    return 0
+    return () => 0
+  }
+
+  if (strategy === 'lemire') {
+    return uint32MultiplyShiftSampler(range, randomUint32Fn)
   }
 
   /*
@@ -149,21 +758,99 @@ export function unbiasedRandomUint32FromRange(range: number, randomUint32Fn: ()
   // Ensure the mask is an unsigned 32-bit integer.
   mask = mask >>> 0
 
-  let randomValue = 0
+  return () => {
+    let randomValue = 0
 
-  do {
-    const value = randomUint32Fn()
-    // Apply the mask and ensure the value is an unsigned 32-bit integer.
-    randomValue = (value & mask) >>> 0
+    do {
+      const value = randomUint32Fn()
+      // Apply the mask and ensure the value is an unsigned 32-bit integer.
+      randomValue = (value & mask) >>> 0
+
+      /*
+       * When the resulting value is not within the given range, discard it. Using
+       * additional operations like modulo to further restrict this value would
+       * introduce bias in the randomness of values returned from this function.
+       * Instead, simply repeat this block of operations until an acceptable value
+       * is derived.
+       */
+    } while (randomValue >= range)
+
+    return randomValue
+  }
+}
+
+function uint32MultiplyShiftSampler(range: number, randomUint32Fn: () => number): () => number {
+  /*
+   * This implements Daniel Lemire's nearly-divisionless method, described in
+   * "Fast Random Integer Generation in an Interval":
+   *   https://arxiv.org/abs/1805.10941
+   *
+   * The generated value is multiplied by the range, resulting in a 64-bit
+   * product. The high 32 bits of the product are a value within the range, and
+   * the low 32 bits identify where the generated value fell among the values
+   * which map to that same result. For the first `threshold` of those low
+   * values, some results would be more likely than others. Any value in that
+   * portion is discarded and generated again.
+   *
+   * The threshold is `2^32 mod range`, computed once for the sampler, so each
+   * value requires no division. At most half of all generated values are
+   * discarded, and far fewer for ranges which are small relative to 2^32.
+   */
+  const threshold = (MAX_SAFE_UINT32_EXCLUSIVE - range) % range
+
+  return () => {
+    let value = 0
+    let productLow = 0
+
+    do {
+      value = randomUint32Fn() >>> 0
+      // `Math.imul` returns the low 32 bits of the product, as a signed integer.
+      productLow = Math.imul(value, range) >>> 0
+    } while (productLow < threshold)
 
     /*
-     * When the resulting value is not within the given range, discard it. Using
-     * additional operations like modulo to further restrict this value would
-     * introduce bias in the randomness of values returned from this function.
-     * Instead, simply repeat this block of operations until an acceptable value
-     * is derived.
+     * The full product can exceed 2^53, where numbers lose precision. Splitting
+     * the generated value into 16-bit halves keeps each partial product exact.
      */
-  } while (randomValue >= range)
+    const valueHigh = value >>> 16
+    const valueLow = value & 0xffff
 
-  return randomValue
+    return Math.floor((valueHigh * range + Math.floor((valueLow * range) / 0x10000)) / 0x10000)
+  }
+}
+
+function uint53RangeSampler(
+  range: number,
+  randomUint32Fn: () => number,
+  strategy: RangeStrategy
+): () => number {
+  // Ranges representable with 32 bits need only one generated value each.
+  if (range <= MAX_SAFE_UINT32_EXCLUSIVE) {
+    return uint32RangeSampler(range, randomUint32Fn, strategy)
+  }
+
+  /*
+   * This follows the same mask-and-reject approach as
+   * `unbiasedRandomUint32FromRange`, using two generated values for each
+   * candidate. Bitwise operators in JavaScript are limited to 32 bits, so the
+   * mask is instead applied with a power of two as the modulus, which is exact
+   * for all integers up to 2^53.
+   */
+  let bitCount = 32
+  while (2 ** bitCount < range) {
+    bitCount++
+  }
+
+  const modulus = 2 ** bitCount
+
+  return () => {
+    let randomValue = 0
+
+    do {
+      const value = bitwiseUint32PairToUint53(randomUint32Fn(), randomUint32Fn())
+      randomValue = value % modulus
+    } while (randomValue >= range)
+
+    return randomValue
+  }
 }
@@ -1,17 +1,279 @@
 import {expect} from 'chai'
 
-import {assertSafeRangeFract32, assertSafeRangeInt32, assertSafeRangeUint32} from './assertions'
 import {
+  assertSafeProbability,
+  assertSafeRangeBigInt,
+  assertSafeRangeFloat,
+  assertSafeRangeFloat32,
+  assertSafeRangeFloat64,
+  assertSafeRangeFract32,
+  assertSafeRangeInt32,
+  assertSafeRangeInt64,
+  assertSafeRangeSafeInteger,
+  assertSafeRangeUint32,
+  assertSafeRangeUint64,
+  assertSafeRationalProbability,
+  assertSafeSequenceIndex,
+  assertSafeSteps
+} from './assertions'
+import {
+  MAX_SAFE_FLOAT32_EXCLUSIVE,
+  MAX_SAFE_FLOAT32_INCLUSIVE,
+  MAX_SAFE_FLOAT64_EXCLUSIVE,
+  MAX_SAFE_FLOAT64_INCLUSIVE,
   MAX_SAFE_FRACT32_EXCLUSIVE,
+  MAX_SAFE_FRACT32_INCLUSIVE,
   MAX_SAFE_INT32_EXCLUSIVE,
+  MAX_SAFE_INT32_INCLUSIVE,
+  MAX_SAFE_INT64_EXCLUSIVE,
+  MAX_SAFE_INT64_INCLUSIVE,
+  MAX_SAFE_INTEGER_EXCLUSIVE,
+  MAX_SAFE_INTEGER_INCLUSIVE,
   MAX_SAFE_UINT32_EXCLUSIVE,
+  MAX_SAFE_UINT32_INCLUSIVE,
+  MAX_SAFE_UINT64_EXCLUSIVE,
+  MAX_SAFE_UINT64_INCLUSIVE,
+  MIN_SAFE_FLOAT32_INCLUSIVE,
+  MIN_SAFE_FLOAT64_INCLUSIVE,
   MIN_SAFE_FRACT32_INCLUSIVE,
   MIN_SAFE_INT32_INCLUSIVE,
+  MIN_SAFE_INT64_INCLUSIVE,
+  MIN_SAFE_INTEGER_INCLUSIVE,
   MIN_SAFE_UINT32_INCLUSIVE,
+  MIN_SAFE_UINT64_INCLUSIVE,
+  ONE_BIT_AS_FLOAT32,
+  ONE_BIT_AS_FLOAT64,
   ONE_BIT_AS_FRACT32
 } from './constants'
 
 describe('shared > assertions', () => {
+  describe('.assertSafeProbability()', () => {
+    it('accepts probabilities between 0 and 1', () => {
+      expect(() => assertSafeProbability(0)).to.not.throw()
+      expect(() => assertSafeProbability(0.3)).to.not.throw()
+      expect(() => assertSafeProbability(1)).to.not.throw()
+    })
+
+    it('rejects a probability less than 0', () => {
+      expect(() => assertSafeProbability(-Number.MIN_VALUE)).to.throw(
+        'Probability must be a number between 0 and 1.'
+      )
+    })
+
+    it('rejects a probability greater than 1', () => {
+      expect(() => assertSafeProbability(1 + Number.EPSILON)).to.throw(
+        'Probability must be a number between 0 and 1.'
+      )
+    })
+
+    it('rejects NaN', () => {
+      expect(() => assertSafeProbability(NaN)).to.throw(
+        'Probability must be a number between 0 and 1.'
+      )
+    })
+  })
+
+  describe('.assertSafeRationalProbability()', () => {
+    it('accepts a numerator between 0 and the denominator', () => {
+      expect(() => assertSafeRationalProbability(0, 3)).to.not.throw()
+      expect(() => assertSafeRationalProbability(3, 3)).to.not.throw()
+    })
+
+    it('accepts the largest safe integer as the denominator', () => {
+      expect(() => assertSafeRationalProbability(1, Number.MAX_SAFE_INTEGER)).to.not.throw()
+    })
+
+    it('rejects a denominator of 0', () => {
+      expect(() => assertSafeRationalProbability(0, 0)).to.throw(
+        'Denominator must be a positive safe integer.'
+      )
+    })
+
+    it('rejects a denominator which is not an integer', () => {
+      expect(() => assertSafeRationalProbability(1, 2.5)).to.throw(
+        'Denominator must be a positive safe integer.'
+      )
+    })
+
+    it('rejects a denominator greater than the largest safe integer', () => {
+      expect(() => assertSafeRationalProbability(1, 2 ** 53)).to.throw(
+        'Denominator must be a positive safe integer.'
+      )
+    })
+
+    it('rejects a numerator less than 0', () => {
+      expect(() => assertSafeRationalProbability(-1, 3)).to.throw(
+        'Numerator must be an integer between 0 and the given denominator.'
+      )
+    })
+
+    it('rejects a numerator greater than the denominator', () => {
+      expect(() => assertSafeRationalProbability(4, 3)).to.throw(
+        'Numerator must be an integer between 0 and the given denominator.'
+      )
+    })
+
+    it('rejects a numerator which is not an integer', () => {
+      expect(() => assertSafeRationalProbability(1.5, 3)).to.throw(
+        'Numerator must be an integer between 0 and the given denominator.'
+      )
+    })
+  })
+
+  describe('.assertSafeRangeBigInt()', () => {
+    it('accepts values of any size', () => {
+      expect(() => assertSafeRangeBigInt(-(2n ** 100n), 2n ** 100n)).to.not.throw()
+    })
+
+    it('rejects equal minimum and maximum values', () => {
+      expect(() => assertSafeRangeBigInt(123n, 123n)).to.throw()
+    })
+
+    it('rejects any maximum value below the given minimum value', () => {
+      expect(() => assertSafeRangeBigInt(123n, 122n)).to.throw()
+    })
+  })
+
+  describe('.assertSafeRangeFloat()', () => {
+    it('accepts any finite values', () => {
+      expect(() => assertSafeRangeFloat(-Number.MAX_VALUE, Number.MAX_VALUE)).to.not.throw()
+    })
+
+    it('rejects any minimum value which is not finite', () => {
+      expect(() => assertSafeRangeFloat(-Infinity, 0)).to.throw()
+    })
+
+    it('rejects any maximum value which is not finite', () => {
+      expect(() => assertSafeRangeFloat(0, NaN)).to.throw()
+    })
+
+    it('rejects equal minimum and maximum values', () => {
+      expect(() => assertSafeRangeFloat(0.25, 0.25)).to.throw()
+    })
+
+    it('rejects any maximum value below the given minimum value', () => {
+      expect(() => assertSafeRangeFloat(0.25, 0.24)).to.throw()
+    })
+
+    context('with an inclusive maximum', () => {
+      it('accepts equal minimum and maximum values', () => {
+        expect(() => assertSafeRangeFloat(0.25, 0.25, true)).to.not.throw()
+      })
+
+      it('rejects any maximum value which is not finite', () => {
+        expect(() => assertSafeRangeFloat(0, Infinity, true)).to.throw()
+      })
+
+      it('rejects any maximum value below the given minimum value', () => {
+        expect(() => assertSafeRangeFloat(0.25, 0.24, true)).to.throw()
+      })
+    })
+  })
+
+  describe('.assertSafeRangeFloat32()', () => {
+    it(`accepts values between ${MIN_SAFE_FLOAT32_INCLUSIVE} and ${MAX_SAFE_FLOAT32_EXCLUSIVE}`, () => {
+      expect(() => assertSafeRangeFloat32(0.25, 0.75)).to.not.throw()
+    })
+
+    it(`accepts ${MIN_SAFE_FLOAT32_INCLUSIVE} as a minimum value`, () => {
+      expect(() => assertSafeRangeFloat32(0, 0.75)).to.not.throw()
+    })
+
+    it(`accepts ${MAX_SAFE_FLOAT32_EXCLUSIVE} as a maximum value`, () => {
+      expect(() => assertSafeRangeFloat32(0.25, 1)).to.not.throw()
+    })
+
+    it(`rejects any minimum value below ${MIN_SAFE_FLOAT32_INCLUSIVE}`, () => {
+      expect(() => assertSafeRangeFloat32(0 - ONE_BIT_AS_FLOAT32, 1)).to.throw()
+    })
+
+    it(`rejects any maximum value above ${MAX_SAFE_FLOAT32_EXCLUSIVE}`, () => {
+      expect(() => assertSafeRangeFloat32(0.25, 1 + ONE_BIT_AS_FLOAT32)).to.throw()
+    })
+
+    it('rejects equal minimum and maximum values', () => {
+      expect(() => assertSafeRangeFloat32(0.25, 0.25)).to.throw()
+    })
+
+    it('rejects any maximum value below the given minimum value', () => {
+      expect(() => assertSafeRangeFloat32(0.25, 0.24)).to.throw()
+    })
+
+    context('with an inclusive maximum', () => {
+      it(`accepts ${MAX_SAFE_FLOAT32_INCLUSIVE} as a maximum value`, () => {
+        expect(() =>
+          assertSafeRangeFloat32(MIN_SAFE_FLOAT32_INCLUSIVE, MAX_SAFE_FLOAT32_INCLUSIVE, true)
+        ).to.not.throw()
+      })
+
+      it(`rejects any maximum value above ${MAX_SAFE_FLOAT32_INCLUSIVE}`, () => {
+        expect(() =>
+          assertSafeRangeFloat32(MIN_SAFE_FLOAT32_INCLUSIVE, MAX_SAFE_FLOAT32_EXCLUSIVE, true)
+        ).to.throw()
+      })
+
+      it('accepts equal minimum and maximum values', () => {
+        expect(() => assertSafeRangeFloat32(0.25, 0.25, true)).to.not.throw()
+      })
+
+      it('rejects any maximum value below the given minimum value', () => {
+        expect(() => assertSafeRangeFloat32(0.25, 0.24, true)).to.throw()
+      })
+    })
+  })
+
+  describe('.assertSafeRangeFloat64()', () => {
+    it(`accepts values between ${MIN_SAFE_FLOAT64_INCLUSIVE} and ${MAX_SAFE_FLOAT64_EXCLUSIVE}`, () => {
+      expect(() => assertSafeRangeFloat64(0.25, 0.75)).to.not.throw()
+    })
+
+    it(`accepts ${MIN_SAFE_FLOAT64_INCLUSIVE} as a minimum value`, () => {
+      expect(() => assertSafeRangeFloat64(0, 0.75)).to.not.throw()
+    })
+
+    it(`accepts ${MAX_SAFE_FLOAT64_EXCLUSIVE} as a maximum value`, () => {
+      expect(() => assertSafeRangeFloat64(0.25, 1)).to.not.throw()
+    })
+
+    it(`rejects any minimum value below ${MIN_SAFE_FLOAT64_INCLUSIVE}`, () => {
+      expect(() => assertSafeRangeFloat64(0 - ONE_BIT_AS_FLOAT64, 1)).to.throw()
+    })
+
+    it(`rejects any maximum value above ${MAX_SAFE_FLOAT64_EXCLUSIVE}`, () => {
+      expect(() => assertSafeRangeFloat64(0.25, 1 + ONE_BIT_AS_FRACT32)).to.throw()
+    })
+
+    it('rejects equal minimum and maximum values', () => {
+      expect(() => assertSafeRangeFloat64(0.25, 0.25)).to.throw()
+    })
+
+    it('rejects any maximum value below the given minimum value', () => {
+      expect(() => assertSafeRangeFloat64(0.25, 0.24)).to.throw()
+    })
+
+    context('with an inclusive maximum', () => {
+      it(`accepts ${MAX_SAFE_FLOAT64_INCLUSIVE} as a maximum value`, () => {
+        expect(() =>
+          assertSafeRangeFloat64(MIN_SAFE_FLOAT64_INCLUSIVE, MAX_SAFE_FLOAT64_INCLUSIVE, true)
+        ).to.not.throw()
+      })
+
+      it(`rejects any maximum value above ${MAX_SAFE_FLOAT64_INCLUSIVE}`, () => {
+        expect(() =>
+          assertSafeRangeFloat64(MIN_SAFE_FLOAT64_INCLUSIVE, MAX_SAFE_FLOAT64_EXCLUSIVE, true)
+        ).to.throw()
+      })
+
+      it('accepts equal minimum and maximum values', () => {
+        expect(() => assertSafeRangeFloat64(0.25, 0.25, true)).to.not.throw()
+      })
+
+      it('rejects any maximum value below the given minimum value', () => {
+        expect(() => assertSafeRangeFloat64(0.25, 0.24, true)).to.throw()
+      })
+    })
+  })
+
   describe('.assertSafeRangeFract32()', () => {
     it(`accepts values between ${MIN_SAFE_FRACT32_INCLUSIVE} and ${MAX_SAFE_FRACT32_EXCLUSIVE}`, () => {
       expect(() => assertSafeRangeFract32(0.25, 0.75)).to.not.throw()
@@ -40,6 +302,28 @@ describe('shared > assertions', () => {
     it('rejects any maximum value below the given minimum value', () => {
       expect(() => assertSafeRangeFract32(0.25, 0.24)).to.throw()
     })
+
+    context('with an inclusive maximum', () => {
+      it(`accepts ${MAX_SAFE_FRACT32_INCLUSIVE} as a maximum value`, () => {
+        expect(() =>
+          assertSafeRangeFract32(MIN_SAFE_FRACT32_INCLUSIVE, MAX_SAFE_FRACT32_INCLUSIVE, true)
+        ).to.not.throw()
+      })
+
+      it(`rejects any maximum value above ${MAX_SAFE_FRACT32_INCLUSIVE}`, () => {
+        expect(() =>
+          assertSafeRangeFract32(MIN_SAFE_FRACT32_INCLUSIVE, MAX_SAFE_FRACT32_EXCLUSIVE, true)
+        ).to.throw()
+      })
+
+      it('accepts equal minimum and maximum values', () => {
+        expect(() => assertSafeRangeFract32(0.25, 0.25, true)).to.not.throw()
+      })
+
+      it('rejects any maximum value below the given minimum value', () => {
+        expect(() => assertSafeRangeFract32(0.25, 0.24, true)).to.throw()
+      })
+    })
   })
 
   describe('.assertSafeRangeInt32()', () => {
@@ -70,6 +354,132 @@ describe('shared > assertions', () => {
     it('rejects any maximum value below the given minimum value', () => {
       expect(() => assertSafeRangeInt32(123, 122)).to.throw()
     })
+
+    context('with an inclusive maximum', () => {
+      it(`accepts ${MAX_SAFE_INT32_INCLUSIVE} as a maximum value`, () => {
+        expect(() =>
+          assertSafeRangeInt32(MIN_SAFE_INT32_INCLUSIVE, MAX_SAFE_INT32_INCLUSIVE, true)
+        ).to.not.throw()
+      })
+
+      it(`rejects any maximum value above ${MAX_SAFE_INT32_INCLUSIVE}`, () => {
+        expect(() =>
+          assertSafeRangeInt32(MIN_SAFE_INT32_INCLUSIVE, MAX_SAFE_INT32_EXCLUSIVE, true)
+        ).to.throw()
+      })
+
+      it('accepts equal minimum and maximum values', () => {
+        expect(() => assertSafeRangeInt32(123, 123, true)).to.not.throw()
+      })
+
+      it('rejects any maximum value below the given minimum value', () => {
+        expect(() => assertSafeRangeInt32(123, 122, true)).to.throw()
+      })
+    })
+  })
+
+  describe('.assertSafeRangeInt64()', () => {
+    it(`accepts values between ${MIN_SAFE_INT64_INCLUSIVE} and ${MAX_SAFE_INT64_EXCLUSIVE}`, () => {
+      expect(() => assertSafeRangeInt64(-123n, 456n)).to.not.throw()
+    })
+
+    it(`accepts ${MIN_SAFE_INT64_INCLUSIVE} as a minimum value`, () => {
+      expect(() => assertSafeRangeInt64(MIN_SAFE_INT64_INCLUSIVE, 456n)).to.not.throw()
+    })
+
+    it(`accepts ${MAX_SAFE_INT64_EXCLUSIVE} as a maximum value`, () => {
+      expect(() => assertSafeRangeInt64(123n, MAX_SAFE_INT64_EXCLUSIVE)).to.not.throw()
+    })
+
+    it(`rejects any minimum value below ${MIN_SAFE_INT64_INCLUSIVE}`, () => {
+      expect(() => assertSafeRangeInt64(MIN_SAFE_INT64_INCLUSIVE - 1n, 456n)).to.throw()
+    })
+
+    it(`rejects any maximum value above ${MAX_SAFE_INT64_EXCLUSIVE}`, () => {
+      expect(() => assertSafeRangeInt64(123n, MAX_SAFE_INT64_EXCLUSIVE + 1n)).to.throw()
+    })
+
+    it('rejects equal minimum and maximum values', () => {
+      expect(() => assertSafeRangeInt64(123n, 123n)).to.throw()
+    })
+
+    it('rejects any maximum value below the given minimum value', () => {
+      expect(() => assertSafeRangeInt64(123n, 122n)).to.throw()
+    })
+
+    context('with an inclusive maximum', () => {
+      it(`accepts ${MAX_SAFE_INT64_INCLUSIVE} as a maximum value`, () => {
+        expect(() =>
+          assertSafeRangeInt64(MIN_SAFE_INT64_INCLUSIVE, MAX_SAFE_INT64_INCLUSIVE, true)
+        ).to.not.throw()
+      })
+
+      it(`rejects any maximum value above ${MAX_SAFE_INT64_INCLUSIVE}`, () => {
+        expect(() =>
+          assertSafeRangeInt64(MIN_SAFE_INT64_INCLUSIVE, MAX_SAFE_INT64_EXCLUSIVE, true)
+        ).to.throw()
+      })
+
+      it('accepts equal minimum and maximum values', () => {
+        expect(() => assertSafeRangeInt64(123n, 123n, true)).to.not.throw()
+      })
+
+      it('rejects any maximum value below the given minimum value', () => {
+        expect(() => assertSafeRangeInt64(123n, 122n, true)).to.throw()
+      })
+    })
+  })
+
+  describe('.assertSafeRangeSafeInteger()', () => {
+    it(`accepts values between ${MIN_SAFE_INTEGER_INCLUSIVE} and ${MAX_SAFE_INTEGER_EXCLUSIVE}`, () => {
+      expect(() => assertSafeRangeSafeInteger(-(2 ** 40), 2 ** 40)).to.not.throw()
+    })
+
+    it(`accepts ${MIN_SAFE_INTEGER_INCLUSIVE} as a minimum value`, () => {
+      expect(() => assertSafeRangeSafeInteger(MIN_SAFE_INTEGER_INCLUSIVE, 456)).to.not.throw()
+    })
+
+    it(`accepts ${MAX_SAFE_INTEGER_EXCLUSIVE} as a maximum value`, () => {
+      expect(() => assertSafeRangeSafeInteger(123, MAX_SAFE_INTEGER_EXCLUSIVE)).to.not.throw()
+    })
+
+    it(`rejects any minimum value below ${MIN_SAFE_INTEGER_INCLUSIVE}`, () => {
+      expect(() => assertSafeRangeSafeInteger(MIN_SAFE_INTEGER_INCLUSIVE - 2, 456)).to.throw()
+    })
+
+    it(`rejects any maximum value above ${MAX_SAFE_INTEGER_EXCLUSIVE}`, () => {
+      expect(() => assertSafeRangeSafeInteger(123, MAX_SAFE_INTEGER_EXCLUSIVE * 2)).to.throw()
+    })
+
+    it('rejects equal minimum and maximum values', () => {
+      expect(() => assertSafeRangeSafeInteger(123, 123)).to.throw()
+    })
+
+    it('rejects any maximum value below the given minimum value', () => {
+      expect(() => assertSafeRangeSafeInteger(123, 122)).to.throw()
+    })
+
+    context('with an inclusive maximum', () => {
+      it(`accepts ${MAX_SAFE_INTEGER_INCLUSIVE} as a maximum value`, () => {
+        expect(() =>
+          assertSafeRangeSafeInteger(MIN_SAFE_INTEGER_INCLUSIVE, MAX_SAFE_INTEGER_INCLUSIVE, true)
+        ).to.not.throw()
+      })
+
+      it(`rejects any maximum value above ${MAX_SAFE_INTEGER_INCLUSIVE}`, () => {
+        expect(() =>
+          assertSafeRangeSafeInteger(MIN_SAFE_INTEGER_INCLUSIVE, MAX_SAFE_INTEGER_EXCLUSIVE, true)
+        ).to.throw()
+      })
+
+      it('accepts equal minimum and maximum values', () => {
+        expect(() => assertSafeRangeSafeInteger(123, 123, true)).to.not.throw()
+      })
+
+      it('rejects any maximum value below the given minimum value', () => {
+        expect(() => assertSafeRangeSafeInteger(123, 122, true)).to.throw()
+      })
+    })
   })
 
   describe('.assertSafeRangeUint32()', () => {
@@ -100,5 +510,155 @@ describe('shared > assertions', () => {
     it('rejects any maximum value below the given minimum value', () => {
       expect(() => assertSafeRangeUint32(123, 122)).to.throw()
     })
+
+    context('with an inclusive maximum', () => {
+      it(`accepts ${MAX_SAFE_UINT32_INCLUSIVE} as a maximum value`, () => {
+        expect(() =>
+          assertSafeRangeUint32(MIN_SAFE_UINT32_INCLUSIVE, MAX_SAFE_UINT32_INCLUSIVE, true)
+        ).to.not.throw()
+      })
+
+      it(`rejects any maximum value above ${MAX_SAFE_UINT32_INCLUSIVE}`, () => {
+        expect(() =>
+          assertSafeRangeUint32(MIN_SAFE_UINT32_INCLUSIVE, MAX_SAFE_UINT32_EXCLUSIVE, true)
+        ).to.throw()
+      })
+
+      it('accepts equal minimum and maximum values', () => {
+        expect(() => assertSafeRangeUint32(123, 123, true)).to.not.throw()
+      })
+
+      it('rejects any maximum value below the given minimum value', () => {
+        expect(() => assertSafeRangeUint32(123, 122, true)).to.throw()
+      })
+    })
+  })
+
+  describe('.assertSafeRangeUint64()', () => {
+    it(`accepts values between ${MIN_SAFE_UINT64_INCLUSIVE} and ${MAX_SAFE_UINT64_EXCLUSIVE}`, () => {
+      expect(() => assertSafeRangeUint64(123n, 456n)).to.not.throw()
+    })
+
+    it(`accepts ${MIN_SAFE_UINT64_INCLUSIVE} as a minimum value`, () => {
+      expect(() => assertSafeRangeUint64(MIN_SAFE_UINT64_INCLUSIVE, 456n)).to.not.throw()
+    })
+
+    it(`accepts ${MAX_SAFE_UINT64_EXCLUSIVE} as a maximum value`, () => {
+      expect(() => assertSafeRangeUint64(123n, MAX_SAFE_UINT64_EXCLUSIVE)).to.not.throw()
+    })
+
+    it(`rejects any minimum value below ${MIN_SAFE_UINT64_INCLUSIVE}`, () => {
+      expect(() => assertSafeRangeUint64(MIN_SAFE_UINT64_INCLUSIVE - 1n, 456n)).to.throw()
+    })
+
+    it(`rejects any maximum value above ${MAX_SAFE_UINT64_EXCLUSIVE}`, () => {
+      expect(() => assertSafeRangeUint64(123n, MAX_SAFE_UINT64_EXCLUSIVE + 1n)).to.throw()
+    })
+
+    it('rejects equal minimum and maximum values', () => {
+      expect(() => assertSafeRangeUint64(123n, 123n)).to.throw()
+    })
+
+    it('rejects any maximum value below the given minimum value', () => {
+      expect(() => assertSafeRangeUint64(123n, 122n)).to.throw()
+    })
+
+    context('with an inclusive maximum', () => {
+      it(`accepts ${MAX_SAFE_UINT64_INCLUSIVE} as a maximum value`, () => {
+        expect(() =>
+          assertSafeRangeUint64(MIN_SAFE_UINT64_INCLUSIVE, MAX_SAFE_UINT64_INCLUSIVE, true)
+        ).to.not.throw()
+      })
+
+      it(`rejects any maximum value above ${MAX_SAFE_UINT64_INCLUSIVE}`, () => {
+        expect(() =>
+          assertSafeRangeUint64(MIN_SAFE_UINT64_INCLUSIVE, MAX_SAFE_UINT64_EXCLUSIVE, true)
+        ).to.throw()
+      })
+
+      it('accepts equal minimum and maximum values', () => {
+        expect(() => assertSafeRangeUint64(123n, 123n, true)).to.not.throw()
+      })
+
+      it('rejects any maximum value below the given minimum value', () => {
+        expect(() => assertSafeRangeUint64(123n, 122n, true)).to.throw()
+      })
+    })
+  })
+
+  describe('.assertSafeSequenceIndex()', () => {
+    it('accepts a non-negative integer below the given power of two', () => {
+      expect(() => assertSafeSequenceIndex(123, 64)).to.not.throw()
+    })
+
+    it('accepts a non-negative bigint below the given power of two', () => {
+      expect(() => assertSafeSequenceIndex(2n ** 64n - 1n, 64)).to.not.throw()
+    })
+
+    it('rejects a negative index', () => {
+      expect(() => assertSafeSequenceIndex(-1, 64)).to.throw(
+        'Index must be a non-negative safe integer or bigint.'
+      )
+    })
+
+    it('rejects a negative bigint index', () => {
+      expect(() => assertSafeSequenceIndex(-1n, 64)).to.throw(
+        'Index must be a non-negative safe integer or bigint.'
+      )
+    })
+
+    it('rejects a fractional index', () => {
+      expect(() => assertSafeSequenceIndex(1.5, 64)).to.throw(
+        'Index must be a non-negative safe integer or bigint.'
+      )
+    })
+
+    it('rejects an index beyond the safe integers', () => {
+      expect(() => assertSafeSequenceIndex(2 ** 53, 64)).to.throw(
+        'Index must be a non-negative safe integer or bigint.'
+      )
+    })
+
+    it('rejects an index of the given power of two', () => {
+      expect(() => assertSafeSequenceIndex(2n ** 64n, 64)).to.throw('Index must be less than 2^64.')
+    })
+  })
+
+  describe('.assertSafeSteps()', () => {
+    it('accepts a non-negative integer', () => {
+      expect(() => assertSafeSteps(123)).to.not.throw()
+    })
+
+    it('accepts zero', () => {
+      expect(() => assertSafeSteps(0)).to.not.throw()
+    })
+
+    it('accepts a bigint beyond the safe integers', () => {
+      expect(() => assertSafeSteps(2n ** 100n)).to.not.throw()
+    })
+
+    it('rejects a negative number', () => {
+      expect(() => assertSafeSteps(-1)).to.throw(
+        'Steps must be a non-negative safe integer or bigint.'
+      )
+    })
+
+    it('rejects a negative bigint', () => {
+      expect(() => assertSafeSteps(-1n)).to.throw(
+        'Steps must be a non-negative safe integer or bigint.'
+      )
+    })
+
+    it('rejects a fractional number', () => {
+      expect(() => assertSafeSteps(1.5)).to.throw(
+        'Steps must be a non-negative safe integer or bigint.'
+      )
+    })
+
+    it('rejects a number beyond the safe integers', () => {
+      expect(() => assertSafeSteps(2 ** 53)).to.throw(
+        'Steps must be a non-negative safe integer or bigint.'
+      )
+    })
   })
 })
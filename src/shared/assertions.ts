@@ -1,50 +1,252 @@
 import {
+  MAX_SAFE_FLOAT32_EXCLUSIVE,
+  MAX_SAFE_FLOAT32_INCLUSIVE,
+  MAX_SAFE_FLOAT64_EXCLUSIVE,
+  MAX_SAFE_FLOAT64_INCLUSIVE,
   MAX_SAFE_FRACT32_EXCLUSIVE,
+  MAX_SAFE_FRACT32_INCLUSIVE,
   MAX_SAFE_INT32_EXCLUSIVE,
+  MAX_SAFE_INT32_INCLUSIVE,
+  MAX_SAFE_INT64_EXCLUSIVE,
+  MAX_SAFE_INT64_INCLUSIVE,
+  MAX_SAFE_INTEGER_EXCLUSIVE,
+  MAX_SAFE_INTEGER_INCLUSIVE,
   MAX_SAFE_UINT32_EXCLUSIVE,
+  MAX_SAFE_UINT32_INCLUSIVE,
+  MAX_SAFE_UINT64_EXCLUSIVE,
+  MAX_SAFE_UINT64_INCLUSIVE,
+  MIN_SAFE_FLOAT32_INCLUSIVE,
+  MIN_SAFE_FLOAT64_INCLUSIVE,
   MIN_SAFE_FRACT32_INCLUSIVE,
   MIN_SAFE_INT32_INCLUSIVE,
-  MIN_SAFE_UINT32_INCLUSIVE
+  MIN_SAFE_INT64_INCLUSIVE,
+  MIN_SAFE_INTEGER_INCLUSIVE,
+  MIN_SAFE_UINT32_INCLUSIVE,
+  MIN_SAFE_UINT64_INCLUSIVE
 } from './constants'
 
-export function assertSafeRangeFract32(minInclusive: number, maxExclusive: number): void {
+export function assertSafeProbability(probability: number): void {
+  if (!(probability >= 0 && probability <= 1)) {
+    throw new Error('Probability must be a number between 0 and 1.')
+  }
+}
+
+export function assertSafeRationalProbability(numerator: number, denominator: number): void {
+  if (!Number.isSafeInteger(denominator) || denominator <= 0) {
+    throw new Error('Denominator must be a positive safe integer.')
+  }
+
+  if (!Number.isInteger(numerator) || numerator < 0 || numerator > denominator) {
+    throw new Error('Numerator must be an integer between 0 and the given denominator.')
+  }
+}
+
+export function assertSafeRangeBigInt(minInclusive: bigint, maxExclusive: bigint): void {
+  assertMaximumAboveMinimum(minInclusive, maxExclusive, false)
+}
+
+export function assertSafeRangeFloat(
+  minInclusive: number,
+  max: number,
+  inclusive: boolean = false
+): void {
+  if (!Number.isFinite(minInclusive)) {
+    throw new Error('Minimum value must be a finite number.')
+  }
+
+  if (!Number.isFinite(max)) {
+    throw new Error('Maximum value must be a finite number.')
+  }
+
+  assertMaximumAboveMinimum(minInclusive, max, inclusive)
+}
+
+export function assertSafeRangeFloat32(
+  minInclusive: number,
+  max: number,
+  inclusive: boolean = false
+): void {
+  if (minInclusive < MIN_SAFE_FLOAT32_INCLUSIVE) {
+    throw new Error(`Minimum value must be at least ${MIN_SAFE_FLOAT32_INCLUSIVE}.`)
+  }
+
+  if (inclusive && max > MAX_SAFE_FLOAT32_INCLUSIVE) {
+    throw new Error(`Maximum value must be at most ${MAX_SAFE_FLOAT32_INCLUSIVE}.`)
+  }
+
+  if (!inclusive && max > MAX_SAFE_FLOAT32_EXCLUSIVE) {
+    throw new Error(`Maximum value must be less than ${MAX_SAFE_FLOAT32_EXCLUSIVE}.`)
+  }
+
+  assertMaximumAboveMinimum(minInclusive, max, inclusive)
+}
+
+export function assertSafeRangeFloat64(
+  minInclusive: number,
+  max: number,
+  inclusive: boolean = false
+): void {
+  if (minInclusive < MIN_SAFE_FLOAT64_INCLUSIVE) {
+    throw new Error(`Minimum value must be at least ${MIN_SAFE_FLOAT64_INCLUSIVE}.`)
+  }
+
+  if (inclusive && max > MAX_SAFE_FLOAT64_INCLUSIVE) {
+    throw new Error(`Maximum value must be at most ${MAX_SAFE_FLOAT64_INCLUSIVE}.`)
+  }
+
+  if (!inclusive && max > MAX_SAFE_FLOAT64_EXCLUSIVE) {
+    throw new Error(`Maximum value must be less than ${MAX_SAFE_FLOAT64_EXCLUSIVE}.`)
+  }
+
+  assertMaximumAboveMinimum(minInclusive, max, inclusive)
+}
+
+export function assertSafeRangeFract32(
+  minInclusive: number,
+  max: number,
+  inclusive: boolean = false
+): void {
   if (minInclusive < MIN_SAFE_FRACT32_INCLUSIVE) {
     throw new Error(`Minimum value must be at least ${MIN_SAFE_FRACT32_INCLUSIVE}.`)
   }
 
-  if (maxExclusive > MAX_SAFE_FRACT32_EXCLUSIVE) {
-    throw new Error(`Maximum value must be less than ${MAX_SAFE_FRACT32_EXCLUSIVE}.`)
+  if (inclusive && max > MAX_SAFE_FRACT32_INCLUSIVE) {
+    throw new Error(`Maximum value must be at most ${MAX_SAFE_FRACT32_INCLUSIVE}.`)
   }
 
-  if (maxExclusive <= minInclusive) {
-    throw new Error('Maximum value must be greater than the given minimum value.')
+  if (!inclusive && max > MAX_SAFE_FRACT32_EXCLUSIVE) {
+    throw new Error(`Maximum value must be less than ${MAX_SAFE_FRACT32_EXCLUSIVE}.`)
   }
+
+  assertMaximumAboveMinimum(minInclusive, max, inclusive)
 }
 
-export function assertSafeRangeInt32(minInclusive: number, maxExclusive: number): void {
+export function assertSafeRangeInt32(
+  minInclusive: number,
+  max: number,
+  inclusive: boolean = false
+): void {
   if (minInclusive < MIN_SAFE_INT32_INCLUSIVE) {
     throw new Error(`Minimum value must be at least ${MIN_SAFE_INT32_INCLUSIVE}.`)
   }
 
-  if (maxExclusive > MAX_SAFE_INT32_EXCLUSIVE) {
+  if (inclusive && max > MAX_SAFE_INT32_INCLUSIVE) {
+    throw new Error(`Maximum value must be at most ${MAX_SAFE_INT32_INCLUSIVE}.`)
+  }
+
+  if (!inclusive && max > MAX_SAFE_INT32_EXCLUSIVE) {
     throw new Error(`Maximum value must be less than ${MAX_SAFE_INT32_EXCLUSIVE}.`)
   }
 
-  if (maxExclusive <= minInclusive) {
-    throw new Error('Maximum value must be greater than the given minimum value.')
+  assertMaximumAboveMinimum(minInclusive, max, inclusive)
+}
+
+export function assertSafeRangeInt64(
+  minInclusive: bigint,
+  max: bigint,
+  inclusive: boolean = false
+): void {
+  if (minInclusive < MIN_SAFE_INT64_INCLUSIVE) {
+    throw new Error(`Minimum value must be at least ${MIN_SAFE_INT64_INCLUSIVE}.`)
+  }
+
+  if (inclusive && max > MAX_SAFE_INT64_INCLUSIVE) {
+    throw new Error(`Maximum value must be at most ${MAX_SAFE_INT64_INCLUSIVE}.`)
   }
+
+  if (!inclusive && max > MAX_SAFE_INT64_EXCLUSIVE) {
+    throw new Error(`Maximum value must be less than ${MAX_SAFE_INT64_EXCLUSIVE}.`)
+  }
+
+  assertMaximumAboveMinimum(minInclusive, max, inclusive)
 }
 
-export function assertSafeRangeUint32(minInclusive: number, maxExclusive: number): void {
+export function assertSafeRangeSafeInteger(
+  minInclusive: number,
+  max: number,
+  inclusive: boolean = false
+): void {
+  if (minInclusive < MIN_SAFE_INTEGER_INCLUSIVE) {
+    throw new Error(`Minimum value must be at least ${MIN_SAFE_INTEGER_INCLUSIVE}.`)
+  }
+
+  if (inclusive && max > MAX_SAFE_INTEGER_INCLUSIVE) {
+    throw new Error(`Maximum value must be at most ${MAX_SAFE_INTEGER_INCLUSIVE}.`)
+  }
+
+  if (!inclusive && max > MAX_SAFE_INTEGER_EXCLUSIVE) {
+    throw new Error(`Maximum value must be less than ${MAX_SAFE_INTEGER_EXCLUSIVE}.`)
+  }
+
+  assertMaximumAboveMinimum(minInclusive, max, inclusive)
+}
+
+export function assertSafeRangeUint32(
+  minInclusive: number,
+  max: number,
+  inclusive: boolean = false
+): void {
   if (minInclusive < MIN_SAFE_UINT32_INCLUSIVE) {
     throw new Error(`Minimum value must be at least ${MIN_SAFE_UINT32_INCLUSIVE}.`)
   }
 
-  if (maxExclusive > MAX_SAFE_UINT32_EXCLUSIVE) {
+  if (inclusive && max > MAX_SAFE_UINT32_INCLUSIVE) {
+    throw new Error(`Maximum value must be at most ${MAX_SAFE_UINT32_INCLUSIVE}.`)
+  }
+
+  if (!inclusive && max > MAX_SAFE_UINT32_EXCLUSIVE) {
     throw new Error(`Maximum value must be less than ${MAX_SAFE_UINT32_EXCLUSIVE}.`)
   }
 
-  if (maxExclusive <= minInclusive) {
+  assertMaximumAboveMinimum(minInclusive, max, inclusive)
+}
+
+export function assertSafeRangeUint64(
+  minInclusive: bigint,
+  max: bigint,
+  inclusive: boolean = false
+): void {
+  if (minInclusive < MIN_SAFE_UINT64_INCLUSIVE) {
+    throw new Error(`Minimum value must be at least ${MIN_SAFE_UINT64_INCLUSIVE}.`)
+  }
+
+  if (inclusive && max > MAX_SAFE_UINT64_INCLUSIVE) {
+    throw new Error(`Maximum value must be at most ${MAX_SAFE_UINT64_INCLUSIVE}.`)
+  }
+
+  if (!inclusive && max > MAX_SAFE_UINT64_EXCLUSIVE) {
+    throw new Error(`Maximum value must be less than ${MAX_SAFE_UINT64_EXCLUSIVE}.`)
+  }
+
+  assertMaximumAboveMinimum(minInclusive, max, inclusive)
+}
+
+export function assertSafeSteps(steps: bigint | number): void {
+  if (typeof steps === 'number' ? !Number.isSafeInteger(steps) || steps < 0 : steps < 0n) {
+    throw new Error('Steps must be a non-negative safe integer or bigint.')
+  }
+}
+
+export function assertSafeSequenceIndex(index: bigint | number, bits: number): void {
+  if (typeof index === 'number' ? !Number.isSafeInteger(index) || index < 0 : index < 0n) {
+    throw new Error('Index must be a non-negative safe integer or bigint.')
+  }
+
+  if (BigInt(index) >= 1n << BigInt(bits)) {
+    throw new Error(`Index must be less than 2^${bits}.`)
+  }
+}
+
+function assertMaximumAboveMinimum<T extends bigint | number>(
+  minInclusive: T,
+  max: T,
+  inclusive: boolean
+): void {
+  if (inclusive && max < minInclusive) {
+    throw new Error('Maximum value must be at least the given minimum value.')
+  }
+
+  if (!inclusive && max <= minInclusive) {
     throw new Error('Maximum value must be greater than the given minimum value.')
   }
 }
@@ -1,4 +1,6 @@
 export const ONE_BIT_AS_FRACT32 = 1 / 2 ** 32
+export const ONE_BIT_AS_FLOAT32 = 1 / 2 ** 24
+export const ONE_BIT_AS_FLOAT64 = 1 / 2 ** 53
 
 /*
  * 32-bit decimal fractions are in the range [0, 1 - 1 / 2 ^ 32].
@@ -20,3 +22,52 @@ export const MAX_SAFE_INT32_INCLUSIVE = MAX_SAFE_INT32_EXCLUSIVE - 1
 export const MIN_SAFE_UINT32_INCLUSIVE = 0
 export const MAX_SAFE_UINT32_EXCLUSIVE = 2 ** 32
 export const MAX_SAFE_UINT32_INCLUSIVE = MAX_SAFE_UINT32_EXCLUSIVE - 1
+
+/*
+ * 24-bit decimal fractions are in the range [0, 1 - 1 / 2 ^ 24].
+ */
+export const MIN_SAFE_FLOAT32_INCLUSIVE = 0
+export const MAX_SAFE_FLOAT32_EXCLUSIVE = 1
+export const MAX_SAFE_FLOAT32_INCLUSIVE = MAX_SAFE_FLOAT32_EXCLUSIVE - ONE_BIT_AS_FLOAT32
+
+/*
+ * Unsigned 24-bit integers are in the range [0, (2 ^ 24) - 1].
+ */
+export const MIN_SAFE_UINT24_INCLUSIVE = 0
+export const MAX_SAFE_UINT24_EXCLUSIVE = 2 ** 24
+export const MAX_SAFE_UINT24_INCLUSIVE = MAX_SAFE_UINT24_EXCLUSIVE - 1
+
+/*
+ * 53-bit decimal fractions are in the range [0, 1 - 1 / 2 ^ 53].
+ */
+export const MIN_SAFE_FLOAT64_INCLUSIVE = 0
+export const MAX_SAFE_FLOAT64_EXCLUSIVE = 1
+export const MAX_SAFE_FLOAT64_INCLUSIVE = MAX_SAFE_FLOAT64_EXCLUSIVE - ONE_BIT_AS_FLOAT64
+
+/*
+ * Unsigned 53-bit integers are in the range [0, (2 ^ 53) - 1].
+ */
+export const MIN_SAFE_UINT53_INCLUSIVE = 0
+export const MAX_SAFE_UINT53_EXCLUSIVE = 2 ** 53
+export const MAX_SAFE_UINT53_INCLUSIVE = MAX_SAFE_UINT53_EXCLUSIVE - 1
+
+/*
+ * Safe integers are in the range [-(2 ^ 53) + 1, (2 ^ 53) - 1].
+ */
+export const MIN_SAFE_INTEGER_INCLUSIVE = Number.MIN_SAFE_INTEGER
+export const MAX_SAFE_INTEGER_EXCLUSIVE = Number.MAX_SAFE_INTEGER + 1
+export const MAX_SAFE_INTEGER_INCLUSIVE = Number.MAX_SAFE_INTEGER
+
+/*
+ * Signed 64-bit integers are in the range [-2 ^ 63, 2 ^ 63 - 1].
+ */
+export const MIN_SAFE_INT64_INCLUSIVE = -(1n << 63n)
+export const MAX_SAFE_INT64_EXCLUSIVE = 1n << 63n
+export const MAX_SAFE_INT64_INCLUSIVE = MAX_SAFE_INT64_EXCLUSIVE - 1n
+
+/*
+ * Unsigned 64-bit integers are in the range [0, (2 ^ 64) - 1].
+ */
+export const MIN_SAFE_UINT64_INCLUSIVE = 0n
+export const MAX_SAFE_UINT64_EXCLUSIVE = 1n << 64n
+export const MAX_SAFE_UINT64_INCLUSIVE = MAX_SAFE_UINT64_EXCLUSIVE - 1n
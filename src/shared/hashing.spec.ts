@@ -0,0 +1,73 @@
+import {expect} from 'chai'
+
+import {murmurHash3, sha256} from './hashing'
+
+function bytesOf(text: string): Uint8Array {
+  return new TextEncoder().encode(text)
+}
+
+function hexOf(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+describe('shared > hashing', () => {
+  describe('.murmurHash3()', () => {
+    it('returns the hash of the reference implementation', () => {
+      expect(murmurHash3(bytesOf('hello'))).to.equal(0x248bfa47)
+      expect(murmurHash3(bytesOf('The quick brown fox jumps over the lazy dog'))).to.equal(
+        0x2e4ff723
+      )
+    })
+
+    it('includes the trailing bytes which do not fill a 32-bit block', () => {
+      expect(murmurHash3(bytesOf('abc'))).to.equal(0xb3dd93fa)
+    })
+
+    it('uses the given seed', () => {
+      expect(murmurHash3(bytesOf('abcd'), 0x9747b28c)).to.equal(0xf0478627)
+    })
+
+    it('returns the hash of empty bytes with each seed', () => {
+      expect(murmurHash3(new Uint8Array(0))).to.equal(0)
+      expect(murmurHash3(new Uint8Array(0), 1)).to.equal(0x514e28b7)
+      expect(murmurHash3(new Uint8Array(0), 0xffffffff)).to.equal(0x81f16f39)
+    })
+
+    it('returns different hashes for strings with the same Java hash code', () => {
+      expect(murmurHash3(bytesOf('Aa'))).to.equal(0xaa89c9c1)
+      expect(murmurHash3(bytesOf('BB'))).to.equal(0x65c386f6)
+    })
+  })
+
+  describe('.sha256()', () => {
+    it('returns the digest of empty bytes', () => {
+      expect(hexOf(sha256(new Uint8Array(0)))).to.equal(
+        'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'
+      )
+    })
+
+    it('returns the digest of the reference example', () => {
+      expect(hexOf(sha256(bytesOf('abc')))).to.equal(
+        'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+      )
+    })
+
+    it('returns the digest of bytes which fill the first block with padding', () => {
+      expect(hexOf(sha256(bytesOf('a'.repeat(55))))).to.equal(
+        '9f4390f8d30c2dd92ec9f095b65e2b9ae9b0a925a5258e241c9f1e910f734318'
+      )
+    })
+
+    it('returns the digest of bytes whose padding requires another block', () => {
+      expect(hexOf(sha256(bytesOf('a'.repeat(56))))).to.equal(
+        'b35439a4ac6f0948b6d6f9e3c6af0f5f590ce20f1bde7090ef7970686ec6738a'
+      )
+    })
+
+    it('returns the digest of bytes which span multiple blocks', () => {
+      expect(hexOf(sha256(bytesOf('a'.repeat(1000))))).to.equal(
+        '41edece42d63e8d9bf515a9ba6932e1c20cbc9f5a5d134645adb5db1b9737ea3'
+      )
+    })
+  })
+})
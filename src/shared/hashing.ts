@@ -0,0 +1,149 @@
+/*
+ * The initial hash values and round constants of SHA-256, which are the
+ * fractional parts of the square roots of the first 8 primes and the cube
+ * roots of the first 64 primes.
+ */
+const SHA256_INITIAL_HASH = [
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19
+]
+
+const SHA256_ROUND_CONSTANTS = [
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+]
+
+/**
+ * A function which returns the 32-bit MurmurHash3 (x86_32) of the given bytes.
+ * This is a fast, non-cryptographic hash with good avalanche behavior, where
+ * each bit of the input affects each bit of the hash.
+ *
+ * @export
+ * @param {Uint8Array} bytes The bytes to hash.
+ * @param {number} [seed=0] An optional integer which selects one of 2^32
+ * unrelated hash functions. Only the 32 least-significant bits are used.
+ * @returns {number} An unsigned 32-bit integer hash.
+ */
+export function murmurHash3(bytes: Uint8Array, seed: number = 0): number {
+  const c1 = 0xcc9e2d51
+  const c2 = 0x1b873593
+  const blockLength = bytes.length - (bytes.length % 4)
+
+  let hash = seed | 0
+  let k: number
+
+  for (let i = 0; i < blockLength; i += 4) {
+    k = bytes[i] | (bytes[i + 1] << 8) | (bytes[i + 2] << 16) | (bytes[i + 3] << 24)
+    k = Math.imul(rotateLeft(Math.imul(k, c1), 15), c2)
+
+    hash = rotateLeft(hash ^ k, 13)
+    hash = (Math.imul(hash, 5) + 0xe6546b64) | 0
+  }
+
+  k = 0
+
+  for (let i = bytes.length - 1; i >= blockLength; i--) {
+    k = (k << 8) | bytes[i]
+  }
+
+  if (bytes.length > blockLength) {
+    hash ^= Math.imul(rotateLeft(Math.imul(k, c1), 15), c2)
+  }
+
+  // Finalize, so that each input bit affects each bit of the hash.
+  hash ^= bytes.length
+  hash ^= hash >>> 16
+  hash = Math.imul(hash, 0x85ebca6b)
+  hash ^= hash >>> 13
+  hash = Math.imul(hash, 0xc2b2ae35)
+  hash ^= hash >>> 16
+
+  return hash >>> 0
+}
+
+/**
+ * A function which returns the SHA-256 digest of the given bytes. Unlike
+ * `crypto.subtle.digest`, this is synchronous, and so can be used while
+ * constructing seeded number generators.
+ *
+ * @export
+ * @param {Uint8Array} bytes The bytes to hash.
+ * @returns {Uint8Array} The 32-byte digest.
+ */
+export function sha256(bytes: Uint8Array): Uint8Array {
+  // Pad with a single 1 bit, then zeros, then the length in bits as 64 bits.
+  const paddedLength = Math.ceil((bytes.length + 9) / 64) * 64
+  const padded = new Uint8Array(paddedLength)
+  const paddedView = new DataView(padded.buffer)
+
+  padded.set(bytes)
+  padded[bytes.length] = 0x80
+  paddedView.setUint32(paddedLength - 8, Math.floor(bytes.length / 0x20000000))
+  paddedView.setUint32(paddedLength - 4, (bytes.length * 8) >>> 0)
+
+  const hash = [...SHA256_INITIAL_HASH]
+  const schedule = new Array<number>(64)
+
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      schedule[i] = paddedView.getUint32(offset + i * 4)
+    }
+
+    for (let i = 16; i < 64; i++) {
+      const w15 = schedule[i - 15]
+      const w2 = schedule[i - 2]
+      const s0 = rotateRight(w15, 7) ^ rotateRight(w15, 18) ^ (w15 >>> 3)
+      const s1 = rotateRight(w2, 17) ^ rotateRight(w2, 19) ^ (w2 >>> 10)
+
+      schedule[i] = (schedule[i - 16] + s0 + schedule[i - 7] + s1) | 0
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash
+
+    for (let i = 0; i < 64; i++) {
+      const s1 = rotateRight(e, 6) ^ rotateRight(e, 11) ^ rotateRight(e, 25)
+      const choice = (e & f) ^ (~e & g)
+      const temp1 = (h + s1 + choice + SHA256_ROUND_CONSTANTS[i] + schedule[i]) | 0
+      const s0 = rotateRight(a, 2) ^ rotateRight(a, 13) ^ rotateRight(a, 22)
+      const majority = (a & b) ^ (a & c) ^ (b & c)
+      const temp2 = (s0 + majority) | 0
+
+      h = g
+      g = f
+      f = e
+      e = (d + temp1) | 0
+      d = c
+      c = b
+      b = a
+      a = (temp1 + temp2) | 0
+    }
+
+    hash[0] = (hash[0] + a) | 0
+    hash[1] = (hash[1] + b) | 0
+    hash[2] = (hash[2] + c) | 0
+    hash[3] = (hash[3] + d) | 0
+    hash[4] = (hash[4] + e) | 0
+    hash[5] = (hash[5] + f) | 0
+    hash[6] = (hash[6] + g) | 0
+    hash[7] = (hash[7] + h) | 0
+  }
+
+  const digest = new Uint8Array(32)
+  const digestView = new DataView(digest.buffer)
+  hash.forEach((word, index) => digestView.setUint32(index * 4, word >>> 0))
+
+  return digest
+}
+
+function rotateLeft(value: number, bits: number): number {
+  return (value << bits) | (value >>> (32 - bits))
+}
+
+function rotateRight(value: number, bits: number): number {
+  return (value >>> bits) | (value << (32 - bits))
+}
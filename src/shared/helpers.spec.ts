@@ -50,6 +50,30 @@ describe('shared > helpers', () => {
       expect(value).to.equal(255)
     })
 
+    it('optionally returns a value no greater than an inclusive maximum', () => {
+      mathRandom.returns(1 - 1 / Number.MAX_SAFE_INTEGER)
+      const value = mathRandomUint32(1, 6, true)
+      expect(value).to.equal(6)
+    })
+
+    it('optionally returns a value no less than the minimum with an inclusive maximum', () => {
+      mathRandom.returns(0)
+      const value = mathRandomUint32(1, 6, true)
+      expect(value).to.equal(1)
+    })
+
+    it(`defaults an inclusive maximum to ${MAX_SAFE_UINT32_INCLUSIVE}`, () => {
+      mathRandom.returns(1 - 1 / Number.MAX_SAFE_INTEGER)
+      const value = mathRandomUint32(123, undefined, true)
+      expect(value).to.equal(MAX_SAFE_UINT32_INCLUSIVE)
+    })
+
+    it('rejects an inclusive maximum beyond the unsigned 32-bit integers', () => {
+      expect(() => mathRandomUint32(0, MAX_SAFE_UINT32_EXCLUSIVE, true)).to.throw(
+        `Maximum value must be at most ${MAX_SAFE_UINT32_INCLUSIVE}.`
+      )
+    })
+
     it('returns 32-bit unsigned integers within a given range', () => {
       mathRandom.restore()
       const {min, max} = iterateForMinAndMax(() => mathRandomUint32(123, 256), 100)
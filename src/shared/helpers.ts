@@ -1,5 +1,9 @@
 import {assertSafeRangeUint32} from './assertions'
-import {MAX_SAFE_UINT32_EXCLUSIVE, MIN_SAFE_UINT32_INCLUSIVE} from './constants'
+import {
+  MAX_SAFE_UINT32_EXCLUSIVE,
+  MAX_SAFE_UINT32_INCLUSIVE,
+  MIN_SAFE_UINT32_INCLUSIVE
+} from './constants'
 import {WebCrypto} from './types'
 
 export function getRandomBytes(length: number, crypto: WebCrypto): Uint8Array {
@@ -10,12 +14,15 @@ export function getRandomBytes(length: number, crypto: WebCrypto): Uint8Array {
 
 export function mathRandomUint32(
   minInclusive: number = MIN_SAFE_UINT32_INCLUSIVE,
-  maxExclusive: number = MAX_SAFE_UINT32_EXCLUSIVE
+  max?: number,
+  inclusive: boolean = false
 ): number {
-  assertSafeRangeUint32(minInclusive, maxExclusive)
+  const maxValue = max ?? (inclusive ? MAX_SAFE_UINT32_INCLUSIVE : MAX_SAFE_UINT32_EXCLUSIVE)
+
+  assertSafeRangeUint32(minInclusive, maxValue, inclusive)
 
   const minInt = Math.floor(minInclusive)
-  const maxInt = Math.floor(maxExclusive)
+  const maxInt = Math.floor(maxValue) + (inclusive ? 1 : 0)
 
   return Math.floor(Math.random() * (maxInt - minInt)) + minInt
 }
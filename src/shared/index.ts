@@ -1,5 +1,6 @@
 export * from './assertions'
 export * from './constants'
+export * from './hashing'
 export * from './helpers'
 export * from './transformation'
 export * from './types'
@@ -2,9 +2,45 @@ import {expect} from 'chai'
 
 import {getPermutations, iterateForMinAndMax} from '../../spec-support'
 import {MAX_SAFE_UINT32_INCLUSIVE, MIN_SAFE_UINT32_INCLUSIVE} from '../constants'
-import {uint8ArrayToUint32, uint32ToUint8Array} from './byte-arrays'
+import {
+  base64ToUint8Array,
+  uint8ArrayToBase64,
+  uint8ArrayToUint32,
+  uint32ToUint8Array
+} from './byte-arrays'
 
 describe('shared > transformation > byte arrays', () => {
+  describe('.base64ToUint8Array()', () => {
+    it('decodes each group of 4 characters into 3 bytes', () => {
+      expect(Array.from(base64ToUint8Array('TWFu'))).to.deep.equal([77, 97, 110])
+    })
+
+    it('decodes a final group with one padding character into 2 bytes', () => {
+      expect(Array.from(base64ToUint8Array('TWE='))).to.deep.equal([77, 97])
+    })
+
+    it('decodes a final group with two padding characters into 1 byte', () => {
+      expect(Array.from(base64ToUint8Array('TQ=='))).to.deep.equal([77])
+    })
+
+    it('returns an empty array for empty text', () => {
+      expect(Array.from(base64ToUint8Array(''))).to.deep.equal([])
+    })
+
+    it('is the inverse of .uint8ArrayToBase64()', () => {
+      const byteArray = Uint8Array.from({length: 256}, (_, index) => index)
+      expect(base64ToUint8Array(uint8ArrayToBase64(byteArray))).to.deep.equal(byteArray)
+    })
+
+    it('rejects characters outside of the base64 alphabet', () => {
+      expect(() => base64ToUint8Array('TW-u')).to.throw('Text must be base64-encoded.')
+    })
+
+    it('rejects text which is not a multiple of 4 characters', () => {
+      expect(() => base64ToUint8Array('TWF')).to.throw('Text must be base64-encoded.')
+    })
+  })
+
   describe('.uint8ArrayToUint32()', () => {
     it('returns an unsigned 32-bit integer', () => {
       const byteArray = Uint8Array.from([128, 128, 128, 128])
@@ -103,4 +139,28 @@ describe('shared > transformation > byte arrays', () => {
       expect(uint32ToUint8Array(MAX_SAFE_UINT32_INCLUSIVE)).to.deep.equal(byteArray)
     })
   })
+
+  describe('.uint8ArrayToBase64()', () => {
+    it('encodes each group of 3 bytes as 4 characters', () => {
+      expect(uint8ArrayToBase64(Uint8Array.from([77, 97, 110]))).to.equal('TWFu')
+    })
+
+    it('pads a final group of 2 bytes with one padding character', () => {
+      expect(uint8ArrayToBase64(Uint8Array.from([77, 97]))).to.equal('TWE=')
+    })
+
+    it('pads a final group of 1 byte with two padding characters', () => {
+      expect(uint8ArrayToBase64(Uint8Array.from([77]))).to.equal('TQ==')
+    })
+
+    it('returns empty text for an empty array', () => {
+      expect(uint8ArrayToBase64(new Uint8Array(0))).to.equal('')
+    })
+
+    it('uses the full base64 alphabet', () => {
+      const byteArray = Uint8Array.from([0, 16, 131, 16, 81, 135, 32, 146, 139, 48, 211, 143])
+      expect(uint8ArrayToBase64(byteArray)).to.equal('ABCDEFGHIJKLMNOP')
+      expect(uint8ArrayToBase64(Uint8Array.from([251, 239, 255]))).to.equal('++//')
+    })
+  })
 })
@@ -1,3 +1,56 @@
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
+
+export function base64ToUint8Array(base64: string): Uint8Array {
+  /*
+   * Perform the exact inverse of `uint8ArrayToBase64`. Each character holds 6
+   * bits, and padding characters mark the unused bits of a final group.
+   */
+
+  if (!/^[A-Za-z0-9+/]*={0,2}$/.test(base64) || base64.length % 4 !== 0) {
+    throw new Error('Text must be base64-encoded.')
+  }
+
+  const characters = base64.replace(/=+$/, '')
+  const bytes = new Uint8Array(Math.floor((characters.length * 6) / 8))
+  let buffer = 0
+  let bits = 0
+  let index = 0
+
+  for (const character of characters) {
+    buffer = (buffer << 6) | BASE64_ALPHABET.indexOf(character)
+    bits += 6
+
+    if (bits >= 8) {
+      bits -= 8
+      bytes[index++] = (buffer >>> bits) & 255
+    }
+  }
+
+  return bytes
+}
+
+export function uint8ArrayToBase64(byteArray: Uint8Array): string {
+  /*
+   * Encode each group of 3 bytes as 4 characters of 6 bits each. A final group
+   * of 1 or 2 bytes is padded with `=` characters.
+   *
+   *   [0b01001101, 0b01100001] => 'TWE='
+   */
+
+  let base64 = ''
+
+  for (let i = 0; i < byteArray.length; i += 3) {
+    const group = (byteArray[i] << 16) | ((byteArray[i + 1] ?? 0) << 8) | (byteArray[i + 2] ?? 0)
+    const characterCount = Math.min(byteArray.length - i, 3) + 1
+
+    for (let j = 0; j < 4; j++) {
+      base64 += j < characterCount ? BASE64_ALPHABET[(group >>> (18 - 6 * j)) & 63] : '='
+    }
+  }
+
+  return base64
+}
+
 export function uint8ArrayToUint32(byteArray: Uint8Array): number {
   /*
    * The order of the given bytes will be interpreted as most-significant to
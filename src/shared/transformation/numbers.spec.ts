@@ -1,10 +1,16 @@
 import {expect} from 'chai'
 
 import {
+  MAX_SAFE_FLOAT32_INCLUSIVE,
   MAX_SAFE_INT32_INCLUSIVE,
+  MAX_SAFE_INT64_INCLUSIVE,
+  MAX_SAFE_UINT24_INCLUSIVE,
   MAX_SAFE_UINT32_INCLUSIVE,
+  MAX_SAFE_UINT53_INCLUSIVE,
   MIN_SAFE_INT32_INCLUSIVE,
+  MIN_SAFE_INT64_INCLUSIVE,
   MIN_SAFE_UINT32_INCLUSIVE,
+  ONE_BIT_AS_FLOAT64,
   ONE_BIT_AS_FRACT32
 } from '../constants'
 import {
@@ -13,8 +19,14 @@ import {
   bitwiseFractToFract32,
   bitwiseInt32ToFract32,
   bitwiseInt32ToUint32,
+  bitwiseUint24ToFloat32,
+  bitwiseUint32PairToUint53,
+  bitwiseUint32PairToUint64,
   bitwiseUint32ToFract32,
-  bitwiseUint32ToInt32
+  bitwiseUint32ToInt32,
+  bitwiseUint53ToFloat64,
+  bitwiseUint64ToInt64,
+  multiplyUint32ToUint32Pair
 } from './numbers'
 
 describe('shared > transformation > numbers', () => {
@@ -112,6 +124,57 @@ describe('shared > transformation > numbers', () => {
     })
   })
 
+  describe('.bitwiseUint24ToFloat32()', () => {
+    it('returns a 24-bit decimal fraction', () => {
+      const value = bitwiseUint24ToFloat32(0.625 * 2 ** 24)
+      expect(value).to.equal(0.625)
+    })
+
+    it(`can return the maximum 24-bit decimal fraction (${MAX_SAFE_FLOAT32_INCLUSIVE})`, () => {
+      const value = bitwiseUint24ToFloat32(MAX_SAFE_UINT24_INCLUSIVE)
+      expect(value).to.equal(MAX_SAFE_FLOAT32_INCLUSIVE)
+    })
+
+    it('returns a value which is exactly representable as a 32-bit float', () => {
+      const value = bitwiseUint24ToFloat32(MAX_SAFE_UINT24_INCLUSIVE)
+      expect(Math.fround(value)).to.equal(value)
+    })
+  })
+
+  describe('.bitwiseUint32PairToUint53()', () => {
+    it('uses the 27 most-significant bits of the first value as the high bits', () => {
+      const value = bitwiseUint32PairToUint53(2684354560, 0)
+      expect(value).to.equal(0.625 * 2 ** 53)
+    })
+
+    it('uses the 26 most-significant bits of the second value as the low bits', () => {
+      const value = bitwiseUint32PairToUint53(0, 2684354560)
+      expect(value).to.equal(0.625 * 2 ** 26)
+    })
+
+    it(`can return the maximum, safe, unsigned 53-bit integer (${MAX_SAFE_UINT53_INCLUSIVE})`, () => {
+      const value = bitwiseUint32PairToUint53(MAX_SAFE_UINT32_INCLUSIVE, MAX_SAFE_UINT32_INCLUSIVE)
+      expect(value).to.equal(MAX_SAFE_UINT53_INCLUSIVE)
+    })
+  })
+
+  describe('.bitwiseUint32PairToUint64()', () => {
+    it('uses the first value as the high bits', () => {
+      const value = bitwiseUint32PairToUint64(2684354560, 0)
+      expect(value).to.equal(2684354560n << 32n)
+    })
+
+    it('uses the second value as the low bits', () => {
+      const value = bitwiseUint32PairToUint64(0, 2684354560)
+      expect(value).to.equal(2684354560n)
+    })
+
+    it('treats signed 32-bit integers as unsigned', () => {
+      const value = bitwiseUint32PairToUint64(-1, -1)
+      expect(value).to.equal(2n ** 64n - 1n)
+    })
+  })
+
   describe('.bitwiseUint32ToFract32()', () => {
     it('returns a decimal fraction', () => {
       const value = bitwiseUint32ToFract32(2684354560)
@@ -151,4 +214,57 @@ describe('shared > transformation > numbers', () => {
       expect(value).to.equal(MAX_SAFE_INT32_INCLUSIVE)
     })
   })
+  describe('.bitwiseUint53ToFloat64()', () => {
+    it('returns a decimal fraction', () => {
+      const value = bitwiseUint53ToFloat64(0.625 * 2 ** 53)
+      expect(value).to.equal(0.625)
+    })
+
+    it('returns a value less than 1', () => {
+      const value = bitwiseUint53ToFloat64(MAX_SAFE_UINT53_INCLUSIVE)
+      expect(value).to.equal(1 - ONE_BIT_AS_FLOAT64)
+    })
+
+    it('returns a value no less than 0', () => {
+      const value = bitwiseUint53ToFloat64(0)
+      expect(value).to.equal(0)
+    })
+  })
+
+  describe('.bitwiseUint64ToInt64()', () => {
+    it('returns a signed 64-bit integer', () => {
+      const value = bitwiseUint64ToInt64(2n ** 64n - 123n)
+      expect(value).to.equal(-123n)
+    })
+
+    it(`can return the minimum, safe, signed 64-bit integer (${MIN_SAFE_INT64_INCLUSIVE})`, () => {
+      const value = bitwiseUint64ToInt64(2n ** 63n)
+      expect(value).to.equal(MIN_SAFE_INT64_INCLUSIVE)
+    })
+
+    it(`can return the maximum, safe, signed 64-bit integer (${MAX_SAFE_INT64_INCLUSIVE})`, () => {
+      const value = bitwiseUint64ToInt64(2n ** 63n - 1n)
+      expect(value).to.equal(MAX_SAFE_INT64_INCLUSIVE)
+    })
+  })
+
+  describe('.multiplyUint32ToUint32Pair()', () => {
+    it('returns the high and low bits of the product', () => {
+      const [high, low] = multiplyUint32ToUint32Pair(0x12345678, 0x9abcdef0)
+      expect([high, low]).to.deep.equal([0x0b00ea4e, 0x242d2080])
+    })
+
+    it('returns the exact product of the largest unsigned 32-bit integers', () => {
+      const [high, low] = multiplyUint32ToUint32Pair(
+        MAX_SAFE_UINT32_INCLUSIVE,
+        MAX_SAFE_UINT32_INCLUSIVE
+      )
+      expect([high, low]).to.deep.equal([0xfffffffe, 0x00000001])
+    })
+
+    it('returns zero when either value is zero', () => {
+      const [high, low] = multiplyUint32ToUint32Pair(0, MAX_SAFE_UINT32_INCLUSIVE)
+      expect([high, low]).to.deep.equal([0, 0])
+    })
+  })
 })
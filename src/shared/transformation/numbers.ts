@@ -19,6 +19,19 @@ export function bitwiseInt32ToUint32(int32: number): number {
   return int32 >>> 0
 }
 
+export function bitwiseUint24ToFloat32(uint24: number): number {
+  return uint24 / 0x1000000
+}
+
+export function bitwiseUint32PairToUint53(highUint32: number, lowUint32: number): number {
+  // Keep the 27 most-significant bits of the first value and 26 of the second.
+  return (highUint32 >>> 5) * 0x4000000 + (lowUint32 >>> 6)
+}
+
+export function bitwiseUint32PairToUint64(highUint32: number, lowUint32: number): bigint {
+  return (BigInt(highUint32 >>> 0) << 32n) | BigInt(lowUint32 >>> 0)
+}
+
 export function bitwiseUint32ToFract32(uint32: number): number {
   return uint32 / 0x100000000
 }
@@ -26,3 +39,27 @@ export function bitwiseUint32ToFract32(uint32: number): number {
 export function bitwiseUint32ToInt32(uint32: number): number {
   return uint32 | 0
 }
+
+export function bitwiseUint53ToFloat64(uint53: number): number {
+  return uint53 / 0x20000000000000
+}
+
+export function bitwiseUint64ToInt64(uint64: bigint): bigint {
+  return BigInt.asIntN(64, uint64)
+}
+
+export function multiplyUint32ToUint32Pair(a: number, b: number): [number, number] {
+  /*
+   * Return the full 64-bit product as high and low 32-bit values. Each value
+   * is split into 16-bit halves, so that every partial product is exact.
+   */
+  const aHigh = a >>> 16
+  const aLow = a & 0xffff
+  const bHigh = b >>> 16
+  const bLow = b & 0xffff
+
+  const middle = aHigh * bLow + aLow * bHigh + ((aLow * bLow) >>> 16)
+  const high = aHigh * bHigh + Math.floor(middle / 0x10000)
+
+  return [high >>> 0, Math.imul(a, b) >>> 0]
+}
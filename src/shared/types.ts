@@ -1,3 +1,8 @@
 export type Math = Pick<globalThis.Math, 'random'>
 
 export type WebCrypto = Pick<Crypto, 'getRandomValues'>
+
+export type NodeCrypto = {
+  randomFillSync(buffer: Uint8Array): Uint8Array
+  webcrypto?: WebCrypto
+}
@@ -1,3 +1,5 @@
+import {toWebCrypto} from '../numbers/secure-generation/node-crypto-number-generator'
+import {setFallbackCrypto} from '../numbers/secure-generation/secure-source'
 import {WebCrypto} from '../shared'
 
 export class WebCryptoDouble implements WebCrypto {
@@ -25,3 +27,35 @@ export class WebCryptoDouble implements WebCrypto {
     this.valuesSequence.push(values)
   }
 }
+
+export function replaceGlobalCrypto(crypto: WebCrypto | undefined): () => void {
+  /*
+   * Newer versions of Node.js define `crypto` as a global getter, which must
+   * be redefined rather than assigned. Returns a function which restores it.
+   */
+  const descriptor = Object.getOwnPropertyDescriptor(globalThis, 'crypto')
+
+  Object.defineProperty(globalThis, 'crypto', {configurable: true, value: crypto, writable: true})
+
+  return () => {
+    if (descriptor) {
+      Object.defineProperty(globalThis, 'crypto', descriptor)
+    } else {
+      delete (globalThis as {crypto?: WebCrypto}).crypto
+    }
+  }
+}
+
+export function replaceFallbackCrypto(crypto: WebCrypto | undefined): () => void {
+  // Replaces any substitute registered by an entry point, such as `node`.
+  const previousCrypto = setFallbackCrypto(crypto)
+
+  return () => {
+    setFallbackCrypto(previousCrypto)
+  }
+}
+
+export function loadRealCrypto(): WebCrypto {
+  // Versions of Node.js before 19 do not define `crypto` as a global.
+  return globalThis.crypto ?? toWebCrypto()
+}